@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { AgentId, Message, MessageType, CanvasNode, CanvasEdge, HandleSide, NodeType, Workspace, CanvasFile, ImageConfig, VideoConfig } from './types';
+import { AgentId, Message, MessageType, CanvasNode, CanvasEdge, HandleSide, NodeType, Workspace, WorkspaceBudget, CanvasFile, ImageConfig, VideoConfig, Job, GenerationRecord, VideoOperation, RunOutput, NotebookCell } from './types';
 import { AGENTS } from './constants';
 import InfiniteCanvas from './components/InfiniteCanvas';
 import OmniBar from './components/OmniBar';
@@ -8,13 +8,53 @@ import ChatOverlay from './components/ChatOverlay';
 import StatusIsland from './components/StatusIsland';
 import ControlPanel from './components/ControlPanel';
 import WorkspacePanel from './components/WorkspacePanel';
+import UsagePanel from './components/UsagePanel';
+import RevisionPanel from './components/RevisionPanel';
+import EditReviewPanel from './components/EditReviewPanel';
 import LoginScreen from './components/LoginScreen';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { AI } from './services/ai';
-import { ImageOptions, VideoOptions } from './services/ai/types';
+import { ImageOptions, VideoOptions, StreamEvent, UICommand, RouterResult } from './services/ai/types';
+import { isAbortError, createAbortError } from './services/ai/utils/abort';
+import { Usage, addUsage, checkBudget } from './services/ai/usage';
+import { globalLimiter, PRIORITY } from './services/ai/utils/rateLimiter';
+import { Jobs, JobContext, isJobActive } from './services/jobManager';
+import { buildNodeContext, DEFAULT_CONTEXT_DEPTH } from './services/contextBuilder';
+import { applyUICommands } from './services/uiCommands';
+import { Media, isStoredMedia } from './services/mediaStore';
+import { MaskedEdit } from './services/imageMask';
+import { changesContent, recordRevision, restoreRevision } from './services/revisions';
+import { EditResult, parseCodeEdits, applyCodeEdits, describeFailure, rebaseProposal } from './services/codeEdits';
+import { FileStreamParser, FileStreamEvent } from './services/fileStream';
+import { ProviderRegistryState } from './services/ai/registry';
+import { PreviewLogEntry } from './services/previewRuntime';
+import { buildFixPrompt, describeAttempt, nextFixStep } from './services/autoFix';
+import { outputText } from './services/codeRunner';
+import { applyNotebookEdits, createCell, notebookFromIpynb, parseNotebookEdits } from './services/notebook';
 import { useAuth } from '@operator/identify/react';
 import { ensureFolderPath, uploadToStorage, listProjects, createProject, updateProject, deleteProject } from '@operator/identify';
 
+/**
+ * Nodes as saved by a previous page load: object URLs from that session are dead, and media still
+ * 'loading' without a resumable render will never finish. Both come back as empty, cancelled nodes.
+ */
+const reviveNodes = (nodes: CanvasNode[]): CanvasNode[] => nodes.map(n => {
+    const dead = n.content?.startsWith('blob:') || (n.content?.startsWith('loading://') && !n.videoOperation);
+    // An auto-fix request doesn't survive the reload either, and neither do running notebook cells
+    const autoFix = n.autoFix?.status === 'fixing' ? { ...n.autoFix, status: undefined } : n.autoFix;
+    const cells = n.cells?.map(c => c.execution?.status === 'running' ? { ...c, execution: { ...c.execution, status: 'stopped' as const } } : c);
+    return dead ? { ...n, content: '', generationStatus: 'cancelled', autoFix, cells } : { ...n, autoFix, cells };
+});
+
+// Stored media is cleaned up once the state has been still for a while
+const MEDIA_SWEEP_DELAY_MS = 30000;
+
+interface RunOptions {
+    route?: RouterResult;
+    context?: string;
+    applyEdits?: boolean;
+}
+
 function AppContent() {
   const { user, isGuest, isLoading: isAuthLoading } = useAuth();
 
@@ -43,7 +83,7 @@ function AppContent() {
           if (saved) {
               const parsed = JSON.parse(saved);
               if (Array.isArray(parsed) && parsed.length > 0) {
-                  return parsed;
+                  return parsed.map((ws: Workspace) => ({ ...ws, nodes: reviveNodes(ws.nodes || []) }));
               }
           }
       } catch (e) {
@@ -123,7 +163,8 @@ _
   const [edges, setEdges] = useState<CanvasEdge[]>(activeWorkspace.edges);
   const [messages, setMessages] = useState<Message[]>(activeWorkspace.messages || []); 
   const [activeNodeId, setActiveNodeId] = useState<string | null>(null);
-  const [isThinking, setIsThinking] = useState(false);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [providerState, setProviderState] = useState<ProviderRegistryState>(() => AI.providers.getState());
   const [statusState, setStatusState] = useState<'idle' | 'thinking' | 'working' | 'listening' | 'routing'>('idle');
   const [statusMessage, setStatusMessage] = useState('');
   
@@ -131,11 +172,56 @@ _
   const [showChat, setShowChat] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [snapToGrid, setSnapToGrid] = useState(false);
+  const [contextDepth, setContextDepth] = useState(DEFAULT_CONTEXT_DEPTH);
   
   const [isControlPanelOpen, setIsControlPanelOpen] = useState(false);
+  const [usageWorkspaceId, setUsageWorkspaceId] = useState<string | null>(null);
+  const [revisionNodeId, setRevisionNodeId] = useState<string | null>(null);
+  const [reviewNodeId, setReviewNodeId] = useState<string | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Latest canvas state for long-running tasks (their closures outlive several renders)
+  const nodesRef = useRef(nodes);
+  nodesRef.current = nodes;
+  const edgesRef = useRef(edges);
+  edgesRef.current = edges;
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const activeNodeIdRef = useRef(activeNodeId);
+  activeNodeIdRef.current = activeNodeId;
+  const workspacesRef = useRef(workspaces);
+  workspacesRef.current = workspaces;
+  const activeWorkspaceIdRef = useRef(activeWorkspaceId);
+  activeWorkspaceIdRef.current = activeWorkspaceId;
+
+  // Viewport jump requested by an agent (focus_node)
+  const [focusRequest, setFocusRequest] = useState<{ nodeId: string; zoom?: number; nonce: number } | null>(null);
+
+  // Background task queue
+  useEffect(() => Jobs.subscribe(setJobs), []);
+
+  // Provider selection + health (probe once on startup so failover starts from known state)
+  useEffect(() => {
+    const unsubscribe = AI.providers.subscribe(setProviderState);
+    AI.providers.checkHealth();
+    return unsubscribe;
+  }, []);
+
+  // Token / media accounting: calls made outside a job are billed to whichever workspace is open
+  useEffect(() => Usage.subscribe(entry => {
+      const workspaceId = entry.workspaceId || activeWorkspaceIdRef.current;
+      setWorkspaces(prev => prev.map(ws => ws.id === workspaceId ? { ...ws, usage: addUsage(ws.usage, entry) } : ws));
+  }), []);
+
+  // Agent conversation for this user + workspace (server-side memory on Weaver)
+  const userId = user?.id != null ? String(user.id) : undefined;
+  const sessionFor = (ws: Workspace) => ({ userId, workspaceId: ws.id, epoch: ws.sessionEpoch || 0 });
+  useEffect(() => {
+      AI.setSession({ userId, workspaceId: activeWorkspace.id, epoch: activeWorkspace.sessionEpoch || 0 });
+  }, [userId, activeWorkspace.id, activeWorkspace.sessionEpoch]);
+  const isThinking = jobs.some(isJobActive);
+
   // --- History State ---
   const [history, setHistory] = useState<{nodes: CanvasNode[], edges: CanvasEdge[]}[]>([]);
   const [historyIndex, setHistoryIndex] = useState(0);
@@ -160,10 +246,16 @@ _
   }, [isDarkMode]);
 
   // --- History Logic ---
+  // Read through a ref so agent tasks that outlive a render don't rewind history
+  const historyRef = useRef({ history, historyIndex });
+  historyRef.current = { history, historyIndex };
+
   const addToHistory = (newNodes: CanvasNode[], newEdges: CanvasEdge[]) => {
-      const newHistory = history.slice(0, historyIndex + 1);
+      const current = historyRef.current;
+      const newHistory = current.history.slice(0, current.historyIndex + 1);
       newHistory.push({ nodes: newNodes, edges: newEdges });
       if (newHistory.length > 50) newHistory.shift(); // Limit history depth
+      historyRef.current = { history: newHistory, historyIndex: newHistory.length - 1 };
       setHistory(newHistory);
       setHistoryIndex(newHistory.length - 1);
   };
@@ -220,11 +312,14 @@ _
                   const mapped: Workspace[] = projects.map((p: any) => ({
                       id: String(p.id),
                       name: p.name,
-                      nodes: p.settings?.nodes || [],
+                      nodes: reviveNodes(p.settings?.nodes || []),
                       edges: p.settings?.edges || [],
                       messages: p.settings?.messages || [],
                       lastModified: new Date(p.updatedAt || p.createdAt).getTime(),
                       cloudId: p.id,
+                      usage: p.settings?.usage,
+                      budget: p.settings?.budget,
+                      sessionEpoch: p.settings?.sessionEpoch,
                   }));
                   setWorkspaces(mapped);
                   // Switch to first if current not found
@@ -247,10 +342,11 @@ _
 
   // --- Workspace Handlers ---
 
+  // Reads the refs: callers (agent commands, the switch after its delay) may run before a re-render
   const saveCurrentWorkspaceState = () => {
       setWorkspaces(prev => prev.map(ws => 
-          ws.id === activeWorkspaceId 
-              ? { ...ws, nodes: nodes, edges: edges, messages: messages, lastModified: Date.now() }
+          ws.id === activeWorkspaceIdRef.current 
+              ? { ...ws, nodes: nodesRef.current, edges: edgesRef.current, messages: messagesRef.current, lastModified: Date.now() }
               : ws
       ));
   };
@@ -286,7 +382,7 @@ _
           try {
               await updateProject(ws.cloudId!, {
                   name: ws.name,
-                  settings: { nodes: ws.nodes, edges: ws.edges, messages: ws.messages },
+                  settings: { nodes: ws.nodes, edges: ws.edges, messages: ws.messages, usage: ws.usage, budget: ws.budget, sessionEpoch: ws.sessionEpoch },
               });
           } catch (e) {
               console.warn('API save failed:', e);
@@ -318,6 +414,8 @@ _
       setHistoryIndex(0);
 
       setActiveWorkspaceId(id);
+      // Results that arrive before the re-render must go to the stored copy of the workspace just left
+      activeWorkspaceIdRef.current = id;
       setIsWorkspacePanelOpen(false);
 
       setTimeout(() => {
@@ -327,23 +425,29 @@ _
       }, 100);
   };
 
-  const handleCreateWorkspace = async () => {
+  // Creates an empty canvas, or a copy of `source` (duplicate)
+  const createWorkspace = async (source?: Workspace) => {
       setIsSwitchingWorkspace(true);
       setStatusState('working');
-      setStatusMessage('Creating Canvas...');
+      setStatusMessage(source ? 'Duplicating Canvas...' : 'Creating Canvas...');
 
       await new Promise(resolve => setTimeout(resolve, 300));
       
       saveCurrentWorkspaceState();
       
-      const newName = `Canvas ${workspaces.length + 1}`;
+      const newName = source ? `${source.name} (Copy)` : `Canvas ${workspaces.length + 1}`;
+      const content = {
+          nodes: source?.nodes || [],
+          edges: source?.edges || [],
+          messages: source?.messages || []
+      };
       let newId = `ws-${Date.now()}`;
       let cloudId: number | undefined;
 
       // Create in API if signed in
       if (user) {
           try {
-              const res = await createProject(newName, { settings: { nodes: [], edges: [], messages: [] } });
+              const res = await createProject(newName, { settings: content });
               const project = res.project || res;
               if (project?.id) {
                   newId = String(project.id);
@@ -357,20 +461,23 @@ _
       const newWorkspace: Workspace = {
           id: newId,
           name: newName,
-          nodes: [],
-          edges: [],
-          messages: [],
+          ...content,
           lastModified: Date.now(),
           cloudId,
+          // Usage starts from zero; the budget carries over
+          budget: source?.budget,
       };
 
+      // A duplicate continues the same agent conversation from here on, independently
+      if (source) await AI.forkSession(sessionFor(source), sessionFor(newWorkspace));
+
       setWorkspaces(prev => [...prev, newWorkspace]);
-      setNodes([]);
-      setEdges([]);
-      setMessages([]);
+      setNodes(content.nodes);
+      setEdges(content.edges);
+      setMessages(content.messages);
 
       // Reset history
-      setHistory([{ nodes: [], edges: [] }]);
+      setHistory([{ nodes: content.nodes, edges: content.edges }]);
       setHistoryIndex(0);
 
       setActiveWorkspaceId(newId);
@@ -383,6 +490,15 @@ _
       }, 100);
   };
 
+  const handleCreateWorkspace = () => createWorkspace();
+
+  const handleDuplicateWorkspace = (id: string) => {
+      const ws = workspaces.find(w => w.id === id);
+      if (!ws) return;
+      // The active canvas' latest state lives in component state, not yet in `workspaces`
+      createWorkspace(id === activeWorkspaceId ? { ...ws, nodes, edges, messages } : ws);
+  };
+
   const handleDeleteWorkspace = async (id: string) => {
       if (workspaces.length <= 1) return;
       
@@ -424,6 +540,10 @@ _
       }
   };
 
+  const handleBudgetChange = (id: string, budget: WorkspaceBudget) => {
+      setWorkspaces(prev => prev.map(w => w.id === id ? { ...w, budget } : w));
+  };
+
   const handleRenameWorkspace = (id: string, name: string) => {
       setWorkspaces(prev => prev.map(w => w.id === id ? { ...w, name } : w));
       // Sync rename to API
@@ -450,7 +570,8 @@ _
   };
 
   const handleNodeUpdate = (id: string, updates: Partial<CanvasNode>) => {
-      const newNodes = nodes.map(n => n.id === id ? { ...n, ...updates } : n);
+      // Manual content edits are attributed to the user (one revision per editing session)
+      const newNodes = nodes.map(n => n.id === id ? { ...(changesContent(n, updates) ? recordRevision(n, 'user') : n), ...updates } : n);
       setNodes(newNodes);
       
       // Only record history for geometric changes (resize) to prevent typing lag
@@ -490,6 +611,338 @@ _
       addToHistory(newNodes, edges);
   };
 
+  /**
+   * Update a node of a given workspace: on the canvas if that workspace is open, otherwise in its
+   * stored copy. Long jobs (video renders) finish after the user may have switched workspaces.
+   */
+  const updateWorkspaceNode = (workspaceId: string, nodeId: string, update: (node: CanvasNode) => CanvasNode) => {
+      if (workspaceId === activeWorkspaceIdRef.current) {
+          setNodes(prev => prev.map(n => n.id === nodeId ? update(n) : n));
+          return;
+      }
+      setWorkspaces(prev => prev.map(ws => ws.id === workspaceId
+          ? { ...ws, nodes: ws.nodes.map(n => n.id === nodeId ? update(n) : n), lastModified: Date.now() }
+          : ws
+      ));
+  };
+
+  // Upload generated media once it is kept on the canvas (best effort, background lane)
+  const syncGeneratedMedia = async (nodeId: string, url: string, workspaceId = activeWorkspaceIdRef.current) => {
+      if (!user) return;
+      try {
+          const currentWs = workspacesRef.current.find(w => w.id === workspaceId);
+          const folderParts = currentWs
+              ? ['_weaver-online', 'projects', currentWs.name, 'generated']
+              : ['_weaver-online', 'unsorted'];
+          const blob = await (await fetch(url)).blob();
+          const folderId = await ensureFolderPath(folderParts);
+          const isVideo = blob.type.startsWith('video/');
+          const file = new File([blob], isVideo ? `video-${Date.now()}.mp4` : `image-${Date.now()}.png`, { type: blob.type });
+          const uploaded = await globalLimiter.add<any>(() => uploadToStorage(file, { parentId: folderId }), PRIORITY.BACKGROUND);
+          const cloudId = (uploaded?.fileEntry || uploaded)?.id;
+          if (cloudId) updateWorkspaceNode(workspaceId, nodeId, n => ({ ...n, cloudId }));
+      } catch (e) {
+          console.warn('Cloud upload failed:', e);
+      }
+  };
+
+  // Nodes whose video render is being polled in this session
+  const pollingVideoNodes = useRef(new Set<string>());
+
+  /**
+   * Pick up a render started before a reload (or while another workspace was open) and poll it to
+   * completion as its own job. Stopping the job abandons the render.
+   */
+  const resumeVideoRender = (nodeId: string, operation: VideoOperation) => {
+      pollingVideoNodes.current.add(nodeId);
+      const workspaceId = activeWorkspaceIdRef.current;
+      const title = nodesRef.current.find(n => n.id === nodeId)?.title || 'Video';
+
+      Jobs.run(`Resume render: ${title}`, async job => {
+          Usage.scope(job.signal, { workspaceId });
+          job.update({ status: 'running', message: 'Rendering Video...', progress: 0.5 });
+          // Polling only waits on the provider; don't hold a task slot for it
+          job.release();
+          try {
+              const url = await AI.resumeVideo(operation, job.signal);
+              // Object URLs die with the page; keep the finished video in IndexedDB
+              const content = url.startsWith('blob:') ? await Media.put(await (await fetch(url)).blob()) : url;
+              updateWorkspaceNode(workspaceId, nodeId, n => ({
+                  ...n,
+                  content,
+                  videoOperation: undefined,
+                  generationStatus: undefined,
+                  generationHistory: [...(n.generationHistory || []), { timestamp: Date.now(), action: 'generate', candidates: 1 }]
+              }));
+              syncGeneratedMedia(nodeId, url, workspaceId);
+          } catch (e) {
+              updateWorkspaceNode(workspaceId, nodeId, n => ({
+                  ...n, content: n.content.startsWith('loading://') ? '' : n.content, videoOperation: undefined, generationStatus: 'cancelled'
+              }));
+              throw e;
+          } finally {
+              pollingVideoNodes.current.delete(nodeId);
+          }
+      });
+  };
+
+  useEffect(() => {
+      nodes.forEach(n => {
+          if (n.videoOperation && !pollingVideoNodes.current.has(n.id)) resumeVideoRender(n.id, n.videoOperation);
+      });
+  }, [nodes]);
+
+  /**
+   * Resolve an image node's variant gallery: keep one candidate (`promote`), keep it and turn the
+   * others into sibling nodes (`spawn`), or drop them all (`discard`). Recorded in generationHistory.
+   */
+  const handleResolveCandidates = (id: string, action: 'promote' | 'spawn' | 'discard', index = 0) => {
+      const node = nodes.find(n => n.id === id);
+      if (!node?.candidates?.length) return;
+
+      const candidates = node.candidates;
+      const now = Date.now();
+      const record: GenerationRecord = { timestamp: now, action, candidates: candidates.length, chosen: action === 'discard' ? undefined : index };
+      let newNodes = nodes;
+      let newEdges = edges;
+
+      if (action === 'spawn') {
+          const maxZ = Math.max(...nodes.map(n => n.zIndex), 0);
+          const others = candidates.map((url, i) => ({ url, i })).filter(c => c.i !== index);
+          const siblings: CanvasNode[] = others.map((c, k) => ({
+              ...node,
+              id: `${now}-${k}`,
+              x: node.x + (node.width + 40) * (k + 1),
+              title: `${node.title} (${c.i + 1})`,
+              content: c.url,
+              candidates: undefined,
+              revisions: undefined,
+              cloudId: undefined,
+              cloudUrl: undefined,
+              zIndex: maxZ + 1 + k,
+              generationHistory: [...(node.generationHistory || []), { timestamp: now, action: 'promote', candidates: candidates.length, chosen: c.i }]
+          }));
+          record.spawnedNodeIds = siblings.map(s => s.id);
+          // Siblings hang off the same parents as the original
+          const incoming = edges.filter(e => e.toNode === id);
+          newEdges = [...edges, ...siblings.flatMap(s => incoming.map(e => ({ ...e, id: `${e.fromNode}-${e.fromSide}-${s.id}-${e.toSide}-${now}`, toNode: s.id })))];
+          newNodes = [...nodes, ...siblings];
+          siblings.forEach(s => syncGeneratedMedia(s.id, s.content));
+      }
+
+      newNodes = newNodes.map(n => n.id === id ? {
+          ...(action === 'discard' || !n.content ? n : recordRevision(n, 'user', `Picked variant ${index + 1} of ${candidates.length}`, now)),
+          content: action === 'discard' ? n.content : candidates[index],
+          cloudId: action === 'discard' ? n.cloudId : undefined,
+          candidates: undefined,
+          generationHistory: [...(n.generationHistory || []), record]
+      } : n);
+      if (action !== 'discard') syncGeneratedMedia(id, candidates[index]);
+
+      setNodes(newNodes);
+      setEdges(newEdges);
+      addToHistory(newNodes, newEdges);
+  };
+
+  /**
+   * Masked edit of an image node (inpaint / outpaint). The result becomes the node's new version;
+   * the image it replaces is kept in `revisions`. Outpainting keeps the node's width and grows its height
+   * to the new aspect ratio.
+   */
+  const handleEditImage = (nodeId: string, prompt: string, masked: MaskedEdit) => {
+      const node = nodesRef.current.find(n => n.id === nodeId);
+      if (!node) return;
+      const original = node.content;
+      const workspaceId = activeWorkspaceId;
+
+      Jobs.run(prompt, async job => {
+          const { signal } = job;
+          Usage.scope(signal, { workspaceId });
+
+          const workspace = workspacesRef.current.find(w => w.id === workspaceId);
+          const budgetWarning = checkBudget(workspace?.usage, workspace?.budget, { model: AGENTS[AgentId.IMAGE].model, images: 1, imageSize: '1K' });
+          if (budgetWarning && !window.confirm(`${budgetWarning}\n\nGenerate anyway?`)) {
+              throw createAbortError('Declined over budget');
+          }
+
+          job.update({ status: 'running', message: masked.edit.mode === 'inpaint' ? 'Inpainting...' : 'Outpainting...', progress: 0.3 });
+          setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, content: 'loading://image', generationStatus: undefined } : n));
+          try {
+              const [url] = await AI.generateImage(prompt, { aspectRatio: masked.aspectRatio, size: '1K', edit: masked.edit }, masked.image, signal);
+              const now = Date.now();
+              const newNodes = nodesRef.current.map(n => n.id === nodeId ? {
+                  ...recordRevision({ ...n, content: original }, AgentId.IMAGE, prompt, now),
+                  content: url,
+                  cloudId: undefined,
+                  height: masked.edit.mode === 'outpaint' ? Math.round(n.width * masked.height / masked.width) : n.height,
+                  generationHistory: [...(n.generationHistory || []), { timestamp: now, action: 'edit' as const, prompt }]
+              } : n);
+              setNodes(newNodes);
+              addToHistory(newNodes, edgesRef.current);
+              syncGeneratedMedia(nodeId, url);
+          } catch (e) {
+              const stopped = isAbortError(e) || signal.aborted;
+              setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, content: original, generationStatus: stopped ? 'cancelled' : n.generationStatus } : n));
+              if (!stopped) {
+                  setMessages(prev => [...prev, { id: Date.now().toString(), type: MessageType.SYSTEM, content: `Image edit failed: ${(e as any)?.message || e}`, timestamp: Date.now() }]);
+              }
+              throw e;
+          }
+      });
+  };
+
+  const handleRestoreRevision = async (nodeId: string, revisionId: string) => {
+      // Image snapshots moved to IndexedDB come back inline, like the node's other image content
+      const node = nodesRef.current.find(n => n.id === nodeId);
+      const stored = node?.type === 'image' ? node.revisions?.find(r => r.id === revisionId)?.content : undefined;
+      const content = isStoredMedia(stored) ? await Media.dataUrl(stored!) : undefined;
+      if (isStoredMedia(stored) && !content) {
+          alert('This version of the image is no longer stored on this device.');
+          return;
+      }
+
+      const newNodes = nodesRef.current.map(n => {
+          if (n.id !== nodeId) return n;
+          const restored = restoreRevision(n, revisionId);
+          return content ? { ...restored, content } : restored;
+      });
+      setNodes(newNodes);
+      addToHistory(newNodes, edgesRef.current);
+  };
+
+  // Image revisions are data URLs; keep them in IndexedDB instead of the workspace JSON, which has to fit in localStorage
+  const offloadingRevisions = useRef(new Set<string>());
+  useEffect(() => {
+      nodes.forEach(node => node.type === 'image' && node.revisions?.forEach(revision => {
+          if (!revision.content?.startsWith('data:') || offloadingRevisions.current.has(revision.id)) return;
+          offloadingRevisions.current.add(revision.id);
+          fetch(revision.content)
+              .then(res => res.blob())
+              .then(blob => Media.put(blob))
+              .then(ref => setNodes(prev => prev.map(n => n.id !== node.id ? n : {
+                  ...n,
+                  revisions: n.revisions?.map(r => r.id === revision.id && r.content === revision.content ? { ...r, content: ref } : r)
+              })))
+              .catch(e => console.warn('Failed to store image revision:', e))
+              .finally(() => offloadingRevisions.current.delete(revision.id));
+      }));
+  }, [nodes]);
+
+  // Delete stored media that no workspace, chat or undo step refers to any more
+  useEffect(() => {
+      const timer = setTimeout(() => {
+          const inUse = JSON.stringify([workspacesRef.current, nodesRef.current, messagesRef.current, history]);
+          Media.sweep(inUse).catch(e => console.warn('Failed to clean up stored media:', e));
+      }, MEDIA_SWEEP_DELAY_MS);
+      return () => clearTimeout(timer);
+  }, [workspaces, history]);
+
+  // Accept or reject an agent's proposed code edits. Accepting applies them to the files as they are
+  // now; if a file they change was edited since, they're refused instead of overwriting that edit.
+  const handleResolvePendingEdit = (nodeId: string, accept: boolean) => {
+      const node = nodesRef.current.find(n => n.id === nodeId);
+      if (!node?.pendingEdit) return;
+      const { files: proposed, base, changed, author, prompt } = node.pendingEdit;
+
+      let resolved: CanvasNode = { ...node, pendingEdit: undefined };
+      if (accept) {
+          const { files, conflicts } = rebaseProposal(base || node.files || {}, proposed, node.files || {});
+          if (conflicts.length > 0) {
+              alert(`${conflicts.join(', ')} changed since these edits were proposed. Reject them and ask again.`);
+              return;
+          }
+          const activeFile = node.activeFile && files[node.activeFile] ? node.activeFile : changed.find(f => files[f]) || Object.keys(files)[0];
+          resolved = { ...recordRevision(node, author, prompt), files, activeFile, pendingEdit: undefined };
+      }
+
+      const newNodes = nodesRef.current.map(n => n.id === nodeId ? resolved : n);
+      setNodes(newNodes);
+      addToHistory(newNodes, edgesRef.current);
+      setReviewNodeId(null);
+  };
+
+  /**
+   * A code node's preview finished loading (or reported new errors). With auto-fix on, errors go to
+   * CodeNest as an update whose edits are applied directly; the next run is checked the same way.
+   * `files` is what the preview ran, so runs of files that have since changed are ignored.
+   */
+  const handlePreviewSettled = (nodeId: string, files: CanvasNode['files'], errors: PreviewLogEntry[]) => {
+      const node = nodesRef.current.find(n => n.id === nodeId);
+      if (!node?.autoFix || node.files !== files || node.pendingEdit) return;
+      const fix = node.autoFix;
+      const step = nextFixStep(fix, errors);
+      if (!step) return;
+
+      const setFix = (patch: Partial<typeof fix>) => setNodes(prev => prev.map(n => n.id === nodeId && n.autoFix ? { ...n, autoFix: { ...n.autoFix, ...patch } } : n));
+      const log = (content: string) => setMessages(prev => [...prev, { id: `${Date.now()}-autofix`, type: MessageType.AGENT, agentId: AgentId.CODE, content, timestamp: Date.now() }]);
+
+      if (step === 'fixed') {
+          log(`:::LOG::: **Auto-fix**\n\n[[node:${nodeId}|${node.title}]] runs without errors after ${fix.attempts} attempt${fix.attempts === 1 ? '' : 's'}.`);
+          setFix({ attempts: 0, status: 'fixed' });
+          return;
+      }
+      if (step === 'give-up') {
+          log(`:::LOG::: **Auto-fix stopped**\n\n[[node:${nodeId}|${node.title}]] still fails after ${fix.maxAttempts} attempts. Fix it by hand or turn auto-fix off and on to try again.`);
+          setFix({ status: 'gave-up' });
+          return;
+      }
+
+      const attempt = fix.attempts + 1;
+      setFix({ attempts: attempt, status: 'fixing' });
+      log(describeAttempt(node, attempt, fix.maxAttempts, errors));
+      if (!showChat) setShowChat(true);
+
+      const prompt = buildFixPrompt(node, errors);
+      const context = buildNodeContext(nodesRef.current, edgesRef.current, nodeId, { model: AGENTS[AgentId.CODE].model, depth: contextDepth }).text;
+      const route: RouterResult = {
+          targetAgentId: AgentId.CODE,
+          reasoning: 'Auto-fix: the preview reported runtime errors.',
+          artifact: { operation: 'update', type: 'code', title: node.title, id: nodeId }
+      };
+      // The latest transcript, ending with the fix prompt (runAIProcessing treats the last entry as the prompt)
+      const history: Message[] = [...messagesRef.current, { id: `${Date.now()}-autofix-prompt`, type: MessageType.USER, content: prompt, timestamp: Date.now() }];
+      Jobs.run(`Auto-fix ${node.title} (${attempt}/${fix.maxAttempts})`, job => runAIProcessing(job, prompt, history, undefined, { route, context, applyEdits: true }))
+          .then(finished => setFix({ status: finished?.status === 'completed' ? undefined : 'gave-up' }));
+  };
+
+  /**
+   * Turn outputs of a code run into canvas nodes to the right of the code node: one image node per
+   * image, and one text node for the rest (text as code blocks, tables as Markdown tables).
+   */
+  const handleSpawnOutputs = (nodeId: string, outputs: RunOutput[]) => {
+      const node = nodes.find(n => n.id === nodeId);
+      if (!node || !outputs.length) return;
+
+      const now = Date.now();
+      const maxZ = Math.max(...nodes.map(n => n.zIndex), 0);
+      const text = outputs.filter(o => o.type !== 'image').map(o => o.type === 'table' ? outputText(o) : `\`\`\`\n${outputText(o).replace(/\n$/, '')}\n\`\`\``).join('\n\n');
+      const spawned: CanvasNode[] = [
+          ...(text ? [{ type: 'text' as NodeType, title: `${node.title} output`, content: text, width: 420, height: 300 }] : []),
+          ...outputs.flatMap(o => o.type === 'image' ? [{ type: 'image' as NodeType, title: `${node.title} plot`, content: o.url, width: 400, height: 300 }] : [])
+      ].map((n, i, all) => ({
+          ...n,
+          id: `${now}-${i}`,
+          x: node.x + node.width + 80,
+          y: node.y + all.slice(0, i).reduce((sum, prev) => sum + prev.height + 40, 0),
+          zIndex: maxZ + 1 + i
+      }));
+
+      const newNodes = [...nodes, ...spawned];
+      const newEdges = [...edges, ...spawned.map(n => ({ id: `${nodeId}-right-${n.id}-left-${now}`, fromNode: nodeId, fromSide: 'right' as HandleSide, toNode: n.id, toSide: 'left' as HandleSide }))];
+      setNodes(newNodes);
+      setEdges(newEdges);
+      addToHistory(newNodes, newEdges);
+      spawned.filter(n => n.type === 'image').forEach(n => syncGeneratedMedia(n.id, n.content));
+  };
+
+  /**
+   * Notebook cell changes (editing, run state and outputs). Runs finish asynchronously, so updates
+   * apply to the latest cells rather than a snapshot.
+   */
+  const handleUpdateCells = (nodeId: string, update: (cells: NotebookCell[]) => NotebookCell[]) => {
+      setNodes(prev => prev.map(n => n.id === nodeId && n.type === 'notebook' ? { ...n, cells: update(n.cells || []) } : n));
+  };
+
   const handleAddNode = (type: NodeType, x: number, y: number) => {
       const newNodeId = Date.now().toString();
       const maxZ = nodes.length > 0 ? Math.max(...nodes.map(n => n.zIndex)) : 0;
@@ -530,6 +983,12 @@ _
           newNode.content = ''; 
           newNode.width = 480;
           newNode.height = 270;
+      } else if (type === 'notebook') {
+          newNode.title = 'Notebook';
+          newNode.language = 'python';
+          newNode.cells = [createCell('markdown', '## Notebook\n\nShift+Enter runs a cell.'), createCell('code', 'print("Hello World")')];
+          newNode.width = 560;
+          newNode.height = 480;
       }
 
       const newNodes = [...nodes, newNode];
@@ -546,8 +1005,20 @@ _
     let content = '';
     let title = file.name;
     let language = '';
+    let cells: NotebookCell[] | undefined;
 
-    if (file.type.startsWith('image/')) {
+    if (file.name.toLowerCase().endsWith('.ipynb')) {
+        try {
+            const notebook = notebookFromIpynb(await file.text());
+            type = 'notebook';
+            cells = notebook.cells;
+            language = notebook.language;
+            title = file.name.replace(/\.ipynb$/i, '');
+        } catch (e: any) {
+            alert(`Could not import ${file.name}: ${e.message}`);
+            return;
+        }
+    } else if (file.type.startsWith('image/')) {
         type = 'image';
         content = await new Promise<string>((resolve) => {
             const reader = new FileReader();
@@ -561,7 +1032,7 @@ _
             reader.onload = (e) => resolve(e.target?.result as string);
             reader.readAsDataURL(file);
         });
-    } else if (file.type.startsWith('text/') || file.name.endsWith('.js') || file.name.endsWith('.ts') || file.name.endsWith('.html') || file.name.endsWith('.css') || file.name.endsWith('.json') || file.name.endsWith('.md')) {
+    } else if (file.type.startsWith('text/') || file.name.endsWith('.js') || file.name.endsWith('.ts') || file.name.endsWith('.html') || file.name.endsWith('.css') || file.name.endsWith('.json') || file.name.endsWith('.md') || file.name.endsWith('.py')) {
         const ext = file.name.split('.').pop()?.toLowerCase();
         if (['js', 'ts', 'jsx', 'tsx', 'html', 'css', 'json', 'py', 'java', 'c', 'cpp'].includes(ext || '')) {
             type = 'code';
@@ -609,15 +1080,16 @@ _
         type,
         x,
         y,
-        width: type === 'image' || type === 'video' ? 400 : 500,
-        height: type === 'image' || type === 'video' ? 300 : 400,
+        width: type === 'image' || type === 'video' ? 400 : type === 'notebook' ? 560 : 500,
+        height: type === 'image' || type === 'video' ? 300 : type === 'notebook' ? 480 : 400,
         title,
         content,
         zIndex: maxZ + 1,
         cloudId,
         language,
         files: type === 'code' ? { [file.name]: { name: file.name, content, language: language || 'txt' } } : undefined,
-        activeFile: type === 'code' ? file.name : undefined
+        activeFile: type === 'code' ? file.name : undefined,
+        cells
     };
 
     const newNodes = [...nodes, newNode];
@@ -671,62 +1143,48 @@ _
       addToHistory(nodes, newEdges);
   };
 
-  const executeUICommands = (commands: any[]) => {
-      console.log("DEBUG: executeUICommands called with:", commands);
-      if (!commands || commands.length === 0) return;
-      
-      commands.forEach(cmd => {
-          const { command, args } = cmd;
-          console.log("DEBUG: Executing UI Command:", command, args);
-          
-          const centerX = window.innerWidth / 2;
-          const centerY = window.innerHeight / 2;
-
-          switch (command) {
-              case 'create_node':
-                  const type = args.type || 'text';
-                  const newNodeId = Date.now().toString() + Math.random().toString(36).substr(2, 5);
-                  
-                  // Use functional update to avoid stale nodes length
-                  setNodes(prev => {
-                      const shift = (prev.length % 5) * 20;
-                      const maxZ = prev.length > 0 ? Math.max(...prev.map(n => n.zIndex)) : 0;
-                      
-                      const newNode: CanvasNode = {
-                          id: newNodeId,
-                          type: type as any,
-                          x: centerX - 250 + shift,
-                          y: centerY - 150 + shift,
-                          width: 500,
-                          height: 400,
-                          title: args.title || 'New Node',
-                          content: args.content || '',
-                          zIndex: maxZ + 1
-                      };
-                      return [...prev, newNode];
-                  });
-                  
-                  setActiveNodeId(newNodeId);
-                  break;
+  // Agent UI commands: validated and applied as one batch, recorded as a single undo step.
+  // Per-command results go back to the agent so it can chain on the IDs it just created.
+  const executeUICommands = (commands: UICommand[], { report = true, author = AgentId.NEST }: { report?: boolean; author?: AgentId } = {}) => {
+      if (!commands || commands.length === 0) return [];
+
+      const currentActiveId = activeNodeIdRef.current;
+      const { state, effects, results, changed } = applyUICommands(
+          { nodes: nodesRef.current, edges: edgesRef.current, activeNodeId: currentActiveId },
+          commands,
+          { origin: { x: window.innerWidth / 2, y: window.innerHeight / 2 }, workspaceIds: workspaces.map(w => w.id), author }
+      );
+
+      if (changed) {
+          // Update refs eagerly so a second batch in the same tick builds on this one
+          nodesRef.current = state.nodes;
+          edgesRef.current = state.edges;
+          setNodes(state.nodes);
+          setEdges(state.edges);
+          addToHistory(state.nodes, state.edges);
+      }
+      if (state.activeNodeId !== currentActiveId) {
+          activeNodeIdRef.current = state.activeNodeId;
+          setActiveNodeId(state.activeNodeId);
+      }
 
-              case 'update_node':
-                  if (args.id) {
-                      setNodes(prev => prev.map(n => n.id === args.id ? { ...n, ...args } : n));
-                  }
-                  break;
+      if (effects.focus) setFocusRequest({ ...effects.focus, nonce: Date.now() });
+      if (effects.renameWorkspace) handleRenameWorkspace(effects.renameWorkspace.id || activeWorkspaceId, effects.renameWorkspace.name);
+      if (effects.switchWorkspaceId) handleSwitchWorkspace(effects.switchWorkspaceId);
 
-              case 'delete_node':
-                  if (args.id) {
-                      handleNodeDelete(args.id);
-                  }
-                  break;
+      if (report) AI.reportUICommandResults(results);
 
-              case 'clear':
-                  setNodes([]);
-                  setEdges([]);
-                  break;
-          }
-      });
+      const errors = results.filter(res => !res.ok);
+      if (errors.length > 0) {
+          console.warn('Rejected UI commands:', errors);
+          setMessages(prev => [...prev, {
+              id: Date.now().toString() + Math.random().toString(36).substr(2, 5),
+              type: MessageType.SYSTEM,
+              content: `Rejected ${errors.length} UI command${errors.length > 1 ? 's' : ''}:\n` + errors.map(e => `- \`${e.command}\`: ${e.error}`).join('\n'),
+              timestamp: Date.now()
+          }]);
+      }
+      return results;
   };
 
   // Project Management (JSON)
@@ -798,68 +1256,15 @@ _
     setIsControlPanelOpen(false);
   };
 
-  // Computed Context for Agents
-  const activeNodeContext = useMemo(() => {
-      if (!activeNodeId) return '';
-      const node = nodes.find(n => n.id === activeNodeId);
-      if (!node) return '';
-      
-      let context = `\n\n--- ACTIVE NODE CONTEXT (User is referencing this) ---\n`;
-      context += `ID: ${node.id}\n`;
-      context += `Title: ${node.title}\n`;
-      context += `Type: ${node.type}\n`;
-      // Don't put massive base64 strings in context, the router will just see it's an image.
-      // We handle base64 extraction in handleSend for the actual generator.
-      if (node.type === 'image') {
-          context += `Content: [Image Data Available]\n`;
-      } else if (node.type === 'video') {
-          context += `Content: [Video Data Available]\n`;
-      } else {
-          context += `Content:\n${node.content}\n`;
-      }
-      
-      if (node.type === 'code' && node.files) {
-         Object.values(node.files).forEach((f: CanvasFile) => {
-             context += `File '${f.name}' (${f.language}):\n${f.content}\n`;
-         });
-      }
+  // Computed Context for Agents (graph walk + token budget for the current agent's model)
+  const nodeContext = useMemo(() => buildNodeContext(nodes, edges, activeNodeId, {
+      model: AGENTS[activeAgent].model,
+      depth: contextDepth
+  }), [activeNodeId, nodes, edges, activeAgent, contextDepth]);
+  const activeNodeContext = nodeContext.text;
 
-      const connectedEdges = edges.filter(e => e.fromNode === node.id || e.toNode === node.id);
-      if (connectedEdges.length > 0) {
-          context += `\n--- CONNECTED NODES (You can reference these using [[node:ID|Title]]) ---\n`;
-          connectedEdges.forEach(e => {
-              const isSource = e.fromNode === node.id;
-              const otherId = isSource ? e.toNode : e.fromNode;
-              const other = nodes.find(n => n.id === otherId);
-              if (other) {
-                  context += `- ${isSource ? 'Out to' : 'In from'} "${other.title}" (ID: ${other.id}, Type: ${other.type})\n`;
-              }
-          });
-      }
-      context += `--- END CONTEXT ---\n`;
-      return context;
-  }, [activeNodeId, nodes, edges]);
-
-  // NEW: Referenced Nodes for OmniBar (Active + Connected)
-  const referencedNodes = useMemo(() => {
-      if (!activeNodeId) return [];
-      const active = nodes.find(n => n.id === activeNodeId);
-      if (!active) return [];
-      
-      const refs = [active];
-      
-      edges.forEach(e => {
-          if (e.fromNode === activeNodeId) {
-              const other = nodes.find(n => n.id === e.toNode);
-              if (other && !refs.find(r => r.id === other.id)) refs.push(other);
-          } else if (e.toNode === activeNodeId) {
-               const other = nodes.find(n => n.id === e.fromNode);
-              if (other && !refs.find(r => r.id === other.id)) refs.push(other);
-          }
-      });
-      
-      return refs;
-  }, [activeNodeId, nodes, edges]);
+  // Referenced Nodes for OmniBar: exactly the nodes that made it into the context
+  const referencedNodes = nodeContext.includedNodes;
 
   // Main Interaction Logic
   const handleSend = async (text: string, mediaOptions?: ImageConfig | VideoConfig) => {
@@ -870,13 +1275,12 @@ _
           timestamp: Date.now()
       };
       setMessages(prev => [...prev, userMsg]);
-      setIsThinking(true);
       if (!showChat) setShowChat(true);
 
       // We pass the *updated* history logic via arguments to avoid stale state in closure
       // Construct history including the message we just added
       const currentMessages = [...messages, userMsg];
-      await runAIProcessing(text, currentMessages, mediaOptions);
+      await Jobs.run(text, job => runAIProcessing(job, text, currentMessages, mediaOptions));
   };
 
   const handleRetry = async () => {
@@ -896,20 +1300,32 @@ _
     
     // Reset state to this point
     setMessages(previousMessages);
-    setIsThinking(true);
     if (!showChat) setShowChat(true);
     
     // Trigger AI logic with this restored state
-    await runAIProcessing(userMsg.content, previousMessages);
+    await Jobs.run(userMsg.content, job => runAIProcessing(job, userMsg.content, previousMessages));
+  };
+
+  const handleStopGeneration = () => {
+      Jobs.cancelAll();
   };
 
   const handleClearChat = () => {
       setMessages([]);
-      saveCurrentWorkspaceState(); // Optional: Immediately persist clear
+      // Start a fresh agent conversation: the new epoch yields a new session key, the old one is dropped server-side
+      AI.resetSession(sessionFor(activeWorkspace));
+      setWorkspaces(prev => prev.map(ws => ws.id === activeWorkspaceId
+          ? { ...ws, nodes, edges, messages: [], sessionEpoch: (ws.sessionEpoch || 0) + 1, lastModified: Date.now() }
+          : ws
+      ));
   };
 
-  const runAIProcessing = async (text: string, currentHistory: Message[], explicitMediaOptions?: ImageConfig | VideoConfig) => {
-      const promptWithContext = activeNodeContext ? `${activeNodeContext}\n\nUser Request: ${text}` : text;
+  // Runs one routed request as a job. Errors are surfaced in chat, then rethrown so the job records its outcome.
+  // `options.route` skips the router (requests the studio makes itself, like auto-fix), `options.context`
+  // replaces the active node's context and `options.applyEdits` applies code edits without review.
+  const runAIProcessing = async (job: JobContext, text: string, currentHistory: Message[], explicitMediaOptions?: ImageConfig | VideoConfig, options: RunOptions = {}) => {
+      const withContext = (context: string) => context ? `${context}\n\nUser Request: ${text}` : text;
+      let promptWithContext = withContext(options.context ?? activeNodeContext);
       
       // Detect if we have a visual reference (Active Image)
       const visualReferenceNode = activeNodeId 
@@ -922,9 +1338,16 @@ _
           imageContext = visualReferenceNode.content;
       }
 
+      const signal = job.signal;
+      // Media results land in this workspace even if another one is open by the time they finish
+      const workspaceId = activeWorkspaceIdRef.current;
+      Usage.scope(signal, { workspaceId });
+
+      // Tracked so a cancellation can mark what was being written
+      let cancelTarget: { nodeId: string; logMsgId: string; previousContent?: string; isMedia: boolean } | null = null;
+
       try {
-          setStatusState('routing');
-          setStatusMessage('Routing...');
+          job.update({ status: 'routing', message: 'Routing...', progress: 0.05 });
           
           // Prepare history for API (excluding the last message which is the current prompt)
           // The router and generation calls now handle image injection via imageContext/explicit logic
@@ -933,16 +1356,38 @@ _
               parts: [{ text: m.content }]
           }));
 
-          const routingResult = await AI.route(promptWithContext, historyData, imageContext);
+          const routingResult = options.route || await AI.route(promptWithContext, historyData, imageContext, signal);
           const { targetAgentId, reasoning, artifact } = routingResult;
+
+          // Router-suggested edges use 'ACTIVE_NODE' / 'NEW_NODE' placeholders or node IDs
+          const applyRouterConnections = (newNodeId?: string) => {
+              const resolveEnd = (end: string) => end === 'ACTIVE_NODE' ? activeNodeId : end === 'NEW_NODE' ? newNodeId : end;
+              const commands: UICommand[] = (routingResult.connections || []).flatMap(c => {
+                  const from = resolveEnd(c.from);
+                  const to = resolveEnd(c.to);
+                  return from && to && from !== to ? [{ command: 'connect', args: { from, to } }] : [];
+              });
+              // The router's own suggestions aren't reported back to the agent
+              if (commands.length > 0) executeUICommands(commands, { report: false });
+          };
+          
+          job.update({ agentId: targetAgentId, progress: 0.15 });
+
+          // Routing saw the context sized for the current agent; re-pack it for the target model's budget
+          if (!options.context && activeNodeId && AGENTS[targetAgentId].model !== AGENTS[activeAgent].model) {
+              const targetContext = buildNodeContext(nodesRef.current, edgesRef.current, activeNodeId, {
+                  model: AGENTS[targetAgentId].model,
+                  depth: contextDepth
+              });
+              promptWithContext = withContext(targetContext.text);
+          }
           
           if (targetAgentId !== activeAgent) {
               setActiveAgent(targetAgentId);
-              setStatusMessage(`Switching to ${AGENTS[targetAgentId].name}...`);
+              job.update({ message: `Switching to ${AGENTS[targetAgentId].name}...` });
               await new Promise(r => setTimeout(r, 400)); 
           }
 
-          setStatusState('working');
           const actionMap: Record<string, string> = {
               [AgentId.NEST]: "Thinking...",
               [AgentId.CODE]: "Coding...",
@@ -951,11 +1396,11 @@ _
               [AgentId.VIDEO]: "Directing...",
               [AgentId.PRO]: "Reasoning...",
           };
-          setStatusMessage(actionMap[targetAgentId] || "Working...");
+          job.update({ status: 'running', message: actionMap[targetAgentId] || "Working..." });
 
           const centerX = window.innerWidth / 2;
           const centerY = window.innerHeight / 2;
-          const shift = (nodes.length % 5) * 20;
+          const shift = (nodesRef.current.length % 5) * 20;
 
           const uploadToCloud = async (blob: Blob, name: string) => {
               if (!user) return null;
@@ -964,10 +1409,11 @@ _
                   const folderParts = currentWs
                       ? ['_weaver-online', 'projects', currentWs.name, 'generated']
                       : ['_weaver-online', 'unsorted'];
-                  setStatusMessage("Syncing to cloud...");
+                  job.update({ message: "Syncing to cloud...", progress: 0.9 });
                   const folderId = await ensureFolderPath(folderParts);
                   const file = new File([blob], name, { type: blob.type });
-                  const uploaded = await uploadToStorage(file, { parentId: folderId });
+                  // Background lane: syncing never delays routing or streaming of other tasks
+                  const uploaded = await globalLimiter.add<any>(() => uploadToStorage(file, { parentId: folderId }), PRIORITY.BACKGROUND, signal);
                   return uploaded?.fileEntry || uploaded;
               } catch (e) {
                   console.warn('Cloud upload failed:', e);
@@ -975,6 +1421,19 @@ _
               }
           };
 
+          // Side-channel stream events (UI commands, attachments) are applied as soon as they arrive
+          const handleStreamEvent = (event: StreamEvent, messageId: string) => {
+              if (event.type === 'ui_commands') {
+                  executeUICommands(event.commands, { author: targetAgentId });
+              } else if (event.type === 'attachment') {
+                  const kind = event.kind || (event.mimeType?.startsWith('video/') ? 'video' : event.mimeType?.startsWith('audio/') ? 'audio' : 'image');
+                  setMessages(prev => prev.map(m => m.id === messageId
+                      ? { ...m, attachments: [...(m.attachments || []), { type: kind, url: event.url, mimeType: event.mimeType }] }
+                      : m
+                  ));
+              }
+          };
+
           // --- ARTIFACT GENERATION (Create or Update) ---
           if (artifact && (artifact.operation === 'create' || (artifact.operation === 'update' && artifact.id))) {
               const isUpdate = artifact.operation === 'update' && artifact.id;
@@ -1023,6 +1482,14 @@ _
                   timestamp: Date.now() + 1
               }]);
 
+              job.update({ targetNodeId, logMessageId: toolMsgId, progress: 0.2 });
+              cancelTarget = {
+                  nodeId: targetNodeId,
+                  logMsgId: toolMsgId,
+                  previousContent: isUpdate ? nodesRef.current.find(n => n.id === targetNodeId)?.content : undefined,
+                  isMedia: artifact.type === 'image' || artifact.type === 'video'
+              };
+
 
               // CREATE: Setup new node if needed
               if (!isUpdate) {
@@ -1054,54 +1521,97 @@ _
                       title: finalTitle,
                       content: '', 
                       files: isCode ? {} : undefined,
+                      cells: artifact.type === 'notebook' ? [] : undefined,
                       activeFile: undefined,
-                      language: artifact.language,
+                      language: artifact.type === 'notebook' ? artifact.language || 'python' : artifact.language,
                       zIndex: 100
                   };
                   
                   if (artifact.type === 'image') newNode.content = 'loading://image';
                   if (artifact.type === 'video') newNode.content = 'loading://video';
 
+                  // Update the ref eagerly so the router's connections can attach to the new node right away
+                  nodesRef.current = [...nodesRef.current, newNode];
                   setNodes(prev => [...prev, newNode]);
                   setActiveNodeId(targetNodeId);
               } else if (artifact.type === 'image' || artifact.type === 'video') {
                   setNodes(prev => prev.map(n => 
                       n.id === targetNodeId 
-                      ? { ...n, content: artifact.type === 'image' ? 'loading://image' : 'loading://video' } 
+                      ? { ...n, content: artifact.type === 'image' ? 'loading://image' : 'loading://video', generationStatus: undefined } 
                       : n
                   ));
+              } else {
+                  setNodes(prev => prev.map(n => n.id === targetNodeId ? { ...n, generationStatus: undefined } : n));
               }
 
               // Save snapshot to history BEFORE AI starts mutating state heavily
-              addToHistory(nodes, edges);
+              addToHistory(nodesRef.current, edgesRef.current);
+              applyRouterConnections(isUpdate ? undefined : targetNodeId);
 
               // MEDIA GENERATION
               if (artifact.type === 'image' || artifact.type === 'video') {
                    const isImage = artifact.type === 'image';
-                   setStatusMessage(isImage ? "Generating Image..." : "Rendering Video...");
+                   // Only renders the provider reports as started (see onStarted below) survive a reload
+                   job.update({ message: isImage ? "Generating Image..." : "Rendering Video... (keep this page open)", progress: 0.3 });
                    
                    setMessages(prev => prev.map(m => m.id === toolMsgId ? { ...m, content: m.content + `\n- Generating ${isImage ? 'visuals' : 'motion'}...` } : m));
 
                    const refImage = visualReferenceNode?.content;
-                   const currentNode = nodes.find(n => n.id === targetNodeId);
+                   const currentNode = nodesRef.current.find(n => n.id === targetNodeId);
                    const targetNodeContent = (currentNode && !currentNode.content.startsWith('loading://')) ? currentNode.content : undefined;
                    const effectiveRef = targetNodeContent || refImage;
 
                    const imgOpts: ImageOptions = {
                        aspectRatio: (explicitMediaOptions as ImageConfig)?.aspectRatio || (artifact.aspectRatio as any) || '1:1',
-                       size: (explicitMediaOptions as ImageConfig)?.size || (artifact.quality as any) || '1K'
+                       size: (explicitMediaOptions as ImageConfig)?.size || (artifact.quality as any) || '1K',
+                       numberOfImages: (explicitMediaOptions as ImageConfig)?.count || 1
                    };
                    
+                   // Start / end frames picked in the OmniBar, read from their image nodes now
+                   const videoConfig = explicitMediaOptions as VideoConfig | undefined;
+                   const frameOf = (nodeId?: string) => nodeId ? nodesRef.current.find(n => n.id === nodeId && n.type === 'image')?.content : undefined;
+                   const startFrame = frameOf(videoConfig?.startFrameNodeId);
+
                    const vidOpts: VideoOptions = {
-                       aspectRatio: (explicitMediaOptions as VideoConfig)?.aspectRatio || (artifact.aspectRatio as any) || '16:9',
-                       resolution: (explicitMediaOptions as VideoConfig)?.resolution || (artifact.quality as any) || '720p'
+                       aspectRatio: videoConfig?.aspectRatio || (artifact.aspectRatio as any) || '16:9',
+                       resolution: videoConfig?.resolution || (artifact.quality as any) || '720p',
+                       durationSeconds: videoConfig?.durationSeconds,
+                       negativePrompt: videoConfig?.negativePrompt,
+                       lastFrame: frameOf(videoConfig?.endFrameNodeId)
                    };
 
-                   const url = await (isImage 
-                       ? AI.generateImage(promptWithContext, imgOpts, effectiveRef)
-                       : AI.generateVideo(promptWithContext, vidOpts, effectiveRef)
-                   );
-                   
+                   // Soft budget: confirm Veo / 4K calls and anything that would cross the limit
+                   const workspace = workspacesRef.current.find(w => w.id === activeWorkspaceId);
+                   const budgetWarning = checkBudget(workspace?.usage, workspace?.budget, isImage
+                       ? { model: AGENTS[AgentId.IMAGE].model, images: imgOpts.numberOfImages, imageSize: imgOpts.size }
+                       : { model: AGENTS[AgentId.VIDEO].model, videos: 1, videoSeconds: vidOpts.durationSeconds });
+                   if (budgetWarning && !window.confirm(`${budgetWarning}\n\nGenerate anyway?`)) {
+                       throw createAbortError('Declined over budget');
+                   }
+
+                   const urls = isImage
+                       ? await AI.generateImage(promptWithContext, imgOpts, effectiveRef, signal)
+                       : [await AI.generateVideo(promptWithContext, vidOpts, startFrame || effectiveRef, signal, operation => {
+                           // Persist the render on the node so polling can resume after a reload
+                           pollingVideoNodes.current.add(targetNodeId);
+                           updateWorkspaceNode(workspaceId, targetNodeId, n => ({ ...n, videoOperation: operation }));
+                           job.update({ message: "Rendering Video... (safe to reload)" });
+                           job.release();
+                       })];
+                   const url = urls[0];
+                   const generated: GenerationRecord = { timestamp: Date.now(), action: 'generate', prompt: text, candidates: urls.length };
+
+                   // Several variants: the node shows a gallery and keeps its previous image until one is picked
+                   if (urls.length > 1) {
+                       updateWorkspaceNode(workspaceId, targetNodeId, n => ({ ...n, content: targetNodeContent || '', candidates: urls, generationHistory: [...(n.generationHistory || []), generated] }));
+                       setMessages(prev => prev.map(m => m.id === toolMsgId
+                           ? { ...m, content: m.content + `\n- **${urls.length} variants ready.** Pick one on the node.`, attachments: urls.map(u => ({ type: 'image' as const, url: u })) }
+                           : m
+                       ));
+                       executeUICommands(AI.getLastUICommands(), { author: targetAgentId });
+                       return;
+                   }
+
                    let blob: Blob;
                    if (url.startsWith('blob:') || url.startsWith('data:')) {
                        const resp = await fetch(url);
@@ -1111,191 +1621,282 @@ _
                    }
 
                    const cloudEntry = await uploadToCloud(blob, `${isImage ? 'image' : 'video'}-${Date.now()}.${isImage ? 'png' : 'mp4'}`);
-
-                   setNodes(prev => prev.map(n => n.id === targetNodeId ? { ...n, content: url, cloudId: cloudEntry?.id } : n));
+                   // Object URLs die with the page; keep videos in IndexedDB (images are data URLs already)
+                   const content = url.startsWith('blob:') ? await Media.put(blob) : url;
+
+                   updateWorkspaceNode(workspaceId, targetNodeId, n => ({
+                       ...(targetNodeContent ? recordRevision({ ...n, content: targetNodeContent }, targetAgentId, text) : n),
+                       content,
+                       cloudId: cloudEntry?.id,
+                       videoOperation: undefined,
+                       generationHistory: [...(n.generationHistory || []), generated]
+                   }));
+                   // Only now: until the update above lands, the node still has its operation and would be resumed twice
+                   pollingVideoNodes.current.delete(targetNodeId);
                    
                    setMessages(prev => prev.map(m => {
                       if (m.id !== toolMsgId) return m;
                       return {
                           ...m,
                           content: m.content + `\n- **Complete.**`,
-                          attachments: [{ type: isImage?'image':'video', url }]
+                          attachments: [{ type: isImage?'image':'video', url: content }]
                       };
                    }));
 
                    // Execute any UI commands
                    const cmds = AI.getLastUICommands();
-                   executeUICommands(cmds);
+                   executeUICommands(cmds, { author: targetAgentId });
 
-              } 
+              }
+              // NOTEBOOK: the agent writes `### CELL:` sections, applied to the current cells once complete
+              else if (artifact.type === 'notebook') {
+                  job.update({ message: 'Writing cells...', progress: 0.3 });
+                  setMessages(prev => prev.map(m => m.id === toolMsgId ? { ...m, content: m.content + `\n- Writing cells...` } : m));
+
+                  let cellText = '';
+                  const language = nodesRef.current.find(n => n.id === targetNodeId)?.language || artifact.language || 'python';
+                  const stream = AI.streamResponse(targetAgentId, promptWithContext, historyData, true, language, imageContext, signal, 'cells');
+                  for await (const event of stream) {
+                      if (event.type !== 'text') {
+                          handleStreamEvent(event, toolMsgId);
+                          continue;
+                      }
+                      cellText += event.text;
+                  }
+
+                  // Apply to the cells as they are now; they may have been edited while the agent was writing
+                  const { edits, prose } = parseNotebookEdits(cellText);
+                  const existing = nodesRef.current.find(n => n.id === targetNodeId);
+                  // No markers on a new notebook: keep the answer as a single markdown cell
+                  const result = edits.length === 0 && !isUpdate && prose.trim()
+                      ? { cells: [createCell('markdown', prose.trim())], changed: 1, failures: [] as string[] }
+                      : applyNotebookEdits(existing?.cells || [], edits);
+
+                  if (result.changed > 0) {
+                      setNodes(prev => prev.map(n => n.id !== targetNodeId ? n : {
+                          ...(isUpdate ? recordRevision(n, targetAgentId, text) : n),
+                          cells: result.cells
+                      }));
+                  }
+                  if (edits.length > 0 && prose.trim()) {
+                      setMessages(prev => prev.map(m => m.id === conversationalMsgId ? { ...m, content: `${m.content}\n\n${prose.trim()}` } : m));
+                  }
+
+                  const summary = result.changed > 0 ? `Changed ${result.changed} cell${result.changed === 1 ? '' : 's'}` : 'No cells changed';
+                  const skipped = result.failures.map(f => `\n- Skipped: ${f}`).join('');
+                  setMessages(prev => prev.map(m => m.id === toolMsgId ? { ...m, content: m.content + `\n- ${summary}${skipped}\n\n**Complete.**` } : m));
+                  executeUICommands(AI.getLastUICommands(), { author: targetAgentId });
+              }
               // TEXT / CODE GENERATION
               else {
-                  // Pass imageContext to text stream if available (for multimodal understanding)
-                  const stream = AI.streamResponse(targetAgentId, promptWithContext, historyData, true, artifact.language, imageContext);
-                  
-                  // Local tracking variables for stream accumulation
-                  let currentFile = finalTitle; 
-                  let buffer = '';
-                  let isFirstFile = true;
-                  const fileBuffers: Record<string, string> = {}; 
-                  let textBuffer = '';
-
-                  // Initialize context for code update if needed
-                  if (isUpdate && isCode) {
-                      const existingNode = nodes.find(n => n.id === targetNodeId);
-                      if (existingNode && existingNode.activeFile) {
-                          currentFile = existingNode.activeFile;
-                          isFirstFile = false; 
+                  // Code updates: ask for edits to the current files rather than every file in full. They're
+                  // proposed for review; if they don't apply cleanly, fall back to a full rewrite below.
+                  const existingFiles = isUpdate && isCode ? nodesRef.current.find(n => n.id === targetNodeId)?.files : undefined;
+                  let proposal: EditResult | null = null;
+                  // The rewrite is asked for as a follow-up to the edit turn, so server-side memory holds the request once
+                  let followUp: { prompt: string; history: typeof historyData } | null = null;
+                  if (existingFiles && Object.keys(existingFiles).length > 0) {
+                      job.update({ message: 'Drafting edits...', progress: 0.3 });
+                      setMessages(prev => prev.map(m => m.id === toolMsgId ? { ...m, content: m.content + `\n- Drafting edits...` } : m));
+
+                      let editText = '';
+                      const editStream = AI.streamResponse(targetAgentId, promptWithContext, historyData, true, artifact.language, imageContext, signal, 'edits');
+                      for await (const event of editStream) {
+                          if (event.type !== 'text') {
+                              handleStreamEvent(event, toolMsgId);
+                              continue;
+                          }
+                          editText += event.text;
+                      }
+
+                      const result = applyCodeEdits(existingFiles, parseCodeEdits(editText));
+                      if (result.failures.length === 0 && result.changed.length > 0) {
+                          proposal = result;
+                      } else {
+                          const reason = result.failures.length > 0 ? describeFailure(result.failures[0]) : 'the edits changed nothing';
+                          setMessages(prev => prev.map(m => m.id === toolMsgId ? { ...m, content: m.content + `\n- Edits did not apply cleanly (${reason}); rewriting the files in full...` } : m));
+                          followUp = {
+                              prompt: `Those edits could not be applied: ${reason}. Instead, write the complete new content of every file you change, each under its '### FILE:' marker, with no search/replace blocks.`,
+                              history: [...historyData, { role: 'user', parts: [{ text: promptWithContext }] }, { role: 'model', parts: [{ text: editText }] }]
+                          };
                       }
                   }
 
-                  // Update log to show start
-                  setMessages(prev => prev.map(m => m.id === toolMsgId ? { ...m, content: m.content + `\n- Streaming content...` } : m));
+                  if (proposal && options.applyEdits) {
+                      const { files, changed } = proposal;
+                      setNodes(prev => prev.map(n => n.id === targetNodeId
+                          ? { ...recordRevision(n, targetAgentId, text), files, activeFile: n.activeFile && files[n.activeFile] ? n.activeFile : changed[0], pendingEdit: undefined }
+                          : n
+                      ));
+                      setMessages(prev => prev.map(m => m.id !== toolMsgId ? m : {
+                          ...m,
+                          content: m.content + `\n- Edited ${changed.map(f => `**${f}**`).join(', ')}\n\n**Complete.**`
+                      }));
+                      executeUICommands(AI.getLastUICommands(), { author: targetAgentId });
+                  } else if (proposal) {
+                      const { files, changed } = proposal;
+                      setNodes(prev => prev.map(n => n.id === targetNodeId
+                          ? { ...n, pendingEdit: { files, base: existingFiles, changed, author: targetAgentId, prompt: text, timestamp: Date.now() } }
+                          : n
+                      ));
+                      setMessages(prev => prev.map(m => m.id !== toolMsgId ? m : {
+                          ...m,
+                          content: m.content + `\n- Proposed changes to ${changed.map(f => `**${f}**`).join(', ')}\n\n**Ready for review.** Open the node's review badge to accept or reject them.`
+                      }));
+                      const cmds = AI.getLastUICommands();
+                      executeUICommands(cmds, { author: targetAgentId });
+                  } else {
+                      // A rewrite of existing files is proposed for review like edits are: it streams into a draft
+                      // and the node keeps its files until it's accepted. Otherwise the stream writes the node as it
+                      // goes, after recording what it had before.
+                      const reviewing = !!existingFiles && Object.keys(existingFiles).length > 0 && !options.applyEdits;
+                      let draft: CanvasNode | undefined = reviewing ? nodesRef.current.find(n => n.id === targetNodeId) : undefined;
+                      const updateTarget = (update: (node: CanvasNode) => CanvasNode) => {
+                          if (draft) draft = update(draft);
+                          else setNodes(prevNodes => prevNodes.map(node => node.id === targetNodeId ? update(node) : node));
+                      };
+                      if (isUpdate && !draft) setNodes(prev => prev.map(n => n.id === targetNodeId ? recordRevision(n, targetAgentId, text) : n));
 
-                  for await (const chunk of stream) {
-                      if (isCode) {
-                          buffer += chunk;
-                          
-                          // Improved Parsing: Loop through multiple markers in single chunk
-                          while (true) {
-                              const match = buffer.match(/### FILE: ([\w.-]+)/);
-                              if (!match) break;
-
-                              const [fullMatch, newFileName] = match;
-                              const splitIndex = match.index!;
-                              const contentBefore = buffer.substring(0, splitIndex);
-
-                              if (contentBefore) {
-                                  // Append content to current file buffer
-                                  if (!fileBuffers[currentFile]) fileBuffers[currentFile] = '';
-                                  fileBuffers[currentFile] += contentBefore;
-
-                                  // Update state with accumulated buffer (overwrite)
-                                  if (!isFirstFile) {
-                                      setNodes(prevNodes => prevNodes.map(node => {
-                                          if (node.id !== targetNodeId) return node;
-                                          const currentFiles = node.files || {};
-                                          // Keep existing file metadata, overwrite content
-                                          const activeF = currentFiles[currentFile] || { name: currentFile, language: 'txt' };
-                                          return {
-                                              ...node,
-                                              files: {
-                                                  ...currentFiles,
-                                                  [currentFile]: { ...activeF, content: fileBuffers[currentFile] }
-                                              }
-                                          };
-                                      }));
-                                  }
-                              }
-
-                              // Switch to new file
-                              currentFile = newFileName.trim();
-                              isFirstFile = false;
-                              buffer = buffer.substring(splitIndex + fullMatch.length);
-                              
-                              // Log file switch
-                              setMessages(prev => prev.map(m => {
-                                  if (m.id !== toolMsgId) return m;
-                                  if (!m.content.includes(currentFile)) {
-                                      return { ...m, content: m.content + `\n- Writing **${currentFile}**...` };
-                                  }
-                                  return m;
-                              }));
-                              setStatusMessage(`Writing ${currentFile}...`);
+                      // Pass imageContext to text stream if available (for multimodal understanding)
+                      const stream = followUp
+                          ? AI.streamResponse(targetAgentId, followUp.prompt, followUp.history, true, artifact.language, imageContext, signal)
+                          : AI.streamResponse(targetAgentId, promptWithContext, historyData, true, artifact.language, imageContext, signal);
+                  
+                      const fileBuffers: Record<string, string> = {};
+                      let lastFile = '';
+                      let prose = '';
+                      let textBuffer = '';
+
+                      // Code: text before the first marker continues the file open in the editor when updating
+                      const existingNode = isUpdate && isCode ? nodesRef.current.find(n => n.id === targetNodeId) : undefined;
+                      const parser = new FileStreamParser(existingNode?.activeFile);
+
+                      const setFile = (path: string, content: string) => updateTarget(node => {
+                          // Keep existing file metadata, overwrite content
+                          const existing = node.files?.[path] || { name: path, language: path.split('.').pop() || 'txt' };
+                          return { ...node, files: { ...node.files, [path]: { ...existing, content } } };
+                      });
+
+                      const logLine = (line: string) => setMessages(prev => prev.map(m => m.id === toolMsgId ? { ...m, content: m.content + `\n- ${line}` } : m));
+
+                      const applyFileEvents = (events: FileStreamEvent[]) => events.forEach(e => {
+                          switch (e.type) {
+                              case 'file-start':
+                                  fileBuffers[e.path] = '';
+                                  lastFile = e.path;
+                                  logLine(`Writing **${e.path}**...`);
+                                  job.update({ message: `Writing ${e.path}...` });
+                                  updateTarget(node => ({
+                                      ...node,
+                                      activeFile: e.path,
+                                      files: { ...node.files, [e.path]: node.files?.[e.path] || { name: e.path, content: '', language: e.path.split('.').pop() || 'txt' } }
+                                  }));
+                                  break;
+                              case 'chunk':
+                                  fileBuffers[e.path] += e.text;
+                                  setFile(e.path, fileBuffers[e.path]);
+                                  break;
+                              case 'file-delete':
+                                  logLine(`Deleting **${e.path}**`);
+                                  updateTarget(node => {
+                                      if (!node.files?.[e.path]) return node;
+                                      const { [e.path]: _, ...files } = node.files;
+                                      return { ...node, files, activeFile: node.activeFile === e.path ? Object.keys(files)[0] : node.activeFile };
+                                  });
+                                  break;
+                              case 'file-rename':
+                                  logLine(`Renaming **${e.from}** to **${e.to}**`);
+                                  updateTarget(node => {
+                                      if (!node.files?.[e.from]) return node;
+                                      const { [e.from]: moved, ...files } = node.files;
+                                      return {
+                                          ...node,
+                                          files: { ...files, [e.to]: { ...moved, name: e.to, language: e.to.split('.').pop() || moved.language } },
+                                          activeFile: node.activeFile === e.from ? e.to : node.activeFile
+                                      };
+                                  });
+                                  break;
+                              case 'prose':
+                                  prose += e.text;
+                                  break;
+                          }
+                      });
 
-                              // Initialize new file in state (with empty content initially)
-                              if (!fileBuffers[currentFile]) fileBuffers[currentFile] = '';
+                      // Update log to show start
+                      job.update({ progress: 0.3 });
+                      setMessages(prev => prev.map(m => m.id === toolMsgId ? { ...m, content: m.content + `\n- Streaming content...` } : m));
+
+                      for await (const event of stream) {
+                          if (event.type !== 'text') {
+                              handleStreamEvent(event, toolMsgId);
+                              continue;
+                          }
+
+                          if (isCode) {
+                              applyFileEvents(parser.push(event.text));
+                          } else {
+                              // TEXT MODE: Accumulate and Overwrite
+                              textBuffer += event.text;
                               setNodes(prevNodes => prevNodes.map(node => {
-                                  if (node.id !== targetNodeId) return node;
-                                  const existingFile = node.files?.[currentFile];
-                                  return {
-                                      ...node,
-                                      activeFile: currentFile,
-                                      files: {
-                                          ...node.files,
-                                          [currentFile]: existingFile || { 
-                                              name: currentFile, 
-                                              content: '', 
-                                              language: currentFile.split('.').pop() || 'txt' 
-                                          }
-                                      }
-                                  };
+                                    if (node.id !== targetNodeId) return node;
+                                    return { ...node, content: textBuffer }; // Overwrite with full new content
                               }));
                           }
+                      }
 
-                          // Flush remaining buffer if it's not a partial marker
-                          if (!isFirstFile && buffer) {
-                              if (!/(#|# |##|###|###\s|###\sF|###\sFI|###\sFIL|###\sFILE|###\sFILE:)$/.test(buffer)) {
-                                  const contentToFlush = buffer;
-                                  buffer = '';
-                                  if (!fileBuffers[currentFile]) fileBuffers[currentFile] = '';
-                                  fileBuffers[currentFile] += contentToFlush;
-
-                                  setNodes(prevNodes => prevNodes.map(node => {
-                                      if (node.id !== targetNodeId) return node;
-                                      const currentFiles = node.files || {};
-                                      const activeF = currentFiles[currentFile] || { name: currentFile, language: 'txt' };
-                                      return {
-                                          ...node,
-                                          files: {
-                                              ...currentFiles,
-                                              [currentFile]: { ...activeF, content: fileBuffers[currentFile] }
-                                          }
-                                      };
-                                  }));
-                              }
+                      if (isCode) {
+                          applyFileEvents(parser.end());
+                          if (!lastFile && prose.trim()) {
+                              // No file markers at all: the whole answer is the file
+                              applyFileEvents([{ type: 'file-start', path: finalTitle }, { type: 'chunk', path: finalTitle, text: prose.trim() + '\n' }]);
+                          } else if (prose.trim()) {
+                              // Notes around the files belong in the chat, not in a file
+                              setMessages(prev => prev.map(m => m.id === conversationalMsgId ? { ...m, content: `${m.content}\n\n${prose.trim()}` } : m));
                           }
+                      }
 
+                      if (draft && existingFiles) {
+                          const files = draft.files || {};
+                          const changed = Array.from(new Set([...Object.keys(existingFiles), ...Object.keys(files)]))
+                              .filter(name => existingFiles[name]?.content !== files[name]?.content);
+                          if (changed.length > 0) {
+                              setNodes(prev => prev.map(n => n.id === targetNodeId
+                                  ? { ...n, pendingEdit: { files, base: existingFiles, changed, author: targetAgentId, prompt: text, timestamp: Date.now() } }
+                                  : n
+                              ));
+                          }
+                          setMessages(prev => prev.map(m => m.id !== toolMsgId ? m : {
+                              ...m,
+                              content: m.content + (changed.length > 0
+                                  ? `\n- Proposed changes to ${changed.map(f => `**${f}**`).join(', ')}\n\n**Ready for review.** Open the node's review badge to accept or reject them.`
+                                  : `\n- The rewrite changed nothing.\n\n**Complete.**`)
+                          }));
                       } else {
-                          // TEXT MODE: Accumulate and Overwrite
-                          textBuffer += chunk;
-                          setNodes(prevNodes => prevNodes.map(node => {
-                                if (node.id !== targetNodeId) return node;
-                                return { ...node, content: textBuffer }; // Overwrite with full new content
+                          // Cloud Sync via SDK
+                          if (user && finalTitle) {
+                             const contentToUpload = isCode ? fileBuffers[lastFile] : textBuffer;
+                             const blob = new Blob([contentToUpload || "Generated Content"], { type: 'text/plain' });
+                             await uploadToCloud(blob, finalTitle);
+                          }
+                      
+                          setMessages(prev => prev.map(m => {
+                              if (m.id !== toolMsgId) return m;
+                              return { ...m, content: m.content + "\n\n**Complete.**" };
                           }));
                       }
-                  }
-                  
-                  // Flush remaining buffer at end of stream for Code
-                  if (isCode && buffer && !isFirstFile) {
-                       if (!fileBuffers[currentFile]) fileBuffers[currentFile] = '';
-                       fileBuffers[currentFile] += buffer;
-                       
-                       setNodes(prevNodes => prevNodes.map(node => {
-                          if (node.id !== targetNodeId) return node;
-                          const currentFiles = node.files || {};
-                          const activeF = currentFiles[currentFile] || { name: currentFile, language: 'txt' };
-                          return {
-                              ...node,
-                              files: {
-                                  ...currentFiles,
-                                  [currentFile]: { ...activeF, content: fileBuffers[currentFile] }
-                              }
-                          };
-                      }));
-                  }
 
-                  // Cloud Sync via SDK
-                  if (user && finalTitle) {
-                     const contentToUpload = isCode ? (fileBuffers[currentFile] || buffer) : textBuffer;
-                     const blob = new Blob([contentToUpload || "Generated Content"], { type: 'text/plain' });
-                     await uploadToCloud(blob, finalTitle);
+                      // Execute any UI commands (e.g., node organization)
+                      const cmds = AI.getLastUICommands();
+                      executeUICommands(cmds, { author: targetAgentId });
                   }
-                  
-                   setMessages(prev => prev.map(m => {
-                      if (m.id !== toolMsgId) return m;
-                      return { ...m, content: m.content + "\n\n**Complete.**" };
-                  }));
-
-                  // Execute any UI commands (e.g., node organization)
-                  const cmds = AI.getLastUICommands();
-                  executeUICommands(cmds);
               }
 
           } 
           // CHAT ONLY
           else {
+              applyRouterConnections();
               const responseMsgId = (Date.now() + 1).toString();
+              job.update({ logMessageId: responseMsgId, progress: 0.3 });
               setMessages(prev => [...prev, {
                   id: responseMsgId,
                   type: MessageType.AGENT,
@@ -1306,10 +1907,14 @@ _
               }]);
 
               // Pass image context to chat stream if available
-              const stream = AI.streamResponse(targetAgentId, promptWithContext, historyData, false, '', imageContext);
+              const stream = AI.streamResponse(targetAgentId, promptWithContext, historyData, false, '', imageContext, signal);
               let content = '';
-              for await (const chunk of stream) {
-                  content += chunk;
+              for await (const event of stream) {
+                  if (event.type !== 'text') {
+                      handleStreamEvent(event, responseMsgId);
+                      continue;
+                  }
+                  content += event.text;
                   setMessages(prev => prev.map(m => 
                       m.id === responseMsgId ? { ...m, content: content } : m
                   ));
@@ -1317,11 +1922,37 @@ _
 
               // Execute any UI commands returned by Weaver
               const cmds = AI.getLastUICommands();
-              executeUICommands(cmds);
+              executeUICommands(cmds, { author: targetAgentId });
           }
 
       } catch (e: any) {
+          if (isAbortError(e) || signal.aborted) {
+              // Leave whatever was streamed in place, but flag the node so it's obviously incomplete
+              if (cancelTarget) {
+                  const { nodeId, logMsgId, previousContent, isMedia } = cancelTarget;
+                  pollingVideoNodes.current.delete(nodeId);
+                  updateWorkspaceNode(workspaceId, nodeId, n => {
+                      const content = isMedia && n.content.startsWith('loading://') ? (previousContent && !previousContent.startsWith('loading://') ? previousContent : '') : n.content;
+                      // Stopping abandons the render; it must not resume after a reload
+                      return { ...n, content, generationStatus: 'cancelled', videoOperation: undefined };
+                  });
+                  setMessages(prev => prev.map(m => m.id === logMsgId ? { ...m, content: m.content + "\n\n**Cancelled.**" } : m));
+              } else {
+                  setMessages(prev => [...prev, {
+                      id: Date.now().toString(),
+                      type: MessageType.SYSTEM,
+                      content: "Generation cancelled.",
+                      timestamp: Date.now()
+                  }]);
+              }
+              throw e;
+          }
           console.error(e);
+          if (cancelTarget?.isMedia) {
+              const { nodeId } = cancelTarget;
+              pollingVideoNodes.current.delete(nodeId);
+              updateWorkspaceNode(workspaceId, nodeId, n => n.videoOperation ? { ...n, videoOperation: undefined } : n);
+          }
           const errorMsg = e.message || "Error generating response.";
           setMessages(prev => [...prev, { 
             id: Date.now().toString(), 
@@ -1329,10 +1960,7 @@ _
             content: errorMsg, 
             timestamp: Date.now() 
           }]);
-      } finally {
-          setIsThinking(false);
-          setStatusState('idle');
-          setStatusMessage('');
+          throw e;
       }
   };
 
@@ -1369,6 +1997,10 @@ _
     return <LoginScreen />;
   }
 
+  const usageWorkspace = usageWorkspaceId ? workspaces.find(w => w.id === usageWorkspaceId) : undefined;
+  const revisionNode = revisionNodeId ? nodes.find(n => n.id === revisionNodeId) : undefined;
+  const reviewNode = reviewNodeId ? nodes.find(n => n.id === reviewNodeId && n.pendingEdit) : undefined;
+
   return (
     <div className="w-full h-full relative font-sans text-text-primary selection:bg-accent-primary selection:text-white">
         
@@ -1377,7 +2009,12 @@ _
                 currentAgent={activeAgent}
                 status={statusState}
                 statusMessage={statusMessage}
+                jobs={jobs}
                 onClick={() => setShowChat(true)}
+                onStop={handleStopGeneration}
+                onCancelJob={(id) => Jobs.cancel(id)}
+                onClearFinished={() => Jobs.clearFinished()}
+                onSelectNode={handleNodeSelect}
             />
         </ErrorBoundary>
 
@@ -1409,8 +2046,10 @@ _
                     activeWorkspaceId={activeWorkspaceId}
                     onSelect={handleSwitchWorkspace}
                     onCreate={handleCreateWorkspace}
+                    onDuplicate={handleDuplicateWorkspace}
                     onDelete={handleDeleteWorkspace}
                     onRename={handleRenameWorkspace}
+                    onShowUsage={(id) => { setUsageWorkspaceId(id); setIsWorkspacePanelOpen(false); }}
                  />
             </div>
 
@@ -1434,6 +2073,12 @@ _
                     onToggleTheme={() => setIsDarkMode(!isDarkMode)}
                     snapToGrid={snapToGrid}
                     onToggleGrid={() => setSnapToGrid(!snapToGrid)}
+                    contextDepth={contextDepth}
+                    onContextDepthChange={setContextDepth}
+                    providers={providerState}
+                    onProviderSettingsChange={(patch) => AI.providers.updateSettings(patch)}
+                    onCheckProviders={() => AI.providers.checkHealth()}
+                    onShowUsage={() => { setUsageWorkspaceId(activeWorkspaceId); setIsControlPanelOpen(false); }}
                     showChat={showChat}
                     onToggleChat={() => setShowChat(!showChat)}
                     onSave={handleSaveProject}
@@ -1474,7 +2119,15 @@ _
                     onAddNode={handleAddNode}
                     onFileUpload={handleFileUpload}
                     onNodeDuplicate={handleDuplicateNode}
+                    onResolveCandidates={handleResolveCandidates}
+                    onEditImage={handleEditImage}
+                    onShowRevisions={setRevisionNodeId}
+                    onReviewEdit={setReviewNodeId}
+                    onPreviewSettled={handlePreviewSettled}
+                    onSpawnOutputs={handleSpawnOutputs}
+                    onUpdateCells={handleUpdateCells}
                     onBackgroundClick={() => setActiveNodeId(null)}
+                    focusRequest={focusRequest}
                 />
             </ErrorBoundary>
         </div>
@@ -1495,16 +2148,43 @@ _
             <OmniBar 
                 activeAgent={activeAgent} 
                 onSend={handleSend} 
+                onStop={handleStopGeneration}
                 isThinking={isThinking} 
                 onSelectAgent={setActiveAgent}
                 onToggleLive={toggleLiveMode}
                 isLiveMode={isLiveMode}
                 referencedNodes={referencedNodes}
+                contextEntries={nodeContext.entries}
                 nodeContext={activeNodeContext}
                 onFileUpload={handleOmniBarUpload}
             />
         </ErrorBoundary>
 
+        {usageWorkspace && (
+            <UsagePanel
+                workspace={usageWorkspace}
+                onBudgetChange={(budget) => handleBudgetChange(usageWorkspace.id, budget)}
+                onClose={() => setUsageWorkspaceId(null)}
+            />
+        )}
+
+        {revisionNode && (
+            <RevisionPanel
+                node={revisionNode}
+                onRestore={(revisionId) => handleRestoreRevision(revisionNode.id, revisionId)}
+                onClose={() => setRevisionNodeId(null)}
+            />
+        )}
+
+        {reviewNode && (
+            <EditReviewPanel
+                node={reviewNode}
+                onAccept={() => handleResolvePendingEdit(reviewNode.id, true)}
+                onReject={() => handleResolvePendingEdit(reviewNode.id, false)}
+                onClose={() => setReviewNodeId(null)}
+            />
+        )}
+
     </div>
   );
 }
@@ -1,7 +1,18 @@
 
 import React, { useState, useRef, useEffect, memo, useMemo, useCallback } from 'react';
-import { CanvasNode as CanvasNodeType, CanvasFile, HandleSide } from '../types';
+import { CanvasNode as CanvasNodeType, CanvasFile, HandleSide, NotebookCell, RunOutput } from '../types';
 import { MarkdownRenderer } from './MarkdownRenderer';
+import RunOutputs from './RunOutputs';
+import NotebookView from './NotebookView';
+import { useMediaUrl } from '../services/mediaStore';
+import { MaskedEdit } from '../services/imageMask';
+import ImageMaskEditor from './ImageMaskEditor';
+import FileTree from './FileTree';
+import { allFolders, basename, dirname, filesFromZip, filesToZip, languageOf, movePath, removeFolder } from '../services/fileTree';
+import { PREVIEW_SANDBOX, PreviewBundle, PreviewLogEntry, SourceLocation, bundlePreview, cleanCode, hasPreview, readPreviewMessage } from '../services/previewRuntime';
+import { DEFAULT_FIX_ATTEMPTS, enableAutoFix, isRuntimeError } from '../services/autoFix';
+import { CodeRuntime, RunResult, appendOutput, findRunEntry, runLanguageOf } from '../services/codeRunner';
+import { notebookToIpynb } from '../services/notebook';
 
 // Type definition for Prism global
 declare global {
@@ -10,6 +21,11 @@ declare global {
   }
 }
 
+// Console entries kept per preview run
+const MAX_PREVIEW_LOGS = 200;
+// Quiet time after the preview loads (or its last error) before the run is reported as settled
+const PREVIEW_SETTLE_MS = 1500;
+
 interface CanvasNodeProps {
     node: CanvasNodeType;
     isSelected: boolean;
@@ -18,6 +34,13 @@ interface CanvasNodeProps {
     onSelect: (id: string, multi: boolean) => void;
     onDelete: (id: string) => void;
     onUpdate: (id: string, updates: Partial<CanvasNodeType>) => void;
+    onResolveCandidates: (id: string, action: 'promote' | 'spawn' | 'discard', index?: number) => void;
+    onEditImage: (id: string, prompt: string, masked: MaskedEdit) => void;
+    onShowRevisions: (id: string) => void;
+    onReviewEdit: (id: string) => void;
+    onPreviewSettled: (id: string, files: CanvasNodeType['files'], errors: PreviewLogEntry[]) => void;
+    onSpawnOutputs: (id: string, outputs: RunOutput[]) => void;
+    onUpdateCells: (id: string, update: (cells: NotebookCell[]) => NotebookCell[]) => void;
     onConnectStart: (id: string, side: HandleSide) => void;
     onConnectEnd: (id: string, side: HandleSide) => void;
     snapToGrid: boolean;
@@ -60,11 +83,19 @@ const Handle = ({ side, onMouseDown, onMouseUp, isConnecting }: { side: HandleSi
     );
 };
 
-const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, onMove, onSelect, onDelete, onUpdate, onConnectStart, onConnectEnd, snapToGrid, isConnecting, onContextMenu }) => {
-    const [viewMode, setViewMode] = useState<'code' | 'preview'>('preview');
+const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, onMove, onSelect, onDelete, onUpdate, onResolveCandidates, onEditImage, onShowRevisions, onReviewEdit, onPreviewSettled, onSpawnOutputs, onUpdateCells, onConnectStart, onConnectEnd, snapToGrid, isConnecting, onContextMenu }) => {
+    const [viewMode, setViewMode] = useState<'code' | 'preview' | 'run'>('preview');
     const [isEditing, setIsEditing] = useState(false);
     const [localContent, setLocalContent] = useState(node.content);
     const [showCopyFeedback, setShowCopyFeedback] = useState(false);
+    const [candidateIndex, setCandidateIndex] = useState(0);
+    // Mask painting (inpaint / outpaint) on image nodes, and press-and-hold comparison with the previous version
+    const [isMasking, setIsMasking] = useState(false);
+    const [showPrevious, setShowPrevious] = useState(false);
+    // Stored videos (idb://) resolve to an object URL for playback and download
+    const videoUrl = useMediaUrl(node.type === 'video' ? node.content : undefined);
+    // Earlier images are kept in IndexedDB
+    const previousImageUrl = useMediaUrl(node.type === 'image' ? node.revisions?.[node.revisions.length - 1]?.content : undefined);
     
     // Rename State
     const [isRenaming, setIsRenaming] = useState(false);
@@ -89,6 +120,9 @@ const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, o
         if (node.activeFile && derivedFiles[node.activeFile]) return node.activeFile;
         return Object.keys(derivedFiles)[0];
     });
+    const folders = node.folders || [];
+    const [isTreeOpen, setIsTreeOpen] = useState(() => Object.keys(derivedFiles).length > 1 || folders.length > 0);
+    const zipInputRef = useRef<HTMLInputElement>(null);
 
     // Refs for drag logic optimization (bypass React render cycle)
     const nodeRef = useRef<HTMLDivElement>(null);
@@ -99,8 +133,10 @@ const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, o
     const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
     const isCode = node.type === 'code';
-    // Check if we can preview: must be HTML file or supported language
-    const isPreviewable = isCode && (Object.keys(derivedFiles).some(f => f.endsWith('.html')) || ['html', 'svg', 'xml'].includes(node.language?.toLowerCase() || ''));
+    // Check if we can preview: an HTML file, a script entry (main/index or App component) or a supported language
+    const isPreviewable = isCode && (hasPreview(derivedFiles) || ['html', 'svg', 'xml'].includes(node.language?.toLowerCase() || ''));
+    // Scripts (Python, plain JS) can be run instead: the open file, or the node's main script
+    const runEntry = isCode ? findRunEntry(derivedFiles, activeTab) : null;
 
     // Sync local active tab if changed externally
     useEffect(() => {
@@ -159,15 +195,20 @@ const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, o
         const a = document.createElement('a');
         
         let filename = node.title || 'download';
-        let href = node.content;
+        let href = node.candidates?.[candidateIndex] ?? node.content;
 
         if (node.type === 'code') {
             filename = activeTab;
             const blob = new Blob([derivedFiles[activeTab]?.content || node.content], { type: 'text/plain' });
             href = URL.createObjectURL(blob);
+        } else if (node.type === 'notebook') {
+            if (!filename.toLowerCase().endsWith('.ipynb')) filename += '.ipynb';
+            href = URL.createObjectURL(new Blob([notebookToIpynb(node)], { type: 'application/x-ipynb+json' }));
         } else if (node.type === 'image') {
             if (!filename.toLowerCase().endsWith('.png')) filename += '.png';
         } else if (node.type === 'video') {
+             if (!videoUrl) return;
+             href = videoUrl;
              if (!filename.toLowerCase().endsWith('.mp4')) filename += '.mp4';
         }
 
@@ -175,7 +216,7 @@ const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, o
         a.download = filename;
         a.click();
         
-        if (node.type === 'code') {
+        if (node.type === 'code' || node.type === 'notebook') {
             URL.revokeObjectURL(href);
         }
     };
@@ -303,58 +344,77 @@ const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, o
     };
 
     // --- File Operations ---
-    const handleAddFile = (e: React.MouseEvent) => {
-        e.stopPropagation();
-        const name = prompt("Enter file name (e.g. style.css):");
-        if (!name) return;
-        
-        if (derivedFiles[name]) {
-            alert("File already exists");
-            return;
+    // Paths may be nested ('src/app.js'); folders only exist through their files plus `node.folders`
+    const handleCreateEntry = (path: string, kind: 'file' | 'folder') => {
+        if (derivedFiles[path] || allFolders(Object.keys(derivedFiles), folders).includes(path)) return `${path} already exists`;
+        if (kind === 'folder') {
+            onUpdate(node.id, { files: derivedFiles, folders: [...folders, path] });
+            return null;
         }
+        onUpdate(node.id, {
+            files: { ...derivedFiles, [path]: { name: path, content: '', language: languageOf(path) } },
+            // The file keeps its folder alive now
+            folders: folders.filter(f => f !== dirname(path)),
+            activeFile: path
+        });
+        setActiveTab(path);
+        return null;
+    };
 
-        const newFiles = {
-            ...derivedFiles,
-            [name]: { name, content: '', language: name.split('.').pop() || 'txt' }
-        };
-
-        onUpdate(node.id, { files: newFiles, activeFile: name });
-        setActiveTab(name);
+    const handleMoveEntry = (from: string, to: string) => {
+        const moved = movePath(derivedFiles, folders, from, to);
+        if (!moved) return `Cannot move ${basename(from)} there`;
+        const newActive = moved.rename(activeTab);
+        onUpdate(node.id, { files: moved.files, folders: moved.folders, activeFile: newActive });
+        setActiveTab(newActive);
+        return null;
     };
 
-    const handleRenameFile = (oldName: string) => {
-        const newName = prompt("Rename file:", oldName);
-        if (!newName || newName === oldName) return;
-        
-        if (derivedFiles[newName]) {
-            alert("File name already exists");
+    const handleDeleteEntry = (path: string, kind: 'file' | 'folder') => {
+        const remaining = kind === 'file'
+            ? { files: Object.fromEntries(Object.entries(derivedFiles).filter(([p]) => p !== path)), folders }
+            : removeFolder(derivedFiles, folders, path);
+        if (Object.keys(remaining.files).length === 0) {
+            alert("Cannot delete the last file.");
             return;
         }
+        if (!confirm(kind === 'file' ? `Delete ${path}?` : `Delete folder ${path} and everything in it?`)) return;
 
-        const file = derivedFiles[oldName];
-        const newFiles = { ...derivedFiles };
-        delete newFiles[oldName];
-        newFiles[newName] = { ...file, name: newName, language: newName.split('.').pop() || 'txt' };
-
-        onUpdate(node.id, { files: newFiles, activeFile: newName });
-        setActiveTab(newName);
+        const newActive = remaining.files[activeTab] ? activeTab : Object.keys(remaining.files)[0];
+        onUpdate(node.id, { files: remaining.files, folders: remaining.folders, activeFile: newActive });
+        setActiveTab(newActive);
     };
 
-    const handleDeleteFile = (fileName: string, e: React.MouseEvent) => {
+    const handleExportZip = (e: React.MouseEvent) => {
         e.stopPropagation();
-        if (Object.keys(derivedFiles).length <= 1) {
-            alert("Cannot delete the last file.");
-            return;
-        }
-        if (!confirm(`Delete ${fileName}?`)) return;
+        const url = URL.createObjectURL(filesToZip(derivedFiles));
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${(node.title || 'project').replace(/\.[^.]+$/, '')}.zip`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
 
-        const newFiles = { ...derivedFiles };
-        delete newFiles[fileName];
-        
-        const newActive = activeTab === fileName ? Object.keys(newFiles)[0] : activeTab;
-        
-        onUpdate(node.id, { files: newFiles, activeFile: newActive });
-        setActiveTab(newActive);
+    // Imported files are added to the node, replacing files with the same path
+    const handleImportZip = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const { files, skipped } = await filesFromZip(await file.arrayBuffer());
+            const names = Object.keys(files);
+            if (names.length === 0) {
+                alert('No text files found in the archive.');
+                return;
+            }
+            const newActive = names.find(n => basename(n) === 'index.html') || names[0];
+            onUpdate(node.id, { files: { ...derivedFiles, ...files }, activeFile: newActive });
+            setActiveTab(newActive);
+            setIsTreeOpen(true);
+            if (skipped.length) alert(`Skipped ${skipped.length} binary file(s): ${skipped.slice(0, 5).join(', ')}${skipped.length > 5 ? '...' : ''}`);
+        } catch (err: any) {
+            alert(`Could not import ${file.name}: ${err.message || err}`);
+        }
     };
 
     // --- Editor Logic ---
@@ -435,53 +495,36 @@ const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, o
         }, 0);
     };
 
-    const cleanCode = useCallback((content: string) => {
-        let c = content.trim();
-        if (c.startsWith('```')) {
-            const lines = c.split('\n');
-            if (lines.length > 1) {
-                lines.shift();
-                if (lines[lines.length-1].trim() === '```') lines.pop();
-                return lines.join('\n');
-            }
-        }
-        return content;
-    }, []);
-
-    const bundlePreview = useCallback(() => {
-        const indexFileKey = Object.keys(derivedFiles).find(k => k === 'index.html') || Object.keys(derivedFiles).find(k => k.endsWith('.html')) || Object.keys(derivedFiles)[0];
-        let htmlContent = cleanCode(derivedFiles[indexFileKey]?.content || "");
-
-        htmlContent = htmlContent.replace(/<link[^>]+href=["']([^"']+\.css)["'][^>]*>/g, (match, href) => {
-            const cssFile = derivedFiles[href];
-            if (cssFile) {
-                return `<style>\n${cleanCode(cssFile.content)}\n</style>`;
-            }
-            return match;
-        });
-
-        htmlContent = htmlContent.replace(/<script[^>]+src=["']([^"']+\.js)["'][^>]*><\/script>/g, (match, src) => {
-            const jsFile = derivedFiles[src];
-            if (jsFile) {
-                return `<script>\n${cleanCode(jsFile.content)}\n</script>`;
-            }
-            return match;
-        });
-
-        return htmlContent;
-    }, [derivedFiles, cleanCode]);
-
     // Use effect to manage blob URL and prevent flashing with Debounce
     const [previewUrl, setPreviewUrl] = useState<string>('');
+    // Console output of the running preview; the bundle maps its lines back to files
+    const [previewLogs, setPreviewLogs] = useState<PreviewLogEntry[]>([]);
+    const [isConsoleOpen, setIsConsoleOpen] = useState(false);
+    const previewBundleRef = useRef<PreviewBundle | null>(null);
+    const previewFrameRef = useRef<HTMLIFrameElement>(null);
+    // Errors of the current run; unlike the console, not cleared by the user
+    const [previewErrors, setPreviewErrors] = useState<PreviewLogEntry[]>([]);
+    // Files of the bundle that has loaded in the frame (null while the next one loads)
+    const [loadedFiles, setLoadedFiles] = useState<CanvasNodeType['files'] | null>(null);
+    const previewFilesRef = useRef<CanvasNodeType['files']>(undefined);
 
     useEffect(() => {
         if (viewMode !== 'preview' || !isPreviewable) return;
         
         if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current);
 
-        debounceTimerRef.current = setTimeout(() => {
-            const html = bundlePreview();
-            const blob = new Blob([html], { type: 'text/html' });
+        // Bundling may wait for the transpiler; a newer edit supersedes it
+        let superseded = false;
+        debounceTimerRef.current = setTimeout(async () => {
+            const bundle = await bundlePreview(derivedFiles);
+            if (superseded) return;
+            previewBundleRef.current = bundle;
+            previewFilesRef.current = node.files;
+            setLoadedFiles(null);
+            setPreviewLogs(bundle.diagnostics);
+            setPreviewErrors(bundle.diagnostics.filter(isRuntimeError));
+            if (bundle.diagnostics.length) setIsConsoleOpen(true);
+            const blob = new Blob([bundle.html], { type: 'text/html' });
             const url = URL.createObjectURL(blob);
             setPreviewUrl(prev => {
                 if (prev) URL.revokeObjectURL(prev);
@@ -490,9 +533,92 @@ const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, o
         }, 1000); // 1 second delay to stabilize preview during typing/generation
 
         return () => {
+             superseded = true;
              if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current);
         };
-    }, [bundlePreview, viewMode, isPreviewable]);
+    }, [derivedFiles, viewMode, isPreviewable]);
+
+    // Bridge messages from this node's preview frame (its origin is opaque, so match on the window)
+    useEffect(() => {
+        if (!isPreviewable) return;
+        const onMessage = (e: MessageEvent) => {
+            if (!previewBundleRef.current || e.source !== previewFrameRef.current?.contentWindow) return;
+            const entry = readPreviewMessage(e.data, previewBundleRef.current);
+            if (!entry) return;
+            setPreviewLogs(prev => [...prev.slice(-(MAX_PREVIEW_LOGS - 1)), entry]);
+            if (isRuntimeError(entry)) setPreviewErrors(prev => [...prev.slice(-(MAX_PREVIEW_LOGS - 1)), entry]);
+        };
+        window.addEventListener('message', onMessage);
+        return () => window.removeEventListener('message', onMessage);
+    }, [isPreviewable]);
+
+    // Report each settled run (and any later errors) for auto-fix; re-checked when auto-fix is turned on,
+    // and when an attempt finishes, since a run that settled while it was still in progress was ignored
+    useEffect(() => {
+        if (!node.autoFix?.enabled || loadedFiles === null) return;
+        const timer = setTimeout(() => onPreviewSettled(node.id, loadedFiles, previewErrors), PREVIEW_SETTLE_MS);
+        return () => clearTimeout(timer);
+    }, [loadedFiles, previewErrors, node.autoFix?.enabled, node.autoFix?.maxAttempts, node.autoFix?.status]);
+
+    const toggleAutoFix = () => onUpdate(node.id, { autoFix: enableAutoFix(!node.autoFix?.enabled, node.autoFix?.maxAttempts) });
+
+    // Open a file from the console at the reported line
+    const [pendingJump, setPendingJump] = useState<SourceLocation | null>(null);
+    const codeEditorRef = useRef<HTMLTextAreaElement>(null);
+
+    const jumpToSource = (source: SourceLocation) => {
+        if (!derivedFiles[source.file]) return;
+        setActiveTab(source.file);
+        onUpdate(node.id, { activeFile: source.file });
+        setViewMode('code');
+        setPendingJump(source);
+    };
+
+    useEffect(() => {
+        const editor = codeEditorRef.current;
+        if (!pendingJump || !editor || viewMode !== 'code' || activeTab !== pendingJump.file) return;
+        const lines = editor.value.split('\n');
+        const line = Math.min(pendingJump.line, lines.length);
+        const start = lines.slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0);
+        editor.focus();
+        editor.setSelectionRange(start, start + (lines[line - 1]?.length || 0));
+        editor.scrollTop = Math.max(0, (line - 3) * 24); // leading-6
+        setPendingJump(null);
+    }, [pendingJump, viewMode, activeTab]);
+
+    // Script runs: outputs of the latest run; the runtime (and Python's loaded packages) lives as long as the node
+    const runtimeRef = useRef<CodeRuntime | null>(null);
+    const runIdRef = useRef(0);
+    const [runOutputs, setRunOutputs] = useState<RunOutput[]>([]);
+    const [runState, setRunState] = useState<{ entry: string; status: RunResult['status'] | 'running'; duration?: number } | null>(null);
+    const [runStatus, setRunStatus] = useState('');
+
+    useEffect(() => () => runtimeRef.current?.stop(), []);
+
+    const handleRun = async () => {
+        const file = runEntry ? derivedFiles[runEntry] : undefined;
+        const language = runLanguageOf(file);
+        if (!runEntry || !file || !language) return;
+        const runtime = runtimeRef.current ??= new CodeRuntime();
+        // A new run replaces one still going
+        if (runtime.isRunning) runtime.stop();
+        const id = ++runIdRef.current;
+        setViewMode('run');
+        setRunOutputs([]);
+        setRunState({ entry: runEntry, status: 'running' });
+        const result = await runtime.run(
+            { language, files: derivedFiles, file: runEntry, code: file.content, reset: true },
+            {
+                onOutput: (output) => { if (runIdRef.current === id) setRunOutputs(prev => appendOutput(prev, output)); },
+                onStatus: (status) => { if (runIdRef.current === id) setRunStatus(status); }
+            }
+        );
+        if (runIdRef.current !== id) return;
+        setRunState({ entry: runEntry, status: result.status, duration: result.duration });
+        setRunStatus('');
+    };
+
+    const handleStopRun = () => runtimeRef.current?.stop();
 
     // --- Rename Handlers ---
     const handleRenameSubmit = () => {
@@ -514,26 +640,139 @@ const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, o
 
     // Render Content based on Type
     const renderContent = () => {
+        if (node.type === 'notebook') {
+            return <NotebookView node={node} onUpdate={onUpdate} onUpdateCells={onUpdateCells} onSpawnOutputs={onSpawnOutputs} onNodeLinkClick={(id) => onSelect(id, false)} />;
+        }
         if (node.type === 'code') {
+            if (viewMode === 'run' && runEntry) {
+                const running = runState?.status === 'running';
+                return (
+                    <div className="w-full h-full flex flex-col bg-[#1E1E1E] text-[12px] font-mono" onMouseDown={(e) => e.stopPropagation()}>
+                        <div className="flex items-center gap-2 px-2 py-1.5 bg-[#252526] border-b border-[#333] text-[#969696] shrink-0">
+                            <button
+                                onClick={running ? handleStopRun : handleRun}
+                                className={`flex items-center gap-1.5 px-2 py-0.5 rounded font-sans text-[10px] font-bold uppercase tracking-wider transition-colors ${running ? 'text-red-300 hover:bg-red-500/10' : 'text-emerald-300 hover:bg-emerald-500/10'}`}
+                                title={running ? 'Stop the script' : `Run ${runEntry}`}
+                            >
+                                <i className={`fa-solid ${running ? 'fa-stop' : 'fa-play'} text-[9px]`}></i>
+                                {running ? 'Stop' : 'Run'}
+                            </button>
+                            <span className="min-w-0 truncate text-[#D4D4D4]" title={runState?.entry || runEntry}>{runState?.entry || runEntry}</span>
+                            <span className={`shrink-0 font-sans text-[10px] ${runState?.status === 'error' ? 'text-red-400' : ''}`}>
+                                {running && <><i className="fa-solid fa-circle-notch animate-spin mr-1"></i>{runStatus || 'Running...'}</>}
+                                {runState?.status === 'ok' && `Done in ${(runState.duration! / 1000).toFixed(1)}s`}
+                                {runState?.status === 'error' && 'Failed'}
+                                {runState?.status === 'stopped' && 'Stopped'}
+                            </span>
+                            {runOutputs.length > 0 && !running && (
+                                <button
+                                    onClick={() => onSpawnOutputs(node.id, runOutputs)}
+                                    className="ml-auto shrink-0 hover:text-white transition-colors"
+                                    title="Add the output to the canvas"
+                                >
+                                    <i className="fa-solid fa-share-from-square text-[10px]"></i>
+                                </button>
+                            )}
+                        </div>
+                        <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar p-2 space-y-2" onWheel={stopScrollPropagation}>
+                            {!runState && <div className="text-[#6A6A6A] font-sans text-xs">Press Run to execute {runEntry}.</div>}
+                            {runState && !running && runOutputs.length === 0 && <div className="text-[#6A6A6A] font-sans text-xs">No output</div>}
+                            <RunOutputs outputs={runOutputs} onJump={jumpToSource} onSpawn={(outputs) => onSpawnOutputs(node.id, outputs)} />
+                        </div>
+                    </div>
+                );
+            }
+
             if (viewMode === 'preview' && isPreviewable) {
+                const errorCount = previewLogs.filter(l => l.level === 'error').length;
+                const warnCount = previewLogs.filter(l => l.level === 'warn').length;
                 return (
-                    <div 
-                        className="w-full h-full bg-white relative group/preview"
-                        onDoubleClick={() => setViewMode('code')}
-                    >
-                        {previewUrl && (
-                            <iframe 
-                                src={previewUrl} 
-                                className="w-full h-full border-none pointer-events-auto" 
-                                title="Preview"
-                                sandbox="allow-scripts allow-modals allow-same-origin" 
-                            />
-                        )}
-                        {!previewUrl && (
-                            <div className="flex items-center justify-center h-full text-gray-400">
-                                <i className="fa-solid fa-circle-notch animate-spin text-xl"></i>
+                    <div className="w-full h-full flex flex-col bg-white">
+                        <div 
+                            className="flex-1 min-h-0 relative group/preview"
+                            onDoubleClick={() => setViewMode('code')}
+                        >
+                            {previewUrl && (
+                                <iframe 
+                                    ref={previewFrameRef}
+                                    src={previewUrl} 
+                                    onLoad={() => setLoadedFiles(previewFilesRef.current)}
+                                    className="w-full h-full border-none pointer-events-auto" 
+                                    title="Preview"
+                                    sandbox={PREVIEW_SANDBOX} 
+                                />
+                            )}
+                            {!previewUrl && (
+                                <div className="flex items-center justify-center h-full text-gray-400">
+                                    <i className="fa-solid fa-circle-notch animate-spin text-xl"></i>
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Preview Console */}
+                        <div className="shrink-0 bg-[#1E1E1E] border-t border-[#333] text-[11px] font-mono" onMouseDown={(e) => e.stopPropagation()}>
+                            <div className="flex items-center gap-3 px-2 py-1 text-[#969696]">
+                                <button onClick={() => setIsConsoleOpen(o => !o)} className="flex items-center gap-1.5 hover:text-white transition-colors">
+                                    <i className={`fa-solid fa-chevron-${isConsoleOpen ? 'down' : 'up'} text-[8px]`}></i>
+                                    <span className="font-sans text-[9px] font-bold uppercase tracking-wider">Console</span>
+                                </button>
+                                {errorCount > 0 && <span className="text-red-400"><i className="fa-solid fa-circle-xmark text-[9px] mr-1"></i>{errorCount}</span>}
+                                {warnCount > 0 && <span className="text-amber-400"><i className="fa-solid fa-triangle-exclamation text-[9px] mr-1"></i>{warnCount}</span>}
+                                <div className="ml-auto flex items-center gap-2">
+                                    {node.autoFix?.enabled && (
+                                        <span className={`font-sans text-[9px] ${node.autoFix.status === 'gave-up' ? 'text-red-400' : node.autoFix.status === 'fixed' ? 'text-emerald-400' : ''}`}>
+                                            {node.autoFix.status === 'fixing' && <i className="fa-solid fa-circle-notch animate-spin mr-1"></i>}
+                                            {node.autoFix.status === 'fixed' ? 'Fixed' : `${node.autoFix.attempts}/`}
+                                            {node.autoFix.status !== 'fixed' && (
+                                                <select
+                                                    value={node.autoFix.maxAttempts}
+                                                    onChange={(e) => onUpdate(node.id, { autoFix: { ...node.autoFix!, maxAttempts: Number(e.target.value), status: node.autoFix!.status === 'gave-up' ? undefined : node.autoFix!.status } })}
+                                                    className="bg-transparent outline-none cursor-pointer"
+                                                    title="Maximum fix attempts"
+                                                >
+                                                    {[1, 2, 3, 5, 8].map(n => <option key={n} value={n} className="bg-[#1E1E1E]">{n}</option>)}
+                                                </select>
+                                            )}
+                                        </span>
+                                    )}
+                                    <button
+                                        onClick={toggleAutoFix}
+                                        className={`flex items-center gap-1 font-sans text-[9px] font-bold uppercase tracking-wider transition-colors ${node.autoFix?.enabled ? 'text-accent-primary' : 'hover:text-white'}`}
+                                        title={node.autoFix?.enabled ? 'Stop sending preview errors to CodeNest' : `Send preview errors to CodeNest and apply its fixes (up to ${node.autoFix?.maxAttempts || DEFAULT_FIX_ATTEMPTS} attempts)`}
+                                    >
+                                        <i className="fa-solid fa-wand-magic-sparkles text-[9px]"></i>
+                                        Auto-fix
+                                    </button>
+                                    {previewLogs.length > 0 && (
+                                        <button onClick={() => setPreviewLogs([])} className="hover:text-white transition-colors" title="Clear console">
+                                            <i className="fa-solid fa-ban text-[9px]"></i>
+                                        </button>
+                                    )}
+                                </div>
                             </div>
-                        )}
+                            {isConsoleOpen && (
+                                <div className="max-h-40 overflow-y-auto custom-scrollbar border-t border-[#333]" onWheel={stopScrollPropagation}>
+                                    {previewLogs.length === 0 && <div className="px-2 py-1.5 text-[#6A6A6A]">No output</div>}
+                                    {previewLogs.map((log, i) => (
+                                        <div
+                                            key={i}
+                                            className={`flex items-start gap-2 px-2 py-1 border-b border-[#2A2A2A] ${log.level === 'error' ? 'bg-red-500/10 text-red-300' : log.level === 'warn' ? 'bg-amber-500/10 text-amber-200' : 'text-[#CCCCCC]'}`}
+                                        >
+                                            <span className="flex-1 min-w-0 whitespace-pre-wrap break-words">{log.message}</span>
+                                            {log.source && (
+                                                <button
+                                                    onClick={() => jumpToSource(log.source!)}
+                                                    className="shrink-0 text-[#6A9FD8] hover:underline"
+                                                    title="Open in editor"
+                                                >
+                                                    {log.source.file}:{log.source.line}
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
                     </div>
                 );
             }
@@ -543,71 +782,77 @@ const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, o
             
             return (
                 <div className="flex-1 flex flex-col bg-[#2d2d2d] overflow-hidden">
-                    <div className="flex bg-[#252526] border-b border-[#333] overflow-x-auto no-scrollbar items-center" onWheel={stopScrollPropagation}>
-                        {Object.values(derivedFiles).map((file: CanvasFile) => (
-                            <div 
-                                key={file.name}
-                                className={`
-                                    group/tab flex items-center border-r border-[#333]
-                                    ${activeTab === file.name 
-                                        ? 'bg-[#1E1E1E] text-[#D4D4D4] border-t-2 border-t-accent-primary' 
-                                        : 'text-[#969696] hover:bg-[#2A2D2E] hover:text-[#CCCCCC] border-t-2 border-t-transparent'
-                                    }
-                                `}
-                            >
-                                <button
-                                    onClick={(e) => { e.stopPropagation(); setActiveTab(file.name); }}
-                                    onDoubleClick={(e) => { e.stopPropagation(); handleRenameFile(file.name); }}
-                                    className="px-3 py-2 text-xs font-medium flex items-center gap-2 whitespace-nowrap"
-                                >
-                                    <i className={`fa-brands ${file.name.endsWith('.html') ? 'fa-html5 text-orange-500' : file.name.endsWith('.css') ? 'fa-css3 text-blue-500' : file.name.endsWith('.js') ? 'fa-js text-yellow-500' : 'fa-codepen'} text-[10px]`}></i>
-                                    {file.name}
-                                </button>
-                                
-                                {/* Delete Button (only visible on hover or active) */}
-                                <button
-                                    onClick={(e) => handleDeleteFile(file.name, e)}
-                                    className={`w-6 h-full flex items-center justify-center hover:text-red-400 ${activeTab === file.name ? 'opacity-100' : 'opacity-0 group-hover/tab:opacity-100'} transition-opacity`}
-                                >
-                                    <i className="fa-solid fa-xmark text-[10px]"></i>
-                                </button>
-                            </div>
-                        ))}
-                        
-                        {/* Add File Button */}
-                        <button 
-                            onClick={handleAddFile}
-                            className="px-3 py-2 text-[#969696] hover:text-white hover:bg-[#2A2D2E] transition-colors"
-                            title="Add File"
+                    {/* Toolbar: file tree toggle, open file, zip import / export */}
+                    <div className="flex items-center gap-2 bg-[#252526] border-b border-[#333] px-2 py-1.5 shrink-0" onMouseDown={(e) => e.stopPropagation()}>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); setIsTreeOpen(o => !o); }}
+                            className={`w-6 h-6 flex items-center justify-center rounded transition-colors ${isTreeOpen ? 'text-white bg-[#37373D]' : 'text-[#969696] hover:text-white'}`}
+                            title={isTreeOpen ? 'Hide files' : 'Show files'}
+                        >
+                            <i className="fa-solid fa-folder-tree text-[11px]"></i>
+                        </button>
+                        <span className="min-w-0 truncate text-xs font-medium text-[#D4D4D4]" title={activeTab}>
+                            {dirname(activeTab) && <span className="text-[#969696]">{dirname(activeTab)}/</span>}
+                            {basename(activeTab)}
+                        </span>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); zipInputRef.current?.click(); }}
+                            className="ml-auto w-6 h-6 flex items-center justify-center rounded text-[#969696] hover:text-white transition-colors"
+                            title="Import files from a .zip"
                         >
-                            <i className="fa-solid fa-plus text-xs"></i>
+                            <i className="fa-solid fa-file-import text-[11px]"></i>
                         </button>
+                        <button
+                            onClick={handleExportZip}
+                            className="w-6 h-6 flex items-center justify-center rounded text-[#969696] hover:text-white transition-colors"
+                            title="Download all files as .zip"
+                        >
+                            <i className="fa-solid fa-file-zipper text-[11px]"></i>
+                        </button>
+                        <input ref={zipInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={handleImportZip} />
                     </div>
-                    
-                    <div 
-                        className="h-full overflow-hidden relative" 
-                        onMouseDown={(e) => e.stopPropagation()} 
-                        onWheel={stopScrollPropagation}
-                    >
-                         {/* Syntax Highlighting Layer (Bottom) */}
-                         <pre 
-                            className={`absolute inset-0 p-5 font-mono text-[13px] leading-6 pointer-events-none whitespace-pre-wrap break-all text-[#ccc]`}
-                            aria-hidden="true"
-                         >
-                             <code 
-                                className={`language-${currentLang}`} 
-                                dangerouslySetInnerHTML={{ __html: highlightedCode || cleanCode(currentFileContent).replace(/</g, '&lt;') }} 
+
+                    <div className="flex-1 flex min-h-0">
+                        {isTreeOpen && (
+                            <div className="w-44 shrink-0 border-r border-[#333]" onMouseDown={(e) => e.stopPropagation()} onWheel={stopScrollPropagation}>
+                                <FileTree
+                                    files={derivedFiles}
+                                    folders={folders}
+                                    activeFile={activeTab}
+                                    onOpen={(path) => { setActiveTab(path); onUpdate(node.id, { activeFile: path }); }}
+                                    onCreate={handleCreateEntry}
+                                    onMove={handleMoveEntry}
+                                    onDelete={handleDeleteEntry}
+                                />
+                            </div>
+                        )}
+
+                        <div 
+                            className="flex-1 min-w-0 h-full overflow-hidden relative" 
+                            onMouseDown={(e) => e.stopPropagation()} 
+                            onWheel={stopScrollPropagation}
+                        >
+                             {/* Syntax Highlighting Layer (Bottom) */}
+                             <pre 
+                                className={`absolute inset-0 p-5 font-mono text-[13px] leading-6 pointer-events-none whitespace-pre-wrap break-all text-[#ccc]`}
+                                aria-hidden="true"
+                             >
+                                 <code 
+                                    className={`language-${currentLang}`} 
+                                    dangerouslySetInnerHTML={{ __html: highlightedCode || cleanCode(currentFileContent).replace(/</g, '&lt;') }} 
+                                 />
+                             </pre>
+
+                             {/* Editor Layer (Top, Transparent) */}
+                             <textarea
+                                ref={codeEditorRef}
+                                className="absolute inset-0 w-full h-full p-5 font-mono text-[13px] leading-6 text-transparent bg-transparent caret-white resize-none outline-none border-none custom-scrollbar"
+                                value={cleanCode(currentFileContent)}
+                                onChange={(e) => handleCodeChange(e.target.value)}
+                                spellCheck={false}
+                                style={{ color: 'transparent' }} // Ensure text is transparent so pre shows through
                              />
-                         </pre>
-
-                         {/* Editor Layer (Top, Transparent) */}
-                         <textarea
-                            className="absolute inset-0 w-full h-full p-5 font-mono text-[13px] leading-6 text-transparent bg-transparent caret-white resize-none outline-none border-none custom-scrollbar"
-                            value={cleanCode(currentFileContent)}
-                            onChange={(e) => handleCodeChange(e.target.value)}
-                            spellCheck={false}
-                            style={{ color: 'transparent' }} // Ensure text is transparent so pre shows through
-                         />
+                        </div>
                     </div>
                 </div>
             );
@@ -629,12 +874,60 @@ const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, o
                          <div className="flex flex-col items-center gap-1">
                             <span className="text-sm font-semibold text-text-primary tracking-wide">Generating...</span>
                             <span className="text-[10px] text-text-secondary uppercase tracking-wider font-medium">Creating your {isImg ? 'Visual' : 'Motion'}</span>
+                            {node.videoOperation && (
+                                <span className="text-[10px] text-text-muted">Rendering since {new Date(node.videoOperation.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} · safe to reload</span>
+                            )}
                          </div>
                     </div>
                 </div>
             );
         }
 
+        // Variant gallery: pick one, keep the rest as siblings, or discard the batch
+        if (node.type === 'image' && node.candidates?.length) {
+            const selected = Math.min(candidateIndex, node.candidates.length - 1);
+            const cols = node.candidates.length > 4 ? 3 : 2;
+            return (
+                <div className="w-full h-full flex flex-col bg-bg-surface" onMouseDown={(e) => e.stopPropagation()}>
+                    <div className="flex-1 grid gap-1 p-1 min-h-0" style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))` }}>
+                        {node.candidates.map((url, i) => (
+                            <button
+                                key={i}
+                                onClick={() => setCandidateIndex(i)}
+                                onDoubleClick={() => { onResolveCandidates(node.id, 'promote', i); setCandidateIndex(0); }}
+                                className={`relative rounded-md overflow-hidden min-h-0 border-2 transition-colors ${i === selected ? 'border-accent-primary' : 'border-transparent hover:border-border-subtle'}`}
+                                title="Click to select, double-click to use"
+                            >
+                                <img src={url} alt={`${node.title} variant ${i + 1}`} className="w-full h-full object-cover pointer-events-none" />
+                                <span className="absolute top-1 left-1 px-1.5 rounded bg-black/50 text-white text-[9px] font-mono">{i + 1}</span>
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-1.5 px-2 py-1.5 border-t border-border-subtle bg-bg-main/30 shrink-0">
+                        <button
+                            onClick={() => { onResolveCandidates(node.id, 'promote', selected); setCandidateIndex(0); }}
+                            className="px-2 py-1 rounded-md bg-accent-primary text-white text-[10px] font-semibold hover:opacity-90 transition-opacity"
+                        >
+                            Use #{selected + 1}
+                        </button>
+                        <button
+                            onClick={() => { onResolveCandidates(node.id, 'spawn', selected); setCandidateIndex(0); }}
+                            className="px-2 py-1 rounded-md text-[10px] font-medium text-text-secondary hover:text-text-primary hover:bg-black/5 dark:hover:bg-white/10 transition-colors"
+                            title="Use the selected variant and add the others as sibling nodes"
+                        >
+                            Keep Others as Nodes
+                        </button>
+                        <button
+                            onClick={() => { onResolveCandidates(node.id, 'discard'); setCandidateIndex(0); }}
+                            className="ml-auto px-2 py-1 rounded-md text-[10px] font-medium text-text-secondary hover:text-red-500 hover:bg-red-500/10 transition-colors"
+                        >
+                            Discard
+                        </button>
+                    </div>
+                </div>
+            );
+        }
+
         switch (node.type) {
             case 'image':
                 const isPlaceholderImg = node.content.includes('placehold.co') || !node.content;
@@ -644,13 +937,23 @@ const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, o
                             <div className="w-12 h-12 rounded-full bg-black/5 dark:bg-white/5 flex items-center justify-center">
                                 <i className="fa-regular fa-image text-xl opacity-50"></i>
                             </div>
-                            <span className="text-xs font-medium opacity-60">Waiting for image...</span>
+                            <span className="text-xs font-medium opacity-60">{node.generationStatus === 'cancelled' ? 'Generation cancelled' : 'Waiting for image...'}</span>
                         </div>
                     );
                 }
+                if (isMasking) {
+                    return (
+                        <ImageMaskEditor
+                            imageUrl={node.content}
+                            onApply={(prompt, masked) => { onEditImage(node.id, prompt, masked); setIsMasking(false); }}
+                            onCancel={() => setIsMasking(false)}
+                        />
+                    );
+                }
+                const previous = showPrevious ? previousImageUrl : undefined;
                 return (
                     <div className="w-full h-full bg-bg-surface flex items-center justify-center overflow-hidden">
-                        <img src={node.content} alt={node.title} className="w-full h-full object-cover pointer-events-none" />
+                        <img src={previous || node.content} alt={node.title} className="w-full h-full object-cover pointer-events-none" />
                     </div>
                 );
             case 'video':
@@ -661,13 +964,15 @@ const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, o
                              <div className="w-12 h-12 rounded-full bg-black/5 dark:bg-white/5 flex items-center justify-center">
                                 <i className="fa-solid fa-film text-xl opacity-50"></i>
                             </div>
-                            <span className="text-xs font-medium opacity-60">Waiting for video...</span>
+                            <span className="text-xs font-medium opacity-60">{node.generationStatus === 'cancelled' ? 'Generation cancelled' : 'Waiting for video...'}</span>
                         </div>
                     );
                 }
                 return (
                     <div className="w-full h-full bg-black overflow-hidden flex items-center justify-center">
-                         <video src={node.content} controls className="w-full h-full object-contain" />
+                         {videoUrl
+                             ? <video src={videoUrl} controls className="w-full h-full object-contain" />
+                             : <i className="fa-solid fa-circle-notch fa-spin text-white/40"></i>}
                     </div>
                 );
             case 'text':
@@ -785,7 +1090,7 @@ const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, o
                 className={`
                     h-10 shrink-0 flex items-center justify-between px-3 gap-3
                     border-b cursor-grab active:cursor-grabbing select-none
-                    ${node.type === 'code'
+                    ${node.type === 'code' || node.type === 'notebook'
                         ? 'bg-[#1E1E1E] border-[#333] text-gray-400' 
                         : 'bg-bg-panel backdrop-blur-xl border-border-subtle text-text-primary'}
                 `}
@@ -814,7 +1119,7 @@ const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, o
                             autoFocus
                             onMouseDown={(e) => e.stopPropagation()}
                             className="text-[12px] font-medium bg-transparent border-b border-accent-primary outline-none w-full min-w-0"
-                            style={{ color: node.type === 'code' ? '#E0E0E0' : 'inherit' }}
+                            style={{ color: node.type === 'code' || node.type === 'notebook' ? '#E0E0E0' : 'inherit' }}
                         />
                     ) : (
                         <span 
@@ -825,6 +1130,38 @@ const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, o
                             {node.title}
                         </span>
                     )}
+
+                    {!!node.candidates?.length && (
+                        <span className="shrink-0 px-1.5 py-0.5 rounded-md bg-accent-primary/15 text-accent-primary border border-accent-primary/30 text-[9px] font-bold uppercase tracking-wider">
+                            {node.candidates.length} variants
+                        </span>
+                    )}
+
+                    {/* Proposed Code Edits (click to review) */}
+                    {node.pendingEdit && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onReviewEdit(node.id); }}
+                            onMouseDown={(e) => e.stopPropagation()}
+                            className="shrink-0 flex items-center gap-1 px-1.5 py-0.5 rounded-md bg-accent-primary/15 text-accent-primary border border-accent-primary/30 text-[9px] font-bold uppercase tracking-wider hover:bg-accent-primary/25 transition-colors"
+                            title="An agent proposed changes to these files. Click to review."
+                        >
+                            <i className="fa-solid fa-code-compare text-[8px]"></i>
+                            Review {node.pendingEdit.changed.length} change{node.pendingEdit.changed.length === 1 ? '' : 's'}
+                        </button>
+                    )}
+
+                    {/* Cancelled Generation Marker (click to dismiss) */}
+                    {node.generationStatus === 'cancelled' && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onUpdate(node.id, { generationStatus: undefined }); }}
+                            onMouseDown={(e) => e.stopPropagation()}
+                            className="shrink-0 flex items-center gap-1 px-1.5 py-0.5 rounded-md bg-amber-500/15 text-amber-500 border border-amber-500/30 text-[9px] font-bold uppercase tracking-wider hover:bg-amber-500/25 transition-colors"
+                            title="Generation was stopped before finishing. Click to dismiss."
+                        >
+                            <i className="fa-solid fa-stop text-[7px]"></i>
+                            Cancelled
+                        </button>
+                    )}
                 </div>
                 
                 <div className="flex items-center gap-2" onMouseDown={e => e.stopPropagation()}>
@@ -840,8 +1177,44 @@ const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, o
                          </button>
                     )}
 
-                    {/* Download Action (Image/Video/Code) */}
-                    {(node.type === 'image' || node.type === 'video' || node.type === 'code') && (
+                    {/* Masked Edit + Compare (Image) */}
+                    {node.type === 'image' && !!node.revisions?.length && !isMasking && (
+                        <button
+                            onMouseDown={() => setShowPrevious(true)}
+                            onMouseUp={() => setShowPrevious(false)}
+                            onMouseLeave={() => setShowPrevious(false)}
+                            onTouchStart={() => setShowPrevious(true)}
+                            onTouchEnd={() => setShowPrevious(false)}
+                            className={`h-6 px-1.5 flex items-center gap-1 rounded-md text-[9px] font-bold transition-colors ${showPrevious ? 'bg-accent-primary/15 text-accent-primary' : 'text-text-secondary hover:text-text-primary hover:bg-black/10 dark:hover:bg-white/10'}`}
+                            title="Hold to see the previous version"
+                        >
+                            <i className="fa-solid fa-clone text-[10px]"></i>
+                            v{node.revisions.length + 1}
+                        </button>
+                    )}
+                    {node.type === 'image' && node.content && !node.content.startsWith('loading://') && !node.content.includes('placehold.co') && !node.candidates?.length && (
+                        <button
+                            onClick={() => setIsMasking(m => !m)}
+                            className={`w-6 h-6 flex items-center justify-center rounded-md transition-colors ${isMasking ? 'bg-accent-primary/15 text-accent-primary' : 'hover:bg-black/10 dark:hover:bg-white/10 text-text-secondary hover:text-text-primary'}`}
+                            title="Edit a region (inpaint / outpaint)"
+                        >
+                            <i className="fa-solid fa-paintbrush text-[10px]"></i>
+                        </button>
+                    )}
+
+                    {/* Revision Log */}
+                    {!!node.revisions?.length && (
+                        <button
+                            onClick={() => onShowRevisions(node.id)}
+                            className="w-6 h-6 flex items-center justify-center rounded-md hover:bg-black/10 dark:hover:bg-white/10 text-text-secondary hover:text-text-primary transition-colors"
+                            title={`History (${node.revisions.length} change${node.revisions.length === 1 ? '' : 's'})`}
+                        >
+                            <i className="fa-solid fa-clock-rotate-left text-[10px]"></i>
+                        </button>
+                    )}
+
+                    {/* Download Action (Image/Video/Code/Notebook) */}
+                    {(node.type === 'image' || node.type === 'video' || node.type === 'code' || node.type === 'notebook') && (
                         <button 
                             onClick={handleActionDownload}
                             className="w-6 h-6 flex items-center justify-center rounded-md hover:bg-black/10 dark:hover:bg-white/10 text-text-secondary hover:text-text-primary transition-colors"
@@ -851,21 +1224,32 @@ const CanvasNode: React.FC<CanvasNodeProps> = memo(({ node, isSelected, scale, o
                         </button>
                     )}
 
-                    {/* Preview Toggle for Code */}
-                    {isPreviewable && (
+                    {/* View Toggle for Code: preview for pages, output for scripts */}
+                    {(isPreviewable || runEntry) && (
                         <div className="flex bg-black/20 p-0.5 rounded-lg shrink-0 border border-white/5 ml-1">
                             <button 
                                 onClick={(e) => { setViewMode('code'); }}
-                                className={`px-2 py-0.5 text-[10px] font-semibold rounded-[5px] transition-all ${viewMode === 'code' ? 'bg-[#333] text-white shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
+                                className={`px-2 py-0.5 text-[10px] font-semibold rounded-[5px] transition-all ${!(viewMode === 'preview' && isPreviewable) && !(viewMode === 'run' && runEntry) ? 'bg-[#333] text-white shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
                             >
                                 Code
                             </button>
-                            <button 
-                                onClick={(e) => { setViewMode('preview'); }}
-                                className={`px-2 py-0.5 text-[10px] font-semibold rounded-[5px] transition-all ${viewMode === 'preview' ? 'bg-[#333] text-white shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
-                            >
-                                Preview
-                            </button>
+                            {isPreviewable && (
+                                <button 
+                                    onClick={(e) => { setViewMode('preview'); }}
+                                    className={`px-2 py-0.5 text-[10px] font-semibold rounded-[5px] transition-all ${viewMode === 'preview' ? 'bg-[#333] text-white shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
+                                >
+                                    Preview
+                                </button>
+                            )}
+                            {runEntry && (
+                                <button 
+                                    onClick={(e) => { if (runState) setViewMode('run'); else handleRun(); }}
+                                    className={`px-2 py-0.5 text-[10px] font-semibold rounded-[5px] transition-all ${viewMode === 'run' ? 'bg-[#333] text-white shadow-sm' : 'text-gray-500 hover:text-gray-300'}`}
+                                    title={runState ? 'Show the output' : `Run ${runEntry}`}
+                                >
+                                    Run
+                                </button>
+                            )}
                         </div>
                     )}
                 </div>
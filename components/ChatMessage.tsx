@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Message, MessageType, CanvasNode } from '../types';
 import { AGENTS } from '../constants';
 import { MarkdownRenderer } from './MarkdownRenderer';
+import { useMediaUrl } from '../services/mediaStore';
 
 interface ChatMessageProps {
   message: Message;
@@ -95,8 +96,10 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, onNodeSelect, nodes
                  <div className="flex flex-col gap-2 rounded-xl bg-bg-main/50 border border-border-subtle/60 p-3 font-mono text-xs shadow-sm">
                      <div className="flex items-center gap-2 pb-2 border-b border-border-subtle/50 mb-1 opacity-70">
                          {/* Status Icon Indicator */}
-                         <div className={`w-5 h-5 rounded-full flex items-center justify-center ${message.content.includes('Complete') ? 'bg-green-500/20 text-green-600' : 'bg-yellow-500/20 text-yellow-600'}`}>
-                             {message.content.includes('Complete') 
+                         <div className={`w-5 h-5 rounded-full flex items-center justify-center ${message.content.includes('Cancelled') ? 'bg-text-secondary/20 text-text-secondary' : message.content.includes('Complete') ? 'bg-green-500/20 text-green-600' : 'bg-yellow-500/20 text-yellow-600'}`}>
+                             {message.content.includes('Cancelled')
+                                ? <i className="fa-solid fa-stop text-[9px]"></i>
+                                : message.content.includes('Complete') 
                                 ? <i className="fa-solid fa-check text-[10px]"></i> 
                                 : <i className="fa-solid fa-rotate text-[10px] animate-spin"></i>
                              }
@@ -138,7 +141,7 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, onNodeSelect, nodes
                             )}
                             {att.type === 'video' && (
                                 <div className="w-full h-full flex items-center justify-center bg-black relative">
-                                    <video src={att.url} className="w-full h-full object-cover opacity-80" />
+                                    <StoredVideo url={att.url} />
                                     <div className="absolute inset-0 flex items-center justify-center">
                                         <div className="w-6 h-6 rounded-full bg-white/20 backdrop-blur flex items-center justify-center">
                                             <i className="fa-solid fa-play text-white text-[8px] pl-0.5"></i>
@@ -156,4 +159,10 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, onNodeSelect, nodes
   );
 };
 
-export default ChatMessage;
\ No newline at end of file
+// Generated videos are stored as idb:// references
+const StoredVideo: React.FC<{ url: string }> = ({ url }) => {
+  const src = useMediaUrl(url);
+  return src ? <video src={src} className="w-full h-full object-cover opacity-80" /> : null;
+};
+
+export default ChatMessage;
@@ -1,5 +1,6 @@
 
 import React, { useRef, useEffect, useState } from 'react';
+import { ProviderRegistryState, ProviderSettings, ProviderCapability, ProviderHealth, PROVIDER_CAPABILITIES } from '../services/ai/registry';
 
 interface ControlPanelProps {
   isOpen: boolean;
@@ -8,6 +9,12 @@ interface ControlPanelProps {
   onToggleTheme: () => void;
   snapToGrid: boolean;
   onToggleGrid: () => void;
+  contextDepth: number;
+  onContextDepthChange: (depth: number) => void;
+  providers: ProviderRegistryState;
+  onProviderSettingsChange: (patch: Partial<ProviderSettings>) => void;
+  onCheckProviders: () => void;
+  onShowUsage: () => void;
   showChat: boolean;
   onToggleChat: () => void;
   onSave: () => void;
@@ -25,6 +32,12 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   onToggleTheme,
   snapToGrid,
   onToggleGrid,
+  contextDepth,
+  onContextDepthChange,
+  providers,
+  onProviderSettingsChange,
+  onCheckProviders,
+  onShowUsage,
   showChat,
   onToggleChat,
   onSave,
@@ -100,6 +113,78 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 </div>
             </div>
 
+            {/* Section: Context */}
+            <div className="space-y-1.5">
+                <div className="px-1.5 flex items-center justify-between">
+                    <span className="text-[10px] font-bold text-text-muted uppercase tracking-wider">Context</span>
+                </div>
+                <div className="bg-bg-surface/50 border border-border-subtle rounded-xl overflow-hidden">
+                    <StepperRow
+                        label="Graph Depth"
+                        icon="diagram-project"
+                        value={contextDepth}
+                        min={0}
+                        max={4}
+                        onChange={onContextDepthChange}
+                    />
+                </div>
+            </div>
+
+            {/* Section: AI Providers */}
+            <div className="space-y-1.5">
+                <div className="px-1.5 flex items-center justify-between">
+                    <span className="text-[10px] font-bold text-text-muted uppercase tracking-wider">AI Providers</span>
+                    <button
+                        onClick={onCheckProviders}
+                        className="text-[10px] text-text-muted hover:text-text-primary transition-colors"
+                        title="Check provider health"
+                    >
+                        <i className="fa-solid fa-heart-pulse mr-1"></i>Check
+                    </button>
+                </div>
+                <div className="bg-bg-surface/50 border border-border-subtle rounded-xl overflow-hidden">
+                    <SelectRow
+                        label="Primary"
+                        icon="server"
+                        value={providers.settings.primary}
+                        options={providers.providers
+                            .filter(p => p.capabilities.length === PROVIDER_CAPABILITIES.length)
+                            .map(p => ({ value: p.id, label: p.label }))}
+                        onChange={(primary) => onProviderSettingsChange({ primary })}
+                    />
+                    {PROVIDER_CAPABILITIES.map(capability => (
+                        <React.Fragment key={capability}>
+                            <Divider />
+                            <SelectRow
+                                label={CAPABILITY_LABELS[capability].label}
+                                icon={CAPABILITY_LABELS[capability].icon}
+                                value={providers.settings.overrides[capability] || ''}
+                                options={[
+                                    { value: '', label: 'Auto' },
+                                    ...providers.providers
+                                        .filter(p => p.capabilities.includes(capability))
+                                        .map(p => ({ value: p.id, label: p.label }))
+                                ]}
+                                onChange={(id) => onProviderSettingsChange({ overrides: { [capability]: id || undefined } })}
+                            />
+                        </React.Fragment>
+                    ))}
+                    <Divider />
+                    <ToggleRow
+                        label="Auto Failover"
+                        icon="shuffle"
+                        active={providers.settings.failover}
+                        onClick={() => onProviderSettingsChange({ failover: !providers.settings.failover })}
+                    />
+                    <Divider />
+                    <div className="px-3 py-2.5 space-y-1.5">
+                        {providers.providers.map(p => (
+                            <HealthRow key={p.id} label={p.label} health={providers.health[p.id]} />
+                        ))}
+                    </div>
+                </div>
+            </div>
+
             {/* Section: History */}
             <div className="space-y-1.5">
                 <div className="px-1.5 flex items-center justify-between">
@@ -139,6 +224,12 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                         onClick={onLoad} 
                     />
                     <Divider />
+                    <ActionRow 
+                        label="Usage & Budget" 
+                        icon="chart-column" 
+                        onClick={onShowUsage} 
+                    />
+                    <Divider />
                     
                     {/* Cloud Storage Row — auto-managed via SDK */}
                     <div className="flex items-center justify-between px-3 py-2.5">
@@ -193,6 +284,93 @@ const ToggleRow: React.FC<ToggleRowProps> = ({ label, icon, active, onClick, act
     </div>
 );
 
+interface StepperRowProps {
+    label: string;
+    icon: string;
+    value: number;
+    min: number;
+    max: number;
+    onChange: (value: number) => void;
+}
+
+const StepperRow: React.FC<StepperRowProps> = ({ label, icon, value, min, max, onChange }) => (
+    <div className="flex items-center justify-between px-3 py-2.5 select-none">
+        <div className="flex items-center gap-3">
+            <div className="w-6 h-6 rounded flex items-center justify-center bg-text-secondary/10 text-text-secondary">
+                <i className={`fa-solid fa-${icon} text-xs`}></i>
+            </div>
+            <span className="text-xs font-medium text-text-primary">{label}</span>
+        </div>
+        <div className="flex items-center gap-1">
+            <button
+                onClick={() => onChange(Math.max(min, value - 1))}
+                disabled={value <= min}
+                className="w-5 h-5 rounded flex items-center justify-center text-text-secondary hover:bg-black/5 dark:hover:bg-white/10 disabled:opacity-30 transition-colors"
+            >
+                <i className="fa-solid fa-minus text-[9px]"></i>
+            </button>
+            <span className="w-4 text-center text-xs font-mono text-text-primary">{value}</span>
+            <button
+                onClick={() => onChange(Math.min(max, value + 1))}
+                disabled={value >= max}
+                className="w-5 h-5 rounded flex items-center justify-center text-text-secondary hover:bg-black/5 dark:hover:bg-white/10 disabled:opacity-30 transition-colors"
+            >
+                <i className="fa-solid fa-plus text-[9px]"></i>
+            </button>
+        </div>
+    </div>
+);
+
+const CAPABILITY_LABELS: Record<ProviderCapability, { label: string; icon: string }> = {
+    chat: { label: 'Chat', icon: 'comment' },
+    image: { label: 'Images', icon: 'image' },
+    video: { label: 'Video', icon: 'film' },
+    routing: { label: 'Routing', icon: 'route' },
+};
+
+interface SelectRowProps {
+    label: string;
+    icon: string;
+    value: string;
+    options: { value: string; label: string }[];
+    onChange: (value: string) => void;
+}
+
+const SelectRow: React.FC<SelectRowProps> = ({ label, icon, value, options, onChange }) => (
+    <div className="flex items-center justify-between px-3 py-2.5 select-none">
+        <div className="flex items-center gap-3">
+            <div className="w-6 h-6 rounded flex items-center justify-center bg-text-secondary/10 text-text-secondary">
+                <i className={`fa-solid fa-${icon} text-xs`}></i>
+            </div>
+            <span className="text-xs font-medium text-text-primary">{label}</span>
+        </div>
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className="max-w-[8rem] bg-transparent text-xs text-text-secondary hover:text-text-primary outline-none cursor-pointer text-right"
+        >
+            {options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+    </div>
+);
+
+const HEALTH_STYLES: Record<ProviderHealth['status'], string> = {
+    unknown: 'bg-text-muted/40',
+    checking: 'bg-amber-500 animate-pulse',
+    healthy: 'bg-emerald-500',
+    unreachable: 'bg-red-500',
+};
+
+const HealthRow: React.FC<{ label: string; health?: ProviderHealth }> = ({ label, health = { status: 'unknown' } as ProviderHealth }) => (
+    <div className="flex items-center gap-2 text-[10px] text-text-secondary" title={health.error}>
+        <span className={`w-1.5 h-1.5 rounded-full ${HEALTH_STYLES[health.status]}`} />
+        <span className="flex-1">{label}</span>
+        <span className="font-mono text-text-muted">
+            {health.status === 'healthy' && health.latencyMs !== undefined ? `${health.latencyMs}ms` : health.status}
+        </span>
+    </div>
+);
+
 interface ActionButtonProps {
     label: string;
     icon: string;
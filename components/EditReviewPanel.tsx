@@ -0,0 +1,90 @@
+import React, { useMemo } from 'react';
+import { CanvasNode } from '../types';
+import { AGENTS } from '../constants';
+import { fileChanges, stateFiles } from '../services/revisions';
+import { rebaseProposal } from '../services/codeEdits';
+import FileDiff from './FileDiff';
+
+interface EditReviewPanelProps {
+  node: CanvasNode;
+  onAccept: () => void;
+  onReject: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Review an agent's proposed code edits against the node's current files before they land.
+ */
+const EditReviewPanel: React.FC<EditReviewPanelProps> = ({ node, onAccept, onReject, onClose }) => {
+  const proposal = node.pendingEdit;
+
+  // The proposal carried over to the files as they are now, so accepting does exactly what is shown
+  const rebased = useMemo(
+      () => proposal ? rebaseProposal(proposal.base || node.files || {}, proposal.files, node.files || {}) : null,
+      [node, proposal]
+  );
+  const files = useMemo(
+      () => rebased ? fileChanges(stateFiles(node), stateFiles({ content: node.content, files: rebased.files })).filter(f => f.changed) : [],
+      [node, rebased]
+  );
+  const conflicts = rebased?.conflicts || [];
+
+  if (!proposal) return null;
+  const agent = AGENTS[proposal.author];
+
+  return (
+    <div className="absolute inset-4 md:inset-y-4 md:right-4 md:left-auto md:w-[760px] glass-panel bg-bg-panel/95 backdrop-blur-2xl rounded-3xl shadow-2xl z-[110] flex flex-col overflow-hidden border border-white/20 dark:border-white/10 animate-scale-in">
+      {/* Header */}
+      <div className="h-14 flex items-center justify-between px-6 border-b border-border-subtle bg-bg-card/50 backdrop-blur-md shrink-0">
+        <div className="flex items-center gap-3 min-w-0">
+            <div className="w-8 h-8 rounded-lg bg-text-primary/5 flex items-center justify-center">
+                 <i className="fa-solid fa-code-compare text-text-primary"></i>
+            </div>
+            <div className="flex flex-col min-w-0">
+                <span className="font-semibold text-text-primary tracking-tight truncate">Proposed changes to {node.title}</span>
+                <span className="text-[10px] text-text-muted">{files.length} file{files.length === 1 ? '' : 's'} · by {agent?.name || 'Agent'}</span>
+            </div>
+        </div>
+        <button onClick={onClose} className="w-8 h-8 rounded-full hover:bg-text-primary/10 flex items-center justify-center transition-colors">
+            <i className="fa-solid fa-xmark text-text-secondary"></i>
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-border-subtle shrink-0">
+          <span className="text-[10px] text-text-secondary line-clamp-2 min-w-0">"{proposal.prompt}"</span>
+          <button
+              onClick={onReject}
+              className="ml-auto shrink-0 px-2.5 py-1 rounded-lg text-[10px] font-semibold text-text-secondary hover:text-red-500 hover:bg-red-500/10 transition-colors"
+          >
+              <i className="fa-solid fa-xmark mr-1"></i>
+              Reject
+          </button>
+          <button
+              onClick={onAccept}
+              disabled={files.length === 0 || conflicts.length > 0}
+              className="shrink-0 px-2.5 py-1 rounded-lg bg-accent-primary text-white text-[10px] font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
+          >
+              <i className="fa-solid fa-check mr-1"></i>
+              Accept
+          </button>
+      </div>
+
+      {conflicts.length > 0 && (
+          <div className="px-4 py-2 border-b border-border-subtle text-[10px] text-amber-600 dark:text-amber-400 shrink-0">
+              <i className="fa-solid fa-triangle-exclamation mr-1"></i>
+              {conflicts.join(', ')} changed since these edits were proposed. Reject them and ask again.
+          </div>
+      )}
+
+      {files.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-xs text-text-muted">The files already match these changes</div>
+      ) : (
+          <div className="flex-1 min-h-0 flex flex-col">
+              <FileDiff files={files} />
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default EditReviewPanel;
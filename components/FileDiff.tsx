@@ -0,0 +1,64 @@
+import React, { useState, useMemo } from 'react';
+import { DiffRow, FileChange, diffLines } from '../services/revisions';
+
+interface FileDiffProps {
+  files: FileChange[];
+}
+
+const ROW_STYLES: Record<DiffRow['kind'], { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  removed: { left: 'bg-red-500/10', right: 'bg-black/[0.02] dark:bg-white/[0.02]' },
+  added: { left: 'bg-black/[0.02] dark:bg-white/[0.02]', right: 'bg-emerald-500/10' },
+  changed: { left: 'bg-red-500/10', right: 'bg-emerald-500/10' },
+};
+
+/**
+ * Side-by-side line diff with a tab per file (shown when there is more than one).
+ */
+const FileDiff: React.FC<FileDiffProps> = ({ files }) => {
+  const [activeFile, setActiveFile] = useState<string | null>(null);
+
+  const file = files.find(f => f.name === activeFile) || files[0];
+  const rows = useMemo(() => file ? diffLines(file.before ?? '', file.after ?? '') : [], [file]);
+
+  return (
+    <>
+        {files.length > 1 && (
+            <div className="flex items-center gap-1 px-2 py-1.5 border-b border-border-subtle overflow-x-auto no-scrollbar shrink-0">
+                {files.map(f => (
+                    <button
+                        key={f.name}
+                        onClick={() => setActiveFile(f.name)}
+                        className={`shrink-0 px-2 py-0.5 rounded-md text-[10px] font-mono transition-colors ${f.name === file?.name ? 'bg-text-primary/10 text-text-primary' : 'text-text-secondary hover:text-text-primary'}`}
+                    >
+                        {f.name}
+                        {f.before === undefined ? <span className="ml-1 text-emerald-500">new</span>
+                            : f.after === undefined ? <span className="ml-1 text-red-500">deleted</span>
+                            : f.changed ? <span className="ml-1 text-amber-500">●</span> : null}
+                    </button>
+                ))}
+            </div>
+        )}
+        <div className="flex-1 overflow-auto custom-scrollbar font-mono text-[11px] leading-5">
+            {file && !file.changed ? (
+                <div className="p-4 text-xs text-text-muted font-sans">No changes in this file</div>
+            ) : (
+                <table className="w-full border-collapse table-fixed">
+                    <tbody>
+                        {rows.map((row, i) => (
+                            <tr key={i}>
+                                <td className={`w-10 pr-2 text-right text-text-muted select-none align-top ${ROW_STYLES[row.kind].left}`}>{row.left?.num ?? ''}</td>
+                                <td className={`px-2 whitespace-pre-wrap break-all align-top border-r border-border-subtle text-text-primary ${ROW_STYLES[row.kind].left}`}>{row.left?.text ?? ''}</td>
+                                <td className={`w-10 pr-2 text-right text-text-muted select-none align-top ${ROW_STYLES[row.kind].right}`}>{row.right?.num ?? ''}</td>
+                                <td className={`px-2 whitespace-pre-wrap break-all align-top text-text-primary ${ROW_STYLES[row.kind].right}`}>{row.right?.text ?? ''}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    </>
+  );
+};
+
+export default FileDiff;
@@ -0,0 +1,209 @@
+import React, { useState, useMemo } from 'react';
+import { CanvasFile } from '../types';
+import { TreeEntry, TreeFolder, basename, buildFileTree, dirname, joinPath } from '../services/fileTree';
+
+interface FileTreeProps {
+    files: Record<string, CanvasFile>;
+    folders: string[];
+    activeFile: string;
+    onOpen: (path: string) => void;
+    onCreate: (path: string, kind: 'file' | 'folder') => string | null; // Error message, if any
+    onMove: (from: string, to: string) => string | null;
+    onDelete: (path: string, kind: 'file' | 'folder') => void;
+}
+
+// Inline name input: creating inside `folder`, or renaming `path`
+type Draft =
+    | { mode: 'create'; kind: 'file' | 'folder'; folder: string; value: string }
+    | { mode: 'rename'; path: string; value: string };
+
+const fileIcon = (name: string) =>
+    name.endsWith('.html') ? 'fa-brands fa-html5 text-orange-500'
+    : name.endsWith('.css') ? 'fa-brands fa-css3 text-blue-500'
+    : /\.(js|mjs|jsx)$/.test(name) ? 'fa-brands fa-js text-yellow-500'
+    : /\.(ts|tsx)$/.test(name) ? 'fa-solid fa-code text-sky-400'
+    : name.endsWith('.py') ? 'fa-brands fa-python text-sky-300'
+    : name.endsWith('.json') ? 'fa-regular fa-file-code text-amber-300'
+    : 'fa-regular fa-file-lines text-[#969696]';
+
+/**
+ * Collapsible file tree for code nodes: open, create, rename and delete files and folders, and
+ * drag entries onto a folder (or the empty area for the root) to move them.
+ */
+const FileTree: React.FC<FileTreeProps> = ({ files, folders, activeFile, onOpen, onCreate, onMove, onDelete }) => {
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [dragging, setDragging] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+    const tree = useMemo(() => buildFileTree(Object.keys(files), folders), [files, folders]);
+
+    // New entries go next to the open file
+    const currentFolder = dirname(activeFile);
+
+    const toggle = (path: string) => setCollapsed(prev => {
+        const next = new Set(prev);
+        if (next.has(path)) next.delete(path); else next.add(path);
+        return next;
+    });
+
+    const commit = () => {
+        if (!draft) return;
+        const value = draft.value.trim();
+        if (!value) {
+            setDraft(null);
+            return;
+        }
+        const problem = draft.mode === 'create'
+            ? onCreate(joinPath(draft.folder, value), draft.kind)
+            : value === basename(draft.path) ? null : onMove(draft.path, joinPath(dirname(draft.path), value));
+        if (problem) {
+            setError(problem);
+            return;
+        }
+        if (draft.mode === 'create') setCollapsed(prev => { const next = new Set(prev); next.delete(draft.folder); return next; });
+        setDraft(null);
+        setError(null);
+    };
+
+    const drop = (folder: string) => {
+        if (dragging && dirname(dragging) !== folder) {
+            const problem = onMove(dragging, joinPath(folder, basename(dragging)));
+            setError(problem);
+        }
+        setDragging(null);
+        setDropTarget(null);
+    };
+
+    const dropProps = (folder: string) => ({
+        onDragOver: (e: React.DragEvent) => {
+            if (!dragging) return;
+            e.preventDefault();
+            e.stopPropagation();
+            setDropTarget(folder);
+        },
+        onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            drop(folder);
+        }
+    });
+
+    const input = (indent: number) => draft && (
+        <input
+            autoFocus
+            value={draft.value}
+            onChange={(e) => { setDraft({ ...draft, value: e.target.value }); setError(null); }}
+            onKeyDown={(e) => {
+                e.stopPropagation();
+                if (e.key === 'Enter') commit();
+                if (e.key === 'Escape') { setDraft(null); setError(null); }
+            }}
+            onBlur={() => { setDraft(null); setError(null); }}
+            placeholder={draft.mode === 'create' && draft.kind === 'folder' ? 'folder name' : 'file.js'}
+            className="w-full bg-[#1E1E1E] border border-accent-primary/60 rounded-sm outline-none text-[11px] text-[#D4D4D4] py-0.5 pr-1"
+            style={{ paddingLeft: 4, marginLeft: indent, width: `calc(100% - ${indent}px)` }}
+        />
+    );
+
+    const renderEntry = (entry: TreeEntry, depth: number): React.ReactNode => {
+        const indent = 8 + depth * 12;
+        if (draft?.mode === 'rename' && draft.path === entry.path) {
+            return <div key={entry.path} className="py-0.5 pr-1">{input(indent)}</div>;
+        }
+
+        if (entry.type === 'file') {
+            return (
+                <div
+                    key={entry.path}
+                    draggable
+                    onDragStart={(e) => { e.stopPropagation(); setDragging(entry.path); }}
+                    onDragEnd={() => { setDragging(null); setDropTarget(null); }}
+                    onClick={() => onOpen(entry.path)}
+                    onDoubleClick={() => setDraft({ mode: 'rename', path: entry.path, value: entry.name })}
+                    className={`group/entry flex items-center gap-1.5 py-[3px] pr-1 cursor-pointer text-[11px] ${entry.path === activeFile ? 'bg-[#37373D] text-[#D4D4D4]' : 'text-[#969696] hover:bg-[#2A2D2E] hover:text-[#CCCCCC]'}`}
+                    style={{ paddingLeft: indent + 12 }}
+                    title={entry.path}
+                >
+                    <i className={`${fileIcon(entry.name)} text-[10px] w-3 text-center shrink-0`}></i>
+                    <span className="truncate">{entry.name}</span>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onDelete(entry.path, 'file'); }}
+                        className="ml-auto shrink-0 opacity-0 group-hover/entry:opacity-100 hover:text-red-400 transition-opacity"
+                        title="Delete file"
+                    >
+                        <i className="fa-solid fa-xmark text-[9px]"></i>
+                    </button>
+                </div>
+            );
+        }
+
+        const isOpen = !collapsed.has(entry.path);
+        return (
+            <div key={entry.path} {...dropProps(entry.path)}>
+                <div
+                    draggable
+                    onDragStart={(e) => { e.stopPropagation(); setDragging(entry.path); }}
+                    onDragEnd={() => { setDragging(null); setDropTarget(null); }}
+                    onClick={() => toggle(entry.path)}
+                    onDoubleClick={() => setDraft({ mode: 'rename', path: entry.path, value: entry.name })}
+                    className={`group/entry flex items-center gap-1.5 py-[3px] pr-1 cursor-pointer text-[11px] text-[#BBBBBB] hover:bg-[#2A2D2E] ${dropTarget === entry.path ? 'bg-accent-primary/20' : ''}`}
+                    style={{ paddingLeft: indent }}
+                    title={entry.path}
+                >
+                    <i className={`fa-solid fa-chevron-${isOpen ? 'down' : 'right'} text-[8px] w-2 shrink-0`}></i>
+                    <i className={`fa-solid ${isOpen ? 'fa-folder-open' : 'fa-folder'} text-[10px] text-[#C09553] shrink-0`}></i>
+                    <span className="truncate">{entry.name}</span>
+                    <span className="ml-auto flex items-center gap-1.5 shrink-0 opacity-0 group-hover/entry:opacity-100 transition-opacity">
+                        <button onClick={(e) => { e.stopPropagation(); setDraft({ mode: 'create', kind: 'file', folder: entry.path, value: '' }); }} className="hover:text-white" title="New file here">
+                            <i className="fa-solid fa-plus text-[9px]"></i>
+                        </button>
+                        <button onClick={(e) => { e.stopPropagation(); onDelete(entry.path, 'folder'); }} className="hover:text-red-400" title="Delete folder">
+                            <i className="fa-solid fa-xmark text-[9px]"></i>
+                        </button>
+                    </span>
+                </div>
+                {isOpen && renderChildren(entry, depth + 1)}
+            </div>
+        );
+    };
+
+    const renderChildren = (folder: TreeFolder, depth: number) => (
+        <>
+            {draft?.mode === 'create' && draft.folder === folder.path && <div className="py-0.5 pr-1">{input(8 + depth * 12)}</div>}
+            {folder.children.map(child => renderEntry(child, depth))}
+        </>
+    );
+
+    return (
+        <div className="flex flex-col h-full min-h-0 bg-[#252526] text-[#CCCCCC]">
+            <div className="flex items-center gap-2 px-2 py-1.5 border-b border-[#333] shrink-0">
+                <span className="text-[9px] font-bold uppercase tracking-wider text-[#969696]">Files</span>
+                <button
+                    onClick={() => setDraft({ mode: 'create', kind: 'file', folder: currentFolder, value: '' })}
+                    className="ml-auto text-[#969696] hover:text-white transition-colors"
+                    title="New file"
+                >
+                    <i className="fa-regular fa-file text-[10px]"></i>
+                </button>
+                <button
+                    onClick={() => setDraft({ mode: 'create', kind: 'folder', folder: currentFolder, value: '' })}
+                    className="text-[#969696] hover:text-white transition-colors"
+                    title="New folder"
+                >
+                    <i className="fa-regular fa-folder text-[10px]"></i>
+                </button>
+            </div>
+            <div
+                className={`flex-1 overflow-y-auto custom-scrollbar py-1 ${dropTarget === '' ? 'bg-accent-primary/10' : ''}`}
+                {...dropProps('')}
+            >
+                {renderChildren(tree, 0)}
+            </div>
+            {error && <div className="px-2 py-1 text-[10px] text-red-400 border-t border-[#333] shrink-0">{error}</div>}
+        </div>
+    );
+};
+
+export default FileTree;
@@ -0,0 +1,257 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { MaskedEdit, OutpaintSide, OUTPAINT_AMOUNT, buildInpaintEdit, buildOutpaintEdit } from '../services/imageMask';
+
+interface ImageMaskEditorProps {
+    imageUrl: string;
+    onApply: (prompt: string, masked: MaskedEdit) => void;
+    onCancel: () => void;
+}
+
+// Brush diameters as a fraction of the image width
+const BRUSHES = [
+    { label: 'S', size: 0.03 },
+    { label: 'M', size: 0.07 },
+    { label: 'L', size: 0.14 },
+];
+
+const SIDES: Array<{ side: OutpaintSide; icon: string; className: string }> = [
+    { side: 'top', icon: 'fa-arrow-up', className: 'top-1 left-1/2 -translate-x-1/2' },
+    { side: 'right', icon: 'fa-arrow-right', className: 'right-1 top-1/2 -translate-y-1/2' },
+    { side: 'bottom', icon: 'fa-arrow-down', className: 'bottom-1 left-1/2 -translate-x-1/2' },
+    { side: 'left', icon: 'fa-arrow-left', className: 'left-1 top-1/2 -translate-y-1/2' },
+];
+
+const DEFAULT_OUTPAINT_PROMPT = 'Extend the scene naturally';
+
+/**
+ * Mask painting overlay for image nodes. Inpaint: brush over the region to change. Outpaint: pick
+ * the sides to extend. Either way the user describes the change and gets back a MaskedEdit.
+ */
+const ImageMaskEditor: React.FC<ImageMaskEditorProps> = ({ imageUrl, onApply, onCancel }) => {
+    const [mode, setMode] = useState<'inpaint' | 'outpaint'>('inpaint');
+    const [brush, setBrush] = useState(BRUSHES[1].size);
+    const [sides, setSides] = useState<OutpaintSide[]>(['right']);
+    const [prompt, setPrompt] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isPreparing, setIsPreparing] = useState(false);
+    const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+    const [frame, setFrame] = useState<{ width: number; height: number }>({ width: 0, height: 0 });
+
+    const containerRef = useRef<HTMLDivElement>(null);
+    const paintRef = useRef<HTMLCanvasElement>(null);
+    const lastPoint = useRef<{ x: number; y: number } | null>(null);
+
+    useEffect(() => {
+        const el = containerRef.current;
+        if (!el) return;
+        const observer = new ResizeObserver(([entry]) => setFrame({ width: entry.contentRect.width, height: entry.contentRect.height }));
+        observer.observe(el);
+        return () => observer.disconnect();
+    }, []);
+
+    // Fit the image (plus the outpaint margins) inside the frame
+    const pad = (side: OutpaintSide) => mode === 'outpaint' && sides.includes(side) ? OUTPAINT_AMOUNT : 0;
+    const box = (() => {
+        if (!natural || !frame.width || !frame.height) return null;
+        const totalW = natural.width * (1 + pad('left') + pad('right'));
+        const totalH = natural.height * (1 + pad('top') + pad('bottom'));
+        const scale = Math.min(frame.width / totalW, frame.height / totalH);
+        const left = (frame.width - totalW * scale) / 2;
+        const top = (frame.height - totalH * scale) / 2;
+        return {
+            outer: { left, top, width: totalW * scale, height: totalH * scale },
+            image: {
+                left: left + natural.width * pad('left') * scale,
+                top: top + natural.height * pad('top') * scale,
+                width: natural.width * scale,
+                height: natural.height * scale
+            }
+        };
+    })();
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) / rect.width * canvas.width,
+            y: (e.clientY - rect.top) / rect.height * canvas.height
+        };
+    };
+
+    const paintTo = (point: { x: number; y: number }) => {
+        const ctx = paintRef.current?.getContext('2d');
+        if (!ctx || !paintRef.current) return;
+        const from = lastPoint.current || point;
+        ctx.strokeStyle = '#6366f1';
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.lineWidth = brush * paintRef.current.width;
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(point.x, point.y);
+        ctx.stroke();
+        lastPoint.current = point;
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        lastPoint.current = null;
+        setError(null);
+        paintTo(toCanvasPoint(e));
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        paintTo(toCanvasPoint(e));
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.releasePointerCapture(e.pointerId);
+        lastPoint.current = null;
+    };
+
+    const clearMask = () => {
+        const canvas = paintRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    };
+
+    const toggleSide = (side: OutpaintSide) => {
+        setSides(prev => prev.includes(side) ? prev.filter(s => s !== side) : [...prev, side]);
+        setError(null);
+    };
+
+    const handleApply = async () => {
+        const text = prompt.trim() || (mode === 'outpaint' ? DEFAULT_OUTPAINT_PROMPT : '');
+        if (!text) {
+            setError('Describe the change');
+            return;
+        }
+        setIsPreparing(true);
+        try {
+            const masked = mode === 'inpaint'
+                ? (paintRef.current ? buildInpaintEdit(imageUrl, paintRef.current) : null)
+                : await buildOutpaintEdit(imageUrl, sides);
+            if (!masked) {
+                setError(mode === 'inpaint' ? 'Paint over the area to change' : 'Pick at least one side to extend');
+                return;
+            }
+            onApply(text, masked);
+        } catch (e: any) {
+            setError(e.message || 'Could not prepare the edit');
+        } finally {
+            setIsPreparing(false);
+        }
+    };
+
+    return (
+        <div
+            className="absolute inset-0 z-20 flex flex-col bg-bg-surface"
+            onMouseDown={(e) => e.stopPropagation()}
+            onTouchStart={(e) => e.stopPropagation()}
+            onWheel={(e) => e.stopPropagation()}
+        >
+            <div ref={containerRef} className="flex-1 min-h-0 relative bg-black/5 dark:bg-white/5 overflow-hidden">
+                {box && mode === 'outpaint' && (
+                    <div
+                        className="absolute border-2 border-dashed border-accent-primary/60 bg-accent-primary/10 rounded-sm"
+                        style={box.outer}
+                    />
+                )}
+                <img
+                    src={imageUrl}
+                    alt="Editing"
+                    onLoad={(e) => {
+                        const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+                        setNatural({ width, height });
+                    }}
+                    className="absolute pointer-events-none select-none"
+                    style={box ? box.image : { opacity: 0 }}
+                    draggable={false}
+                />
+                {natural && (
+                    <canvas
+                        ref={paintRef}
+                        width={natural.width}
+                        height={natural.height}
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        className={`absolute opacity-50 touch-none ${mode === 'inpaint' ? 'cursor-crosshair' : 'pointer-events-none invisible'}`}
+                        style={box ? box.image : undefined}
+                    />
+                )}
+                {mode === 'outpaint' && SIDES.map(({ side, icon, className }) => (
+                    <button
+                        key={side}
+                        onClick={() => toggleSide(side)}
+                        className={`absolute ${className} w-6 h-6 rounded-full flex items-center justify-center text-[10px] shadow-sm transition-colors ${sides.includes(side) ? 'bg-accent-primary text-white' : 'bg-bg-panel text-text-secondary hover:text-text-primary'}`}
+                        title={`Extend ${side}`}
+                    >
+                        <i className={`fa-solid ${icon}`}></i>
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex flex-col gap-1.5 px-2 py-1.5 border-t border-border-subtle bg-bg-main/30 shrink-0">
+                <div className="flex items-center gap-1.5">
+                    <div className="flex bg-black/5 dark:bg-white/5 p-0.5 rounded-md">
+                        {(['inpaint', 'outpaint'] as const).map(m => (
+                            <button
+                                key={m}
+                                onClick={() => { setMode(m); setError(null); }}
+                                className={`px-2 py-0.5 rounded text-[10px] font-semibold capitalize transition-colors ${mode === m ? 'bg-bg-panel text-text-primary shadow-sm' : 'text-text-secondary hover:text-text-primary'}`}
+                            >
+                                {m}
+                            </button>
+                        ))}
+                    </div>
+                    {mode === 'inpaint' && (
+                        <>
+                            {BRUSHES.map(b => (
+                                <button
+                                    key={b.label}
+                                    onClick={() => setBrush(b.size)}
+                                    className={`w-5 h-5 rounded text-[9px] font-bold transition-colors ${brush === b.size ? 'bg-accent-primary/15 text-accent-primary' : 'text-text-secondary hover:text-text-primary'}`}
+                                    title="Brush size"
+                                >
+                                    {b.label}
+                                </button>
+                            ))}
+                            <button onClick={clearMask} className="px-1.5 py-0.5 rounded text-[10px] text-text-secondary hover:text-text-primary transition-colors" title="Clear mask">
+                                <i className="fa-solid fa-eraser"></i>
+                            </button>
+                        </>
+                    )}
+                    {error && <span className="ml-auto text-[10px] text-red-500 truncate">{error}</span>}
+                </div>
+                <div className="flex items-center gap-1.5">
+                    <input
+                        type="text"
+                        value={prompt}
+                        onChange={(e) => setPrompt(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleApply(); if (e.key === 'Escape') onCancel(); }}
+                        placeholder={mode === 'inpaint' ? 'Describe the change to the painted area...' : DEFAULT_OUTPAINT_PROMPT}
+                        className="flex-1 min-w-0 bg-transparent border-b border-border-subtle focus:border-accent-primary outline-none text-xs text-text-primary placeholder:text-text-muted py-0.5"
+                        autoFocus
+                    />
+                    <button
+                        onClick={handleApply}
+                        disabled={isPreparing}
+                        className="px-2 py-1 rounded-md bg-accent-primary text-white text-[10px] font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
+                    >
+                        {isPreparing ? <i className="fa-solid fa-circle-notch fa-spin"></i> : 'Apply'}
+                    </button>
+                    <button
+                        onClick={onCancel}
+                        className="px-2 py-1 rounded-md text-[10px] font-medium text-text-secondary hover:text-text-primary hover:bg-black/5 dark:hover:bg-white/10 transition-colors"
+                    >
+                        Cancel
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImageMaskEditor;
@@ -1,6 +1,8 @@
 
 import React, { useRef, useState, useEffect, useCallback } from 'react';
-import { CanvasNode as CanvasNodeType, CanvasEdge, HandleSide, NodeType } from '../types';
+import { CanvasNode as CanvasNodeType, CanvasEdge, HandleSide, NodeType, NotebookCell, RunOutput } from '../types';
+import { MaskedEdit } from '../services/imageMask';
+import { PreviewLogEntry } from '../services/previewRuntime';
 import CanvasNode from './CanvasNode';
 
 interface InfiniteCanvasProps {
@@ -18,7 +20,15 @@ interface InfiniteCanvasProps {
     onAddNode: (type: NodeType, x: number, y: number) => void;
     onFileUpload: (file: File, x: number, y: number) => void;
     onNodeDuplicate: (id: string) => void;
+    onResolveCandidates: (id: string, action: 'promote' | 'spawn' | 'discard', index?: number) => void;
+    onEditImage: (id: string, prompt: string, masked: MaskedEdit) => void;
+    onShowRevisions: (id: string) => void;
+    onReviewEdit: (id: string) => void;
+    onPreviewSettled: (id: string, files: CanvasNodeType['files'], errors: PreviewLogEntry[]) => void;
+    onSpawnOutputs: (id: string, outputs: RunOutput[]) => void;
+    onUpdateCells: (id: string, update: (cells: NotebookCell[]) => NotebookCell[]) => void;
     onBackgroundClick?: () => void;
+    focusRequest?: { nodeId: string; zoom?: number; nonce: number } | null; // Pan the viewport to a node (agent `focus_node`)
 }
 
 // Helper: Calculate point on Cubic Bezier at t (0-1)
@@ -49,7 +59,15 @@ const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({
     onAddNode,
     onFileUpload,
     onNodeDuplicate,
-    onBackgroundClick
+    onResolveCandidates,
+    onEditImage,
+    onShowRevisions,
+    onReviewEdit,
+    onPreviewSettled,
+    onSpawnOutputs,
+    onUpdateCells,
+    onBackgroundClick,
+    focusRequest
 }) => {
     // --- State & Refs ---
     const transform = useRef({ x: 0, y: 0, scale: 1 });
@@ -98,6 +116,31 @@ const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({
         }
     }, []);
 
+    // --- Programmatic Focus ---
+    useEffect(() => {
+        if (!focusRequest || !contentRef.current || !gridRef.current) return;
+        const node = nodesRef.current.find(n => n.id === focusRequest.nodeId);
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!node || !rect) return;
+
+        const scale = Math.min(Math.max(focusRequest.zoom ?? transform.current.scale, 0.1), 8);
+        transform.current = {
+            x: rect.width / 2 - (node.x + node.width / 2) * scale,
+            y: rect.height / 2 - (node.y + node.height / 2) * scale,
+            scale
+        };
+
+        // Animate this one jump only; regular panning stays untransitioned
+        const layers = [contentRef.current, gridRef.current];
+        layers.forEach(el => { el.style.transition = 'transform 400ms cubic-bezier(0.16,1,0.3,1)'; });
+        applyTransform();
+        const timer = setTimeout(() => {
+            layers.forEach(el => { el.style.transition = ''; });
+            setRenderScale(scale);
+        }, 400);
+        return () => clearTimeout(timer);
+    }, [focusRequest?.nonce]);
+
     const screenToWorld = useCallback((screenX: number, screenY: number) => {
         const { x, y, scale } = transform.current;
         const rect = containerRef.current?.getBoundingClientRect();
@@ -503,6 +546,13 @@ const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({
                         onSelect={onNodeSelect}
                         onDelete={onNodeDelete}
                         onUpdate={onNodeUpdate}
+                        onResolveCandidates={onResolveCandidates}
+                        onEditImage={onEditImage}
+                        onShowRevisions={onShowRevisions}
+                        onReviewEdit={onReviewEdit}
+                        onPreviewSettled={onPreviewSettled}
+                        onSpawnOutputs={onSpawnOutputs}
+                        onUpdateCells={onUpdateCells}
                         onConnectStart={handleConnectStart}
                         onConnectEnd={handleConnectEnd}
                         snapToGrid={snapToGrid}
@@ -523,6 +573,7 @@ const InfiniteCanvas: React.FC<InfiniteCanvasProps> = ({
                             <div className="px-3 py-1.5 text-[10px] font-bold text-text-muted uppercase tracking-wider mb-1">Insert Node</div>
                             <button onClick={() => { if(contextMenu.worldX!==undefined) onAddNode('text', contextMenu.worldX, contextMenu.worldY!); setContextMenu(null); }} className="w-full text-left px-4 py-2 text-sm text-text-primary hover:bg-accent-primary hover:text-white transition-colors flex items-center gap-3"><i className="fa-solid fa-font text-xs w-4"></i> Text Note</button>
                             <button onClick={() => { if(contextMenu.worldX!==undefined) onAddNode('code', contextMenu.worldX, contextMenu.worldY!); setContextMenu(null); }} className="w-full text-left px-4 py-2 text-sm text-text-primary hover:bg-accent-primary hover:text-white transition-colors flex items-center gap-3"><i className="fa-solid fa-code text-xs w-4"></i> Code Snippet</button>
+                            <button onClick={() => { if(contextMenu.worldX!==undefined) onAddNode('notebook', contextMenu.worldX, contextMenu.worldY!); setContextMenu(null); }} className="w-full text-left px-4 py-2 text-sm text-text-primary hover:bg-accent-primary hover:text-white transition-colors flex items-center gap-3"><i className="fa-solid fa-book-open text-xs w-4"></i> Notebook</button>
                             <button onClick={() => { if(contextMenu.worldX!==undefined) onAddNode('image', contextMenu.worldX, contextMenu.worldY!); setContextMenu(null); }} className="w-full text-left px-4 py-2 text-sm text-text-primary hover:bg-accent-primary hover:text-white transition-colors flex items-center gap-3"><i className="fa-regular fa-image text-xs w-4"></i> Image Card</button>
                             <button onClick={() => { if(contextMenu.worldX!==undefined) onAddNode('video', contextMenu.worldX, contextMenu.worldY!); setContextMenu(null); }} className="w-full text-left px-4 py-2 text-sm text-text-primary hover:bg-accent-primary hover:text-white transition-colors flex items-center gap-3"><i className="fa-solid fa-film text-xs w-4"></i> Video Card</button>
                             <div className="h-[1px] bg-border-subtle my-1"></div>
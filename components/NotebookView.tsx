@@ -0,0 +1,261 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { CanvasNode, NotebookCell, RunOutput } from '../types';
+import { MarkdownRenderer } from './MarkdownRenderer';
+import RunOutputs from './RunOutputs';
+import { CodeRuntime, RunResult, appendOutput } from '../services/codeRunner';
+import { createCell, nextExecutionCount, notebookLanguage } from '../services/notebook';
+
+interface NotebookViewProps {
+    node: CanvasNode;
+    onUpdate: (id: string, updates: Partial<CanvasNode>) => void;
+    onUpdateCells: (id: string, update: (cells: NotebookCell[]) => NotebookCell[]) => void;
+    onSpawnOutputs: (id: string, outputs: RunOutput[]) => void;
+    onNodeLinkClick: (id: string) => void;
+}
+
+const stopScrollPropagation = (e: React.WheelEvent) => {
+    e.stopPropagation();
+    e.nativeEvent.stopImmediatePropagation();
+};
+
+/**
+ * The cells of a notebook node. Code cells run one at a time in the notebook's kernel (a CodeRuntime
+ * kept for the node's lifetime), so variables carry over between cells until the kernel is restarted.
+ * Outputs stream into the cell while it runs and are saved on the node once it finishes.
+ */
+const NotebookView: React.FC<NotebookViewProps> = ({ node, onUpdate, onUpdateCells, onSpawnOutputs, onNodeLinkClick }) => {
+    const cells = node.cells || [];
+    const language = notebookLanguage(node);
+    const runtimeRef = useRef<CodeRuntime | null>(null);
+    const editorRefs = useRef<Record<string, HTMLTextAreaElement | null>>({});
+    const runAllRef = useRef(false);
+    const [live, setLive] = useState<Record<string, RunOutput[]>>({}); // Outputs of cells still running
+    const [kernelStatus, setKernelStatus] = useState('');
+    const [editingMarkdown, setEditingMarkdown] = useState<string | null>(null);
+
+    useEffect(() => () => runtimeRef.current?.stop(), []);
+
+    const running = Object.keys(live).length > 0;
+
+    // Structural and source changes go through onUpdate so they're recorded as the user's revisions
+    const setCells = (next: NotebookCell[]) => onUpdate(node.id, { cells: next });
+    const updateCell = (id: string, updates: Partial<NotebookCell>) => setCells(cells.map(c => c.id === id ? { ...c, ...updates } : c));
+
+    const insertCell = (index: number, type: NotebookCell['type']) => {
+        const cell = createCell(type);
+        setCells([...cells.slice(0, index), cell, ...cells.slice(index)]);
+        if (type === 'markdown') setEditingMarkdown(cell.id);
+        else setTimeout(() => editorRefs.current[cell.id]?.focus(), 0);
+    };
+
+    const moveCell = (index: number, delta: number) => {
+        const target = index + delta;
+        if (target < 0 || target >= cells.length) return;
+        const next = [...cells];
+        [next[index], next[target]] = [next[target], next[index]];
+        setCells(next);
+    };
+
+    const runCell = async (cell: NotebookCell): Promise<RunResult['status']> => {
+        if (cell.type !== 'code' || !language) return 'ok';
+        const runtime = runtimeRef.current ??= new CodeRuntime();
+        setLive(prev => ({ ...prev, [cell.id]: [] }));
+        onUpdateCells(node.id, all => all.map(c => c.id === cell.id ? { ...c, outputs: [], execution: { ...c.execution, status: 'running' } } : c));
+
+        const result = await runtime.run(
+            { language, files: {}, file: `cell-${cell.id}`, code: cell.source, reset: false },
+            {
+                onOutput: (output) => setLive(prev => prev[cell.id] ? { ...prev, [cell.id]: appendOutput(prev[cell.id], output) } : prev),
+                onStatus: setKernelStatus
+            }
+        );
+
+        setLive(prev => {
+            const { [cell.id]: _, ...rest } = prev;
+            return rest;
+        });
+        onUpdateCells(node.id, all => {
+            const count = result.status === 'stopped' ? undefined : nextExecutionCount(all);
+            return all.map(c => c.id === cell.id ? { ...c, outputs: result.outputs, execution: { status: result.status, count, duration: result.duration } } : c);
+        });
+        return result.status;
+    };
+
+    // Like Jupyter, a failing cell stops the rest
+    const runAll = async () => {
+        runAllRef.current = true;
+        for (const cell of cells) {
+            if (!runAllRef.current) break;
+            if ((await runCell(cell)) !== 'ok') break;
+        }
+        runAllRef.current = false;
+    };
+
+    // Stopping ends the kernel: running cells stop and the next run starts from a clean state
+    const stopKernel = () => {
+        runAllRef.current = false;
+        runtimeRef.current?.stop();
+        setKernelStatus('');
+    };
+
+    const clearOutputs = () => onUpdateCells(node.id, all => all.map(c => ({ ...c, outputs: undefined, execution: undefined })));
+
+    const handleCellKey = (e: React.KeyboardEvent<HTMLTextAreaElement>, cell: NotebookCell, index: number) => {
+        if (e.key === 'Enter' && e.shiftKey) {
+            e.preventDefault();
+            if (cell.type === 'markdown') setEditingMarkdown(null);
+            // Move on to the next cell, adding one at the end (before the run marks this one as running)
+            const next = cells[index + 1];
+            if (!next) insertCell(index + 1, 'code');
+            else if (next.type === 'code') editorRefs.current[next.id]?.focus();
+            if (cell.type === 'code') runCell(cell);
+        } else if (e.key === 'Escape' && cell.type === 'markdown') {
+            setEditingMarkdown(null);
+        } else if (e.key === 'Tab') {
+            e.preventDefault();
+            const el = e.currentTarget;
+            const { selectionStart, selectionEnd, value } = el;
+            updateCell(cell.id, { source: value.slice(0, selectionStart) + '    ' + value.slice(selectionEnd) });
+            requestAnimationFrame(() => el.setSelectionRange(selectionStart + 4, selectionStart + 4));
+        }
+    };
+
+    // Error lines are relative to the cell's own source
+    const jumpToLine = (cellId: string, line: number) => {
+        const el = editorRefs.current[cellId];
+        if (!el) return;
+        const lines = el.value.split('\n');
+        const start = lines.slice(0, line - 1).reduce((n, l) => n + l.length + 1, 0);
+        el.focus();
+        el.setSelectionRange(start, start + (lines[line - 1]?.length ?? 0));
+    };
+
+    return (
+        <div className="w-full h-full flex flex-col bg-[#1E1E1E] text-[12px]" onMouseDown={(e) => e.stopPropagation()}>
+            <div className="flex items-center gap-1 px-2 py-1.5 bg-[#252526] border-b border-[#333] text-[#969696] shrink-0 font-sans text-[10px]">
+                <button
+                    onClick={runAll}
+                    disabled={!language || running}
+                    className="flex items-center gap-1.5 px-2 py-0.5 rounded font-bold uppercase tracking-wider text-emerald-300 hover:bg-emerald-500/10 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                    title="Run all cells"
+                >
+                    <i className="fa-solid fa-forward text-[9px]"></i> Run all
+                </button>
+                <button
+                    onClick={stopKernel}
+                    className={`flex items-center gap-1.5 px-2 py-0.5 rounded font-bold uppercase tracking-wider transition-colors ${running ? 'text-red-300 hover:bg-red-500/10' : 'hover:text-white hover:bg-white/5'}`}
+                    title={running ? 'Stop the kernel' : 'Restart the kernel (clears variables)'}
+                >
+                    <i className={`fa-solid ${running ? 'fa-stop' : 'fa-rotate-right'} text-[9px]`}></i> {running ? 'Stop' : 'Restart'}
+                </button>
+                <button onClick={clearOutputs} className="px-2 py-0.5 rounded hover:text-white hover:bg-white/5 transition-colors" title="Clear all outputs">
+                    <i className="fa-solid fa-eraser text-[9px]"></i>
+                </button>
+                <span className="ml-auto truncate">
+                    {running && <><i className="fa-solid fa-circle-notch animate-spin mr-1"></i>{kernelStatus || 'Running...'}</>}
+                </span>
+                <span className={`shrink-0 px-1.5 py-0.5 rounded bg-white/5 ${language ? 'text-[#D4D4D4]' : 'text-amber-300'}`} title={language ? 'Kernel' : 'This language can\'t run here'}>
+                    {node.language || 'python'}
+                </span>
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar py-2 space-y-1" onWheel={stopScrollPropagation}>
+                {cells.map((cell, index) => {
+                    const outputs = live[cell.id] ?? cell.outputs ?? [];
+                    const status = cell.execution?.status;
+                    return (
+                        <div key={cell.id} className="group/cell relative flex gap-1 px-2">
+                            <div className="w-9 shrink-0 pt-1.5 text-right font-mono text-[10px] text-[#6A6A6A] select-none">
+                                {cell.type === 'code' && (
+                                    status === 'running'
+                                        ? <i className="fa-solid fa-circle-notch animate-spin text-accent-primary"></i>
+                                        : <span className={status === 'error' ? 'text-red-400' : ''}>[{cell.execution?.count ?? ' '}]</span>
+                                )}
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                {cell.type === 'code' ? (
+                                    <textarea
+                                        ref={(el) => { editorRefs.current[cell.id] = el; }}
+                                        value={cell.source}
+                                        onChange={(e) => updateCell(cell.id, { source: e.target.value })}
+                                        onKeyDown={(e) => handleCellKey(e, cell, index)}
+                                        rows={Math.max(1, cell.source.split('\n').length)}
+                                        spellCheck={false}
+                                        className="w-full resize-none bg-[#252526] border border-[#333] focus:border-accent-primary/60 rounded px-2 py-1.5 font-mono text-[12px] text-[#D4D4D4] outline-none"
+                                    />
+                                ) : editingMarkdown === cell.id ? (
+                                    <textarea
+                                        autoFocus
+                                        value={cell.source}
+                                        onChange={(e) => updateCell(cell.id, { source: e.target.value })}
+                                        onKeyDown={(e) => handleCellKey(e, cell, index)}
+                                        onBlur={() => setEditingMarkdown(null)}
+                                        rows={Math.max(2, cell.source.split('\n').length)}
+                                        className="w-full resize-none bg-[#252526] border border-accent-primary/60 rounded px-2 py-1.5 font-mono text-[12px] text-[#D4D4D4] outline-none"
+                                    />
+                                ) : (
+                                    <div className="px-2 py-1 rounded cursor-text text-[#D4D4D4] hover:bg-white/[0.02]" onDoubleClick={() => setEditingMarkdown(cell.id)}>
+                                        {cell.source.trim()
+                                            ? <MarkdownRenderer content={cell.source} onNodeLinkClick={onNodeLinkClick} compact />
+                                            : <span className="text-[#6A6A6A] italic">Double-click to write markdown</span>}
+                                    </div>
+                                )}
+
+                                {cell.type === 'code' && outputs.length > 0 && (
+                                    <div className="relative group/outputs mt-1 px-2 space-y-1 font-mono">
+                                        <RunOutputs outputs={outputs} onJump={(source) => jumpToLine(cell.id, source.line)} onSpawn={(spawned) => onSpawnOutputs(node.id, spawned)} />
+                                        {status !== 'running' && (
+                                            <button
+                                                onClick={() => onSpawnOutputs(node.id, outputs)}
+                                                className="absolute -top-1 right-0 text-[#969696] hover:text-white opacity-0 group-hover/outputs:opacity-100 transition-opacity"
+                                                title="Add the output to the canvas"
+                                            >
+                                                <i className="fa-solid fa-share-from-square text-[10px]"></i>
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                                {cell.type === 'code' && status === 'stopped' && <div className="mt-1 px-2 text-[#6A6A6A] font-sans text-[10px]">Stopped</div>}
+                            </div>
+
+                            <div className="absolute right-3 -top-2 flex items-center gap-0.5 px-1 rounded bg-[#333] border border-[#444] text-[#969696] opacity-0 group-hover/cell:opacity-100 focus-within:opacity-100 transition-opacity z-10">
+                                {cell.type === 'code' && (
+                                    <button onClick={() => runCell(cell)} disabled={!language || status === 'running'} className="w-5 h-5 hover:text-emerald-300 disabled:opacity-40" title="Run cell (Shift+Enter)">
+                                        <i className="fa-solid fa-play text-[9px]"></i>
+                                    </button>
+                                )}
+                                <button onClick={() => moveCell(index, -1)} disabled={index === 0} className="w-5 h-5 hover:text-white disabled:opacity-40" title="Move up">
+                                    <i className="fa-solid fa-arrow-up text-[9px]"></i>
+                                </button>
+                                <button onClick={() => moveCell(index, 1)} disabled={index === cells.length - 1} className="w-5 h-5 hover:text-white disabled:opacity-40" title="Move down">
+                                    <i className="fa-solid fa-arrow-down text-[9px]"></i>
+                                </button>
+                                <button
+                                    onClick={() => updateCell(cell.id, { type: cell.type === 'code' ? 'markdown' : 'code', outputs: undefined, execution: undefined })}
+                                    className="w-5 h-5 hover:text-white"
+                                    title={cell.type === 'code' ? 'Convert to markdown' : 'Convert to code'}
+                                >
+                                    <i className={`fa-solid ${cell.type === 'code' ? 'fa-paragraph' : 'fa-code'} text-[9px]`}></i>
+                                </button>
+                                <button onClick={() => setCells(cells.filter(c => c.id !== cell.id))} className="w-5 h-5 hover:text-red-400" title="Delete cell">
+                                    <i className="fa-solid fa-trash text-[9px]"></i>
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+
+                <div className="flex justify-center gap-2 pt-1 font-sans text-[10px] text-[#969696]">
+                    <button onClick={() => insertCell(cells.length, 'code')} className="px-2 py-0.5 rounded border border-[#333] hover:text-white hover:border-[#555] transition-colors">
+                        <i className="fa-solid fa-plus mr-1"></i> Code
+                    </button>
+                    <button onClick={() => insertCell(cells.length, 'markdown')} className="px-2 py-0.5 rounded border border-[#333] hover:text-white hover:border-[#555] transition-colors">
+                        <i className="fa-solid fa-plus mr-1"></i> Markdown
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default NotebookView;
@@ -4,26 +4,38 @@ import { AgentId, CanvasNode, ImageConfig, VideoConfig } from '../types';
 import { AGENTS } from '../constants';
 import { LiveSession as LiveSessionService } from '../services/liveService';
 import AgentSelector from './AgentSelector';
+import { ContextEntry } from '../services/contextBuilder';
 
 interface OmniBarProps {
     activeAgent: AgentId;
     onSend: (text: string, mediaConfig?: ImageConfig | VideoConfig) => void;
+    onStop?: () => void;
     isThinking: boolean;
     onSelectAgent: (id: AgentId) => void;
     onToggleLive: () => void;
     isLiveMode: boolean;
     referencedNodes?: CanvasNode[];
+    contextEntries?: ContextEntry[];
     nodeContext?: string;
     onFileUpload?: (file: File) => void;
 }
 
-const OmniBar: React.FC<OmniBarProps> = ({ activeAgent, onSend, isThinking, onSelectAgent, onToggleLive, isLiveMode, referencedNodes, nodeContext, onFileUpload }) => {
+const OmniBar: React.FC<OmniBarProps> = ({ activeAgent, onSend, onStop, isThinking, onSelectAgent, onToggleLive, isLiveMode, referencedNodes, contextEntries, nodeContext, onFileUpload }) => {
     const [input, setInput] = useState('');
     const [isMenuOpen, setIsMenuOpen] = useState(false);
     
     // Media Config State
     const [imageParams, setImageParams] = useState<ImageConfig>({ size: '1K', aspectRatio: '1:1' });
-    const [videoParams, setVideoParams] = useState<VideoConfig>({ resolution: '720p', aspectRatio: '16:9' });
+    const [videoParams, setVideoParams] = useState<VideoConfig>({ resolution: '720p', aspectRatio: '16:9', durationSeconds: 8 });
+
+    // How each referenced node made it into the context (full / truncated / summary)
+    const contextModes: Record<string, string> = {};
+    contextEntries?.forEach(e => { contextModes[e.nodeId] = e.mode; });
+    const omittedCount = contextEntries?.filter(e => e.mode === 'omitted').length || 0;
+
+    // Connected image nodes that can serve as a video's first or last frame
+    const frameNodes = (referencedNodes || []).filter(n => n.type === 'image' && /^(data:|https?:|blob:)/.test(n.content) && !n.content.includes('placehold.co'));
+    const isFrameAvailable = (id?: string) => !!id && frameNodes.some(n => n.id === id);
 
     // Refs
     const buttonRef = useRef<HTMLButtonElement>(null);
@@ -143,10 +155,17 @@ const OmniBar: React.FC<OmniBarProps> = ({ activeAgent, onSend, isThinking, onSe
     };
 
     const handleSendClick = () => {
-        if (input.trim() && !isThinking) {
+        // Background tasks don't block new requests; each send becomes its own job
+        if (input.trim()) {
             let config: ImageConfig | VideoConfig | undefined;
             if (activeAgent === AgentId.IMAGE) config = imageParams;
-            else if (activeAgent === AgentId.VIDEO) config = videoParams;
+            else if (activeAgent === AgentId.VIDEO) config = {
+                ...videoParams,
+                // Frames whose node is no longer connected are dropped
+                startFrameNodeId: isFrameAvailable(videoParams.startFrameNodeId) ? videoParams.startFrameNodeId : undefined,
+                endFrameNodeId: isFrameAvailable(videoParams.endFrameNodeId) ? videoParams.endFrameNodeId : undefined,
+                negativePrompt: videoParams.negativePrompt?.trim() || undefined
+            };
             
             onSend(input, config);
             setInput('');
@@ -183,13 +202,14 @@ const OmniBar: React.FC<OmniBarProps> = ({ activeAgent, onSend, isThinking, onSe
                     >
                         <div className={`
                             w-5 h-5 rounded-full flex items-center justify-center shrink-0
-                            ${node.type === 'code' ? 'bg-emerald-500/10 text-emerald-500' : 
+                            ${node.type === 'code' || node.type === 'notebook' ? 'bg-emerald-500/10 text-emerald-500' : 
                               node.type === 'image' ? 'bg-pink-500/10 text-pink-500' :
                               node.type === 'video' ? 'bg-orange-500/10 text-orange-500' :
                               'bg-accent-primary/10 text-accent-primary'}
                         `}>
                              <i className={`fa-solid ${
                                 node.type === 'code' ? 'fa-code' : 
+                                node.type === 'notebook' ? 'fa-book-open' : 
                                 node.type === 'image' ? 'fa-image' : 
                                 node.type === 'video' ? 'fa-film' : 
                                 'fa-paragraph'
@@ -201,8 +221,19 @@ const OmniBar: React.FC<OmniBarProps> = ({ activeAgent, onSend, isThinking, onSe
                         {idx > 0 && (
                             <i className="fa-solid fa-link text-[10px] text-text-secondary opacity-50 ml-1"></i>
                         )}
+                        {contextModes[node.id] === 'truncated' && (
+                            <i className="fa-solid fa-scissors text-[10px] text-amber-500 ml-1" title="Truncated to fit the context budget"></i>
+                        )}
+                        {contextModes[node.id] === 'summary' && (
+                            <i className="fa-solid fa-compress text-[10px] text-amber-500 ml-1" title="Summarised to fit the context budget"></i>
+                        )}
                     </div>
                 ))}
+                {omittedCount > 0 && (
+                    <div className="pointer-events-auto flex items-center bg-bg-panel/90 backdrop-blur-xl border border-white/20 dark:border-white/10 shadow-lg rounded-2xl px-3 py-1.5 text-xs text-text-muted animate-scale-in origin-bottom" title="Connected nodes left out to fit the context budget">
+                        +{omittedCount} not sent
+                    </div>
+                )}
             </div>
 
             <div className={`
@@ -245,6 +276,21 @@ const OmniBar: React.FC<OmniBarProps> = ({ activeAgent, onSend, isThinking, onSe
                                  </button>
                              ))}
                         </div>
+
+                        <div className="w-[1px] h-3 bg-border-subtle"></div>
+
+                        {/* Variants */}
+                         <div className="flex items-center gap-1 bg-black/5 dark:bg-white/5 rounded-lg p-0.5" title="Variants to generate">
+                             {[1, 2, 4].map(count => (
+                                 <button 
+                                    key={count}
+                                    onClick={() => setImageParams(p => ({ ...p, count }))}
+                                    className={`px-2 py-1 text-[10px] font-medium rounded-md transition-all ${(imageParams.count || 1) === count ? 'bg-bg-surface text-text-primary shadow-sm' : 'text-text-secondary hover:text-text-primary'}`}
+                                 >
+                                    ×{count}
+                                 </button>
+                             ))}
+                        </div>
                     </div>
                 )}
 
@@ -276,13 +322,53 @@ const OmniBar: React.FC<OmniBarProps> = ({ activeAgent, onSend, isThinking, onSe
                              {['720p', '1080p'].map(res => (
                                  <button 
                                     key={res}
-                                    onClick={() => setVideoParams(p => ({ ...p, resolution: res as any }))}
+                                    // Veo renders 1080p at 8 seconds only
+                                    onClick={() => setVideoParams(p => ({ ...p, resolution: res as any, durationSeconds: res === '1080p' ? 8 : p.durationSeconds }))}
                                     className={`px-2 py-1 text-[10px] font-medium rounded-md transition-all ${videoParams.resolution === res ? 'bg-bg-surface text-text-primary shadow-sm' : 'text-text-secondary hover:text-text-primary'}`}
                                  >
                                     {res}
                                  </button>
                              ))}
                         </div>
+
+                        <div className="w-[1px] h-3 bg-border-subtle"></div>
+
+                        {/* Duration */}
+                         <div className="flex items-center gap-1 bg-black/5 dark:bg-white/5 rounded-lg p-0.5">
+                             {([4, 6, 8] as const).map(seconds => (
+                                 <button 
+                                    key={seconds}
+                                    disabled={videoParams.resolution === '1080p' && seconds !== 8}
+                                    onClick={() => setVideoParams(p => ({ ...p, durationSeconds: seconds }))}
+                                    className={`px-2 py-1 text-[10px] font-medium rounded-md transition-all disabled:opacity-30 ${videoParams.durationSeconds === seconds ? 'bg-bg-surface text-text-primary shadow-sm' : 'text-text-secondary hover:text-text-primary'}`}
+                                 >
+                                    {seconds}s
+                                 </button>
+                             ))}
+                        </div>
+                    </div>
+                )}
+                {activeAgent === AgentId.VIDEO && !isLiveMode && (
+                    <div className="flex items-center gap-3 px-4 py-2 border-b border-border-subtle/30 bg-bg-surface/30 backdrop-blur-sm animate-slide-up">
+                        <FrameSelect
+                            label="Start"
+                            value={isFrameAvailable(videoParams.startFrameNodeId) ? videoParams.startFrameNodeId : undefined}
+                            nodes={frameNodes}
+                            onChange={(id) => setVideoParams(p => ({ ...p, startFrameNodeId: id }))}
+                        />
+                        <FrameSelect
+                            label="End"
+                            value={isFrameAvailable(videoParams.endFrameNodeId) ? videoParams.endFrameNodeId : undefined}
+                            nodes={frameNodes}
+                            onChange={(id) => setVideoParams(p => ({ ...p, endFrameNodeId: id }))}
+                        />
+                        <div className="w-[1px] h-3 bg-border-subtle"></div>
+                        <input
+                            value={videoParams.negativePrompt || ''}
+                            onChange={(e) => setVideoParams(p => ({ ...p, negativePrompt: e.target.value }))}
+                            placeholder="Avoid (negative prompt)"
+                            className="flex-1 min-w-0 bg-transparent outline-none text-[10px] text-text-primary placeholder:text-text-muted"
+                        />
                     </div>
                 )}
 
@@ -317,7 +403,6 @@ const OmniBar: React.FC<OmniBarProps> = ({ activeAgent, onSend, isThinking, onSe
                                 className="w-full bg-transparent border-none outline-none text-text-primary placeholder:text-text-muted resize-none py-2.5 px-4 text-base font-normal custom-scrollbar leading-relaxed"
                                 rows={1}
                                 style={{ maxHeight: '150px' }}
-                                disabled={isThinking}
                              />
                          )}
                     </div>
@@ -337,23 +422,30 @@ const OmniBar: React.FC<OmniBarProps> = ({ activeAgent, onSend, isThinking, onSe
                             {isLiveMode ? <i className="fa-solid fa-phone-slash"></i> : <i className="fa-solid fa-microphone"></i>}
                         </button>
 
-                        {!isLiveMode && (
+                        {!isLiveMode && isThinking && onStop && !input.trim() && (
+                            <button
+                                onClick={onStop}
+                                className="w-11 h-11 rounded-full flex items-center justify-center transition-all duration-300 bg-text-primary text-bg-main hover:scale-105 shadow-md group/stop"
+                                title="Stop all tasks"
+                            >
+                                <i className="fa-solid fa-circle-notch animate-spin text-sm group-hover/stop:hidden"></i>
+                                <i className="fa-solid fa-stop text-sm hidden group-hover/stop:inline"></i>
+                            </button>
+                        )}
+
+                        {!isLiveMode && !(isThinking && onStop && !input.trim()) && (
                             <button
                                 onClick={handleSendClick}
-                                disabled={!input.trim() || isThinking}
+                                disabled={!input.trim()}
                                 className={`
                                     w-11 h-11 rounded-full flex items-center justify-center transition-all duration-300
-                                    ${input.trim() && !isThinking
+                                    ${input.trim()
                                         ? 'bg-text-primary text-bg-main hover:scale-105 shadow-md'
                                         : 'bg-black/5 dark:bg-white/5 text-text-muted cursor-not-allowed'
                                     }
                                 `}
                             >
-                                {isThinking ? (
-                                    <i className="fa-solid fa-circle-notch animate-spin text-sm"></i>
-                                ) : (
-                                    <i className="fa-solid fa-arrow-up text-lg"></i>
-                                )}
+                                <i className="fa-solid fa-arrow-up text-lg"></i>
                             </button>
                         )}
                     </div>
@@ -363,4 +455,20 @@ const OmniBar: React.FC<OmniBarProps> = ({ activeAgent, onSend, isThinking, onSe
     );
 };
 
+const FrameSelect: React.FC<{ label: string; value?: string; nodes: CanvasNode[]; onChange: (id?: string) => void }> = ({ label, value, nodes, onChange }) => (
+    <label className="flex items-center gap-1.5 text-[10px] font-bold text-text-secondary uppercase tracking-wider shrink-0" title={nodes.length ? `${label} frame from a connected image node` : 'Connect an image node to use it as a frame'}>
+        <i className="fa-regular fa-image"></i>
+        <span>{label}</span>
+        <select
+            value={value || ''}
+            disabled={nodes.length === 0}
+            onChange={(e) => onChange(e.target.value || undefined)}
+            className="max-w-[7rem] bg-black/5 dark:bg-white/5 rounded-md px-1.5 py-0.5 text-[10px] font-medium normal-case tracking-normal text-text-primary outline-none cursor-pointer disabled:opacity-40"
+        >
+            <option value="">{label === 'Start' ? 'Auto' : 'None'}</option>
+            {nodes.map(n => <option key={n.id} value={n.id}>{n.title}</option>)}
+        </select>
+    </label>
+);
+
 export default OmniBar;
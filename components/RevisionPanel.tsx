@@ -0,0 +1,127 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AgentId, CanvasNode, NodeRevision } from '../types';
+import { AGENTS } from '../constants';
+import { fileChanges, stateAfter, stateFiles } from '../services/revisions';
+import { useMediaUrl } from '../services/mediaStore';
+import FileDiff from './FileDiff';
+
+interface RevisionPanelProps {
+  node: CanvasNode;
+  onRestore: (revisionId: string) => void;
+  onClose: () => void;
+}
+
+const authorLabel = (author: NodeRevision['author']) => author === 'user' ? 'You' : AGENTS[author as AgentId]?.name || 'Agent';
+const authorIcon = (author: NodeRevision['author']) => author === 'user' ? 'fa-user' : AGENTS[author as AgentId]?.icon || 'fa-robot';
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Per-node revision log: who changed the node and why, a side-by-side diff of each change
+ * (per file for code nodes), and restore.
+ */
+const RevisionPanel: React.FC<RevisionPanelProps> = ({ node, onRestore, onClose }) => {
+  const revisions = node.revisions || [];
+  const [selectedIndex, setSelectedIndex] = useState(revisions.length - 1);
+
+  // Jump to the newest change when the node gets a new revision (e.g. after a restore)
+  useEffect(() => {
+      setSelectedIndex(revisions.length - 1);
+  }, [node.id, revisions.length]);
+
+  const index = Math.max(0, Math.min(selectedIndex, revisions.length - 1));
+  const selected = revisions[index];
+  const isMedia = node.type === 'image' || node.type === 'video';
+
+  // Files touched by the selected change, changed ones first
+  const files = useMemo(
+      () => !selected || isMedia ? [] : fileChanges(stateFiles(selected), stateFiles(stateAfter(node, index))),
+      [node, selected, index, isMedia]
+  );
+
+  return (
+    <div className="absolute inset-4 md:inset-y-4 md:right-4 md:left-auto md:w-[760px] glass-panel bg-bg-panel/95 backdrop-blur-2xl rounded-3xl shadow-2xl z-[110] flex flex-col overflow-hidden border border-white/20 dark:border-white/10 animate-scale-in">
+      {/* Header */}
+      <div className="h-14 flex items-center justify-between px-6 border-b border-border-subtle bg-bg-card/50 backdrop-blur-md shrink-0">
+        <div className="flex items-center gap-3 min-w-0">
+            <div className="w-8 h-8 rounded-lg bg-text-primary/5 flex items-center justify-center">
+                 <i className="fa-solid fa-clock-rotate-left text-text-primary"></i>
+            </div>
+            <div className="flex flex-col min-w-0">
+                <span className="font-semibold text-text-primary tracking-tight truncate">{node.title}</span>
+                <span className="text-[10px] text-text-muted">{revisions.length} change{revisions.length === 1 ? '' : 's'}</span>
+            </div>
+        </div>
+        <button onClick={onClose} className="w-8 h-8 rounded-full hover:bg-text-primary/10 flex items-center justify-center transition-colors">
+            <i className="fa-solid fa-xmark text-text-secondary"></i>
+        </button>
+      </div>
+
+      {revisions.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center text-xs text-text-muted">No changes recorded yet</div>
+      ) : (
+      <div className="flex-1 flex min-h-0">
+        {/* Change log, newest first */}
+        <div className="w-56 shrink-0 border-r border-border-subtle overflow-y-auto custom-scrollbar p-2 space-y-1">
+            {revisions.map((rev, i) => ({ rev, i })).reverse().map(({ rev, i }) => (
+                <button
+                    key={rev.id}
+                    onClick={() => setSelectedIndex(i)}
+                    className={`w-full text-left px-2.5 py-2 rounded-xl transition-colors ${i === index ? 'bg-accent-primary/10 border border-accent-primary/30' : 'border border-transparent hover:bg-text-primary/5'}`}
+                >
+                    <div className="flex items-center gap-1.5 text-[11px] font-medium text-text-primary">
+                        <i className={`fa-solid ${authorIcon(rev.author)} text-[9px] text-text-secondary`}></i>
+                        <span className="truncate">{authorLabel(rev.author)}</span>
+                        <span className="ml-auto shrink-0 text-[9px] text-text-muted font-mono">{formatTime(rev.timestamp)}</span>
+                    </div>
+                    <div className="mt-0.5 text-[10px] text-text-secondary line-clamp-2">{rev.prompt || 'Manual edit'}</div>
+                </button>
+            ))}
+        </div>
+
+        {/* Selected change */}
+        <div className="flex-1 min-w-0 flex flex-col">
+            <div className="flex items-center gap-2 px-3 py-2 border-b border-border-subtle shrink-0">
+                <span className="text-[10px] text-text-muted truncate">
+                    Before → after this change by <span className="text-text-primary font-medium">{authorLabel(selected.author)}</span>
+                </span>
+                <button
+                    onClick={() => onRestore(selected.id)}
+                    className="ml-auto shrink-0 px-2.5 py-1 rounded-lg bg-accent-primary text-white text-[10px] font-semibold hover:opacity-90 transition-opacity"
+                    title="Bring back the version from before this change (the current version is kept in the log)"
+                >
+                    <i className="fa-solid fa-rotate-left mr-1"></i>
+                    Restore Before
+                </button>
+            </div>
+
+            {isMedia ? (
+                <div className="flex-1 grid grid-cols-2 gap-2 p-3 min-h-0">
+                    <MediaPreview type={node.type} url={selected.content} label="Before" />
+                    <MediaPreview type={node.type} url={stateAfter(node, index).content} label="After" />
+                </div>
+            ) : (
+                <FileDiff files={files} />
+            )}
+        </div>
+      </div>
+      )}
+    </div>
+  );
+};
+
+const MediaPreview: React.FC<{ type: CanvasNode['type']; url: string; label: string }> = ({ type, url, label }) => {
+    const src = useMediaUrl(url && !url.startsWith('loading://') ? url : undefined);
+    return (
+        <div className="flex flex-col gap-1 min-h-0">
+            <span className="text-[10px] font-bold text-text-muted uppercase tracking-wider px-1">{label}</span>
+            <div className="flex-1 min-h-0 rounded-xl overflow-hidden bg-black/5 dark:bg-white/5 flex items-center justify-center">
+                {!src ? <span className="text-[10px] text-text-muted">Empty</span>
+                    : type === 'video' ? <video src={src} controls className="max-w-full max-h-full" />
+                    : <img src={src} alt={label} className="max-w-full max-h-full object-contain" />}
+            </div>
+        </div>
+    );
+};
+
+export default RevisionPanel;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { RunOutput } from '../types';
+
+interface RunOutputsProps {
+    outputs: RunOutput[];
+    onJump?: (source: { file: string; line: number; column?: number }) => void;
+    onSpawn?: (outputs: RunOutput[]) => void;
+}
+
+/**
+ * Outputs of a script run or notebook cell: streams, results, errors (with a link to the failing
+ * line), images and tables. Images and tables can be added to the canvas on their own.
+ */
+const RunOutputs: React.FC<RunOutputsProps> = ({ outputs, onJump, onSpawn }) => (
+    <>
+        {outputs.map((output, i) => {
+            switch (output.type) {
+                case 'stream':
+                case 'result':
+                    return <pre key={i} className={`whitespace-pre-wrap break-words ${output.type === 'result' ? 'text-[#9CDCFE]' : output.name === 'stderr' ? 'text-amber-200' : 'text-[#CCCCCC]'}`}>{output.text}</pre>;
+                case 'error':
+                    return (
+                        <div key={i} className="rounded bg-red-500/10 text-red-300 px-2 py-1.5">
+                            <pre className="whitespace-pre-wrap break-words">{output.message}</pre>
+                            {output.source && onJump && (
+                                <button onClick={() => onJump(output.source!)} className="mt-1 text-[#6A9FD8] hover:underline" title="Open in editor">
+                                    {output.source.file}:{output.source.line}
+                                </button>
+                            )}
+                        </div>
+                    );
+                case 'image':
+                    return (
+                        <div key={i} className="relative group/output inline-block max-w-full">
+                            <img src={output.url} alt={`Output ${i + 1}`} className="max-w-full rounded bg-white" />
+                            {onSpawn && (
+                                <button
+                                    onClick={() => onSpawn([output])}
+                                    className="absolute top-1 right-1 w-6 h-6 rounded bg-black/60 text-white opacity-0 group-hover/output:opacity-100 transition-opacity"
+                                    title="Add as image node"
+                                >
+                                    <i className="fa-solid fa-plus text-[10px]"></i>
+                                </button>
+                            )}
+                        </div>
+                    );
+                case 'table':
+                    return (
+                        <div key={i} className="relative group/output overflow-x-auto custom-scrollbar">
+                            <table className="text-[11px] text-[#CCCCCC] border-collapse">
+                                <thead>
+                                    <tr>{output.columns.map((c, j) => <th key={j} className="px-2 py-1 text-left font-semibold border-b border-[#444] whitespace-nowrap">{c}</th>)}</tr>
+                                </thead>
+                                <tbody>
+                                    {output.rows.map((row, r) => (
+                                        <tr key={r} className="odd:bg-white/[0.03]">{row.map((cell, j) => <td key={j} className="px-2 py-0.5 whitespace-nowrap">{cell}</td>)}</tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            {output.truncated && <div className="mt-1 text-[#6A6A6A] font-sans text-[10px]">First {output.rows.length} rows</div>}
+                            {onSpawn && (
+                                <button
+                                    onClick={() => onSpawn([output])}
+                                    className="absolute top-0 right-0 w-6 h-6 rounded bg-black/60 text-white opacity-0 group-hover/output:opacity-100 transition-opacity"
+                                    title="Add as text node"
+                                >
+                                    <i className="fa-solid fa-plus text-[10px]"></i>
+                                </button>
+                            )}
+                        </div>
+                    );
+            }
+        })}
+    </>
+);
+
+export default RunOutputs;
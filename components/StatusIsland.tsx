@@ -1,58 +1,205 @@
 
-import React from 'react';
-import { AgentId } from '../types';
+import React, { useState, useEffect } from 'react';
+import { AgentId, Job } from '../types';
 import { AGENTS } from '../constants';
+import { isJobActive } from '../services/jobManager';
 
 interface StatusIslandProps {
   currentAgent: AgentId;
   status: 'idle' | 'thinking' | 'working' | 'listening' | 'routing';
   statusMessage?: string;
+  jobs?: Job[];
   onClick: () => void;
+  onStop?: () => void;
+  onCancelJob?: (id: string) => void;
+  onClearFinished?: () => void;
+  onSelectNode?: (id: string) => void;
 }
 
-const StatusIsland: React.FC<StatusIslandProps> = ({ currentAgent, status, statusMessage, onClick }) => {
-  const agent = AGENTS[currentAgent];
+const JOB_STATUS_ICONS: Record<string, string> = {
+  completed: 'fa-check text-green-500',
+  failed: 'fa-triangle-exclamation text-red-500',
+  cancelled: 'fa-stop text-amber-500',
+};
 
-  // Map status to visual width/state
-  const isActive = status !== 'idle';
+const JobRow: React.FC<{ job: Job; onCancel?: () => void; onSelect?: () => void }> = ({ job, onCancel, onSelect }) => {
+  const agent = job.agentId ? AGENTS[job.agentId] : null;
+  const active = isJobActive(job);
 
   return (
-    <div 
-      onClick={onClick}
-      className={`
-        absolute top-6 left-1/2 transform -translate-x-1/2 
-        z-50 cursor-pointer transition-all duration-500 ease-[cubic-bezier(0.16,1,0.3,1)]
-        h-12 rounded-full glass-panel shadow-2xl
-        flex items-center justify-center gap-3 px-6 w-auto
-        hover:scale-105 hover:bg-white/5 group
-        whitespace-nowrap
-      `}
+    <div
+      onClick={onSelect}
+      className={`flex items-start gap-3 px-3 py-2.5 rounded-xl transition-colors ${onSelect ? 'cursor-pointer hover:bg-text-primary/5' : ''}`}
     >
-      {/* Icon Area */}
-      <div className={`relative flex items-center justify-center transition-all duration-300`}>
-        {status === 'thinking' || status === 'routing' ? (
-             <div className="flex gap-1 h-3 items-center">
-                <div className="w-1.5 h-1.5 bg-current rounded-full animate-bounce" style={{ animationDelay: '0ms' }}/>
-                <div className="w-1.5 h-1.5 bg-current rounded-full animate-bounce" style={{ animationDelay: '150ms' }}/>
-                <div className="w-1.5 h-1.5 bg-current rounded-full animate-bounce" style={{ animationDelay: '300ms' }}/>
-            </div>
+      <div className="w-6 h-6 shrink-0 rounded-lg bg-text-primary/5 flex items-center justify-center mt-0.5">
+        {active ? (
+          agent ? <i className={`fa-solid ${agent.icon} text-[10px] ${agent.color}`}></i> : <i className="fa-solid fa-circle-notch animate-spin text-[10px] text-text-muted"></i>
         ) : (
-             <i className={`fa-solid ${agent.icon} text-lg ${agent.color} opacity-80 group-hover:opacity-100 transition-opacity`}></i>
+          <i className={`fa-solid ${JOB_STATUS_ICONS[job.status]} text-[10px]`}></i>
         )}
       </div>
 
-      {/* Text Area */}
-      <div className="flex flex-col items-center leading-none">
-        {isActive && statusMessage ? (
-             <span className="text-xs font-medium text-text-primary animate-fade-in">
-                {statusMessage}
-             </span>
-        ) : (
-             <span className="text-sm font-semibold text-text-primary group-hover:text-text-primary/80 transition-colors">
-                {agent.name}
-             </span>
+      <div className="flex-1 min-w-0">
+        <div className="text-xs font-medium text-text-primary truncate" title={job.prompt}>{job.prompt}</div>
+        <div className="text-[10px] text-text-muted truncate" title={job.error}>
+          {job.status === 'failed' && job.error ? job.error : job.message}
+        </div>
+        {active && job.status !== 'queued' && (job.queuedBehind || job.waitMs) ? (
+          <div className="text-[10px] text-amber-500 truncate">
+            <i className="fa-solid fa-hourglass-half mr-1 text-[9px]"></i>
+            {job.queuedBehind ? `Queued behind ${job.queuedBehind} request${job.queuedBehind === 1 ? '' : 's'}` : 'Waiting for quota'}
+            {job.waitMs ? ` · ~${Math.ceil(job.waitMs / 1000)}s` : ''}
+          </div>
+        ) : null}
+        {active && (
+          <div className="mt-1.5 h-1 rounded-full bg-text-primary/10 overflow-hidden">
+            {job.progress !== undefined ? (
+              <div className="h-full bg-accent-primary transition-all duration-500" style={{ width: `${Math.round(job.progress * 100)}%` }} />
+            ) : (
+              <div className="h-full w-1/3 bg-accent-primary/60 animate-pulse" />
+            )}
+          </div>
+        )}
+      </div>
+
+      {active && onCancel && (
+        <button
+          onClick={(e) => { e.stopPropagation(); onCancel(); }}
+          className="w-6 h-6 shrink-0 rounded-full flex items-center justify-center text-text-muted hover:bg-red-500 hover:text-white transition-colors"
+          title="Cancel task"
+        >
+          <i className="fa-solid fa-xmark text-[10px]"></i>
+        </button>
+      )}
+    </div>
+  );
+};
+
+const StatusIsland: React.FC<StatusIslandProps> = ({ currentAgent, status, statusMessage, jobs = [], onClick, onStop, onCancelJob, onClearFinished, onSelectNode }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const agent = AGENTS[currentAgent];
+
+  const activeJobs = jobs.filter(isJobActive);
+  const finishedJobs = jobs.filter(j => !isJobActive(j)).reverse();
+  const hasJobs = activeJobs.length > 0;
+
+  // Collapse once the list is empty
+  useEffect(() => {
+    if (jobs.length === 0) setIsExpanded(false);
+  }, [jobs.length]);
+
+  // Running tasks take precedence over app-level status (workspace switching, uploads)
+  const isActive = hasJobs || status !== 'idle';
+  const isBusy = hasJobs || status === 'thinking' || status === 'routing';
+  const message = hasJobs
+    ? (activeJobs.length === 1 ? activeJobs[0].message : `${activeJobs.length} tasks running`)
+    : statusMessage;
+
+  const handleClick = () => {
+    if (jobs.length > 0) setIsExpanded(!isExpanded);
+    else onClick();
+  };
+
+  return (
+    <div className="absolute top-6 left-1/2 transform -translate-x-1/2 z-50 flex flex-col items-center">
+      <div
+        onClick={handleClick}
+        className={`
+          cursor-pointer transition-all duration-500 ease-[cubic-bezier(0.16,1,0.3,1)]
+          h-12 rounded-full glass-panel shadow-2xl
+          flex items-center justify-center gap-3 px-6 w-auto
+          hover:scale-105 hover:bg-white/5 group
+          whitespace-nowrap
+        `}
+      >
+        {/* Icon Area */}
+        <div className={`relative flex items-center justify-center transition-all duration-300`}>
+          {isBusy ? (
+               <div className="flex gap-1 h-3 items-center">
+                  <div className="w-1.5 h-1.5 bg-current rounded-full animate-bounce" style={{ animationDelay: '0ms' }}/>
+                  <div className="w-1.5 h-1.5 bg-current rounded-full animate-bounce" style={{ animationDelay: '150ms' }}/>
+                  <div className="w-1.5 h-1.5 bg-current rounded-full animate-bounce" style={{ animationDelay: '300ms' }}/>
+              </div>
+          ) : (
+               <i className={`fa-solid ${agent.icon} text-lg ${agent.color} opacity-80 group-hover:opacity-100 transition-opacity`}></i>
+          )}
+        </div>
+
+        {/* Text Area */}
+        <div className="flex flex-col items-center leading-none">
+          {isActive && message ? (
+               <span className="text-xs font-medium text-text-primary animate-fade-in">
+                  {message}
+               </span>
+          ) : (
+               <span className="text-sm font-semibold text-text-primary group-hover:text-text-primary/80 transition-colors">
+                  {agent.name}
+               </span>
+          )}
+        </div>
+
+        {/* Finished-task indicator when idle */}
+        {!hasJobs && finishedJobs.length > 0 && (
+          <span className="text-[10px] font-mono text-text-muted">{finishedJobs.length}</span>
+        )}
+
+        {/* Stop Control (cancels every running task) */}
+        {hasJobs && onStop && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onStop(); }}
+            className="w-6 h-6 -mr-2 rounded-full flex items-center justify-center bg-text-primary/5 hover:bg-red-500 text-text-secondary hover:text-white transition-colors"
+            title={activeJobs.length > 1 ? 'Stop all tasks' : 'Stop generating'}
+          >
+            <i className="fa-solid fa-stop text-[9px]"></i>
+          </button>
         )}
       </div>
+
+      {/* Task List */}
+      {isExpanded && jobs.length > 0 && (
+        <div className="mt-2 w-80 max-h-96 overflow-y-auto custom-scrollbar glass-panel rounded-2xl shadow-2xl p-1.5 animate-fade-in">
+          {activeJobs.length > 0 && (
+            <>
+              <div className="px-3 pt-1.5 pb-1 text-[10px] font-bold uppercase tracking-wider text-text-muted">Running</div>
+              {activeJobs.map(job => (
+                <JobRow
+                  key={job.id}
+                  job={job}
+                  onCancel={onCancelJob ? () => onCancelJob(job.id) : undefined}
+                  onSelect={job.targetNodeId && onSelectNode ? () => onSelectNode(job.targetNodeId!) : undefined}
+                />
+              ))}
+            </>
+          )}
+
+          {finishedJobs.length > 0 && (
+            <>
+              <div className="px-3 pt-2 pb-1 flex items-center justify-between">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-text-muted">Recent</span>
+                {onClearFinished && (
+                  <button onClick={onClearFinished} className="text-[10px] text-text-muted hover:text-text-primary transition-colors">
+                    Clear
+                  </button>
+                )}
+              </div>
+              {finishedJobs.map(job => (
+                <JobRow
+                  key={job.id}
+                  job={job}
+                  onSelect={job.targetNodeId && onSelectNode ? () => onSelectNode(job.targetNodeId!) : undefined}
+                />
+              ))}
+            </>
+          )}
+
+          <button
+            onClick={() => { setIsExpanded(false); onClick(); }}
+            className="w-full mt-1 px-3 py-2 rounded-xl text-xs text-text-secondary hover:bg-text-primary/5 hover:text-text-primary transition-colors text-left"
+          >
+            <i className="fa-solid fa-message mr-2 text-[10px]"></i>Open chat
+          </button>
+        </div>
+      )}
     </div>
   );
 };
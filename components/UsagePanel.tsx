@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import { AgentId, UsageTotals, Workspace, WorkspaceBudget } from '../types';
+import { AGENTS } from '../constants';
+import { dayKey } from '../services/ai/usage';
+
+interface UsagePanelProps {
+  workspace: Workspace;
+  onBudgetChange: (budget: WorkspaceBudget) => void;
+  onClose: () => void;
+}
+
+const DAYS_SHOWN = 7;
+
+const formatCost = (cost: number) => cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
+
+const formatTokens = (n: number) => n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+
+const agentLabel = (id: string) => id === 'router' ? 'Router' : AGENTS[id as AgentId]?.name || 'Other';
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ workspace, onBudgetChange, onClose }) => {
+  const usage = workspace.usage;
+  const budget: WorkspaceBudget = workspace.budget || { warnExpensive: false };
+  const [limitInput, setLimitInput] = useState(budget.limit !== undefined ? String(budget.limit) : '');
+
+  useEffect(() => {
+      setLimitInput(workspace.budget?.limit !== undefined ? String(workspace.budget.limit) : '');
+  }, [workspace.id]);
+
+  const commitLimit = () => {
+      const value = parseFloat(limitInput);
+      onBudgetChange({ ...budget, limit: Number.isFinite(value) && value > 0 ? value : undefined });
+  };
+
+  const days = Array.from({ length: DAYS_SHOWN }, (_, i) => dayKey(Date.now() - i * 86400000));
+  const maxDayCost = Math.max(...days.map(d => usage?.byDay[d]?.cost || 0), 0.0001);
+  const spent = usage?.totals.cost || 0;
+
+  return (
+    <div className="absolute inset-4 md:inset-y-4 md:right-4 md:left-auto md:w-[420px] glass-panel bg-bg-panel/95 backdrop-blur-2xl rounded-3xl shadow-2xl z-[110] flex flex-col overflow-hidden border border-white/20 dark:border-white/10 animate-scale-in">
+      {/* Header */}
+      <div className="h-14 flex items-center justify-between px-6 border-b border-border-subtle bg-bg-card/50 backdrop-blur-md shrink-0">
+        <div className="flex items-center gap-3 min-w-0">
+            <div className="w-8 h-8 rounded-lg bg-text-primary/5 flex items-center justify-center">
+                 <i className="fa-solid fa-chart-column text-text-primary"></i>
+            </div>
+            <div className="flex flex-col min-w-0">
+                <span className="font-semibold text-text-primary tracking-tight truncate">{workspace.name}</span>
+                <span className="text-[10px] text-text-muted">Usage & Budget</span>
+            </div>
+        </div>
+        <button onClick={onClose} className="w-8 h-8 rounded-full hover:bg-text-primary/10 flex items-center justify-center transition-colors">
+            <i className="fa-solid fa-xmark text-text-secondary"></i>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+        {/* Totals */}
+        <div className="grid grid-cols-3 gap-2">
+            <Stat label="Est. Cost" value={formatCost(spent)} highlight={budget.limit !== undefined && spent > budget.limit} />
+            <Stat label="Calls" value={String(usage?.totals.calls || 0)} />
+            <Stat label="Tokens" value={formatTokens((usage?.totals.promptTokens || 0) + (usage?.totals.outputTokens || 0) + (usage?.totals.thinkingTokens || 0))} />
+            <Stat label="Thinking" value={formatTokens(usage?.totals.thinkingTokens || 0)} />
+            <Stat label="Images" value={String(usage?.totals.images || 0)} />
+            <Stat label="Videos" value={String(usage?.totals.videos || 0)} />
+        </div>
+        {!!usage?.fallbacks && (
+            <div className="text-[10px] text-amber-500 px-1">
+                <i className="fa-solid fa-arrow-down-wide-short mr-1"></i>
+                {usage.fallbacks} call{usage.fallbacks === 1 ? '' : 's'} served by a fallback model after a quota error
+            </div>
+        )}
+
+        {/* By Day */}
+        <Section title={`Last ${DAYS_SHOWN} Days`}>
+            <div className="flex items-end gap-1.5 h-20 px-3 pt-3">
+                {[...days].reverse().map(day => {
+                    const cost = usage?.byDay[day]?.cost || 0;
+                    return (
+                        <div key={day} className="flex-1 flex flex-col items-center gap-1 h-full justify-end" title={`${day}: ${formatCost(cost)}`}>
+                            <div className="w-full rounded-t bg-accent-primary/70" style={{ height: `${Math.max(2, (cost / maxDayCost) * 100)}%` }} />
+                            <span className="text-[9px] text-text-muted font-mono">{day.slice(8)}</span>
+                        </div>
+                    );
+                })}
+            </div>
+        </Section>
+
+        <Section title="By Agent">
+            <Breakdown rows={usage?.byAgent} label={agentLabel} />
+        </Section>
+
+        <Section title="By Model">
+            <Breakdown rows={usage?.byModel} label={id => id} />
+        </Section>
+
+        {/* Budget */}
+        <Section title="Budget">
+            <div className="flex items-center justify-between px-3 py-2.5">
+                <span className="text-xs font-medium text-text-primary">Soft Limit (USD)</span>
+                <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={limitInput}
+                    placeholder="None"
+                    onChange={(e) => setLimitInput(e.target.value)}
+                    onBlur={commitLimit}
+                    onKeyDown={(e) => { if (e.key === 'Enter') commitLimit(); }}
+                    className="w-20 bg-transparent border-b border-border-subtle focus:border-accent-primary outline-none text-xs text-right font-mono text-text-primary placeholder:text-text-muted"
+                />
+            </div>
+            <div className="h-[1px] bg-border-subtle mx-3" />
+            <div
+                className="flex items-center justify-between px-3 py-2.5 cursor-pointer select-none"
+                onClick={() => onBudgetChange({ ...budget, warnExpensive: !budget.warnExpensive })}
+            >
+                <span className="text-xs font-medium text-text-primary">Confirm Veo / 4K Calls</span>
+                <div className={`w-8 h-4 rounded-full relative transition-colors duration-300 ${budget.warnExpensive ? 'bg-accent-primary' : 'bg-text-secondary/20'}`}>
+                    <div className={`absolute top-0.5 w-3 h-3 rounded-full bg-white shadow-sm transition-transform duration-300 ${budget.warnExpensive ? 'left-[18px]' : 'left-0.5'}`}></div>
+                </div>
+            </div>
+        </Section>
+
+        <p className="text-[10px] text-text-muted px-1 leading-relaxed">
+            Costs are estimates from approximate list prices. Token counts from providers that don't report usage are approximated from text length.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+const Stat: React.FC<{ label: string; value: string; highlight?: boolean }> = ({ label, value, highlight }) => (
+    <div className="flex flex-col gap-0.5 px-3 py-2 rounded-xl bg-bg-surface/50 border border-border-subtle">
+        <span className="text-[10px] text-text-muted uppercase tracking-wider">{label}</span>
+        <span className={`text-sm font-mono font-semibold ${highlight ? 'text-red-500' : 'text-text-primary'}`}>{value}</span>
+    </div>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <div className="space-y-1.5">
+        <span className="px-1.5 text-[10px] font-bold text-text-muted uppercase tracking-wider">{title}</span>
+        <div className="bg-bg-surface/50 border border-border-subtle rounded-xl overflow-hidden">
+            {children}
+        </div>
+    </div>
+);
+
+const Breakdown: React.FC<{ rows?: Record<string, UsageTotals>; label: (key: string) => string }> = ({ rows, label }) => {
+    const entries = (rows ? Object.entries<UsageTotals>(rows) : []).sort(([, a], [, b]) => b.cost - a.cost || b.calls - a.calls);
+    if (entries.length === 0) {
+        return <div className="px-3 py-2.5 text-[10px] text-text-muted">No usage yet</div>;
+    }
+    return (
+        <>
+            {entries.map(([key, t]) => (
+                <div key={key} className="flex items-center gap-3 px-3 py-2 text-xs">
+                    <span className="flex-1 truncate text-text-primary">{label(key)}</span>
+                    <span className="text-[10px] text-text-muted font-mono">
+                        {t.calls} call{t.calls === 1 ? '' : 's'}
+                        {t.images ? ` · ${t.images} img` : ''}
+                        {t.videos ? ` · ${t.videos} vid` : ''}
+                        {!t.images && !t.videos ? ` · ${formatTokens(t.promptTokens + t.outputTokens + t.thinkingTokens)} tok` : ''}
+                    </span>
+                    <span className="w-14 text-right font-mono text-text-secondary">{formatCost(t.cost)}</span>
+                </div>
+            ))}
+        </>
+    );
+};
+
+export default UsagePanel;
@@ -9,8 +9,10 @@ interface WorkspacePanelProps {
   activeWorkspaceId: string;
   onSelect: (id: string) => void;
   onCreate: () => void;
+  onDuplicate: (id: string) => void;
   onDelete: (id: string) => void;
   onRename: (id: string, name: string) => void;
+  onShowUsage: (id: string) => void;
 }
 
 const WorkspacePanel: React.FC<WorkspacePanelProps> = ({
@@ -20,8 +22,10 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({
   activeWorkspaceId,
   onSelect,
   onCreate,
+  onDuplicate,
   onDelete,
-  onRename
+  onRename,
+  onShowUsage
 }) => {
   const panelRef = useRef<HTMLDivElement>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -134,6 +138,14 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({
                              <span>{ws.nodes.length} items</span>
                              <span className="w-0.5 h-0.5 rounded-full bg-text-muted"></span>
                              <span>{new Date(ws.lastModified).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
+                             {!!ws.usage?.totals.cost && (
+                                 <>
+                                     <span className="w-0.5 h-0.5 rounded-full bg-text-muted"></span>
+                                     <span className={`font-mono ${ws.budget?.limit !== undefined && ws.usage.totals.cost > ws.budget.limit ? 'text-red-500' : ''}`}>
+                                         ${ws.usage.totals.cost.toFixed(2)}
+                                     </span>
+                                 </>
+                             )}
                         </div>
                     </div>
 
@@ -147,6 +159,20 @@ const WorkspacePanel: React.FC<WorkspacePanelProps> = ({
                             >
                                 <i className="fa-solid fa-pen text-[10px]"></i>
                             </button>
+                            <button 
+                                onClick={(e) => { e.stopPropagation(); onShowUsage(ws.id); }}
+                                className="w-7 h-7 rounded-lg hover:bg-black/5 dark:hover:bg-white/10 flex items-center justify-center text-text-secondary hover:text-text-primary transition-colors"
+                                title="Usage & Budget"
+                            >
+                                <i className="fa-solid fa-chart-column text-[10px]"></i>
+                            </button>
+                            <button 
+                                onClick={(e) => { e.stopPropagation(); onDuplicate(ws.id); }}
+                                className="w-7 h-7 rounded-lg hover:bg-black/5 dark:hover:bg-white/10 flex items-center justify-center text-text-secondary hover:text-text-primary transition-colors"
+                                title="Duplicate"
+                            >
+                                <i className="fa-solid fa-clone text-[10px]"></i>
+                            </button>
                             {workspaces.length > 1 && (
                                 <button 
                                     onClick={(e) => { e.stopPropagation(); onDelete(ws.id); }}
@@ -0,0 +1,221 @@
+/**
+ * Mock Weaver Server
+ * Minimal offline stand-in for the Weaver REST API so the streaming pipeline can be
+ * exercised without backend access.
+ *
+ *   npm run mock:weaver                      # SSE on http://localhost:8787
+ *   MOCK_WEAVER_FORMAT=ndjson npm run mock:weaver
+ *   WEAVER_API_URL=http://localhost:8787 npm run dev
+ *
+ * Endpoints:
+ *   POST /chat         unary JSON  { response, ui_commands, attachment_url, attachment_urls }
+ *   POST /chat/stream  SSE (default) or NDJSON (?format=ndjson / Accept: application/x-ndjson)
+ *   POST /chat/ui_results  UI command outcomes reported by the client (logged)
+ *   POST /chat/session/reset | /chat/session/fork  session lifecycle (logged)
+ *   POST /route        intent routing { target_agent_id, reasoning, artifact, connections }
+ *   GET  /health       liveness probe used by the provider registry
+ */
+import http from 'node:http';
+
+const PORT = Number(process.env.MOCK_WEAVER_PORT || 8787);
+const DEFAULT_FORMAT = process.env.MOCK_WEAVER_FORMAT || 'sse';
+const CHUNK_SIZE = Number(process.env.MOCK_WEAVER_CHUNK || 7);
+const CHUNK_DELAY_MS = Number(process.env.MOCK_WEAVER_DELAY || 25);
+
+const wait = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const placeholderImage = (label) => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"><rect width="100%" height="100%" fill="#1a1a1a"/><text x="50%" y="50%" fill="#fff" font-family="monospace" font-size="20" text-anchor="middle">${label}</text></svg>`;
+    return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+};
+
+const CODE_RESPONSE = `### FILE: index.html
+<!DOCTYPE html>
+<html>
+<head>
+  <link rel="stylesheet" href="style.css">
+</head>
+<body>
+  <h1>Mock Weaver</h1>
+  <button id="btn">Click</button>
+  <script src="script.js"></script>
+</body>
+</html>
+### FILE: style.css
+body { font-family: sans-serif; display: grid; place-items: center; height: 100vh; }
+### FILE: script.js
+document.getElementById('btn').addEventListener('click', () => alert('Streamed!'));
+`;
+
+/**
+ * Build the scripted reply for a request. Each step is either a text delta or a
+ * side-channel event emitted between deltas.
+ */
+const buildScript = (body) => {
+    const message = String(body.message || '');
+    const media = body.media_config;
+
+    if (media?.type === 'image' || media?.type === 'video') {
+        const count = media.type === 'image' ? Math.max(1, Number(media.number_of_images) || 1) : 1;
+        const attachments = Array.from({ length: count }, (_, i) => placeholderImage(`mock ${media.type}${count > 1 ? ` ${i + 1}` : ''}`));
+        return {
+            steps: [{ text: `Here is your ${media.type}.` }],
+            attachment: attachments[0],
+            attachments
+        };
+    }
+
+    if (/code|app|html|script/i.test(message)) {
+        const half = Math.floor(CODE_RESPONSE.length / 2);
+        return {
+            steps: [
+                { text: CODE_RESPONSE.substring(0, half) },
+                { ui_commands: [
+                    { command: 'create_node', args: { type: 'text', title: 'Build Notes', content: 'Streaming from the mock server.', ref: 'notes' } },
+                    { command: 'focus_node', args: { id: '$notes' } }
+                ] },
+                { text: CODE_RESPONSE.substring(half) }
+            ]
+        };
+    }
+
+    return {
+        steps: [{ text: `Mock Weaver received: "${message.slice(-120)}". This reply is streamed in small chunks so the UI can render it incrementally.` }]
+    };
+};
+
+const readBody = (req) => new Promise((resolve) => {
+    let raw = '';
+    req.on('data', chunk => raw += chunk);
+    req.on('end', () => {
+        try { resolve(JSON.parse(raw || '{}')); } catch { resolve({}); }
+    });
+});
+
+const sendCors = (res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+};
+
+const handleUnary = async (req, res) => {
+    const body = await readBody(req);
+    const script = buildScript(body);
+    const response = script.steps.filter(s => s.text).map(s => s.text).join('');
+    const ui_commands = script.steps.flatMap(s => s.ui_commands || []);
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ response, ui_commands, attachment_url: script.attachment, attachment_urls: script.attachments }));
+};
+
+const handleResults = async (req, res) => {
+    const body = await readBody(req);
+    console.log(`[ui_results] ${body.session_key}:`, JSON.stringify(body.results));
+    res.writeHead(204);
+    res.end();
+};
+
+// Keyword routing, just enough to drive the create/update artifact pipeline
+const handleRoute = async (req, res) => {
+    const body = await readBody(req);
+    const message = String(body.message || '');
+    const request = message.split('User Request: ').pop();
+    const activeId = message.match(/ACTIVE NODE CONTEXT[^\n]*\nID: (.+)/)?.[1];
+
+    let route = { target_agent_id: 'nest', reasoning: 'Mock route: chat' };
+    if (activeId && /\b(update|change|edit|fix|add)\b/i.test(request)) {
+        route = { target_agent_id: 'creative_nest', reasoning: 'Mock route: update', artifact: { operation: 'update', type: 'text', title: 'Updated', id: activeId } };
+    } else if (/image|picture|draw/i.test(request)) {
+        route = { target_agent_id: 'image_nest', reasoning: 'Mock route: image', artifact: { operation: 'create', type: 'image', title: 'Mock Image', aspect_ratio: '1:1' } };
+    } else if (/code|app|html|script/i.test(request)) {
+        route = { target_agent_id: 'code_nest', reasoning: 'Mock route: code', artifact: { operation: 'create', type: 'code', title: 'Mock App', language: 'html' } };
+    }
+    if (route.artifact?.operation === 'create' && activeId) {
+        route.connections = [{ from: 'ACTIVE_NODE', to: 'NEW_NODE' }];
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(route));
+};
+
+const handleSession = async (req, res, action) => {
+    const body = await readBody(req);
+    console.log(`[session:${action}] ${body.from_session_key ? `${body.from_session_key} -> ` : ''}${body.session_key}`);
+    res.writeHead(204);
+    res.end();
+};
+
+const handleStream = async (req, res, url) => {
+    const body = await readBody(req);
+    const script = buildScript(body);
+    const accept = req.headers.accept || '';
+    const format = url.searchParams.get('format') || (accept.startsWith('application/x-ndjson') ? 'ndjson' : DEFAULT_FORMAT);
+    const isSSE = format !== 'ndjson';
+
+    res.writeHead(200, {
+        'Content-Type': isSSE ? 'text/event-stream' : 'application/x-ndjson',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+    });
+
+    let closed = false;
+    req.on('close', () => { closed = true; });
+
+    const emit = (event, data) => {
+        if (closed) return;
+        if (isSSE) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        else res.write(JSON.stringify({ type: event, ...data }) + '\n');
+    };
+
+    let full = '';
+    for (const step of script.steps) {
+        if (step.ui_commands) {
+            emit('ui_commands', { ui_commands: step.ui_commands });
+            continue;
+        }
+        // Small fixed-size chunks guarantee that "### FILE:" markers get split across frames
+        for (let i = 0; i < step.text.length; i += CHUNK_SIZE) {
+            if (closed) return;
+            const text = step.text.substring(i, i + CHUNK_SIZE);
+            full += text;
+            emit('delta', { text });
+            await wait(CHUNK_DELAY_MS);
+        }
+    }
+
+    if (script.attachment) emit('attachment', { url: script.attachment, mime_type: 'image/svg+xml' });
+    // Rough token counts so the studio's usage accounting has something to show
+    const usage = { prompt_tokens: Math.ceil((body.message || '').length / 4), output_tokens: Math.ceil(full.length / 4) };
+    emit('done', { response: full, usage });
+    res.end();
+};
+
+const server = http.createServer(async (req, res) => {
+    sendCors(res);
+    const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/health') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok' }));
+        return;
+    }
+    if (req.method === 'POST' && url.pathname === '/chat') return handleUnary(req, res);
+    if (req.method === 'POST' && url.pathname === '/chat/stream') return handleStream(req, res, url);
+    if (req.method === 'POST' && url.pathname === '/route') return handleRoute(req, res);
+    if (req.method === 'POST' && url.pathname === '/chat/ui_results') return handleResults(req, res);
+    if (req.method === 'POST' && url.pathname === '/chat/session/reset') return handleSession(req, res, 'reset');
+    if (req.method === 'POST' && url.pathname === '/chat/session/fork') return handleSession(req, res, 'fork');
+
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: `No mock route for ${req.method} ${url.pathname}` }));
+});
+
+server.listen(PORT, () => {
+    console.log(`Mock Weaver listening on http://localhost:${PORT} (${DEFAULT_FORMAT})`);
+});
@@ -1,39 +1,176 @@
-
-import { AIProvider, ImageOptions, VideoOptions } from "./types";
+import { AIProvider, AISession, ImageOptions, VideoOptions, StreamEvent, UICommandResult } from "./types";
 import { GoogleGenAIProvider } from "./providers/googleGenAI";
 import { WeaverProvider } from "./providers/weaver";
-import { AgentId } from "../../types";
+import { HeuristicRouterProvider } from "./providers/heuristicRouter";
+import { MockProvider } from "./providers/mock";
+import { ProviderRegistry, ProviderCapability, ProviderDescriptor, ProviderUnavailableError, isUnreachableError } from "./registry";
+import { AgentId, VideoOperation } from "../../types";
 import { AGENTS } from "../../constants";
+import { isAbortError } from "./utils/abort";
+import { Usage } from "./usage";
+
+const ALL_CAPABILITIES: ProviderCapability[] = ['chat', 'image', 'video', 'routing'];
+
+// AI_PROVIDER=mock (vite.config.ts) runs the studio fully offline: only the mock and local router exist
+const OFFLINE = process.env.AI_PROVIDER === 'mock';
+
+const PROVIDERS: ProviderDescriptor[] = OFFLINE ? [
+    { id: 'mock', label: 'Mock (offline)', capabilities: ALL_CAPABILITIES, create: () => new MockProvider() },
+    { id: 'local', label: 'Local Heuristic', capabilities: ['routing'], create: () => new HeuristicRouterProvider() },
+] : [
+    { id: 'weaver', label: 'Weaver', capabilities: ALL_CAPABILITIES, create: () => new WeaverProvider() },
+    { id: 'google-genai', label: 'Google Gemini', capabilities: ALL_CAPABILITIES, create: () => new GoogleGenAIProvider() },
+    { id: 'local', label: 'Local Heuristic', capabilities: ['routing'], create: () => new HeuristicRouterProvider() },
+];
 
 /**
  * AI Service Orchestrator
- * Acts as the "GenKit" flow manager, routing requests to the configured provider.
+ * Acts as the "GenKit" flow manager, routing each request to the provider configured for its
+ * capability and failing over to the next one when a provider is unreachable.
  */
 class AIOrchestrator {
-    private provider: AIProvider;
+    readonly providers = new ProviderRegistry(PROVIDERS, {
+        primary: OFFLINE ? 'mock' : (process.env.AI_PROVIDER === 'google-genai' ? 'google-genai' : 'weaver'),
+        overrides: {},
+        failover: true
+    });
+
     private fastModel = 'gemini-2.5-flash';
+    private session: AISession | null = null;
+    // Provider that served the last chat stream (its UI commands / result reports belong together)
+    private lastChatProvider: AIProvider | null = null;
+
+    private resolve(id: string): AIProvider {
+        const provider = this.providers.get(id);
+        if (this.session) provider.setSession?.(this.session);
+        return provider;
+    }
 
-    constructor() {
-        // Switch to WeaverProvider to wire up the Go backend
-        this.provider = new WeaverProvider();
+    /**
+     * Run `call` on the providers configured for `capability`, moving on to the next candidate
+     * only when one is unreachable. Any other error (bad request, quota, abort) surfaces as-is.
+     */
+    private async withProvider<T>(capability: ProviderCapability, call: (provider: AIProvider) => Promise<T>, signal?: AbortSignal): Promise<T> {
+        let lastError: any = new ProviderUnavailableError(`No provider available for ${capability}`);
+        for (const id of this.providers.candidates(capability)) {
+            try {
+                const result = await call(this.resolve(id));
+                this.providers.markHealthy(id);
+                return result;
+            } catch (e) {
+                if (isAbortError(e) || signal?.aborted || !isUnreachableError(e)) throw e;
+                console.warn(`[AI] ${id} unreachable for ${capability}, trying next provider`, e);
+                this.providers.markUnreachable(id, e);
+                lastError = e;
+            }
+        }
+        throw lastError;
+    }
+
+    /**
+     * Streaming variant: failover is only possible before the first event has been yielded.
+     */
+    private async *streamWithProvider(capability: ProviderCapability, call: (provider: AIProvider) => AsyncGenerator<StreamEvent, void, unknown>, signal?: AbortSignal) {
+        let lastError: any = new ProviderUnavailableError(`No provider available for ${capability}`);
+        for (const id of this.providers.candidates(capability)) {
+            let started = false;
+            try {
+                const provider = this.resolve(id);
+                for await (const event of call(provider)) {
+                    if (!started) {
+                        started = true;
+                        this.lastChatProvider = provider;
+                        this.providers.markHealthy(id);
+                    }
+                    yield event;
+                }
+                return;
+            } catch (e) {
+                if (started || isAbortError(e) || signal?.aborted || !isUnreachableError(e)) throw e;
+                console.warn(`[AI] ${id} unreachable for ${capability}, trying next provider`, e);
+                this.providers.markUnreachable(id, e);
+                lastError = e;
+            }
+        }
+        throw lastError;
     }
 
-    async route(prompt: string, history: any[], imageContext?: string) {
-        return this.provider.routeRequest(prompt, history, { fast: this.fastModel }, imageContext);
+    async route(prompt: string, history: any[], imageContext?: string, signal?: AbortSignal) {
+        Usage.scope(signal, { agentId: 'router' });
+        return this.withProvider('routing', p => p.routeRequest(prompt, history, { fast: this.fastModel }, imageContext, signal), signal);
     }
 
     getLastUICommands() {
-        if (this.provider.getLastUICommands) {
-            return this.provider.getLastUICommands();
+        return this.lastChatProvider?.getLastUICommands?.() || [];
+    }
+
+    /**
+     * Send UI command outcomes back to the agent (created IDs, failures). Best effort.
+     */
+    async reportUICommandResults(results: UICommandResult[]) {
+        const provider = this.lastChatProvider;
+        if (!provider?.reportUICommandResults || results.length === 0) return;
+        try {
+            await provider.reportUICommandResults(results);
+        } catch (e) {
+            console.warn("Failed to report UI command results:", e);
         }
-        return [];
+    }
+
+    // --- Sessions ---
+
+    /**
+     * Chat providers that can be constructed right now (sessions live with them).
+     */
+    private chatProviders(): AIProvider[] {
+        return this.providers.candidates('chat').flatMap(id => {
+            try {
+                return [this.resolve(id)];
+            } catch {
+                return [];
+            }
+        });
+    }
+
+    /**
+     * Point subsequent requests at the conversation for this user/workspace.
+     */
+    setSession(session: AISession) {
+        this.session = session;
+        this.providers.getInstances().forEach(p => p.setSession?.(session));
+    }
+
+    /**
+     * Drop the server-side memory of a session (e.g. after clearing the chat). Best effort.
+     */
+    async resetSession(session: AISession) {
+        await Promise.all(this.chatProviders().map(async p => {
+            try {
+                await p.resetSession?.(session);
+            } catch (e) {
+                console.warn(`Failed to reset session on ${p.id}:`, e);
+            }
+        }));
+    }
+
+    /**
+     * Copy a session's memory into a new one (e.g. when duplicating a workspace). Best effort.
+     */
+    async forkSession(from: AISession, to: AISession) {
+        await Promise.all(this.chatProviders().map(async p => {
+            try {
+                await p.forkSession?.(from, to);
+            } catch (e) {
+                console.warn(`Failed to fork session on ${p.id}:`, e);
+            }
+        }));
     }
 
     /**
      * Helper: Refine a heavy context prompt into a specific visual prompt using a cheaper model.
      * This prevents blowing up the token quota for expensive image/video models.
      */
-    private async refinePrompt(originalPrompt: string, targetType: 'image' | 'video', hasReferenceImage: boolean): Promise<string> {
+    private async refinePrompt(originalPrompt: string, targetType: 'image' | 'video', hasReferenceImage: boolean, signal?: AbortSignal): Promise<string> {
         try {
             // If prompt is short and no reference logic needed, just use it
             if (originalPrompt.length < 200 && !hasReferenceImage) return originalPrompt;
@@ -49,27 +186,59 @@ class AIOrchestrator {
                 4. Output ONLY the raw prompt string. Do not add "Here is the prompt".
             `;
 
-            const result = await this.provider.generateText(
+            const result = await this.withProvider('chat', p => p.generateText(
                 this.fastModel, 
                 `CONTEXT & REQUEST:\n${originalPrompt}\n\nOUTPUT PROMPT:`,
                 [], 
-                { systemInstruction: refinementSystem }
-            );
+                { systemInstruction: refinementSystem },
+                signal
+            ), signal);
 
             return result.text.trim() || originalPrompt;
         } catch (e) {
+            if (isAbortError(e)) throw e;
             console.warn("Prompt refinement failed, using original", e);
             return originalPrompt;
         }
     }
 
-    async *streamResponse(agentId: AgentId, prompt: string, history: any[], isArtifactMode = false, artifactLanguage = '', imageContext?: string) {
+    /**
+     * `format` selects the artifact answer format: 'edits' for search/replace blocks on existing code
+     * files, 'cells' for notebook cells. Without it, code agents write whole files.
+     */
+    async *streamResponse(agentId: AgentId, prompt: string, history: any[], isArtifactMode = false, artifactLanguage = '', imageContext?: string, signal?: AbortSignal, format?: 'edits' | 'cells') {
         const agent = AGENTS[agentId];
         let systemInstruction = agent.systemInstruction || '';
         const historyText = history.map(h => `${h.role === 'user' ? 'User' : 'Model'}: ${h.parts[0].text}`).join('\n\n');
 
         if (isArtifactMode) {
-             if (agentId === AgentId.CODE) {
+             if (agentId === AgentId.CODE && format === 'cells') {
+                 systemInstruction += `\n\nCRITICAL NOTEBOOK INSTRUCTIONS:
+                 1. You are creating or changing a notebook of markdown and code cells${artifactLanguage ? ` (code cells are ${artifactLanguage})` : ''}. Existing cells are in the context as '### CELL: <id> <type>' sections.
+                 2. Output ONLY the cells you add or change, each under its own marker line:
+                    ### CELL: <id>                  (replace the source of an existing cell)
+                    ### CELL: new code              (a new code cell; 'new markdown' for prose)
+                    ### CELL: new code after <id>   (insert after a cell; 'first' inserts at the top)
+                    ### DELETE CELL: <id>
+                 3. New cells without a position go after the cell written before them, or at the end.
+                 4. Write the complete source of each cell. Do not write outputs, and no text before the first marker.
+                 `;
+             } else if (agentId === AgentId.CODE && format === 'edits') {
+                 systemInstruction += `\n\nCRITICAL EDITING INSTRUCTIONS:
+                 1. You are changing an existing multi-file project. Its current files are in the context.
+                 2. Output ONLY the changes, grouped under a file marker: '### FILE: <filename>'
+                 3. Each change is a search/replace block:
+                    ### FILE: app.js
+                    <<<<<<< SEARCH
+                    (exact lines from the current file, enough to be unique)
+                    =======
+                    (the lines that replace them)
+                    >>>>>>> REPLACE
+                 4. SEARCH must copy the current file exactly, including indentation. Use several small blocks rather than one large one.
+                 5. For a NEW file, write its complete content under its marker with no blocks.
+                 6. Do NOT write conversational text before the first file marker. Do NOT repeat unchanged files.
+                 `;
+             } else if (agentId === AgentId.CODE) {
                  // Enhanced instruction to force proper file structure for the Code Agent
                  // This overrides any ambiguity from the router's language detection
                  systemInstruction += `\n\nCRITICAL CODING INSTRUCTIONS:
@@ -83,6 +252,8 @@ class AIOrchestrator {
                  3. If the request is for a web app, YOU MUST START with '### FILE: index.html'.
                  4. Do NOT write conversational text before the first file marker.
                  5. Output the COMPLETE content for every file. No placeholders.
+                 6. Filenames may include folders (e.g. '### FILE: src/utils/format.js').
+                 7. To remove a file write '### DELETE: <filename>'; to move one write '### RENAME: <old> -> <new>'.
                  `;
              } else if (agentId === AgentId.CREATIVE || agentId === AgentId.NEST) {
                  systemInstruction += `\n\nIMPORTANT ARTIFACT INSTRUCTIONS:
@@ -94,41 +265,68 @@ class AIOrchestrator {
              }
         }
 
-        if (historyText) {
-             systemInstruction += `\n\nPREVIOUS CONVERSATION HISTORY:\n${historyText}\n\n(Respond to new request based on history)`;
-        }
+        const thinkingBudget = (agent.model.includes('pro') && (!isArtifactMode || agentId === AgentId.CODE)) ? 4096 : 0;
+        Usage.scope(signal, { agentId });
 
-        const config = {
-            systemInstruction,
-            // Enable thinking for Pro models, especially for CODE to ensure complex reasoning.
-            // Using 4096 budget for code to allow sufficient planning time.
-            thinkingBudget: (agent.model.includes('pro') && (!isArtifactMode || agentId === AgentId.CODE)) ? 4096 : 0
-        };
-
-        const stream = this.provider.generateTextStream(agent.model, prompt, [], config, imageContext);
-        
-        for await (const chunk of stream) {
-            yield chunk;
-        }
+        yield* this.streamWithProvider('chat', provider => {
+            // Providers with server-side sessions keep their own memory; they only get the raw history as a seed
+            const hasServerMemory = !!provider.setSession;
+            const config = {
+                systemInstruction: historyText && !hasServerMemory
+                    ? `${systemInstruction}\n\nPREVIOUS CONVERSATION HISTORY:\n${historyText}\n\n(Respond to new request based on history)`
+                    : systemInstruction,
+                // Enable thinking for Pro models, especially for CODE to ensure complex reasoning.
+                // Using 4096 budget for code to allow sufficient planning time.
+                thinkingBudget
+            };
+            return provider.generateTextStream(agent.model, prompt, hasServerMemory ? history : [], config, imageContext, signal);
+        }, signal);
     }
 
-    async generateImage(prompt: string, options: ImageOptions, referenceImageBase64?: string) {
-        // Step 1: Optimize prompt to save tokens (aware of reference image)
-        const refinedPrompt = await this.refinePrompt(prompt, 'image', !!referenceImageBase64);
+    async generateImage(prompt: string, options: ImageOptions, referenceImageBase64?: string, signal?: AbortSignal) {
+        // Prompt refinement is billed to the media agent too
+        Usage.scope(signal, { agentId: AgentId.IMAGE });
+
+        // Step 1: Optimize prompt to save tokens (aware of reference image). Masked edits are already
+        // a direct instruction about one region; rewriting them would describe the whole image instead
+        const refinedPrompt = options.edit ? prompt : await this.refinePrompt(prompt, 'image', !!referenceImageBase64, signal);
         
         // Step 2: Generate
-        return this.provider.generateImage(refinedPrompt, {
+        return this.withProvider('image', p => p.generateImage(refinedPrompt, {
             ...options,
             referenceImage: referenceImageBase64 
-        });
+        }, signal), signal);
     }
 
-    async generateVideo(prompt: string, options: VideoOptions, referenceImageBase64?: string) {
+    /**
+     * Providers that support resumable renders report the operation through `onStarted` as soon as it
+     * is accepted, so the caller can persist it and pick it up again with resumeVideo after a reload.
+     */
+    async generateVideo(prompt: string, options: VideoOptions, referenceImageBase64?: string, signal?: AbortSignal, onStarted?: (operation: VideoOperation) => void) {
+        Usage.scope(signal, { agentId: AgentId.VIDEO });
+
         // Step 1: Optimize prompt to save tokens
-        const refinedPrompt = await this.refinePrompt(prompt, 'video', !!referenceImageBase64);
+        const refinedPrompt = await this.refinePrompt(prompt, 'video', !!referenceImageBase64 || !!options.lastFrame, signal);
         
-        // Step 2: Generate
-        return this.provider.generateVideo(refinedPrompt, options, referenceImageBase64);
+        // Step 2: Start (failover only applies here; a running render is never restarted elsewhere)
+        const started = await this.withProvider('video', async p => p.startVideo && p.resumeVideo
+            ? { operation: await p.startVideo(refinedPrompt, options, referenceImageBase64, signal) }
+            : { url: await p.generateVideo(refinedPrompt, options, referenceImageBase64, signal) }, signal);
+        if (started.url !== undefined) return started.url;
+
+        // Step 3: Wait for the render
+        onStarted?.(started.operation!);
+        return this.resumeVideo(started.operation!, signal);
+    }
+
+    /**
+     * Poll a render started earlier (possibly before a reload) until its video is ready.
+     */
+    async resumeVideo(operation: VideoOperation, signal?: AbortSignal) {
+        Usage.scope(signal, { agentId: AgentId.VIDEO });
+        const provider = this.resolve(operation.provider);
+        if (!provider.resumeVideo) throw new Error(`${operation.provider} cannot resume video renders`);
+        return provider.resumeVideo(operation, signal);
     }
 }
 
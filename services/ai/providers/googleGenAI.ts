@@ -1,11 +1,26 @@
 
-import { GoogleGenAI, Type, GenerateContentResponse, Part, Content } from "@google/genai";
-import { AIProvider, AIModelConfig, ImageOptions, VideoOptions, GenerationResult, RouterResult } from "../types";
-import { AgentId } from "../../../types";
-import { globalLimiter } from "../utils/rateLimiter";
+import { GoogleGenAI, Type, GenerateContentResponse, Part, Content, GenerateVideosOperation } from "@google/genai";
+import { AIProvider, AIModelConfig, ImageOptions, ImageEdit, VideoOptions, GenerationResult, RouterResult, StreamEvent } from "../types";
+import { AgentId, VideoOperation } from "../../../types";
+import { globalLimiter, PRIORITY, quotaBucket, isQuotaError, parseRetryAfterMs } from "../utils/rateLimiter";
+import { abortableWait, isAbortError, throwIfAborted } from "../utils/abort";
+import { Usage, UsageReport } from "../usage";
 
 // --- Utility Helpers ---
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const wait = abortableWait;
+
+const percent = (n: number) => `${Math.round(n * 100)}%`;
+
+/**
+ * Gemini image models have no mask parameter; the mask goes in as a second image with these rules.
+ */
+const editInstruction = (edit: ImageEdit) => {
+    const { x, y, width, height } = edit.region;
+    const where = `(roughly ${percent(width)} x ${percent(height)} of the image, starting ${percent(x)} from the left and ${percent(y)} from the top)`;
+    return edit.mode === 'inpaint'
+        ? `The second image is a mask. Change ONLY the area that is white in the mask ${where}. Everything in the black area must stay exactly as in the first image. Blend the edit seamlessly. Return the full image at the same framing.`
+        : `The first image was padded with new empty space to be filled. The second image is a mask: the white area ${where} is the new space. Extend the scene into it seamlessly, matching perspective, lighting and style. Keep the black area exactly as it is. Return the full image.`;
+};
 
 export class GoogleGenAIProvider implements AIProvider {
     id = "google-genai";
@@ -19,35 +34,35 @@ export class GoogleGenAIProvider implements AIProvider {
         this.client = new GoogleGenAI({ apiKey: key });
     }
 
-    private async withRetry<T>(fn: () => Promise<T>, retries = 3, initialDelay = 1000, operationName = 'API Call'): Promise<T> {
+    private async withRetry<T>(fn: () => Promise<T>, retries = 3, initialDelay = 1000, operationName = 'API Call', signal?: AbortSignal, priority: number = PRIORITY.INTERACTIVE, model?: string): Promise<T> {
         let attempt = 0;
+        // Per-model-family quota bucket; a 429 inside the limiter blocks it for the parsed retry time
+        const bucket = model ? quotaBucket(this.id, model) : undefined;
         while (true) {
             try {
-                // Wrap in global limiter to prevent local bursts
-                return await globalLimiter.add(fn);
+                // Wrap in global limiter to prevent local bursts (queued tasks are dropped on abort)
+                return await globalLimiter.add(fn, priority, signal, bucket);
             } catch (e: any) {
+                if (isAbortError(e) || signal?.aborted) throw e;
                 if (attempt >= retries) throw e;
 
                 const isRetryable = 
-                    e.status === 429 || 
+                    isQuotaError(e) ||
                     e.status === 503 || 
-                    e.status === 'RESOURCE_EXHAUSTED' ||
-                    (e.message && (e.message.includes('429') || e.message.includes('503') || e.message.includes('Quota') || e.message.includes('RESOURCE_EXHAUSTED')));
+                    (e.message && e.message.includes('503'));
 
                 if (isRetryable) {
                     attempt++;
                     let waitTime = initialDelay * Math.pow(2, attempt - 1);
                     
                     // Parse Retry-After header or message if available
-                    if (e.message) {
-                        const match = e.message.match(/retry in ([\d\.]+)s/);
-                        if (match && match[1]) {
-                            waitTime = Math.ceil(parseFloat(match[1]) * 1000) + 2000;
-                        }
+                    const retryAfter = parseRetryAfterMs(e);
+                    if (retryAfter !== undefined) {
+                        waitTime = retryAfter + 2000;
                     }
 
                     console.warn(`[${operationName}] Retry ${attempt}/${retries} after ${Math.round(waitTime/1000)}s`);
-                    await wait(waitTime);
+                    await wait(waitTime, signal);
                     continue;
                 }
                 throw e;
@@ -55,6 +70,19 @@ export class GoogleGenAIProvider implements AIProvider {
         }
     }
 
+    // Token counts from a response's usageMetadata
+    private recordUsage(model: string, response: GenerateContentResponse | undefined, signal?: AbortSignal, extra?: Partial<UsageReport>) {
+        const meta = response?.usageMetadata;
+        Usage.record({
+            provider: this.id,
+            model,
+            promptTokens: meta?.promptTokenCount,
+            outputTokens: meta?.candidatesTokenCount,
+            thinkingTokens: meta?.thoughtsTokenCount,
+            ...extra
+        }, signal);
+    }
+
     // Ensure we have a Veo key (client-side hack for certain preview models)
     private async ensureKey(model: string) {
         if (model.includes('veo') || model.includes('gemini-3-pro-image')) {
@@ -103,7 +131,7 @@ export class GoogleGenAIProvider implements AIProvider {
     }
 
     // Helper: Resolve Image Input (Base64 or URL) to Base64
-    private async resolveImage(input: string): Promise<{ data: string; mimeType: string } | null> {
+    private async resolveImage(input: string, signal?: AbortSignal): Promise<{ data: string; mimeType: string } | null> {
         try {
             let data = "";
             let mimeType = "";
@@ -120,7 +148,7 @@ export class GoogleGenAIProvider implements AIProvider {
             
             // Case 2: Remote URL (e.g., Placeholder) - Fetch and convert
             else if (input.startsWith('http')) {
-                const res = await fetch(input);
+                const res = await fetch(input, { signal });
                 if (!res.ok) {
                     console.warn(`Failed to fetch image from URL: ${input}`);
                     return null;
@@ -152,6 +180,7 @@ export class GoogleGenAIProvider implements AIProvider {
             return { data, mimeType };
 
         } catch (e) {
+            if (isAbortError(e)) throw e;
             console.warn("Failed to resolve image input:", e);
         }
         return null;
@@ -187,7 +216,12 @@ export class GoogleGenAIProvider implements AIProvider {
         }) as Content[];
     }
 
-    async generateText(model: string, prompt: string, history: any[] = [], config?: AIModelConfig): Promise<GenerationResult> {
+    async healthCheck(signal?: AbortSignal): Promise<void> {
+        // Cheap metadata lookup: verifies the key and connectivity without spending tokens
+        await this.client.models.get({ model: 'gemini-2.5-flash', config: { abortSignal: signal } });
+    }
+
+    async generateText(model: string, prompt: string, history: any[] = [], config?: AIModelConfig, signal?: AbortSignal): Promise<GenerationResult> {
         return this.withRetry(async () => {
             try {
                 // Ensure contents is a valid Content object or array
@@ -195,27 +229,31 @@ export class GoogleGenAIProvider implements AIProvider {
                 const response = await this.client.models.generateContent({
                     model,
                     contents: contents as any, 
-                    config: this.mapConfig(config)
+                    config: this.mapConfig(config, signal)
                 });
+                this.recordUsage(model, response, signal);
                 return { text: response.text || "" };
             } catch (e: any) {
                 // Intelligent Fallback for Text
-                if (model.includes('pro') && (e.status === 429 || e.message?.includes('429'))) {
+                if (!signal?.aborted && model.includes('pro') && (e.status === 429 || e.message?.includes('429'))) {
                     console.warn("Downgrading to Flash model due to rate limit...");
+                    // The 429 is handled here, so the limiter never sees it: block the pro bucket ourselves
+                    globalLimiter.reportRateLimit(quotaBucket(this.id, model), parseRetryAfterMs(e));
                     const fallbackModel = 'gemini-2.5-flash';
                     const response = await this.client.models.generateContent({
                         model: fallbackModel,
                         contents: this.formatContents(prompt, history) as any,
-                        config: this.mapConfig(config)
+                        config: this.mapConfig(config, signal)
                     });
+                    this.recordUsage(fallbackModel, response, signal, { requestedModel: model });
                     return { text: response.text || "" };
                 }
                 throw e;
             }
-        }, 3, 1000, `TextGen (${model})`);
+        }, 3, 1000, `TextGen (${model})`, signal, PRIORITY.INTERACTIVE, model);
     }
 
-    async *generateTextStream(model: string, prompt: string, history: any[] = [], config?: AIModelConfig, imageContext?: string): AsyncGenerator<string, void, unknown> {
+    async *generateTextStream(model: string, prompt: string, history: any[] = [], config?: AIModelConfig, imageContext?: string, signal?: AbortSignal): AsyncGenerator<StreamEvent, void, unknown> {
         const stream = await this.withRetry(async () => {
              // Sanitize history to remove empty turns which cause 400 Bad Request
              const validHistory = this.sanitizeHistory(history);
@@ -224,7 +262,7 @@ export class GoogleGenAIProvider implements AIProvider {
              const chat = this.client.chats.create({
                 model,
                 history: validHistory, 
-                config: this.mapConfig(config)
+                config: this.mapConfig(config, signal)
             });
 
             // Construct message payload using strict Part[]
@@ -232,7 +270,7 @@ export class GoogleGenAIProvider implements AIProvider {
 
             // If image context exists, add it to the parts
             if (imageContext) {
-                 const imgData = await this.resolveImage(imageContext);
+                 const imgData = await this.resolveImage(imageContext, signal);
                  if (imgData) {
                      parts.push({
                          inlineData: {
@@ -245,24 +283,42 @@ export class GoogleGenAIProvider implements AIProvider {
 
             // Use 'message' parameter for sendMessageStream
             return await chat.sendMessageStream({ message: parts });
-        }, 3, 1000, `Stream (${model})`);
+        }, 3, 1000, `Stream (${model})`, signal, PRIORITY.INTERACTIVE, model);
 
-        for await (const chunk of stream) {
-            const c = chunk as GenerateContentResponse;
-            if (c.text) yield c.text;
+        // usageMetadata is cumulative; the last chunk carries the totals
+        let last: GenerateContentResponse | undefined;
+        try {
+            for await (const chunk of stream) {
+                throwIfAborted(signal);
+                const c = chunk as GenerateContentResponse;
+                if (c.usageMetadata) last = c;
+                if (c.text) yield { type: 'text', text: c.text };
+            }
+        } finally {
+            this.recordUsage(model, last, signal);
         }
     }
 
-    async generateImage(prompt: string, options?: ImageOptions): Promise<string> {
+    async generateImage(prompt: string, options?: ImageOptions, signal?: AbortSignal): Promise<string[]> {
         const model = 'gemini-3-pro-image-preview';
         await this.ensureKey(model);
 
+        // The image model returns one image per request: variants are separate requests (the limiter paces them)
+        const count = Math.max(1, options?.numberOfImages || 1);
+        const results = await Promise.allSettled(Array.from({ length: count }, () => this.generateOneImage(model, prompt, options, signal)));
+        const images = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+        if (images.length === 0) throw (results[0] as PromiseRejectedResult).reason;
+        throwIfAborted(signal);
+        return images;
+    }
+
+    private async generateOneImage(model: string, prompt: string, options?: ImageOptions, signal?: AbortSignal): Promise<string> {
         return this.withRetry(async () => {
             // Support for Image-to-Image / Editing
             const parts: Part[] = [];
             
             if (options?.referenceImage) {
-                const imgData = await this.resolveImage(options.referenceImage);
+                const imgData = await this.resolveImage(options.referenceImage, signal);
                 if (imgData) {
                     parts.push({
                         inlineData: {
@@ -273,13 +329,22 @@ export class GoogleGenAIProvider implements AIProvider {
                 }
             }
 
+            // Masked edit: the mask follows the image, and the prompt says how to read it
+            if (options?.edit) {
+                const maskData = await this.resolveImage(options.edit.mask, signal);
+                if (maskData) {
+                    parts.push({ inlineData: { data: maskData.data, mimeType: maskData.mimeType } });
+                }
+            }
+
             // Add the text prompt
-            parts.push({ text: prompt });
+            parts.push({ text: options?.edit ? `${editInstruction(options.edit)}\n\n${prompt}` : prompt });
 
             const response = await this.client.models.generateContent({
                 model,
                 contents: { parts },
                 config: {
+                    abortSignal: signal,
                     imageConfig: {
                         aspectRatio: options?.aspectRatio || '1:1',
                         imageSize: options?.size || '1K'
@@ -288,17 +353,26 @@ export class GoogleGenAIProvider implements AIProvider {
             });
 
             for (const part of response.candidates?.[0]?.content?.parts || []) {
-                if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
+                if (part.inlineData) {
+                    this.recordUsage(model, response, signal, { images: 1, imageSize: options?.size || '1K' });
+                    return `data:image/png;base64,${part.inlineData.data}`;
+                }
             }
+            this.recordUsage(model, response, signal);
             
             const textPart = response.candidates?.[0]?.content?.parts?.find(p => p.text);
             if (textPart?.text) throw new Error(textPart.text);
 
             throw new Error("No image generated");
-        }, 3, 2000, 'ImageGen');
+        }, 3, 2000, 'ImageGen', signal, PRIORITY.GENERATION, model);
+    }
+
+    async generateVideo(prompt: string, options?: VideoOptions, imageInputBase64?: string, signal?: AbortSignal): Promise<string> {
+        const operation = await this.startVideo(prompt, options, imageInputBase64, signal);
+        return this.resumeVideo(operation, signal);
     }
 
-    async generateVideo(prompt: string, options?: VideoOptions, imageInputBase64?: string): Promise<string> {
+    async startVideo(prompt: string, options?: VideoOptions, imageInputBase64?: string, signal?: AbortSignal): Promise<VideoOperation> {
         const model = 'veo-3.1-fast-generate-preview';
         await this.ensureKey(model);
 
@@ -306,25 +380,49 @@ export class GoogleGenAIProvider implements AIProvider {
             model,
             prompt,
             config: {
+                abortSignal: signal,
                 numberOfVideos: 1,
                 resolution: options?.resolution || '720p',
-                aspectRatio: options?.aspectRatio || '16:9'
+                aspectRatio: options?.aspectRatio || '16:9',
+                durationSeconds: options?.durationSeconds,
+                negativePrompt: options?.negativePrompt || undefined
             }
         };
 
         if (imageInputBase64) {
-            const imgData = await this.resolveImage(imageInputBase64);
+            const imgData = await this.resolveImage(imageInputBase64, signal);
             if (imgData) {
                 request.image = { imageBytes: imgData.data, mimeType: imgData.mimeType };
             }
         }
 
-        // Explicitly cast to any to handle type instability in operation return types
-        let operation: any = await this.withRetry(() => this.client.models.generateVideos(request), 3, 2000, 'VideoGen Start');
-        
-        while (!operation.done) {
-            await wait(5000);
-            operation = await this.withRetry(() => this.client.operations.getVideosOperation({ operation }), 3, 2000, 'VideoGen Poll') as any;
+        // Interpolates from the start frame to this one
+        if (options?.lastFrame) {
+            const imgData = await this.resolveImage(options.lastFrame, signal);
+            if (imgData) {
+                request.config.lastFrame = { imageBytes: imgData.data, mimeType: imgData.mimeType };
+            }
+        }
+
+        const operation = await this.withRetry(() => this.client.models.generateVideos(request), 3, 2000, 'VideoGen Start', signal, PRIORITY.GENERATION, model);
+        if (!operation.name) throw new Error("Video generation did not return an operation");
+        return { provider: this.id, name: operation.name, startedAt: Date.now(), meta: { model, durationSeconds: options?.durationSeconds } };
+    }
+
+    async resumeVideo(video: VideoOperation, signal?: AbortSignal): Promise<string> {
+        const model = video.meta?.model || 'veo-3.1-fast-generate-preview';
+        await this.ensureKey(model);
+
+        // The SDK polls by operation object; rebuild one from the persisted name
+        let operation: any = new GenerateVideosOperation();
+        operation.name = video.name;
+
+        // Poll until done (checking right away, it may have finished while the page was closed);
+        // the abortable wait breaks out immediately when the user hits Stop
+        while (true) {
+            operation = await this.withRetry(() => this.client.operations.getVideosOperation({ operation, config: { abortSignal: signal } }), 3, 2000, 'VideoGen Poll', signal, PRIORITY.BACKGROUND) as any;
+            if (operation.done) break;
+            await wait(5000, signal);
         }
 
         if (operation.error) {
@@ -334,10 +432,11 @@ export class GoogleGenAIProvider implements AIProvider {
         
         const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
         if (!uri) throw new Error("No video URI");
+        Usage.record({ provider: this.id, model, videos: 1, videoSeconds: video.meta?.durationSeconds }, signal);
 
         // Use correct separator when appending key
         const separator = uri.includes('?') ? '&' : '?';
-        const res = await fetch(`${uri}${separator}key=${this.apiKey}`);
+        const res = await fetch(`${uri}${separator}key=${this.apiKey}`, { signal });
         
         if (!res.ok) {
             const errText = await res.text().catch(() => res.statusText);
@@ -348,7 +447,7 @@ export class GoogleGenAIProvider implements AIProvider {
         return URL.createObjectURL(blob);
     }
 
-    async routeRequest(prompt: string, history: any[], models: { fast: string }, imageContext?: string): Promise<RouterResult> {
+    async routeRequest(prompt: string, history: any[], models: { fast: string }, imageContext?: string, signal?: AbortSignal): Promise<RouterResult> {
         return this.withRetry(async () => {
              // Sanitize History first
              const validHistory = this.sanitizeHistory(history);
@@ -388,7 +487,7 @@ export class GoogleGenAIProvider implements AIProvider {
 
              // If image context exists, add it to the user part for routing context
              if (imageContext) {
-                 const imgData = await this.resolveImage(imageContext);
+                 const imgData = await this.resolveImage(imageContext, signal);
                  if (imgData) {
                      parts.push({
                          inlineData: {
@@ -410,6 +509,7 @@ export class GoogleGenAIProvider implements AIProvider {
                  model: models.fast,
                  contents: contents, // explicitly typed
                  config: {
+                     abortSignal: signal,
                      systemInstruction,
                      responseMimeType: "application/json",
                      responseSchema: {
@@ -446,6 +546,7 @@ export class GoogleGenAIProvider implements AIProvider {
                      }
                  }
              });
+             this.recordUsage(models.fast, response, signal);
 
              if (response.text) {
                  try {
@@ -458,7 +559,7 @@ export class GoogleGenAIProvider implements AIProvider {
                  }
              }
              return { targetAgentId: AgentId.NEST, reasoning: "Default routing" };
-        }, 3, 500, 'Router');
+        }, 3, 500, 'Router', signal, PRIORITY.ROUTING, models.fast);
     }
 
     // --- Private Helpers ---
@@ -477,9 +578,10 @@ export class GoogleGenAIProvider implements AIProvider {
         return [...validHistory, { role: 'user', parts }] as Content[];
     }
 
-    private mapConfig(config?: AIModelConfig): any {
-        if (!config) return {};
+    private mapConfig(config?: AIModelConfig, signal?: AbortSignal): any {
         const c: any = { ...config };
+        if (signal) c.abortSignal = signal;
+        if (!config) return c;
         
         if (config.thinkingBudget) {
             c.thinkingConfig = { thinkingBudget: config.thinkingBudget };
@@ -0,0 +1,212 @@
+
+import { AIProvider, AIModelConfig, ImageOptions, VideoOptions, GenerationResult, RouterResult, StreamEvent } from "../types";
+import { AgentId } from "../../../types";
+
+type ArtifactType = 'code' | 'text' | 'image' | 'video' | 'notebook';
+
+interface NodeRef {
+    id: string;
+    title: string;
+    type: string;
+}
+
+// Keyword rules, checked in order (first match wins)
+const RULES: Array<{ type: ArtifactType; pattern: RegExp }> = [
+    { type: 'video', pattern: /\b(video|animate|animation|clip|movie|footage|film)\b/i },
+    { type: 'image', pattern: /\b(image|picture|photo|draw|drawing|illustration|logo|icon|render|painting|sketch|wallpaper|poster)\b/i },
+    { type: 'notebook', pattern: /\b(notebook|jupyter|ipynb)\b/i },
+    { type: 'code', pattern: /\b(code|app|website|web ?page|landing page|function|script|component|html|css|javascript|typescript|python|api|game|dashboard|program)\b/i },
+    { type: 'text', pattern: /\b(story|poem|essay|article|blog|lyrics|draft|outline|list|document|notes?|summary|report|letter|email|plan|spec)\b/i },
+];
+
+const AGENT_FOR_TYPE: Record<ArtifactType, AgentId> = {
+    code: AgentId.CODE,
+    notebook: AgentId.CODE,
+    text: AgentId.CREATIVE,
+    image: AgentId.IMAGE,
+    video: AgentId.VIDEO,
+};
+
+const CREATE_VERBS = /\b(create|make|build|generate|write|draw|design|compose|produce|render|paint|sketch|animate)\b/i;
+const NEW_MARKERS = /\b(new|another|separate|second)\b/i;
+const EDIT_VERBS = /\b(update|change|edit|modify|fix|improve|rewrite|refactor|rename|add|remove|delete|replace|translate|shorten|expand|extend|tweak|adjust|convert|make it|make the)\b/i;
+const REFERENCES = /\b(this|it|that)\b/i;
+const DEEP_REASONING = /\b(analy[sz]e|reason|prove|strategy|deep dive|step by step|trade-?offs?|compare)\b/i;
+const CODE_QUESTION = /\b(code|bug|error|exception|function|typescript|javascript|python|regex|sql|compile)\b/i;
+
+const LANGUAGES: Array<{ language: string; pattern: RegExp }> = [
+    { language: 'python', pattern: /\bpython\b|\.py\b/i },
+    { language: 'typescript', pattern: /\btypescript\b|\.tsx?\b|\breact\b/i },
+    { language: 'javascript', pattern: /\bjavascript\b|\bnode(\.js)?\b|\.js\b/i },
+    { language: 'sql', pattern: /\bsql\b|\bquery\b/i },
+    { language: 'bash', pattern: /\b(bash|shell)\b/i },
+    { language: 'go', pattern: /\bgolang\b|\bin go\b/i },
+    { language: 'rust', pattern: /\brust\b/i },
+    { language: 'html', pattern: /\b(html|website|web ?page|landing page|web app|app|game|dashboard)\b/i },
+];
+
+/**
+ * Split the prompt built by runAIProcessing into the canvas context and the user's own words.
+ */
+const parsePrompt = (prompt: string) => {
+    const marker = '\n\nUser Request: ';
+    const index = prompt.lastIndexOf(marker);
+    const request = index >= 0 ? prompt.slice(index + marker.length) : prompt;
+    const context = index >= 0 ? prompt.slice(0, index) : '';
+
+    const activeMatch = context.match(/--- ACTIVE NODE CONTEXT[^\n]*\nID: (.+)\nTitle: (.*)\nType: (\w+)/);
+    const active: NodeRef | undefined = activeMatch ? { id: activeMatch[1].trim(), title: activeMatch[2].trim(), type: activeMatch[3] } : undefined;
+    const linked: NodeRef[] = Array.from(context.matchAll(/^### "(.*)" \(ID: ([^,]+), Type: (\w+)/gm))
+        .map(m => ({ id: m[2].trim(), title: m[1], type: m[3] }));
+
+    return { request, active, linked };
+};
+
+const toArtifactType = (nodeType: string): ArtifactType =>
+    nodeType === 'code' || nodeType === 'image' || nodeType === 'video' || nodeType === 'notebook' ? nodeType : 'text';
+
+// Longest title first so "Landing Page Copy" wins over "Landing Page"
+const findMentionedNode = (text: string, nodes: NodeRef[]) => {
+    const lower = text.toLowerCase();
+    return [...nodes]
+        .filter(n => n.title && n.title.length > 2)
+        .sort((a, b) => b.title.length - a.title.length)
+        .find(n => lower.includes(n.title.toLowerCase()));
+};
+
+const detectAspectRatio = (text: string, type: ArtifactType): string | undefined => {
+    if (type !== 'image' && type !== 'video') return undefined;
+    const explicit = text.match(/\b(1:1|3:4|4:3|9:16|16:9)\b/);
+    if (explicit) {
+        if (type !== 'video' || explicit[1] === '16:9' || explicit[1] === '9:16') return explicit[1];
+    }
+    if (/\b(portrait|vertical|story|stories|phone|mobile|reel|tiktok)\b/i.test(text)) return type === 'video' ? '9:16' : '3:4';
+    if (/\b(landscape|widescreen|cinematic|banner|header|desktop wallpaper)\b/i.test(text)) return '16:9';
+    if (/\b(square|avatar|profile picture|icon|logo)\b/i.test(text) && type === 'image') return '1:1';
+    return undefined;
+};
+
+const detectQuality = (text: string, type: ArtifactType): string | undefined => {
+    if (type !== 'image' && type !== 'video') return undefined;
+    if (type === 'video') return /\b(1080p|full hd|4k|high quality)\b/i.test(text) ? '1080p' : undefined;
+    if (/\b4k\b/i.test(text)) return '4K';
+    if (/\b(2k|hd|high[- ]res(olution)?|detailed)\b/i.test(text)) return '2K';
+    return undefined;
+};
+
+const deriveTitle = (request: string) => {
+    const subject = request
+        .split('\n')[0]
+        .replace(/^(please|can you|could you|would you|i want you to|i'd like you to|let's)\s+/i, '')
+        .replace(CREATE_VERBS, '')
+        .replace(/^\s*(me\s+)?(a|an|the|some)\s+/i, '')
+        .replace(/^\s*((new|another|separate|second)\s+|(this|it)\s+(into|as)\s+(a|an)?\s*)/i, '')
+        .replace(/[^\w\s-]/g, ' ');
+    const title = subject.split(/\s+/).filter(Boolean).slice(0, 6).join(' ');
+    return title ? title.charAt(0).toUpperCase() + title.slice(1) : 'Untitled';
+};
+
+const resolveEndpoint = (phrase: string, active?: NodeRef, linked: NodeRef[] = []) => {
+    if (active && /^\s*(this|it|the active( node)?|the selected( node)?)\s*$/i.test(phrase)) return active.id;
+    return findMentionedNode(phrase, active ? [active, ...linked] : linked)?.id;
+};
+
+/**
+ * Classify a request without a model: pick the agent, decide between chat / create / update,
+ * and fill in the artifact details the pipeline uses (title, language, aspect ratio, quality, connections).
+ * `prompt` may carry the canvas context block built by the context builder.
+ */
+export const routeByHeuristics = (prompt: string, imageContext?: string): RouterResult => {
+    const { request, active, linked } = parsePrompt(prompt);
+
+    // "connect A to B"
+    const connect = request.match(/\b(?:connect|link)\s+(.+?)\s+(?:to|with|and)\s+(.+?)[.!?]*$/i);
+    if (connect) {
+        const from = resolveEndpoint(connect[1], active, linked);
+        const to = resolveEndpoint(connect[2], active, linked);
+        if (from && to && from !== to) {
+            return { targetAgentId: AgentId.NEST, reasoning: "Local heuristic: connect nodes", connections: [{ from, to }] };
+        }
+    }
+
+    const rule = RULES.find(r => r.pattern.test(request));
+    const wantsCreate = CREATE_VERBS.test(request);
+    const wantsNew = wantsCreate && NEW_MARKERS.test(request);
+
+    // Update the active node (or a connected one the user names) when the request edits something that exists
+    const mentioned = findMentionedNode(request, linked);
+    const updateTarget = EDIT_VERBS.test(request) ? (mentioned || active) : (!wantsCreate && REFERENCES.test(request) ? active : undefined);
+    if (updateTarget && !wantsNew) {
+        const type = toArtifactType(updateTarget.type);
+        // "Draw this as a video" on a text node is a new artifact, not an update
+        if (!rule || rule.type === type || (type !== 'image' && type !== 'video' && rule.type !== 'image' && rule.type !== 'video')) {
+            return {
+                targetAgentId: AGENT_FOR_TYPE[type],
+                reasoning: `Local heuristic: update "${updateTarget.title}"`,
+                artifact: {
+                    operation: 'update',
+                    type,
+                    title: updateTarget.title,
+                    id: updateTarget.id,
+                    language: type === 'code' ? LANGUAGES.find(l => l.pattern.test(request))?.language : undefined,
+                    aspectRatio: detectAspectRatio(request, type),
+                    quality: detectQuality(request, type)
+                }
+            };
+        }
+    }
+
+    // Media keywords alone are enough ("a cat in space, image"); documents and code need a create verb
+    const isMedia = rule?.type === 'image' || rule?.type === 'video';
+    if (rule && (wantsCreate || isMedia || (imageContext && rule.type === 'image'))) {
+        const type = rule.type;
+        const result: RouterResult = {
+            targetAgentId: AGENT_FOR_TYPE[type],
+            reasoning: `Local heuristic: create ${type}`,
+            artifact: {
+                operation: 'create',
+                type,
+                title: deriveTitle(request),
+                language: type === 'code' ? (LANGUAGES.find(l => l.pattern.test(request))?.language || 'html')
+                    : type === 'notebook' ? (/\b(javascript|js)\b/i.test(request) ? 'javascript' : 'python') : undefined,
+                aspectRatio: detectAspectRatio(request, type),
+                quality: detectQuality(request, type)
+            }
+        };
+        if (active) result.connections = [{ from: 'ACTIVE_NODE', to: 'NEW_NODE' }];
+        return result;
+    }
+
+    if (DEEP_REASONING.test(request)) return { targetAgentId: AgentId.PRO, reasoning: "Local heuristic: deep reasoning" };
+    if (CODE_QUESTION.test(request)) return { targetAgentId: AgentId.CODE, reasoning: "Local heuristic: code question" };
+    return { targetAgentId: AgentId.NEST, reasoning: "Local heuristic: general conversation" };
+};
+
+/**
+ * Local Heuristic Router
+ * Offline, keyword-based routing. Only serves the 'routing' capability; used when no
+ * model-backed router is configured or reachable.
+ */
+export class HeuristicRouterProvider implements AIProvider {
+    id = "local";
+
+    async routeRequest(prompt: string, history: any[], models: { fast: string }, imageContext?: string, signal?: AbortSignal): Promise<RouterResult> {
+        return routeByHeuristics(prompt, imageContext);
+    }
+
+    async generateText(model: string, prompt: string, history?: any[], config?: AIModelConfig, signal?: AbortSignal): Promise<GenerationResult> {
+        throw new Error("The local router cannot generate text");
+    }
+
+    async *generateTextStream(model: string, prompt: string, history?: any[], config?: AIModelConfig, imageContext?: string, signal?: AbortSignal): AsyncGenerator<StreamEvent, void, unknown> {
+        throw new Error("The local router cannot generate text");
+    }
+
+    async generateImage(prompt: string, options?: ImageOptions, signal?: AbortSignal): Promise<string[]> {
+        throw new Error("The local router cannot generate images");
+    }
+
+    async generateVideo(prompt: string, options?: VideoOptions, imageInputBase64?: string, signal?: AbortSignal): Promise<string> {
+        throw new Error("The local router cannot generate videos");
+    }
+}
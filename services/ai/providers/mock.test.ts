@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { StreamEvent } from '../types';
+
+// Settings are read when the module loads, so each test imports a fresh copy
+const loadProvider = async (env: Record<string, string> = {}) => {
+    vi.stubEnv('MOCK_AI_DELAY', '0');
+    Object.entries(env).forEach(([key, value]) => vi.stubEnv(key, value));
+    vi.resetModules();
+    const { MockProvider } = await import('./mock');
+    return new MockProvider();
+};
+
+const collect = async (stream: AsyncGenerator<StreamEvent, void, unknown>) => {
+    const events: StreamEvent[] = [];
+    for await (const event of stream) events.push(event);
+    return events;
+};
+
+const textOf = (events: StreamEvent[]) => events.map(e => e.type === 'text' ? e.text : '').join('');
+
+const CODE_CONFIG = { systemInstruction: 'Write each file after a ### FILE: marker.' };
+
+describe('MockProvider', () => {
+    beforeEach(() => { vi.unstubAllEnvs(); });
+    afterEach(() => { vi.unstubAllEnvs(); });
+
+    it('streams the same code files with a mid-stream UI command', async () => {
+        const provider = await loadProvider();
+        const events = await collect(provider.generateTextStream('model', 'Build a counter', [], CODE_CONFIG));
+
+        expect(events.filter(e => e.type === 'text').length).toBeGreaterThan(1);
+        const text = textOf(events);
+        expect(text).toMatch(/^### FILE: index\.html\n/);
+        expect(text).toContain('### FILE: style.css\n');
+        expect(text).toContain('### FILE: script.js\n');
+
+        const commands = events.findIndex(e => e.type === 'ui_commands');
+        expect(commands).toBeGreaterThan(0);
+        expect(commands).toBeLessThan(events.length - 1);
+
+        const again = await collect(provider.generateTextStream('model', 'Build a counter', [], CODE_CONFIG));
+        expect(again).toEqual(events);
+    });
+
+    it('fails every n-th call with a 429 when MOCK_AI_FAIL_EVERY is set', async () => {
+        const provider = await loadProvider({ MOCK_AI_FAIL_EVERY: '3' });
+        const results: Array<number | 'ok'> = [];
+        for (let i = 0; i < 6; i++) {
+            try {
+                await provider.generateText('model', `Call ${i}`);
+                results.push('ok');
+            } catch (e: any) {
+                results.push(e.status);
+            }
+        }
+        expect(results).toEqual(['ok', 'ok', 429, 'ok', 'ok', 429]);
+    });
+
+    it('fails halfway through a stream on [mock:midstream]', async () => {
+        const provider = await loadProvider();
+        const events: StreamEvent[] = [];
+        await expect(async () => {
+            for await (const event of provider.generateTextStream('model', 'Hello [mock:midstream]')) events.push(event);
+        }).rejects.toThrow('Stream interrupted');
+        expect(events.length).toBeGreaterThan(0);
+    });
+
+    it('stops streaming when the signal aborts', async () => {
+        const provider = await loadProvider({ MOCK_AI_DELAY: '5' });
+        const controller = new AbortController();
+        const events: StreamEvent[] = [];
+        await expect(async () => {
+            for await (const event of provider.generateTextStream('model', 'Hello', [], undefined, undefined, controller.signal)) {
+                events.push(event);
+                if (events.length === 2) controller.abort();
+            }
+        }).rejects.toMatchObject({ name: 'AbortError' });
+        expect(events).toHaveLength(2);
+
+        await expect(provider.generateText('model', 'Hello', [], undefined, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+    });
+});
@@ -0,0 +1,272 @@
+
+import { AIProvider, AIModelConfig, ImageOptions, VideoOptions, GenerationResult, RouterResult, StreamEvent } from "../types";
+import { VideoOperation } from "../../../types";
+import { abortableWait, throwIfAborted } from "../utils/abort";
+import { routeByHeuristics } from "./heuristicRouter";
+import { Usage, approxTokens } from "../usage";
+
+/**
+ * Mock Provider
+ * Deterministic, fully offline stand-in for Weaver/Gemini (AI_PROVIDER=mock).
+ * The same prompt always produces the same output. Faults can be injected per request with
+ * a directive in the prompt, or periodically with MOCK_AI_FAIL_EVERY:
+ *
+ *   [mock:429]      quota error (RESOURCE_EXHAUSTED, "retry in 2s")
+ *   [mock:500]      server error
+ *   [mock:timeout]  hangs for MOCK_AI_TIMEOUT ms, then fails
+ *   [mock:offline]  network failure (exercises provider failover)
+ *   [mock:midstream] fails halfway through a stream
+ *
+ * Directives hit generation calls only; add a stage to target one call, e.g. [mock:429:route].
+ */
+
+const CHUNK_SIZE = 12;
+const CHUNK_DELAY_MS = Number(process.env.MOCK_AI_DELAY ?? 20);
+const TIMEOUT_MS = Number(process.env.MOCK_AI_TIMEOUT ?? 15000);
+const FAIL_EVERY = Number(process.env.MOCK_AI_FAIL_EVERY ?? 0);
+
+// Usage is accounted as the models the mock stands in for, so budgets can be exercised offline
+const IMAGE_MODEL = "gemini-3-pro-image-preview";
+const VIDEO_MODEL = "veo-3.1-fast-generate-preview";
+
+type MockFault = '429' | '500' | 'timeout' | 'offline' | 'midstream';
+type MockStage = 'route' | 'text' | 'stream' | 'image' | 'video';
+
+const CODE_FILES: Array<{ name: string; content: string }> = [
+    {
+        name: 'index.html',
+        content: `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Mock App</title>
+  <link rel="stylesheet" href="style.css">
+</head>
+<body>
+  <main>
+    <h1 id="title">Mock App</h1>
+    <button id="counter">Clicked 0 times</button>
+  </main>
+  <script src="script.js"></script>
+</body>
+</html>`
+    },
+    {
+        name: 'style.css',
+        content: `body { font-family: system-ui, sans-serif; display: grid; place-items: center; height: 100vh; margin: 0; background: #111; color: #eee; }
+button { padding: 0.6rem 1.2rem; border-radius: 999px; border: none; background: #6366f1; color: white; cursor: pointer; }`
+    },
+    {
+        name: 'script.js',
+        content: `let count = 0;
+const button = document.getElementById('counter');
+button.addEventListener('click', () => {
+  count++;
+  button.textContent = \`Clicked \${count} times\`;
+});`
+    },
+];
+
+// Small stable hash so output varies with the prompt but never between runs
+const hash = (text: string) => {
+    let h = 2166136261;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 16777619);
+    }
+    return h >>> 0;
+};
+
+const stripDirectives = (text: string) => text.replace(/\s*\[mock:[^\]]*\]/g, '');
+
+// The user's own words, without the canvas context block or fault directives
+const requestOf = (prompt: string) => stripDirectives(prompt.split('\n\nUser Request: ').pop()!).trim();
+
+const mockError = (fault: MockFault): Error => {
+    switch (fault) {
+        case '429':
+            return Object.assign(new Error("429 RESOURCE_EXHAUSTED: Quota exceeded for mock model, retry in 2s"), { status: 429 });
+        case '500':
+            return Object.assign(new Error("500 INTERNAL: Mock server error"), { status: 500 });
+        case 'offline':
+            return new TypeError("Failed to fetch");
+        case 'timeout':
+        case 'midstream':
+            return new Error(fault === 'timeout' ? "Request timed out" : "Stream interrupted");
+    }
+};
+
+const placeholderSvg = (label: string, aspectRatio: string, seed: number) => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    const width = 512;
+    const height = Math.round(width * (h || 1) / (w || 1));
+    const hue = seed % 360;
+    const safeLabel = label.replace(/[<>&"]/g, '').substring(0, 40);
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+        + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},60%,35%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},60%,20%)"/></linearGradient></defs>`
+        + `<rect width="100%" height="100%" fill="url(#g)"/>`
+        + `<text x="50%" y="50%" fill="#fff" font-family="monospace" font-size="18" text-anchor="middle">${safeLabel}</text>`
+        + `<text x="50%" y="58%" fill="#fff" opacity="0.6" font-family="monospace" font-size="12" text-anchor="middle">mock ${aspectRatio}</text>`
+        + `</svg>`;
+    return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+};
+
+/**
+ * Record a short animated placeholder clip in the browser (canvas + MediaRecorder).
+ * Falls back to a still placeholder where recording isn't supported.
+ */
+const placeholderVideo = async (label: string, aspectRatio: string, seconds: number, seed: number, signal?: AbortSignal): Promise<string> => {
+    if (typeof MediaRecorder === 'undefined' || typeof document === 'undefined') {
+        return placeholderSvg(label, aspectRatio, seed);
+    }
+    const canvas = document.createElement('canvas');
+    const portrait = aspectRatio === '9:16';
+    canvas.width = portrait ? 270 : 480;
+    canvas.height = portrait ? 480 : 270;
+    const ctx = canvas.getContext('2d')!;
+    const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType: 'video/webm' });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size) chunks.push(e.data); };
+
+    const done = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+    recorder.start();
+    const started = performance.now();
+    const hue = seed % 360;
+    try {
+        while (performance.now() - started < seconds * 1000) {
+            const t = (performance.now() - started) / 1000;
+            ctx.fillStyle = `hsl(${(hue + t * 40) % 360}, 60%, 30%)`;
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            ctx.fillStyle = '#fff';
+            ctx.beginPath();
+            ctx.arc(canvas.width / 2 + Math.sin(t * 3) * canvas.width / 4, canvas.height / 2, 20, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.font = '14px monospace';
+            ctx.textAlign = 'center';
+            ctx.fillText(label.substring(0, 32), canvas.width / 2, canvas.height - 24);
+            await abortableWait(1000 / 30, signal);
+        }
+    } finally {
+        recorder.stop();
+    }
+    await done;
+    return URL.createObjectURL(new Blob(chunks, { type: 'video/webm' }));
+};
+
+export class MockProvider implements AIProvider {
+    id = "mock";
+    private calls = 0;
+
+    // Directive in the prompt wins; otherwise every Nth call gets a 429 when MOCK_AI_FAIL_EVERY is set
+    private nextFault(prompt: string, stage: MockStage): MockFault | null {
+        this.calls++;
+        const directive = prompt.match(/\[mock:(429|500|timeout|offline|midstream)(?::(route|text|stream|image|video))?\]/);
+        if (directive && (directive[2] ? directive[2] === stage : stage !== 'route')) return directive[1] as MockFault;
+        if (FAIL_EVERY > 0 && this.calls % FAIL_EVERY === 0) return '429';
+        return null;
+    }
+
+    private async raise(fault: MockFault, signal?: AbortSignal): Promise<never> {
+        if (fault === 'timeout') await abortableWait(TIMEOUT_MS, signal);
+        throw mockError(fault);
+    }
+
+    private async checkFault(prompt: string, stage: MockStage, signal?: AbortSignal) {
+        throwIfAborted(signal);
+        const fault = this.nextFault(prompt, stage);
+        if (fault && fault !== 'midstream') await this.raise(fault, signal);
+        return fault;
+    }
+
+    async healthCheck(signal?: AbortSignal): Promise<void> {
+        throwIfAborted(signal);
+    }
+
+    async generateText(model: string, prompt: string, history: any[] = [], config?: AIModelConfig, signal?: AbortSignal): Promise<GenerationResult> {
+        await this.checkFault(prompt, 'text', signal);
+        await abortableWait(CHUNK_DELAY_MS, signal);
+        // Prompt refinement asks for a rewritten prompt: echo the request back (directives included, so they reach the media call)
+        const request = prompt.match(/CONTEXT & REQUEST:\n([\s\S]*)\n\nOUTPUT PROMPT:/)?.[1] ?? prompt;
+        const text = request.split('\n\nUser Request: ').pop()!.trim();
+        Usage.record({ provider: this.id, model, promptTokens: approxTokens(prompt), outputTokens: approxTokens(text), estimated: true }, signal);
+        return { text };
+    }
+
+    async *generateTextStream(model: string, prompt: string, history: any[] = [], config?: AIModelConfig, imageContext?: string, signal?: AbortSignal): AsyncGenerator<StreamEvent, void, unknown> {
+        const fault = await this.checkFault(prompt, 'stream', signal);
+        const request = requestOf(prompt);
+        const instruction = config?.systemInstruction || '';
+
+        let text: string;
+        let commandsAt = -1;
+        if (instruction.includes('### CELL:')) {
+            // Notebook cells; added at the end of an existing notebook
+            text = `### CELL: new markdown\n## ${request.split('\n')[0].substring(0, 60)}\n\nA deterministic mock cell pair.\n`
+                + `### CELL: new code\nsquares = [{"n": n, "square": n * n} for n in range(1, 6)]\nprint(f"{len(squares)} rows")\nsquares\n`;
+        } else if (instruction.includes('### FILE:')) {
+            text = CODE_FILES.map(f => `### FILE: ${f.name}\n${f.content}\n`).join('');
+            commandsAt = Math.floor(text.length / 2);
+        } else if (instruction.includes('live document node')) {
+            text = `# ${request.split('\n')[0].substring(0, 60)}\n\nThis is a deterministic mock document.\n\n- First point\n- Second point\n- Third point\n\n> Generated offline by the mock provider.\n`;
+        } else {
+            text = `Mock reply to: "${request.substring(0, 160)}". `
+                + `History has ${history.length} message(s). This text streams in small chunks so the UI can render it incrementally.`;
+        }
+
+        for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+            if (fault === 'midstream' && i >= text.length / 2) throw mockError('midstream');
+            yield { type: 'text', text: text.substring(i, i + CHUNK_SIZE) };
+            if (commandsAt >= i && commandsAt < i + CHUNK_SIZE) {
+                yield {
+                    type: 'ui_commands',
+                    commands: [
+                        { command: 'create_node', args: { type: 'text', title: 'Build Notes', content: 'Created by the mock provider mid-stream.', ref: 'notes' } },
+                        { command: 'focus_node', args: { id: '$notes' } }
+                    ]
+                };
+            }
+            await abortableWait(CHUNK_DELAY_MS, signal);
+        }
+        Usage.record({ provider: this.id, model, promptTokens: approxTokens(prompt), outputTokens: approxTokens(text), estimated: true }, signal);
+    }
+
+    async generateImage(prompt: string, options?: ImageOptions, signal?: AbortSignal): Promise<string[]> {
+        await this.checkFault(prompt, 'image', signal);
+        await abortableWait(CHUNK_DELAY_MS * 10, signal);
+        const count = Math.max(1, options?.numberOfImages || 1);
+        Usage.record({ provider: this.id, model: IMAGE_MODEL, images: count, imageSize: options?.size || '1K', estimated: true }, signal);
+        // Variants differ in colour only
+        const label = options?.edit ? `${requestOf(prompt)} [${options.edit.mode}]` : requestOf(prompt);
+        return Array.from({ length: count }, (_, i) => placeholderSvg(label, options?.aspectRatio || '1:1', hash(prompt) + i * 47));
+    }
+
+    async generateVideo(prompt: string, options?: VideoOptions, imageInputBase64?: string, signal?: AbortSignal): Promise<string> {
+        return this.resumeVideo(await this.startVideo(prompt, options, imageInputBase64, signal), signal);
+    }
+
+    // Everything needed to render the clip travels in the operation, so it resumes after a reload too
+    async startVideo(prompt: string, options?: VideoOptions, imageInputBase64?: string, signal?: AbortSignal): Promise<VideoOperation> {
+        await this.checkFault(prompt, 'video', signal);
+        const frames = [imageInputBase64 && 'start', options?.lastFrame && 'end'].filter(Boolean).join('→');
+        const label = frames ? `${requestOf(prompt)} [${frames}]` : requestOf(prompt);
+        return {
+            provider: this.id,
+            name: `mock-video-${hash(prompt)}-${Date.now()}`,
+            startedAt: Date.now(),
+            meta: { label, aspectRatio: options?.aspectRatio || '16:9', durationSeconds: options?.durationSeconds, seed: hash(prompt) }
+        };
+    }
+
+    async resumeVideo(operation: VideoOperation, signal?: AbortSignal): Promise<string> {
+        const { label, aspectRatio, durationSeconds, seed } = operation.meta || {};
+        // Recorded in real time, so clips are capped at a few seconds
+        const url = await placeholderVideo(label || 'Video', aspectRatio || '16:9', Math.min(durationSeconds || 2, 4), seed || 0, signal);
+        Usage.record({ provider: this.id, model: VIDEO_MODEL, videos: 1, videoSeconds: durationSeconds, estimated: true }, signal);
+        return url;
+    }
+
+    async routeRequest(prompt: string, history: any[], models: { fast: string }, imageContext?: string, signal?: AbortSignal): Promise<RouterResult> {
+        await this.checkFault(prompt, 'route', signal);
+        return routeByHeuristics(stripDirectives(prompt), imageContext);
+    }
+}
@@ -1,35 +1,157 @@
 
-import { AIProvider, AIModelConfig, ImageOptions, VideoOptions, GenerationResult, RouterResult } from "../types";
+import { AIProvider, AISession, AIModelConfig, ImageOptions, VideoOptions, GenerationResult, RouterResult, StreamEvent, UICommand, UICommandResult } from "../types";
 import { AgentId } from "../../../types";
+import { readEventStream } from "../utils/eventStream";
+import { globalLimiter, PRIORITY, quotaBucket } from "../utils/rateLimiter";
+import { isAbortError } from "../utils/abort";
+import { isUnreachableError } from "../registry";
+import { routeByHeuristics } from "./heuristicRouter";
+import { Usage, UsageReport, approxTokens } from "../usage";
+
+const DEFAULT_SESSION_KEY = "nest:default";
+
+/**
+ * Weaver session key for one workspace conversation, e.g. `nest:42:ws-1718:2`.
+ * Media requests get `:images` / `:videos` sub-sessions so they don't pollute the chat memory.
+ */
+export const buildSessionKey = (session: AISession | null, channel?: 'images' | 'videos') => {
+    if (!session) return channel ? `nest:${channel}` : DEFAULT_SESSION_KEY;
+    const parts = ['nest', session.userId || 'guest', session.workspaceId];
+    if (session.epoch) parts.push(String(session.epoch));
+    if (channel) parts.push(channel);
+    return parts.join(':');
+};
+
+// Client history ([{ role, parts: [{ text }] }]) in Weaver's shape
+const toWeaverHistory = (history: any[]) => history.map(h => ({
+    role: h.role,
+    content: (h.parts || []).map((p: any) => p.text || '').join('')
+}));
+
+// Turn a 429 into a quota error inside the limiter task, so the bucket is blocked for Retry-After
+const rejectRateLimited = async (response: Response) => {
+    if (response.status !== 429) return response;
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    throw Object.assign(new Error(`Weaver rate limited (429): ${await response.text().catch(() => '')}`), {
+        status: 429,
+        retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+    });
+};
+
+// Weaver runs media on the same Gemini/Veo models; used for accounting when it doesn't say
+const IMAGE_MODEL = "gemini-3-pro-image-preview";
+const VIDEO_MODEL = "veo-3.1-fast-generate-preview";
+
+// Weaver's `usage` object (snake_case) as a UsageReport; estimated from text length when missing
+const toUsageReport = (usage: any, model: string, prompt: string, output: string): UsageReport => {
+    const promptTokens = usage?.prompt_tokens ?? usage?.input_tokens;
+    const outputTokens = usage?.output_tokens ?? usage?.completion_tokens;
+    if (typeof promptTokens === 'number' || typeof outputTokens === 'number') {
+        return {
+            provider: "weaver",
+            model: usage.model || model,
+            requestedModel: usage.model && usage.model !== model ? model : undefined,
+            promptTokens,
+            outputTokens,
+            thinkingTokens: usage.thinking_tokens ?? usage.reasoning_tokens
+        };
+    }
+    return { provider: "weaver", model, promptTokens: approxTokens(prompt), outputTokens: approxTokens(output), estimated: true };
+};
+
+const ARTIFACT_OPERATIONS = ['create', 'update'];
+const ARTIFACT_TYPES = ['code', 'text', 'image', 'video', 'notebook'];
+
+// Weaver's /route response (snake_case) as a RouterResult; null if it isn't usable
+const toRouterResult = (data: any): RouterResult | null => {
+    const agentId = data?.target_agent_id ?? data?.targetAgentId;
+    if (!Object.values(AgentId).includes(agentId)) return null;
+
+    const result: RouterResult = { targetAgentId: agentId, reasoning: data.reasoning || "Routed by Weaver" };
+    const artifact = data.artifact;
+    if (artifact && ARTIFACT_OPERATIONS.includes(artifact.operation) && ARTIFACT_TYPES.includes(artifact.type)) {
+        result.artifact = {
+            operation: artifact.operation,
+            type: artifact.type,
+            title: artifact.title || '',
+            id: artifact.id || artifact.node_id || undefined,
+            language: artifact.language || undefined,
+            aspectRatio: artifact.aspect_ratio ?? artifact.aspectRatio,
+            quality: artifact.quality || undefined
+        };
+    }
+    if (Array.isArray(data.connections)) {
+        result.connections = data.connections
+            .filter((c: any) => typeof c?.from === 'string' && typeof c?.to === 'string')
+            .map((c: any) => ({ from: c.from, to: c.to }));
+    }
+    return result;
+};
 
 export class WeaverProvider implements AIProvider {
     id = "weaver";
     private get apiBase() {
+        // Local override (e.g. the mock server in scripts/mock-weaver.js)
+        if (process.env.WEAVER_API_URL) return process.env.WEAVER_API_URL.replace(/\/$/, '');
         const isDev = window.location.hostname.includes('operator.onl');
         return isDev ? "https://weaver.operator.onl" : "https://weaver.onl";
     }
     private lastUICommands: any[] = [];
+    private session: AISession | null = null;
+    // Keys the server already holds memory for; other keys get the client history as a seed
+    private seededSessions = new Set<string>();
 
     constructor() {}
 
-    private async callWeaver(message: string, sessionKey: string = "nest:default", mediaConfig?: any): Promise<any> {
-        console.log("DEBUG: Calling Weaver API...", { message, sessionKey, mediaConfig });
-        const response = await fetch(`${this.apiBase}/chat`, {
+    setSession(session: AISession) {
+        this.session = session;
+    }
+
+    private sessionKey(channel?: 'images' | 'videos') {
+        return buildSessionKey(this.session, channel);
+    }
+
+    private buildPayload(message: string, sessionKey: string, mediaConfig?: any, history?: any[]) {
+        const seed = history?.length && !this.seededSessions.has(sessionKey) ? toWeaverHistory(history) : undefined;
+        return JSON.stringify({
+            message,
+            session_key: sessionKey,
+            channel: "nest",
+            chat_id: "ui",
+            media_config: mediaConfig,
+            history: seed
+        });
+    }
+
+    private async postControl(path: string, body: any) {
+        const response = await fetch(`${this.apiBase}${path}`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                message,
-                session_key: sessionKey,
-                channel: "nest",
-                chat_id: "ui",
-                media_config: mediaConfig
-            })
+            body: JSON.stringify({ channel: "nest", chat_id: "ui", ...body })
         });
 
+        // Backends without the endpoint (404) are ignored
+        if (!response.ok && response.status !== 404) {
+            throw new Error(`Weaver API error: ${await response.text()}`);
+        }
+        return response.ok;
+    }
+
+    private async callWeaver(message: string, sessionKey: string, mediaConfig?: any, signal?: AbortSignal, history?: any[], priority: number = PRIORITY.INTERACTIVE): Promise<any> {
+        console.log("DEBUG: Calling Weaver API...", { message, sessionKey, mediaConfig });
+        // Concurrent tasks share the global limiter with the other providers; media has its own quota bucket
+        const response = await globalLimiter.add(() => fetch(`${this.apiBase}/chat`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: this.buildPayload(message, sessionKey, mediaConfig, history),
+            signal
+        }).then(rejectRateLimited), priority, signal, quotaBucket(this.id, mediaConfig?.type || 'chat'));
+
         if (!response.ok) {
             const err = await response.text();
             throw new Error(`Weaver API error: ${err}`);
         }
+        this.seededSessions.add(sessionKey);
 
         const data = await response.json();
         console.log("DEBUG: Weaver API Data received:", data);
@@ -41,49 +163,230 @@ export class WeaverProvider implements AIProvider {
         return data;
     }
 
+    async healthCheck(signal?: AbortSignal): Promise<void> {
+        // Any answer short of a server error means the backend is up (older builds have no /health route)
+        const response = await fetch(`${this.apiBase}/health`, { method: 'GET', signal });
+        if (response.status >= 500) {
+            throw new Error(`Weaver unhealthy (${response.status})`);
+        }
+    }
+
+    /**
+     * Post UI command outcomes on the same session so the agent can chain on created node IDs.
+     */
+    async reportUICommandResults(results: UICommandResult[]): Promise<void> {
+        await this.postControl('/chat/ui_results', {
+            session_key: this.sessionKey(),
+            results: results.map(r => ({
+                index: r.index,
+                command: r.command,
+                ok: r.ok,
+                command_id: r.commandId,
+                ref: r.ref,
+                node_id: r.nodeId,
+                edge_ids: r.edgeIds,
+                error: r.error
+            }))
+        });
+    }
+
+    async resetSession(session: AISession): Promise<void> {
+        const sessionKey = buildSessionKey(session);
+        this.seededSessions.delete(sessionKey);
+        await this.postControl('/chat/session/reset', { session_key: sessionKey });
+    }
+
+    async forkSession(from: AISession, to: AISession): Promise<void> {
+        const sessionKey = buildSessionKey(to);
+        const forked = await this.postControl('/chat/session/fork', {
+            from_session_key: buildSessionKey(from),
+            session_key: sessionKey
+        });
+        // Server copied the memory; otherwise the first request seeds it from the duplicated chat
+        if (forked) this.seededSessions.add(sessionKey);
+    }
+
     getLastUICommands() {
         const cmds = [...this.lastUICommands];
         this.lastUICommands = []; // Clear after retrieval
         return cmds;
     }
 
-    async generateText(model: string, prompt: string, history: any[] = [], config?: AIModelConfig): Promise<GenerationResult> {
-        const data = await this.callWeaver(prompt);
+    async generateText(model: string, prompt: string, history: any[] = [], config?: AIModelConfig, signal?: AbortSignal): Promise<GenerationResult> {
+        const data = await this.callWeaver(prompt, this.sessionKey(), undefined, signal, history);
+        Usage.record(toUsageReport(data.usage, model, prompt, data.response), signal);
         return { 
             text: data.response,
             uiCommands: data.ui_commands
         };
     }
 
-    async *generateTextStream(model: string, prompt: string, history: any[] = [], config?: AIModelConfig, imageContext?: string): AsyncGenerator<string, void, unknown> {
-        // Current Weaver REST API is unary, so we simulate a single chunk for now
-        const data = await this.callWeaver(prompt);
-        yield data.response;
+    async *generateTextStream(model: string, prompt: string, history: any[] = [], config?: AIModelConfig, imageContext?: string, signal?: AbortSignal): AsyncGenerator<StreamEvent, void, unknown> {
+        const sessionKey = this.sessionKey();
+
+        // Only opening the stream takes a limiter slot; reading the body doesn't hold one
+        const response = await globalLimiter.add(() => fetch(`${this.apiBase}/chat/stream`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Accept': 'text/event-stream, application/x-ndjson'
+            },
+            body: this.buildPayload(prompt, sessionKey, undefined, history),
+            signal
+        }).then(rejectRateLimited), PRIORITY.INTERACTIVE, signal, quotaBucket(this.id, 'chat'));
+
+        // Older backends only expose the unary endpoint: degrade to a single chunk
+        if (response.status === 404 || response.status === 405) {
+            const data = await this.callWeaver(prompt, sessionKey, undefined, signal, history);
+            Usage.record(toUsageReport(data.usage, model, prompt, data.response), signal);
+            this.lastUICommands = [];
+            if (data.response) yield { type: 'text', text: data.response };
+            if (data.ui_commands?.length) yield { type: 'ui_commands', commands: data.ui_commands };
+            if (data.attachment_url) yield { type: 'attachment', url: data.attachment_url };
+            return;
+        }
+
+        if (!response.ok) {
+            const err = await response.text();
+            throw new Error(`Weaver API error: ${err}`);
+        }
+        this.seededSessions.add(sessionKey);
+
+        let hasText = false;
+        let hasCommands = false;
+        const seenAttachments = new Set<string>();
+        let streamed = '';
+        let usage: any;
+
+        try {
+            for await (const frame of readEventStream(response)) {
+                const { event, data } = frame;
+
+                switch (event) {
+                    case 'delta':
+                    case 'token':
+                    case 'message': {
+                        const text = typeof data === 'string' ? data : (data.text ?? data.delta ?? '');
+                        if (text) {
+                            hasText = true;
+                            streamed += text;
+                            yield { type: 'text', text };
+                        }
+                        break;
+                    }
+
+                    case 'ui_command':
+                    case 'ui_commands': {
+                        const commands: UICommand[] = data.ui_commands || (data.command ? [{ command: data.command, args: data.args || {} }] : []);
+                        if (commands.length) {
+                            hasCommands = true;
+                            yield { type: 'ui_commands', commands };
+                        }
+                        break;
+                    }
+
+                    case 'attachment': {
+                        const url = data.url || data.attachment_url;
+                        if (url && !seenAttachments.has(url)) {
+                            seenAttachments.add(url);
+                            yield { type: 'attachment', url, mimeType: data.mime_type, kind: data.kind };
+                        }
+                        break;
+                    }
+
+                    case 'usage':
+                        usage = data;
+                        break;
+
+                    case 'error':
+                        throw new Error(`Weaver API error: ${data.error || data.message || data}`);
+
+                    case 'done': {
+                        // The terminal frame repeats the aggregate; only surface what wasn't streamed
+                        if (data.error) throw new Error(data.error);
+                        usage = data.usage || usage;
+                        if (!hasText && data.response) {
+                            streamed = data.response;
+                            yield { type: 'text', text: data.response };
+                        }
+                        if (!hasCommands && data.ui_commands?.length) yield { type: 'ui_commands', commands: data.ui_commands };
+                        if (data.attachment_url && !seenAttachments.has(data.attachment_url)) {
+                            yield { type: 'attachment', url: data.attachment_url };
+                        }
+                        return;
+                    }
+                }
+            }
+        } finally {
+            Usage.record(toUsageReport(usage, model, prompt, streamed), signal);
+        }
     }
 
-    async generateImage(prompt: string, options?: ImageOptions): Promise<string> {
-        const response = await this.callWeaver(prompt, "nest:images", {
+    async generateImage(prompt: string, options?: ImageOptions, signal?: AbortSignal): Promise<string[]> {
+        const response = await this.callWeaver(prompt, this.sessionKey('images'), {
             type: 'image',
             aspect_ratio: options?.aspectRatio || '1:1',
-            size: options?.size || '1K'
-        });
-        return response.attachment_url || response.response;
+            size: options?.size || '1K',
+            number_of_images: options?.numberOfImages || 1,
+            // Masked edits: `mask` is a PNG data URL (white = change), `edit_region` its 0-1 bounding box
+            ...(options?.edit ? {
+                reference_image: options.referenceImage,
+                mask: options.edit.mask,
+                edit_mode: options.edit.mode,
+                edit_region: options.edit.region
+            } : {})
+        }, signal, undefined, PRIORITY.GENERATION);
+        // Backends without variant support answer with a single attachment_url
+        const urls: string[] = Array.isArray(response.attachment_urls) && response.attachment_urls.length
+            ? response.attachment_urls
+            : [response.attachment_url || response.response];
+        Usage.record({ ...toUsageReport(response.usage, IMAGE_MODEL, prompt, ''), images: urls.length, imageSize: options?.size || '1K' }, signal);
+        return urls;
     }
 
-    async generateVideo(prompt: string, options?: VideoOptions, imageInputBase64?: string): Promise<string> {
-        const response = await this.callWeaver(prompt, "nest:videos", {
+    async generateVideo(prompt: string, options?: VideoOptions, imageInputBase64?: string, signal?: AbortSignal): Promise<string> {
+        const response = await this.callWeaver(prompt, this.sessionKey('videos'), {
             type: 'video',
             aspect_ratio: options?.aspectRatio || '16:9',
-            resolution: options?.resolution || '720p'
-        });
+            resolution: options?.resolution || '720p',
+            duration_seconds: options?.durationSeconds,
+            negative_prompt: options?.negativePrompt || undefined,
+            first_frame: imageInputBase64 || undefined,
+            last_frame: options?.lastFrame || undefined
+        }, signal, undefined, PRIORITY.GENERATION);
+        Usage.record({ provider: this.id, model: response.usage?.model || VIDEO_MODEL, videos: 1, videoSeconds: options?.durationSeconds }, signal);
         return response.attachment_url || response.response;
     }
 
-    async routeRequest(prompt: string, history: any[], models: { fast: string }, imageContext?: string): Promise<RouterResult> {
-        // Direct routing to the WISE agent for now
-        return {
-            targetAgentId: AgentId.NEST,
-            reasoning: "Routed through Weaver Bridge"
-        };
+    async routeRequest(prompt: string, history: any[], models: { fast: string }, imageContext?: string, signal?: AbortSignal): Promise<RouterResult> {
+        // Backends without a /route endpoint (404), or with an unusable answer, get the local heuristics
+        try {
+            const response = await globalLimiter.add(() => fetch(`${this.apiBase}/route`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    message: prompt,
+                    session_key: this.sessionKey(),
+                    channel: "nest",
+                    chat_id: "ui",
+                    history: toWeaverHistory(history.slice(-6)),
+                    has_image: !!imageContext
+                }),
+                signal
+            }).then(rejectRateLimited), PRIORITY.ROUTING, signal, quotaBucket(this.id, 'route'));
+
+            if (response.ok) {
+                const result = toRouterResult(await response.json());
+                if (result) return result;
+                console.warn("Weaver /route returned an unknown agent, using local heuristics");
+            } else if (response.status !== 404) {
+                console.warn(`Weaver /route failed (${response.status}), using local heuristics`);
+            }
+        } catch (e) {
+            // Let the registry fail over when Weaver itself is down
+            if (isAbortError(e) || signal?.aborted || isUnreachableError(e)) throw e;
+            console.warn("Weaver routing failed, using local heuristics", e);
+        }
+        return routeByHeuristics(prompt, imageContext);
     }
 }
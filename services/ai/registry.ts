@@ -0,0 +1,204 @@
+
+import { AIProvider } from "./types";
+
+/**
+ * Provider Registry
+ * Knows every available AIProvider, which one serves each capability (user settings),
+ * and which ones are currently reachable. Providers are constructed lazily so a missing
+ * API key only disables that provider instead of crashing the app.
+ */
+
+export type ProviderCapability = 'chat' | 'image' | 'video' | 'routing';
+
+export const PROVIDER_CAPABILITIES: ProviderCapability[] = ['chat', 'image', 'video', 'routing'];
+
+export interface ProviderDescriptor {
+    id: string;
+    label: string;
+    capabilities: ProviderCapability[];
+    create: () => AIProvider;
+}
+
+export type ProviderHealthStatus = 'unknown' | 'checking' | 'healthy' | 'unreachable';
+
+export interface ProviderHealth {
+    status: ProviderHealthStatus;
+    checkedAt?: number;
+    latencyMs?: number;
+    error?: string;
+}
+
+export interface ProviderSettings {
+    primary: string;
+    overrides: Partial<Record<ProviderCapability, string>>; // Per-capability provider id
+    failover: boolean;
+}
+
+export interface ProviderRegistryState {
+    providers: Array<{ id: string; label: string; capabilities: ProviderCapability[] }>;
+    settings: ProviderSettings;
+    health: Record<string, ProviderHealth>;
+}
+
+const STORAGE_KEY = 'NEST_STUDIO_PROVIDERS';
+const HEALTH_TIMEOUT_MS = 5000;
+
+/**
+ * Thrown when a provider cannot be used at all (not configured, not reachable).
+ * Only these errors trigger failover; a bad prompt on a healthy provider should surface as-is.
+ */
+export class ProviderUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProviderUnavailableError';
+    }
+}
+
+export const isUnreachableError = (e: any): boolean => {
+    if (e?.name === 'ProviderUnavailableError') return true;
+    const message = String(e?.message || '');
+    // fetch() rejects with a TypeError on DNS/connection/CORS failures
+    return (e instanceof TypeError && /fetch|network|load failed/i.test(message)) ||
+        /Failed to fetch|NetworkError|ECONNREFUSED|ERR_CONNECTION/i.test(message);
+};
+
+export class ProviderRegistry {
+    private descriptors: ProviderDescriptor[];
+    private instances = new Map<string, AIProvider>();
+    private settings: ProviderSettings;
+    private health: Record<string, ProviderHealth> = {};
+    private listeners = new Set<(state: ProviderRegistryState) => void>();
+
+    constructor(descriptors: ProviderDescriptor[], defaults: ProviderSettings) {
+        this.descriptors = descriptors;
+        this.settings = this.loadSettings(defaults);
+        descriptors.forEach(d => { this.health[d.id] = { status: 'unknown' }; });
+    }
+
+    /**
+     * Instance for `id`, created on first use.
+     */
+    get(id: string): AIProvider {
+        const existing = this.instances.get(id);
+        if (existing) return existing;
+
+        const descriptor = this.descriptors.find(d => d.id === id);
+        if (!descriptor) throw new ProviderUnavailableError(`Unknown provider "${id}"`);
+        try {
+            const instance = descriptor.create();
+            this.instances.set(id, instance);
+            return instance;
+        } catch (e: any) {
+            this.markUnreachable(id, e);
+            throw new ProviderUnavailableError(`${descriptor.label} unavailable: ${e.message}`);
+        }
+    }
+
+    /**
+     * Instantiated providers only (for broadcasting session changes etc.)
+     */
+    getInstances(): AIProvider[] {
+        return Array.from(this.instances.values());
+    }
+
+    /**
+     * Provider ids to try for a capability, in order: the configured one first, then (with failover)
+     * every other capable provider. Providers known to be unreachable are tried last.
+     */
+    candidates(capability: ProviderCapability): string[] {
+        const capable = this.descriptors.filter(d => d.capabilities.includes(capability)).map(d => d.id);
+        const configured = this.settings.overrides[capability] || this.settings.primary;
+        const preferred = capable.includes(configured) ? configured : capable[0];
+        if (!this.settings.failover) return preferred ? [preferred] : [];
+
+        const ordered = [preferred, ...capable.filter(id => id !== preferred)].filter(Boolean);
+        const reachable = ordered.filter(id => this.health[id]?.status !== 'unreachable');
+        const unreachable = ordered.filter(id => this.health[id]?.status === 'unreachable');
+        return [...reachable, ...unreachable];
+    }
+
+    getState(): ProviderRegistryState {
+        return {
+            providers: this.descriptors.map(({ id, label, capabilities }) => ({ id, label, capabilities })),
+            settings: this.settings,
+            health: this.health
+        };
+    }
+
+    updateSettings(patch: Partial<ProviderSettings>) {
+        this.settings = { ...this.settings, ...patch, overrides: { ...this.settings.overrides, ...patch.overrides } };
+        // Drop "auto" overrides so the primary applies again
+        Object.keys(this.settings.overrides).forEach(k => {
+            const key = k as ProviderCapability;
+            if (!this.settings.overrides[key]) delete this.settings.overrides[key];
+        });
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+        } catch (e) {
+            console.warn('Failed to persist provider settings:', e);
+        }
+        this.emit();
+    }
+
+    markHealthy(id: string, latencyMs?: number) {
+        if (this.health[id]?.status === 'healthy' && latencyMs === undefined) return;
+        this.health = { ...this.health, [id]: { status: 'healthy', checkedAt: Date.now(), latencyMs } };
+        this.emit();
+    }
+
+    markUnreachable(id: string, error: any) {
+        this.health = { ...this.health, [id]: { status: 'unreachable', checkedAt: Date.now(), error: error?.message || String(error) } };
+        this.emit();
+    }
+
+    /**
+     * Probe providers (all by default). Providers without a health check are assumed healthy once constructed.
+     */
+    async checkHealth(ids: string[] = this.descriptors.map(d => d.id)) {
+        await Promise.all(ids.map(async id => {
+            this.health = { ...this.health, [id]: { ...this.health[id], status: 'checking' } };
+            this.emit();
+
+            const controller = new AbortController();
+            const timer = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+            const started = Date.now();
+            try {
+                await this.get(id).healthCheck?.(controller.signal);
+                this.markHealthy(id, Date.now() - started);
+            } catch (e: any) {
+                this.markUnreachable(id, controller.signal.aborted ? new Error('Timed out') : e);
+            } finally {
+                clearTimeout(timer);
+            }
+        }));
+    }
+
+    subscribe(listener: (state: ProviderRegistryState) => void) {
+        this.listeners.add(listener);
+        listener(this.getState());
+        return () => { this.listeners.delete(listener); };
+    }
+
+    private emit() {
+        const state = this.getState();
+        this.listeners.forEach(l => l(state));
+    }
+
+    private loadSettings(defaults: ProviderSettings): ProviderSettings {
+        try {
+            const saved = localStorage.getItem(STORAGE_KEY);
+            if (saved) {
+                const parsed = JSON.parse(saved);
+                const known = (id: any) => this.descriptors.some(d => d.id === id);
+                return {
+                    primary: known(parsed.primary) ? parsed.primary : defaults.primary,
+                    overrides: Object.fromEntries(Object.entries(parsed.overrides || {}).filter(([, id]) => known(id))),
+                    failover: typeof parsed.failover === 'boolean' ? parsed.failover : defaults.failover
+                };
+            }
+        } catch (e) {
+            console.warn('Failed to load provider settings:', e);
+        }
+        return defaults;
+    }
+}
@@ -1,5 +1,5 @@
 
-import { AgentId } from "../../types";
+import { AgentId, VideoOperation } from "../../types";
 
 export interface AIModelConfig {
     temperature?: number;
@@ -17,19 +17,72 @@ export interface ImageOptions {
     aspectRatio?: '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
     numberOfImages?: number;
     referenceImage?: string; // Base64 string for image-to-image
+    edit?: ImageEdit; // Masked edit of `referenceImage`
+}
+
+/**
+ * Masked image edit. Inpainting changes the painted region; outpainting fills the border added
+ * around a padded reference image. Either way only the white area of the mask may change.
+ */
+export interface ImageEdit {
+    mode: 'inpaint' | 'outpaint';
+    mask: string; // PNG data URL the size of the reference image; white = change, black = keep
+    region: { x: number; y: number; width: number; height: number }; // Bounding box of the white area, 0-1 of the image
 }
 
 export interface VideoOptions {
     resolution?: '720p' | '1080p';
     aspectRatio?: '16:9' | '9:16';
     durationSeconds?: number;
+    negativePrompt?: string; // What the clip should avoid
+    lastFrame?: string; // Ending frame (data URL or http URL); the start frame is `imageInputBase64`
 }
 
+export interface UICommand {
+    command: string;
+    args: any;
+    version?: number; // UI command protocol version (see services/uiCommands.ts)
+    id?: string; // Optional correlation ID, echoed in the result
+}
+
+/**
+ * Identifies one agent conversation: a workspace, for a user, in a given epoch.
+ */
+export interface AISession {
+    userId?: string;
+    workspaceId: string;
+    epoch?: number;
+}
+
+/**
+ * Outcome of one UI command, reported back to the agent that issued it.
+ */
+export interface UICommandResult {
+    index: number;
+    command: string;
+    ok: boolean;
+    commandId?: string;
+    ref?: string;
+    nodeId?: string; // Created or affected node
+    edgeIds?: string[]; // Created or removed edges
+    error?: string;
+}
+
+/**
+ * Typed events yielded by streaming providers.
+ * Text deltas feed the artifact parser; UI commands and attachments are side-channel
+ * payloads that may arrive at any point during the stream.
+ */
+export type StreamEvent =
+    | { type: 'text'; text: string }
+    | { type: 'ui_commands'; commands: UICommand[] }
+    | { type: 'attachment'; url: string; mimeType?: string; kind?: 'image' | 'video' | 'audio' };
+
 export interface GenerationResult {
     text: string;
     files?: { name: string; content: string; language: string }[];
     toolCalls?: any[];
-    uiCommands?: { command: string; args: any }[];
+    uiCommands?: UICommand[];
 }
 
 export interface RouterResult {
@@ -37,7 +90,7 @@ export interface RouterResult {
     reasoning: string;
     artifact?: {
         operation: 'create' | 'update';
-        type: 'code' | 'text' | 'image' | 'video';
+        type: 'code' | 'text' | 'image' | 'video' | 'notebook';
         title: string;
         id?: string; // Target Node ID for updates
         language?: string;
@@ -50,12 +103,28 @@ export interface RouterResult {
     }[];
 }
 
+/**
+ * Every generation method accepts an optional AbortSignal as its last argument.
+ * Aborting must reject with an 'AbortError' and stop any in-flight work (fetches, polling, queued tasks).
+ */
 export interface AIProvider {
     id: string;
-    generateText(model: string, prompt: string, history?: any[], config?: AIModelConfig): Promise<GenerationResult>;
-    generateTextStream(model: string, prompt: string, history?: any[], config?: AIModelConfig, imageContext?: string): AsyncGenerator<string, void, unknown>;
-    generateImage(prompt: string, options?: ImageOptions): Promise<string>;
-    generateVideo(prompt: string, options?: VideoOptions, imageInputBase64?: string): Promise<string>;
-    routeRequest(prompt: string, history: any[], models: { fast: string }, imageContext?: string): Promise<RouterResult>;
-    getLastUICommands?(): { command: string; args: any }[];
+    generateText(model: string, prompt: string, history?: any[], config?: AIModelConfig, signal?: AbortSignal): Promise<GenerationResult>;
+    generateTextStream(model: string, prompt: string, history?: any[], config?: AIModelConfig, imageContext?: string, signal?: AbortSignal): AsyncGenerator<StreamEvent, void, unknown>;
+    // One URL per requested variant (ImageOptions.numberOfImages, default 1)
+    generateImage(prompt: string, options?: ImageOptions, signal?: AbortSignal): Promise<string[]>;
+    generateVideo(prompt: string, options?: VideoOptions, imageInputBase64?: string, signal?: AbortSignal): Promise<string>;
+    // Resumable video renders: start returns as soon as the provider accepts the job, resume polls it
+    // (possibly after a page reload) and resolves with the video URL
+    startVideo?(prompt: string, options?: VideoOptions, imageInputBase64?: string, signal?: AbortSignal): Promise<VideoOperation>;
+    resumeVideo?(operation: VideoOperation, signal?: AbortSignal): Promise<string>;
+    routeRequest(prompt: string, history: any[], models: { fast: string }, imageContext?: string, signal?: AbortSignal): Promise<RouterResult>;
+    getLastUICommands?(): UICommand[];
+    reportUICommandResults?(results: UICommandResult[]): Promise<void>;
+    // Server-side conversation memory (providers without it simply ignore these)
+    setSession?(session: AISession): void;
+    resetSession?(session: AISession): Promise<void>;
+    forkSession?(from: AISession, to: AISession): Promise<void>;
+    // Resolves if the provider is reachable, rejects otherwise (used by the registry for failover)
+    healthCheck?(signal?: AbortSignal): Promise<void>;
 }
@@ -0,0 +1,169 @@
+
+import { UsageTotals, WorkspaceUsage, WorkspaceBudget } from "../../types";
+
+/**
+ * Usage Accounting
+ * Providers report what each call consumed (tokens, generated media, the model that actually
+ * served it); the orchestrator and the app attach who asked for it (workspace, agent) through the
+ * call's AbortSignal. App.tsx folds the entries into Workspace.usage.
+ */
+
+export interface UsageReport {
+    provider: string;
+    model: string;            // Model that served the call
+    requestedModel?: string;  // Set when it differs from `model` (e.g. Pro -> Flash on quota)
+    promptTokens?: number;
+    outputTokens?: number;
+    thinkingTokens?: number;
+    images?: number;
+    imageSize?: '1K' | '2K' | '4K';
+    videos?: number;
+    videoSeconds?: number;
+    estimated?: boolean;      // Token counts approximated from text length
+}
+
+export interface UsageScope {
+    workspaceId?: string;
+    agentId?: string;
+}
+
+export interface UsageEntry extends UsageReport, UsageScope {
+    timestamp: number;
+    cost: number;
+}
+
+// Planned call, for budget checks before it is made
+export interface PlannedUsage {
+    model: string;
+    images?: number;
+    imageSize?: '1K' | '2K' | '4K';
+    videos?: number;
+    videoSeconds?: number;
+}
+
+interface ModelPricing {
+    match: RegExp;
+    input?: number;     // USD per 1M prompt tokens
+    output?: number;    // USD per 1M output + thinking tokens
+    image?: number;     // USD per image (1K/2K)
+    image4k?: number;
+    videoSecond?: number;
+}
+
+// Approximate list prices, only used for budgeting. First match wins.
+const PRICING: ModelPricing[] = [
+    { match: /veo.*fast/, videoSecond: 0.15 },
+    { match: /veo/, videoSecond: 0.40 },
+    { match: /image/, input: 2, output: 12, image: 0.134, image4k: 0.24 },
+    { match: /pro/, input: 2, output: 12 },
+    { match: /lite/, input: 0.1, output: 0.4 },
+    { match: /flash/, input: 0.3, output: 2.5 },
+];
+
+const DEFAULT_VIDEO_SECONDS = 8;
+
+const pricingFor = (model: string) => PRICING.find(p => p.match.test(model));
+
+export const estimateCost = (report: UsageReport | PlannedUsage): number => {
+    const price = pricingFor(report.model);
+    if (!price) return 0;
+    const r = report as UsageReport;
+    const tokens = ((r.promptTokens || 0) * (price.input || 0) + ((r.outputTokens || 0) + (r.thinkingTokens || 0)) * (price.output || 0)) / 1_000_000;
+    const images = (report.images || 0) * ((report.imageSize === '4K' ? price.image4k : price.image) || 0);
+    const videos = (report.videos || 0) * (report.videoSeconds || DEFAULT_VIDEO_SECONDS) * (price.videoSecond || 0);
+    return tokens + images + videos;
+};
+
+/**
+ * Rough token count for providers that don't report usage (~4 characters per token).
+ */
+export const approxTokens = (text?: string) => Math.ceil((text?.length || 0) / 4);
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, promptTokens: 0, outputTokens: 0, thinkingTokens: 0, images: 0, videos: 0, cost: 0 });
+
+export const emptyUsage = (): WorkspaceUsage => ({ totals: emptyTotals(), byAgent: {}, byModel: {}, byDay: {}, fallbacks: 0 });
+
+const addTotals = (totals: UsageTotals | undefined, entry: UsageEntry): UsageTotals => {
+    const t = totals || emptyTotals();
+    return {
+        calls: t.calls + 1,
+        promptTokens: t.promptTokens + (entry.promptTokens || 0),
+        outputTokens: t.outputTokens + (entry.outputTokens || 0),
+        thinkingTokens: t.thinkingTokens + (entry.thinkingTokens || 0),
+        images: t.images + (entry.images || 0),
+        videos: t.videos + (entry.videos || 0),
+        cost: t.cost + entry.cost
+    };
+};
+
+/**
+ * Local calendar day (YYYY-MM-DD) used as the byDay key.
+ */
+export const dayKey = (timestamp: number) => {
+    const d = new Date(timestamp);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const addUsage = (usage: WorkspaceUsage | undefined, entry: UsageEntry): WorkspaceUsage => {
+    const u = usage || emptyUsage();
+    const agent = entry.agentId || 'other';
+    const day = dayKey(entry.timestamp);
+    return {
+        totals: addTotals(u.totals, entry),
+        byAgent: { ...u.byAgent, [agent]: addTotals(u.byAgent[agent], entry) },
+        byModel: { ...u.byModel, [entry.model]: addTotals(u.byModel[entry.model], entry) },
+        byDay: { ...u.byDay, [day]: addTotals(u.byDay[day], entry) },
+        fallbacks: u.fallbacks + (entry.requestedModel && entry.requestedModel !== entry.model ? 1 : 0)
+    };
+};
+
+/**
+ * Warning to confirm before a planned call, or null. Expensive calls (Veo, 4K images) warn when the
+ * budget asks for it; any call that would cross the soft limit warns too.
+ */
+export const checkBudget = (usage: WorkspaceUsage | undefined, budget: WorkspaceBudget | undefined, planned: PlannedUsage): string | null => {
+    if (!budget) return null;
+    const spent = usage?.totals.cost || 0;
+    const cost = estimateCost(planned);
+    const warnings: string[] = [];
+
+    const expensive = !!planned.videos || planned.imageSize === '4K';
+    if (budget.warnExpensive && expensive) {
+        warnings.push(`This ${planned.videos ? 'video' : '4K image'} costs about $${cost.toFixed(2)}.`);
+    }
+    if (budget.limit !== undefined && spent + cost > budget.limit) {
+        warnings.push(`It would take this workspace to $${(spent + cost).toFixed(2)}, over its $${budget.limit.toFixed(2)} budget.`);
+    }
+    return warnings.length ? warnings.join(' ') : null;
+};
+
+class UsageTracker {
+    // Attribution travels with the request's AbortSignal (one per job)
+    private scopes = new WeakMap<AbortSignal, UsageScope>();
+    private listeners = new Set<(entry: UsageEntry) => void>();
+
+    /**
+     * Attach (or extend) the scope of every call made with `signal`.
+     */
+    scope(signal: AbortSignal | undefined, patch: UsageScope) {
+        if (!signal) return;
+        this.scopes.set(signal, { ...this.scopes.get(signal), ...patch });
+    }
+
+    record(report: UsageReport, signal?: AbortSignal) {
+        const entry: UsageEntry = {
+            ...report,
+            ...(signal ? this.scopes.get(signal) : undefined),
+            timestamp: Date.now(),
+            cost: estimateCost(report)
+        };
+        this.listeners.forEach(l => l(entry));
+    }
+
+    subscribe(listener: (entry: UsageEntry) => void) {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+}
+
+export const Usage = new UsageTracker();
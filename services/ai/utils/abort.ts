@@ -0,0 +1,32 @@
+
+/**
+ * Cancellation helpers shared by providers, the rate limiter and the UI.
+ * Cancellation is surfaced as a DOMException named 'AbortError', matching what fetch() throws.
+ */
+
+export const createAbortError = (message = 'Generation cancelled') => new DOMException(message, 'AbortError');
+
+export const isAbortError = (e: any): boolean => e?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw createAbortError();
+};
+
+/**
+ * setTimeout-based delay that rejects as soon as the signal aborts.
+ */
+export const abortableWait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
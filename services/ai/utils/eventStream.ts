@@ -0,0 +1,94 @@
+
+/**
+ * A single decoded frame from a streaming HTTP response.
+ * `event` is the SSE event name (or the `type` field of an NDJSON line).
+ */
+export interface StreamFrame {
+    event: string;
+    data: any;
+}
+
+const parseData = (raw: string): any => {
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return raw;
+    }
+};
+
+// SSE: "event:" / "data:" lines separated by a blank line. Comments (":") and ids are ignored.
+const parseSSEBlock = (block: string): StreamFrame | null => {
+    let event = '';
+    const dataLines: string[] = [];
+
+    for (const line of block.split('\n')) {
+        if (!line || line.startsWith(':')) continue;
+        const sep = line.indexOf(':');
+        const field = sep === -1 ? line : line.substring(0, sep);
+        let value = sep === -1 ? '' : line.substring(sep + 1);
+        if (value.startsWith(' ')) value = value.substring(1);
+
+        if (field === 'event') event = value;
+        else if (field === 'data') dataLines.push(value);
+    }
+
+    if (dataLines.length === 0) return null;
+    const data = parseData(dataLines.join('\n'));
+    return { event: event || data?.type || 'message', data };
+};
+
+// NDJSON: one JSON object per line, the event name lives in `type` (or `event`).
+const parseNDJSONLine = (line: string): StreamFrame | null => {
+    const trimmed = line.trim();
+    if (!trimmed) return null;
+    const data = parseData(trimmed);
+    if (typeof data !== 'object' || data === null) return { event: 'message', data };
+    return { event: data.type || data.event || 'message', data };
+};
+
+/**
+ * Decode a streaming response body into frames.
+ * Supports `text/event-stream` (SSE) and chunked NDJSON. A plain JSON body
+ * (legacy unary backend) is surfaced as a single `done` frame.
+ */
+export async function* readEventStream(response: Response): AsyncGenerator<StreamFrame, void, unknown> {
+    const contentType = response.headers.get('content-type') || '';
+
+    if (!response.body || contentType.includes('application/json')) {
+        yield { event: 'done', data: await response.json() };
+        return;
+    }
+
+    const isSSE = contentType.includes('text/event-stream');
+    const separator = isSSE ? '\n\n' : '\n';
+    const parse = isSSE ? parseSSEBlock : parseNDJSONLine;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            // Normalise CRLF on the whole buffer so a pair split across chunks is still caught
+            buffer = (buffer + decoder.decode(value, { stream: true })).replace(/\r\n/g, '\n');
+
+            let index: number;
+            while ((index = buffer.indexOf(separator)) !== -1) {
+                const block = buffer.substring(0, index);
+                buffer = buffer.substring(index + separator.length);
+                const frame = parse(block);
+                if (frame) yield frame;
+            }
+        }
+
+        // Flush a trailing frame that wasn't terminated by a separator
+        buffer += decoder.decode();
+        const frame = parse(buffer.replace(/\r\n/g, '\n'));
+        if (frame) yield frame;
+    } finally {
+        reader.releaseLock();
+    }
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RateLimiter, PRIORITY, quotaBucket, isQuotaError, parseRetryAfterMs } from './rateLimiter';
+
+// A task that runs until the test lets it finish
+const deferred = () => {
+    let finish!: () => void;
+    const done = new Promise<void>(resolve => { finish = resolve; });
+    return { done, finish };
+};
+
+const bucketRate = (limiter: RateLimiter, key: string) => limiter.snapshot().buckets.find(b => b.key === key)?.perMinute;
+
+describe('quotaBucket', () => {
+    it('groups models by family per provider', () => {
+        expect(quotaBucket('google-genai', 'veo-3.1-fast-generate-preview')).toBe('google-genai:video');
+        expect(quotaBucket('google-genai', 'gemini-3-pro-image-preview')).toBe('google-genai:image');
+        expect(quotaBucket('google-genai', 'gemini-3-pro-preview')).toBe('google-genai:pro');
+        expect(quotaBucket('google-genai', 'gemini-flash-lite-latest')).toBe('google-genai:flash');
+        expect(quotaBucket('weaver', 'chat')).toBe('weaver:chat');
+        expect(quotaBucket('weaver', '')).toBe('weaver:default');
+    });
+});
+
+describe('quota errors', () => {
+    it('recognises 429s and reads the suggested retry time', () => {
+        expect(isQuotaError({ status: 429 })).toBe(true);
+        expect(isQuotaError(new Error('RESOURCE_EXHAUSTED: try later'))).toBe(true);
+        expect(isQuotaError(new Error('500 INTERNAL'))).toBe(false);
+        expect(parseRetryAfterMs(new Error('Quota exceeded, retry in 12.5s'))).toBe(12500);
+        expect(parseRetryAfterMs({ retryAfterMs: 300 })).toBe(300);
+        expect(parseRetryAfterMs(new Error('Quota exceeded'))).toBeUndefined();
+    });
+});
+
+describe('RateLimiter', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('starts higher lanes first and keeps arrival order within a lane', async () => {
+        const limiter = new RateLimiter(1, 0);
+        const started: string[] = [];
+        const blocker = deferred();
+        const run = (name: string, priority: number) => limiter.add(async () => { started.push(name); }, priority);
+
+        const first = limiter.add(() => blocker.done, PRIORITY.BACKGROUND);
+        const queued = [
+            run('poll', PRIORITY.BACKGROUND),
+            run('image', PRIORITY.GENERATION),
+            run('chat-1', PRIORITY.INTERACTIVE),
+            run('route', PRIORITY.ROUTING),
+            run('chat-2', PRIORITY.INTERACTIVE),
+        ];
+        expect(limiter.snapshot().lanes).toEqual({ [PRIORITY.BACKGROUND]: 1, [PRIORITY.GENERATION]: 1, [PRIORITY.INTERACTIVE]: 2, [PRIORITY.ROUTING]: 1 });
+
+        blocker.finish();
+        await Promise.all([first, ...queued]);
+        expect(started).toEqual(['route', 'chat-1', 'chat-2', 'image', 'poll']);
+    });
+
+    it('spaces task starts by the minimum interval', async () => {
+        const limiter = new RateLimiter(2, 500);
+        const starts: number[] = [];
+        const tasks = [1, 2].map(() => limiter.add(async () => { starts.push(Date.now()); }));
+        await vi.advanceTimersByTimeAsync(1000);
+        await Promise.all(tasks);
+        expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(500);
+    });
+
+    it('gives each model family its own quota', () => {
+        const limiter = new RateLimiter(5, 0);
+        ['google-genai:video', 'google-genai:image', 'google-genai:pro', 'google-genai:flash', 'weaver:route', 'weaver:chat']
+            .forEach(key => limiter.reportRateLimit(key, 0));
+        // A 429 halves the rate; the family's base rate is twice what's left
+        expect(bucketRate(limiter, 'google-genai:video')! * 2).toBe(6);
+        expect(bucketRate(limiter, 'google-genai:image')! * 2).toBe(20);
+        expect(bucketRate(limiter, 'google-genai:pro')! * 2).toBe(30);
+        expect(bucketRate(limiter, 'google-genai:flash')! * 2).toBe(120);
+        expect(bucketRate(limiter, 'weaver:route')! * 2).toBe(120);
+        expect(bucketRate(limiter, 'weaver:chat')! * 2).toBe(60);
+    });
+
+    it('waits for a bucket to refill once its burst is used up', async () => {
+        const limiter = new RateLimiter(5, 0);
+        const started: number[] = [];
+        // Video: burst of 2, then one every 10s (6 per minute)
+        const tasks = [1, 2, 3].map(n => limiter.add(async () => { started.push(n); }, PRIORITY.GENERATION, undefined, 'google-genai:video'));
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(started).toEqual([1, 2]);
+        await vi.advanceTimersByTimeAsync(9999);
+        expect(started).toEqual([1, 2]);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(started).toEqual([1, 2, 3]);
+        await Promise.all(tasks);
+    });
+
+    it('blocks a bucket after a 429 without holding up other buckets', async () => {
+        const limiter = new RateLimiter(5, 0);
+        const started: string[] = [];
+        const limited = limiter.add(async () => { throw Object.assign(new Error('Quota exceeded, retry in 5s'), { status: 429 }); }, PRIORITY.INTERACTIVE, undefined, 'google-genai:pro');
+        await expect(limited).rejects.toThrow('Quota exceeded');
+
+        const pro = limiter.add(async () => { started.push('pro'); }, PRIORITY.INTERACTIVE, undefined, 'google-genai:pro');
+        const flash = limiter.add(async () => { started.push('flash'); }, PRIORITY.BACKGROUND, undefined, 'google-genai:flash');
+        await vi.advanceTimersByTimeAsync(0);
+        expect(started).toEqual(['flash']);
+        expect(limiter.snapshot().buckets.find(b => b.key === 'google-genai:pro')?.blockedForMs).toBe(5000);
+
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(started).toEqual(['flash', 'pro']);
+        await Promise.all([pro, flash]);
+    });
+
+    it('estimates position and wait for a queued task', async () => {
+        const limiter = new RateLimiter(1, 0);
+        const blocker = deferred();
+        const running = limiter.add(() => blocker.done);
+        const signals = [new AbortController(), new AbortController()].map(c => c.signal);
+        const queued = signals.map(signal => limiter.add(async () => {}, PRIORITY.INTERACTIVE, signal));
+
+        expect(limiter.estimate(signals[0])).toEqual({ ahead: 0, waitMs: 2000 });
+        expect(limiter.estimate(signals[1])).toEqual({ ahead: 1, waitMs: 4000 });
+        expect(limiter.estimate(new AbortController().signal)).toBeNull();
+
+        limiter.reportRateLimit('google-genai:video', 30000);
+        const video = new AbortController();
+        const blocked = limiter.add(async () => {}, PRIORITY.GENERATION, video.signal, 'google-genai:video');
+        expect(limiter.estimate(video.signal)).toEqual({ ahead: 2, waitMs: 30000 });
+
+        blocker.finish();
+        await vi.advanceTimersByTimeAsync(30000);
+        await Promise.all([running, ...queued, blocked]);
+    });
+
+    it('drops a queued task when its signal aborts', async () => {
+        const limiter = new RateLimiter(1, 0);
+        const blocker = deferred();
+        const running = limiter.add(() => blocker.done);
+        const controller = new AbortController();
+        const task = vi.fn(async () => {});
+        const queued = limiter.add(task, PRIORITY.INTERACTIVE, controller.signal);
+
+        controller.abort();
+        await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+        expect(limiter.pending).toBe(0);
+
+        blocker.finish();
+        await running;
+        expect(task).not.toHaveBeenCalled();
+    });
+});
@@ -1,14 +1,147 @@
+import { createAbortError } from "./abort";
 
 /**
- * A simple async queue to limit concurrent requests.
- * Prevents flooding the API when multiple agents work or user spams inputs.
+ * Queue lanes. Higher runs first; tasks in the same lane run in arrival order.
+ */
+export const PRIORITY = {
+    ROUTING: 30,      // Blocks every request, so it goes first
+    INTERACTIVE: 20,  // Chat streams and prompt refinement the user is watching
+    GENERATION: 10,   // Image / video generation calls
+    BACKGROUND: 0,    // Polling, uploads
+} as const;
+
+interface BucketConfig {
+    perMinute: number;
+    burst: number;
+}
+
+// Rough starting points per model family; 429s tune them down at runtime
+const FAMILY_QUOTAS: Array<{ match: RegExp; quota: BucketConfig }> = [
+    { match: /veo|video/, quota: { perMinute: 6, burst: 2 } },
+    { match: /image/, quota: { perMinute: 20, burst: 4 } },
+    { match: /pro/, quota: { perMinute: 30, burst: 5 } },
+    { match: /flash|route/, quota: { perMinute: 120, burst: 10 } },
+];
+const DEFAULT_QUOTA: BucketConfig = { perMinute: 60, burst: 8 };
+
+/**
+ * Bucket key for a provider + model, e.g. `google-genai:pro`, `weaver:image`.
+ */
+export const quotaBucket = (providerId: string, model: string) => {
+    const family = /veo|video/.test(model) ? 'video'
+        : /image/.test(model) ? 'image'
+        : /pro/.test(model) ? 'pro'
+        : /flash|lite/.test(model) ? 'flash'
+        : model || 'default';
+    return `${providerId}:${family}`;
+};
+
+export const isQuotaError = (e: any): boolean =>
+    e?.status === 429 ||
+    e?.status === 'RESOURCE_EXHAUSTED' ||
+    (!!e?.message && (e.message.includes('429') || e.message.includes('Quota') || e.message.includes('RESOURCE_EXHAUSTED')));
+
+/**
+ * Server-suggested wait from a quota error ("... retry in 12.5s"), in ms.
+ */
+export const parseRetryAfterMs = (e: any): number | undefined => {
+    if (typeof e?.retryAfterMs === 'number') return e.retryAfterMs;
+    const match = typeof e?.message === 'string' ? e.message.match(/retry in ([\d\.]+)s/) : null;
+    return match && match[1] ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Token bucket for one provider/model family. A 429 blocks it until the suggested retry time
+ * and halves its refill rate; every success recovers a little of the base rate.
+ */
+class TokenBucket {
+    private tokens: number;
+    private ratePerMs: number;
+    private readonly baseRatePerMs: number;
+    private readonly capacity: number;
+    private lastRefill = Date.now();
+    blockedUntil = 0;
+
+    constructor(config: BucketConfig) {
+        this.capacity = config.burst;
+        this.tokens = config.burst;
+        this.baseRatePerMs = config.perMinute / 60000;
+        this.ratePerMs = this.baseRatePerMs;
+    }
+
+    private refill(now: number) {
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.ratePerMs);
+        this.lastRefill = now;
+    }
+
+    /**
+     * Ms until a token is available (0 = now).
+     */
+    waitTime(now = Date.now()): number {
+        this.refill(now);
+        const blocked = Math.max(0, this.blockedUntil - now);
+        const refill = this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.ratePerMs);
+        return Math.max(blocked, refill);
+    }
+
+    take() {
+        this.refill(Date.now());
+        this.tokens -= 1;
+    }
+
+    penalize(retryAfterMs: number) {
+        this.blockedUntil = Math.max(this.blockedUntil, Date.now() + retryAfterMs);
+        this.ratePerMs = Math.max(this.baseRatePerMs / 8, this.ratePerMs / 2);
+        // One probe request as soon as the block lifts, then the reduced rate
+        this.tokens = Math.min(this.tokens, 1);
+    }
+
+    reward() {
+        this.ratePerMs = Math.min(this.baseRatePerMs, this.ratePerMs * 1.1);
+    }
+
+    get perMinute() {
+        return Math.round(this.ratePerMs * 60000);
+    }
+}
+
+interface QueueEntry {
+    run: () => void;
+    priority: number;
+    bucket?: string;
+    signal?: AbortSignal;
+}
+
+export interface QueueEstimate {
+    ahead: number;   // Queued tasks that will start before this one
+    waitMs: number;  // Rough time until it starts
+}
+
+export interface LimiterSnapshot {
+    pending: number;
+    active: number;
+    capacity: number;
+    lanes: Record<number, number>; // priority -> queued count
+    buckets: Array<{ key: string; perMinute: number; blockedForMs: number }>;
+}
+
+const DEFAULT_RETRY_AFTER_MS = 10000;
+
+/**
+ * Async queue that limits concurrent requests.
+ * Prevents flooding the API when multiple agents work or user spams inputs. Tasks are ordered
+ * by priority lane and, when given a bucket key, also wait for that provider/model's quota.
  */
 export class RateLimiter {
-    private queue: Array<() => Promise<void>> = [];
+    private queue: QueueEntry[] = [];
     private activeCount = 0;
     private maxConcurrent: number;
     private intervalMs: number;
     private lastRequestTime = 0;
+    private buckets = new Map<string, TokenBucket>();
+    private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+    private avgTaskMs = 2000; // Moving average, used for wait estimates
+    private listeners = new Set<() => void>();
 
     constructor(maxConcurrent = 2, minIntervalMs = 500) {
         this.maxConcurrent = maxConcurrent;
@@ -16,46 +149,153 @@ export class RateLimiter {
     }
 
     /**
-     * Enqueue a task. It will execute when a slot is free.
+     * Enqueue a task. It will execute when a slot is free and its bucket (if any) has quota.
+     * If `signal` aborts while the task is still queued, it is dropped and the promise rejects.
+     * Quota errors thrown by the task block its bucket for the server-suggested time.
      */
-    async add<T>(task: () => Promise<T>, priority = 0): Promise<T> {
+    async add<T>(task: () => Promise<T>, priority: number = PRIORITY.INTERACTIVE, signal?: AbortSignal, bucket?: string): Promise<T> {
         return new Promise((resolve, reject) => {
-            const wrappedTask = async () => {
+            if (signal?.aborted) {
+                reject(createAbortError());
+                return;
+            }
+
+            const onAbort = () => {
+                const index = this.queue.indexOf(entry);
+                if (index !== -1) {
+                    this.queue.splice(index, 1);
+                    reject(createAbortError());
+                    this.emit();
+                }
+            };
+
+            const run = async () => {
+                signal?.removeEventListener('abort', onAbort);
+                const started = Date.now();
                 try {
                     // Enforce minimum interval between starts to smooth bursts
-                    const now = Date.now();
-                    const timeSinceLast = now - this.lastRequestTime;
+                    const timeSinceLast = started - this.lastRequestTime;
                     if (timeSinceLast < this.intervalMs) {
                         await new Promise(r => setTimeout(r, this.intervalMs - timeSinceLast));
                     }
                     this.lastRequestTime = Date.now();
 
+                    if (signal?.aborted) throw createAbortError();
                     const result = await task();
+                    if (bucket) this.getBucket(bucket).reward();
                     resolve(result);
                 } catch (e) {
+                    if (bucket && isQuotaError(e)) this.reportRateLimit(bucket, parseRetryAfterMs(e));
                     reject(e);
                 } finally {
+                    this.avgTaskMs = this.avgTaskMs * 0.8 + (Date.now() - started) * 0.2;
                     this.activeCount--;
                     this.processNext();
                 }
             };
 
-            // Simple push (could add priority logic here)
-            this.queue.push(wrappedTask);
+            const entry: QueueEntry = { run, priority, bucket, signal };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            // Insert after every task of equal or higher priority
+            const index = this.queue.findIndex(e => e.priority < priority);
+            if (index === -1) this.queue.push(entry);
+            else this.queue.splice(index, 0, entry);
+
             this.processNext();
         });
     }
 
+    /**
+     * Block a bucket after a 429. Later tasks on it wait; other buckets keep flowing.
+     */
+    reportRateLimit(bucket: string, retryAfterMs = DEFAULT_RETRY_AFTER_MS) {
+        this.getBucket(bucket).penalize(retryAfterMs);
+        console.warn(`[RateLimiter] ${bucket} rate limited for ${Math.round(retryAfterMs / 1000)}s`);
+        this.emit();
+    }
+
+    /**
+     * Position and rough wait time of the queued task started with `signal`, or null if none is queued.
+     */
+    estimate(signal: AbortSignal): QueueEstimate | null {
+        const index = this.queue.findIndex(e => e.signal === signal);
+        if (index === -1) return null;
+
+        const entry = this.queue[index];
+        const now = Date.now();
+        const quotaWait = entry.bucket ? this.getBucket(entry.bucket).waitTime(now) : 0;
+        const freeSlots = this.maxConcurrent - this.activeCount;
+        const rounds = Math.max(0, Math.ceil((index + 1 - freeSlots) / this.maxConcurrent));
+        return { ahead: index, waitMs: Math.max(quotaWait, Math.round(rounds * this.avgTaskMs)) };
+    }
+
+    snapshot(): LimiterSnapshot {
+        const now = Date.now();
+        const lanes: Record<number, number> = {};
+        this.queue.forEach(e => { lanes[e.priority] = (lanes[e.priority] || 0) + 1; });
+        return {
+            pending: this.queue.length,
+            active: this.activeCount,
+            capacity: this.maxConcurrent,
+            lanes,
+            buckets: Array.from(this.buckets.entries()).map(([key, b]) => ({
+                key,
+                perMinute: b.perMinute,
+                blockedForMs: Math.max(0, b.blockedUntil - now)
+            }))
+        };
+    }
+
+    /**
+     * Notified whenever the queue or a bucket changes.
+     */
+    subscribe(listener: () => void) {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    private getBucket(key: string) {
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            bucket = new TokenBucket(FAMILY_QUOTAS.find(f => f.match.test(key))?.quota || DEFAULT_QUOTA);
+            this.buckets.set(key, bucket);
+        }
+        return bucket;
+    }
+
     private processNext() {
-        if (this.activeCount >= this.maxConcurrent || this.queue.length === 0) {
-            return;
+        if (this.wakeTimer) {
+            clearTimeout(this.wakeTimer);
+            this.wakeTimer = null;
         }
 
-        const nextTask = this.queue.shift();
-        if (nextTask) {
+        const now = Date.now();
+        let nextWake = Infinity;
+        while (this.activeCount < this.maxConcurrent && this.queue.length > 0) {
+            // Highest-priority task whose bucket has quota; blocked buckets don't hold up the others
+            const index = this.queue.findIndex(e => {
+                if (!e.bucket) return true;
+                const wait = this.getBucket(e.bucket).waitTime(now);
+                if (wait > 0) nextWake = Math.min(nextWake, wait);
+                return wait === 0;
+            });
+            if (index === -1) break;
+
+            const [entry] = this.queue.splice(index, 1);
+            if (entry.bucket) this.getBucket(entry.bucket).take();
             this.activeCount++;
-            nextTask(); // execution handles its own completion/activeCount decrement
+            entry.run(); // execution handles its own completion/activeCount decrement
+        }
+
+        if (this.queue.length > 0 && this.activeCount < this.maxConcurrent && nextWake < Infinity) {
+            this.wakeTimer = setTimeout(() => this.processNext(), nextWake);
         }
+        this.emit();
+    }
+
+    private emit() {
+        this.listeners.forEach(l => l());
     }
 
     get pending() {
@@ -65,7 +305,11 @@ export class RateLimiter {
     get active() {
         return this.activeCount;
     }
+
+    get capacity() {
+        return this.maxConcurrent;
+    }
 }
 
 // Reduced interval to 100ms to make follow-up requests (like streaming after routing) feel instant
-export const globalLimiter = new RateLimiter(3, 100); 
+export const globalLimiter = new RateLimiter(3, 100);
@@ -0,0 +1,64 @@
+
+import { AutoFixState, CanvasNode } from '../types';
+import { PreviewLogEntry } from './previewRuntime';
+
+/**
+ * Auto-fix
+ * Opt-in loop on code nodes: when the preview settles with runtime errors, they are sent with the
+ * node's files to CodeNest as an update, the fix is applied, and the new preview is checked again,
+ * up to `maxAttempts` times. A clean run ends the loop and resets the attempt count.
+ */
+
+export const DEFAULT_FIX_ATTEMPTS = 3;
+
+// Errors shown in a fix prompt; the first ones are usually the cause of the rest
+const MAX_REPORTED_ERRORS = 8;
+
+export const enableAutoFix = (enabled: boolean, maxAttempts = DEFAULT_FIX_ATTEMPTS): AutoFixState =>
+    ({ enabled, maxAttempts, attempts: 0 });
+
+/**
+ * Uncaught errors, unhandled rejections and `console.error` calls count as failures of a preview run.
+ */
+export const isRuntimeError = (entry: PreviewLogEntry) => entry.level === 'error';
+
+export const describeError = (error: PreviewLogEntry) => {
+    const where = error.source ? ` (${error.source.file}:${error.source.line}${error.source.column ? `:${error.source.column}` : ''})` : '';
+    return `${error.message}${where}`;
+};
+
+/**
+ * Distinct errors, in the order they first occurred.
+ */
+const distinct = (errors: PreviewLogEntry[]) => Array.from(new Set(errors.map(describeError))).slice(0, MAX_REPORTED_ERRORS);
+
+/**
+ * What to do with a settled preview run.
+ */
+export const nextFixStep = (fix: AutoFixState | undefined, errors: PreviewLogEntry[]): 'attempt' | 'fixed' | 'give-up' | null => {
+    if (!fix?.enabled || fix.status === 'fixing') return null;
+    if (errors.length === 0) return fix.attempts > 0 ? 'fixed' : null;
+    if (fix.attempts < fix.maxAttempts) return 'attempt';
+    return fix.status === 'gave-up' ? null : 'give-up';
+};
+
+/**
+ * The update request sent to CodeNest. The node's files reach the agent through the node context.
+ */
+export const buildFixPrompt = (node: CanvasNode, errors: PreviewLogEntry[]) => [
+    `The preview of "${node.title}" (node ${node.id}) fails at runtime with these errors:`,
+    '',
+    ...distinct(errors).map(e => `- ${e}`),
+    '',
+    'Fix the cause of these errors in the existing files. Keep everything else as it is.'
+].join('\n');
+
+/**
+ * Chat log line for an attempt.
+ */
+export const describeAttempt = (node: CanvasNode, attempt: number, maxAttempts: number, errors: PreviewLogEntry[]) => [
+    `:::LOG::: **Auto-fix ${attempt}/${maxAttempts}**`,
+    '',
+    `[[node:${node.id}|${node.title}]] failed in the preview:`,
+    ...distinct(errors).map(e => `- \`${e.replace(/`/g, "'")}\``)
+].join('\n');
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { CanvasFile } from '../types';
+import { applyCodeEdits, parseCodeEdits, rebaseProposal } from './codeEdits';
+
+const files = (contents: Record<string, string>): Record<string, CanvasFile> =>
+    Object.fromEntries(Object.entries(contents).map(([name, content]) => [name, { name, content, language: name.split('.').pop()! }]));
+
+const contents = (result: Record<string, CanvasFile>) =>
+    Object.fromEntries(Object.entries(result).map(([name, f]) => [name, f.content]));
+
+const edit = (search: string, replace: string) => `<<<<<<< SEARCH\n${search}\n=======\n${replace}\n>>>>>>> REPLACE\n`;
+
+const SCRIPT = 'function add(a, b) {\n    return a + b;\n}\n\nfunction sub(a, b) {\n    return a - b;\n}\n';
+
+describe('parseCodeEdits', () => {
+    it('splits sections by file and reads search/replace blocks', () => {
+        const text = 'Sure, here you go.\n### FILE: script.js\n' + edit('a', 'b') + edit('c', 'd') + '### FILE: src/new.css\nbody {}\n\n\n';
+        expect(parseCodeEdits(text)).toEqual([
+            { file: 'script.js', blocks: [{ search: 'a', replace: 'b' }, { search: 'c', replace: 'd' }] },
+            { file: 'src/new.css', blocks: [], content: 'body {}\n' },
+        ]);
+    });
+
+    it('accepts CRLF line endings and empty replacements', () => {
+        const text = '### FILE: a.js\r\n<<<<<<< SEARCH\r\nremove me\r\n=======\r\n>>>>>>> REPLACE\r\n';
+        expect(parseCodeEdits(text)).toEqual([{ file: 'a.js', blocks: [{ search: 'remove me', replace: '' }] }]);
+    });
+
+    it('returns nothing without a file marker', () => {
+        expect(parseCodeEdits(edit('a', 'b'))).toEqual([]);
+    });
+});
+
+describe('applyCodeEdits', () => {
+    it('replaces a unique match and lists the changed file', () => {
+        const current = files({ 'script.js': SCRIPT, 'index.html': '<p></p>\n' });
+        const result = applyCodeEdits(current, parseCodeEdits('### FILE: script.js\n' + edit('    return a - b;', '    return b - a;')));
+        expect(result.failures).toEqual([]);
+        expect(result.changed).toEqual(['script.js']);
+        expect(result.files['script.js'].content).toBe(SCRIPT.replace('a - b', 'b - a'));
+        expect(result.files['index.html']).toBe(current['index.html']);
+    });
+
+    it('falls back to matching trimmed lines when indentation differs', () => {
+        const result = applyCodeEdits(files({ 'script.js': SCRIPT }), parseCodeEdits('### FILE: script.js\n' + edit('function sub(a, b) {\n  return a - b;', 'function sub(a, b) {\n    return a - b - 0;')));
+        expect(result.failures).toEqual([]);
+        expect(result.files['script.js'].content).toContain('return a - b - 0;\n}');
+    });
+
+    it('refuses an ambiguous search and leaves the file alone', () => {
+        const current = files({ 'script.js': SCRIPT });
+        const result = applyCodeEdits(current, parseCodeEdits('### FILE: script.js\n' + edit('}', '};')));
+        expect(result.failures).toEqual([{ file: 'script.js', reason: 'ambiguous', search: '}' }]);
+        expect(result.files['script.js']).toBe(current['script.js']);
+        expect(result.changed).toEqual([]);
+    });
+
+    it('does not match text inside a longer line', () => {
+        const result = applyCodeEdits(files({ 'a.js': 'const total = a + b;\n' }), parseCodeEdits('### FILE: a.js\n' + edit('a + b', 'a * b')));
+        expect(result.failures).toEqual([{ file: 'a.js', reason: 'not_found', search: 'a + b' }]);
+    });
+
+    it('reports a search that is no longer in the file', () => {
+        const result = applyCodeEdits(files({ 'script.js': SCRIPT }), parseCodeEdits('### FILE: script.js\n' + edit('function mul(a, b) {', 'function times(a, b) {')));
+        expect(result.failures[0]).toMatchObject({ file: 'script.js', reason: 'not_found' });
+    });
+
+    it('applies blocks in order and fails the file when a later block overlaps an earlier one', () => {
+        const current = files({ 'script.js': SCRIPT });
+        const text = '### FILE: script.js\n' + edit('function add(a, b) {', 'function plus(a, b) {') + edit('function add(a, b) {\n    return a + b;', 'function add(a, b) {\n    return b + a;');
+        const result = applyCodeEdits(current, parseCodeEdits(text));
+        expect(result.failures).toMatchObject([{ file: 'script.js', reason: 'not_found' }]);
+        expect(result.files['script.js']).toBe(current['script.js']);
+
+        const sequential = '### FILE: script.js\n' + edit('function add(a, b) {', 'function plus(a, b) {') + edit('function plus(a, b) {\n    return a + b;', 'function plus(a, b) {\n    return b + a;');
+        expect(applyCodeEdits(current, parseCodeEdits(sequential)).files['script.js'].content).toBe(SCRIPT.replace('add(a, b) {\n    return a + b', 'plus(a, b) {\n    return b + a'));
+    });
+
+    it('keeps other files when one file fails', () => {
+        const text = '### FILE: a.js\n' + edit('x', 'y') + '### FILE: b.js\n' + edit('nope', 'y');
+        const result = applyCodeEdits(files({ 'a.js': 'x\n', 'b.js': 'z\n' }), parseCodeEdits(text));
+        expect(contents(result.files)).toEqual({ 'a.js': 'y\n', 'b.js': 'z\n' });
+        expect(result.changed).toEqual(['a.js']);
+        expect(result.failures).toMatchObject([{ file: 'b.js', reason: 'not_found' }]);
+    });
+
+    it('creates files from whole sections or appending blocks, but not from searches', () => {
+        const text = '### FILE: new.js\nexport {};\n### FILE: log.txt\n' + edit('', 'first') + '### FILE: ghost.js\n' + edit('a', 'b');
+        const result = applyCodeEdits({}, parseCodeEdits(text));
+        expect(contents(result.files)).toEqual({ 'new.js': 'export {};\n', 'log.txt': 'first' });
+        expect(result.files['new.js'].language).toBe('js');
+        expect(result.failures).toEqual([{ file: 'ghost.js', reason: 'missing_file' }]);
+    });
+
+    it('reports a response without edits', () => {
+        expect(applyCodeEdits(files({ 'a.js': '' }), []).failures).toEqual([{ file: '', reason: 'no_edits' }]);
+    });
+});
+
+describe('rebaseProposal', () => {
+    const base = files({ 'a.js': 'a1', 'b.js': 'b1', 'old.js': 'o1' });
+    const proposed = files({ 'a.js': 'a2', 'b.js': 'b1', 'new.js': 'n1' });
+
+    it('keeps changes the user made to files the proposal did not touch', () => {
+        const current = files({ 'a.js': 'a1', 'b.js': 'b-user', 'old.js': 'o1', 'user.js': 'u' });
+        const { files: result, conflicts } = rebaseProposal(base, proposed, current);
+        expect(conflicts).toEqual([]);
+        expect(contents(result)).toEqual({ 'a.js': 'a2', 'b.js': 'b-user', 'new.js': 'n1', 'user.js': 'u' });
+    });
+
+    it('flags files that changed both in the proposal and since', () => {
+        const current = files({ 'a.js': 'a-user', 'b.js': 'b1', 'old.js': 'o-user' });
+        expect(rebaseProposal(base, proposed, current).conflicts).toEqual(['a.js', 'old.js']);
+    });
+
+    it('is not a conflict when the user already made the same change', () => {
+        const current = files({ 'a.js': 'a2', 'b.js': 'b1', 'old.js': 'o1' });
+        const { files: result, conflicts } = rebaseProposal(base, proposed, current);
+        expect(conflicts).toEqual([]);
+        expect(contents(result)).toEqual({ 'a.js': 'a2', 'b.js': 'b1', 'new.js': 'n1' });
+    });
+
+    it('flags a file the user created under a name the proposal adds', () => {
+        const current = files({ ...contents(base), 'new.js': 'mine' });
+        expect(rebaseProposal(base, proposed, current).conflicts).toEqual(['new.js']);
+    });
+});
@@ -0,0 +1,168 @@
+
+import { CanvasFile } from '../types';
+
+/**
+ * Code Edits
+ * Code updates come back as search/replace blocks under each `### FILE:` marker instead of whole
+ * files. A section without blocks is the complete content of that file (new files, or a file the
+ * agent chose to rewrite). Edits are applied to the node's current files; anything that doesn't
+ * apply cleanly is reported so the caller can fall back to a full rewrite.
+ */
+
+export interface SearchReplace {
+    search: string;
+    replace: string;
+}
+
+export interface FileEdit {
+    file: string;
+    blocks: SearchReplace[];
+    content?: string; // Whole-file content when the section had no blocks
+}
+
+export interface EditFailure {
+    file: string;
+    reason: 'no_edits' | 'missing_file' | 'not_found' | 'ambiguous';
+    search?: string;
+}
+
+export interface EditResult {
+    files: Record<string, CanvasFile>;
+    changed: string[];
+    failures: EditFailure[];
+}
+
+const FILE_MARKER = /^###[ \t]*FILE:[ \t]*(\S+)[ \t]*$/gm;
+const BLOCK = /<<<<<<< SEARCH\n([\s\S]*?)\n?=======\n([\s\S]*?)\n?>>>>>>> REPLACE/g;
+
+/**
+ * Split a streamed edit response into per-file edits. Text before the first marker is ignored.
+ */
+export const parseCodeEdits = (text: string): FileEdit[] => {
+    const normalized = text.replace(/\r\n/g, '\n');
+    const markers = Array.from(normalized.matchAll(FILE_MARKER));
+    return markers.map((marker, i) => {
+        const start = marker.index! + marker[0].length;
+        const end = i + 1 < markers.length ? markers[i + 1].index! : normalized.length;
+        const section = normalized.substring(start, end).replace(/^\n/, '');
+        const blocks = Array.from(section.matchAll(BLOCK)).map(m => ({ search: m[1], replace: m[2] }));
+        return blocks.length > 0
+            ? { file: marker[1], blocks }
+            : { file: marker[1], blocks, content: section.replace(/\n+$/, '\n') };
+    });
+};
+
+// Where `search` occurs as whole lines (a match inside an indented line would misplace the replacement)
+const findExact = (text: string, search: string) => {
+    const found: number[] = [];
+    for (let i = text.indexOf(search); i !== -1; i = text.indexOf(search, i + 1)) {
+        const end = i + search.length;
+        const atLineStart = i === 0 || text[i - 1] === '\n';
+        const atLineEnd = end === text.length || text[end] === '\n' || search.endsWith('\n');
+        if (atLineStart && atLineEnd) found.push(i);
+    }
+    return found;
+};
+
+/**
+ * Whitespace-tolerant match: compare trimmed lines, so an edit with different indentation or
+ * trailing spaces still finds its place. Returns the line range, or the number of matches if not exactly one.
+ */
+const findLoose = (lines: string[], search: string): { start: number; end: number } | number => {
+    const needle = search.split('\n').map(l => l.trim());
+    while (needle.length && !needle[0]) needle.shift();
+    while (needle.length && !needle[needle.length - 1]) needle.pop();
+    if (needle.length === 0) return 0;
+
+    const matches: number[] = [];
+    for (let i = 0; i + needle.length <= lines.length; i++) {
+        if (needle.every((l, k) => lines[i + k].trim() === l)) matches.push(i);
+    }
+    return matches.length === 1 ? { start: matches[0], end: matches[0] + needle.length } : matches.length;
+};
+
+const applyBlock = (content: string, block: SearchReplace): { content: string } | { reason: EditFailure['reason'] } => {
+    // An empty search appends
+    if (!block.search.trim()) return { content: content + (content && !content.endsWith('\n') ? '\n' : '') + block.replace };
+
+    const exact = findExact(content, block.search);
+    if (exact.length === 1) return { content: content.substring(0, exact[0]) + block.replace + content.substring(exact[0] + block.search.length) };
+    if (exact.length > 1) return { reason: 'ambiguous' };
+
+    const lines = content.split('\n');
+    const loose = findLoose(lines, block.search);
+    if (typeof loose === 'number') return { reason: loose > 1 ? 'ambiguous' : 'not_found' };
+    return { content: [...lines.slice(0, loose.start), block.replace, ...lines.slice(loose.end)].join('\n') };
+};
+
+/**
+ * Apply parsed edits to a node's files. The result always holds every file; `changed` lists the
+ * ones whose content differs afterwards.
+ */
+export const applyCodeEdits = (current: Record<string, CanvasFile>, edits: FileEdit[]): EditResult => {
+    const files = { ...current };
+    const failures: EditFailure[] = [];
+    if (edits.length === 0) failures.push({ file: '', reason: 'no_edits' });
+
+    edits.forEach(edit => {
+        const existing = files[edit.file];
+        if (edit.content !== undefined) {
+            files[edit.file] = existing
+                ? { ...existing, content: edit.content }
+                : { name: edit.file, content: edit.content, language: edit.file.split('.').pop() || 'txt' };
+            return;
+        }
+        if (!existing && edit.blocks.some(b => b.search.trim())) {
+            failures.push({ file: edit.file, reason: 'missing_file' });
+            return;
+        }
+        let content = existing?.content || '';
+        for (const block of edit.blocks) {
+            const applied = applyBlock(content, block);
+            if ('reason' in applied) {
+                failures.push({ file: edit.file, reason: applied.reason, search: block.search });
+                return;
+            }
+            content = applied.content;
+        }
+        files[edit.file] = existing
+            ? { ...existing, content }
+            : { name: edit.file, content, language: edit.file.split('.').pop() || 'txt' };
+    });
+
+    const changed = Object.keys(files).filter(name => files[name].content !== current[name]?.content);
+    return { files, changed, failures };
+};
+
+/**
+ * Carry a proposal made against `base` over to the node's `current` files: files the proposal changed
+ * or removed come from it, the rest stay as they are now. Files that also changed since the proposal
+ * (to something else) are conflicts; the caller should not apply the result then.
+ */
+export const rebaseProposal = (
+    base: Record<string, CanvasFile>,
+    proposed: Record<string, CanvasFile>,
+    current: Record<string, CanvasFile>
+): { files: Record<string, CanvasFile>; conflicts: string[] } => {
+    const touched = Array.from(new Set([...Object.keys(base), ...Object.keys(proposed)]))
+        .filter(name => base[name]?.content !== proposed[name]?.content);
+    const conflicts = touched.filter(name => current[name]?.content !== base[name]?.content && current[name]?.content !== proposed[name]?.content);
+    const files = { ...current };
+    touched.forEach(name => {
+        if (proposed[name]) files[name] = proposed[name];
+        else delete files[name];
+    });
+    return { files, conflicts };
+};
+
+/**
+ * Short, user-facing reason for a failed edit.
+ */
+export const describeFailure = (failure: EditFailure) => {
+    switch (failure.reason) {
+        case 'no_edits': return 'no edits in the response';
+        case 'missing_file': return `${failure.file} does not exist`;
+        case 'ambiguous': return `a change to ${failure.file} matches more than one place`;
+        default: return `a change to ${failure.file} no longer matches the file`;
+    }
+};
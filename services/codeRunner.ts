@@ -0,0 +1,466 @@
+
+import { CanvasFile, RunOutput } from '../types';
+import { basename } from './fileTree';
+import { PREVIEW_SANDBOX, SourceLocation, cleanCode } from './previewRuntime';
+
+/**
+ * Code Runner
+ * Runs scripts that aren't web pages: JavaScript in a Worker, Python in a Worker with Pyodide (CPython
+ * compiled to WebAssembly, loaded from the CDN on first use). The workers are started from a hidden
+ * frame with the same sandbox as previews, so scripts get an opaque origin; stopping a run removes the
+ * frame, which also ends an endless loop. Besides stdout/stderr, scripts can produce tables and images
+ * (`display(value)`, `console.table`, matplotlib figures, pandas frames).
+ */
+
+export const PYODIDE_URL = (process.env.PYODIDE_URL || 'https://cdn.jsdelivr.net/pyodide/v0.26.4/full/').replace(/\/?$/, '/');
+
+export type RunLanguage = 'javascript' | 'python';
+
+export interface RunRequest {
+    language: RunLanguage;
+    files: Record<string, CanvasFile>; // Readable by Python scripts (and importable as modules)
+    file: string; // Name errors are reported against
+    code: string;
+    reset?: boolean; // Start from a clean global scope instead of the previous run's
+}
+
+export interface RunResult {
+    status: 'ok' | 'error' | 'stopped';
+    outputs: RunOutput[];
+    duration: number;
+}
+
+export interface RunCallbacks {
+    onOutput?: (output: RunOutput) => void;
+    onStatus?: (status: string) => void; // Runtime and package loading
+}
+
+const LANGUAGES: Record<string, RunLanguage> = {
+    js: 'javascript', mjs: 'javascript', cjs: 'javascript', javascript: 'javascript',
+    py: 'python', python: 'python'
+};
+
+const MAIN_FILES = ['main.py', '__main__.py', 'app.py', 'main.js', 'script.js', 'index.js'];
+
+export const runLanguageOf = (file?: CanvasFile): RunLanguage | null => {
+    if (!file) return null;
+    const extension = basename(file.name).includes('.') ? basename(file.name).split('.').pop()!.toLowerCase() : '';
+    return LANGUAGES[extension] || (extension ? null : LANGUAGES[file.language?.toLowerCase()]) || null;
+};
+
+/**
+ * The file a Run starts from: the open file if it is a script, else a main file, else the only script.
+ */
+export const findRunEntry = (files: Record<string, CanvasFile>, activeFile?: string): string | null => {
+    if (activeFile && runLanguageOf(files[activeFile])) return activeFile;
+    const scripts = Object.keys(files).filter(path => runLanguageOf(files[path]));
+    return MAIN_FILES.map(name => scripts.find(path => path === name)).find(Boolean)
+        || (scripts.length === 1 ? scripts[0] : null);
+};
+
+/**
+ * Consecutive stream chunks of the same kind merged into one output.
+ */
+export const appendOutput = (outputs: RunOutput[], output: RunOutput): RunOutput[] => {
+    const last = outputs[outputs.length - 1];
+    if (output.type === 'stream' && last?.type === 'stream' && last.name === output.name) {
+        return [...outputs.slice(0, -1), { ...last, text: last.text + output.text }];
+    }
+    return [...outputs, output];
+};
+
+// Plain-text form of outputs, for the chat and for text nodes
+export const outputText = (output: RunOutput): string => {
+    switch (output.type) {
+        case 'stream': case 'result': return output.text;
+        case 'error': return output.message;
+        case 'image': return '';
+        case 'table': {
+            const escape = (cell: string) => cell.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+            return [
+                `| ${output.columns.map(escape).join(' | ')} |`,
+                `| ${output.columns.map(() => '---').join(' | ')} |`,
+                ...output.rows.map(row => `| ${row.map(escape).join(' | ')} |`)
+            ].join('\n');
+        }
+    }
+};
+
+// --- Sandbox ---
+
+// Shared by both workers: value formatting and stack positions. Kept dependency-free and ES5-ish.
+const WORKER_COMMON = `
+var current = null;
+var sources = {};
+function post(type, data) { data = data || {}; data.type = type; data.id = current; postMessage(data); }
+function text(value) {
+  if (typeof value === 'string') return value;
+  if (Object.prototype.toString.call(value) === '[object Error]') return (value.name || 'Error') + ': ' + value.message;
+  if (typeof value === 'function') return 'function ' + (value.name || '(anonymous)') + '()';
+  if (value === undefined) return 'undefined';
+  var seen = [];
+  try {
+    return JSON.stringify(value, function (key, v) {
+      if (typeof v === 'bigint') return v.toString() + 'n';
+      if (v && typeof v === 'object') { if (seen.indexOf(v) >= 0) return '[Circular]'; seen.push(v); }
+      return v;
+    });
+  } catch (e) { return String(value); }
+}
+function locate(stack) {
+  var lines = String(stack || '').split('\\n');
+  for (var i = 0; i < lines.length; i++) {
+    var m = /(blob:[^\\s()@]+?):(\\d+):(\\d+)/.exec(lines[i]);
+    if (m && sources[m[1]]) return { file: sources[m[1]], line: +m[2], column: +m[3] };
+  }
+  return undefined;
+}
+function fail(error) {
+  post('output', { output: { type: 'error', message: text(error), source: error ? locate(error.stack) : undefined } });
+}
+`;
+
+const MAX_ROWS = 200;
+
+const JS_WORKER = `${WORKER_COMMON}
+var pending = [];
+function table(rows) {
+  var list = Array.isArray(rows) ? rows : Object.keys(rows).map(function (k) { return rows[k]; });
+  var keys = Array.isArray(rows) ? list.map(function (_, i) { return String(i); }) : Object.keys(rows);
+  var columns = [];
+  list.forEach(function (row) {
+    if (row && typeof row === 'object') Object.keys(row).forEach(function (c) { if (columns.indexOf(c) < 0) columns.push(c); });
+  });
+  var primitive = list.some(function (row) { return !row || typeof row !== 'object'; });
+  return {
+    type: 'table',
+    columns: ['(index)'].concat(columns, primitive ? ['Value'] : []),
+    rows: list.slice(0, ${MAX_ROWS}).map(function (row, i) {
+      var cells = columns.map(function (c) { return row && typeof row === 'object' && c in row ? text(row[c]) : ''; });
+      return [keys[i]].concat(cells, primitive ? [row && typeof row === 'object' ? '' : text(row)] : []);
+    }),
+    truncated: list.length > ${MAX_ROWS}
+  };
+}
+function image(blob) {
+  return new Promise(function (resolve) {
+    var reader = new FileReader();
+    reader.onload = function () { resolve({ type: 'image', url: reader.result }); };
+    reader.readAsDataURL(blob);
+  });
+}
+function rich(value) {
+  if (typeof OffscreenCanvas !== 'undefined' && value instanceof OffscreenCanvas) return value.convertToBlob().then(image);
+  if (typeof Blob !== 'undefined' && value instanceof Blob && /^image\\//.test(value.type)) return image(value);
+  if (typeof value === 'string' && /^data:image\\//.test(value)) return { type: 'image', url: value };
+  if (Array.isArray(value) && value.length && value.every(function (r) { return r && typeof r === 'object'; })) return table(value);
+  return { type: 'result', text: text(value) };
+}
+self.display = function () {
+  var id = current;
+  Array.prototype.slice.call(arguments).forEach(function (value) {
+    pending.push(Promise.resolve(rich(value)).then(function (output) { postMessage({ type: 'output', id: id, output: output }); }, fail));
+  });
+};
+['log', 'info', 'debug', 'warn', 'error'].forEach(function (level) {
+  console[level] = function () {
+    var args = Array.prototype.slice.call(arguments);
+    post('output', { output: { type: 'stream', name: level === 'warn' || level === 'error' ? 'stderr' : 'stdout', text: args.map(text).join(' ') + '\\n' } });
+  };
+});
+console.table = function (rows) {
+  if (rows && typeof rows === 'object') post('output', { output: table(rows) });
+  else console.log(rows);
+};
+self.addEventListener('error', function (e) { e.preventDefault(); fail(e.error || e.message); });
+self.addEventListener('unhandledrejection', function (e) { e.preventDefault(); fail(e.reason); });
+onmessage = function (e) {
+  var job = e.data;
+  current = job.id;
+  pending = [];
+  // Top-level await needs an async wrapper; without one, top-level declarations stay visible to later runs
+  var wrapped = /\\bawait\\b/.test(job.code);
+  var url = URL.createObjectURL(new Blob([(wrapped ? 'self.__weaverMain = (async function () {' : '') + job.code + (wrapped ? '\\n})();' : '')], { type: 'text/javascript' }));
+  sources[url] = job.file;
+  var ok = true;
+  Promise.resolve().then(function () {
+    self.__weaverMain = undefined;
+    importScripts(url);
+    return self.__weaverMain;
+  }).catch(function (error) { ok = false; fail(error); }).then(function () {
+    return Promise.all(pending);
+  }).then(function () { post('done', { ok: ok }); });
+};
+`;
+
+// Runs once per Python worker, before the first script
+const PYTHON_PRELUDE = `
+import builtins, importlib, sys, os, io, json, base64, traceback, warnings
+from pyodide.code import eval_code_async
+import js
+
+warnings.filterwarnings('ignore', message='.*non-interactive.*')
+_HOME = os.getcwd() + '/'
+if os.getcwd() not in sys.path:
+    sys.path.insert(0, os.getcwd())
+
+def _emit(output):
+    js.weaverEmit(json.dumps(output))
+
+def _table(columns, rows, truncated):
+    return {'type': 'table', 'columns': [str(c) for c in columns], 'rows': [[str(v) for v in row] for row in rows], 'truncated': truncated}
+
+def _png(save):
+    buffer = io.BytesIO()
+    save(buffer)
+    return {'type': 'image', 'url': 'data:image/png;base64,' + base64.b64encode(buffer.getvalue()).decode()}
+
+def _rich(value):
+    if hasattr(value, 'to_frame') and not hasattr(value, 'columns'):
+        value = value.to_frame()
+    if hasattr(value, 'columns') and hasattr(value, 'itertuples'):
+        head = value.head(${MAX_ROWS})
+        rows = [[index, *row] for index, row in zip(head.index, head.itertuples(index=False))]
+        return _table([head.index.name or ''] + list(head.columns), rows, len(value) > ${MAX_ROWS})
+    if hasattr(value, 'savefig'):
+        return _png(lambda b: value.savefig(b, format='png', bbox_inches='tight'))
+    if hasattr(value, 'save') and hasattr(value, 'mode') and hasattr(value, 'size'):
+        return _png(lambda b: value.save(b, format='PNG'))
+    if isinstance(value, (list, tuple)) and value and all(isinstance(row, dict) for row in value):
+        columns = list(dict.fromkeys(key for row in value for key in row))
+        return _table(columns, [[row.get(c, '') for c in columns] for row in value[:${MAX_ROWS}]], len(value) > ${MAX_ROWS})
+    return {'type': 'result', 'text': repr(value)}
+
+def display(*values):
+    for value in values:
+        _emit(_rich(value))
+
+builtins.display = display
+
+def _show_figures():
+    plt = sys.modules.get('matplotlib.pyplot')
+    if plt is None:
+        return
+    for number in plt.get_fignums():
+        display(plt.figure(number))
+    plt.close('all')
+
+def _relative(path):
+    return path[len(_HOME):] if path and path.startswith(_HOME) else path
+
+def _report(error):
+    syntax = isinstance(error, SyntaxError)
+    frames = [] if syntax else [f for f in traceback.extract_tb(error.__traceback__) if not f.filename.startswith(('/lib/', '<'))]
+    message = ''.join((['Traceback (most recent call last):\\n'] + traceback.format_list(frames) if frames else []) + traceback.format_exception_only(type(error), error)).rstrip()
+    if syntax and error.filename and error.lineno:
+        where = (error.filename, error.lineno)
+    else:
+        where = (frames[-1].filename, frames[-1].lineno) if frames else (None, None)
+    _emit({'type': 'error', 'message': message.replace(_HOME, ''), 'file': _relative(where[0]), 'line': where[1]})
+
+_namespace = {}
+
+def _reset():
+    global _namespace
+    _namespace = {'__name__': '__main__'}
+    for name, module in list(sys.modules.items()):
+        if (getattr(module, '__file__', None) or '').startswith(_HOME):
+            del sys.modules[name]
+
+_reset()
+
+async def _run(code, filename):
+    importlib.invalidate_caches()
+    try:
+        result = await eval_code_async(code, _namespace, filename=filename)
+        if result is not None:
+            display(result)
+        return True
+    except SystemExit as error:
+        if error.code:
+            _report(error)
+        return not error.code
+    except BaseException as error:
+        _report(error)
+        return False
+    finally:
+        _show_figures()
+`;
+
+const PYTHON_WORKER = `${WORKER_COMMON}
+var pyodide = null;
+var loading = null;
+var queue = Promise.resolve();
+self.weaverEmit = function (json) { post('output', { output: JSON.parse(json) }); };
+function load() {
+  if (!loading) loading = (async function () {
+    post('status', { text: 'Loading Python...' });
+    importScripts(${JSON.stringify(PYODIDE_URL)} + 'pyodide.js');
+    pyodide = await loadPyodide({ indexURL: ${JSON.stringify(PYODIDE_URL)}, env: { MPLBACKEND: 'AGG' } });
+    pyodide.setStdout({ batched: function (s) { post('output', { output: { type: 'stream', name: 'stdout', text: s + '\\n' } }); } });
+    pyodide.setStderr({ batched: function (s) { post('output', { output: { type: 'stream', name: 'stderr', text: s + '\\n' } }); } });
+    pyodide.setStdin({ error: true });
+    await pyodide.runPythonAsync(${JSON.stringify(PYTHON_PRELUDE)});
+  })();
+  return loading;
+}
+// Node files go to the working directory, so scripts can open them and import each other
+function write(files) {
+  Object.keys(files).forEach(function (path) {
+    var content = files[path].content;
+    var folder = path.split('/').slice(0, -1).join('/');
+    if (folder) pyodide.FS.mkdirTree(folder);
+    var data = /^data:[^,]*;base64,/.test(content)
+      ? Uint8Array.from(atob(content.slice(content.indexOf(',') + 1)), function (c) { return c.charCodeAt(0); })
+      : content;
+    pyodide.FS.writeFile(path, data);
+  });
+}
+async function run(job) {
+  current = job.id;
+  var ok = false;
+  try {
+    await load();
+    write(job.files);
+    var scripts = Object.keys(job.files).filter(function (p) { return /\\.py$/.test(p); }).map(function (p) { return job.files[p].content; });
+    await pyodide.loadPackagesFromImports(scripts.concat([job.code]).join('\\n'), {
+      messageCallback: function (m) { if (/^Loading /.test(m)) post('status', { text: m }); },
+      errorCallback: function (m) { post('output', { output: { type: 'stream', name: 'stderr', text: m + '\\n' } }); }
+    });
+    if (job.reset) pyodide.globals.get('_reset')();
+    post('status', { text: '' });
+    ok = await pyodide.globals.get('_run')(job.code, job.file);
+  } catch (error) {
+    fail(error);
+  }
+  post('done', { ok: ok });
+}
+onmessage = function (e) { var job = e.data; queue = queue.then(function () { return run(job); }); };
+`;
+
+// The frame's own script: starts a worker per language and relays messages with the studio
+const hostScript = (token: string) => `(function () {
+var token = ${JSON.stringify(token)};
+var code = { javascript: ${JSON.stringify(JS_WORKER)}, python: ${JSON.stringify(PYTHON_WORKER)} };
+var workers = {};
+function send(message) { parent.postMessage({ weaverRun: { token: token, message: message } }, '*'); }
+function worker(language, reset) {
+  // A clean JavaScript scope needs a new worker; Python resets its namespace itself
+  if (reset && language === 'javascript' && workers[language]) { workers[language].terminate(); delete workers[language]; }
+  if (!workers[language]) {
+    var w = workers[language] = new Worker(URL.createObjectURL(new Blob([code[language]], { type: 'text/javascript' })));
+    w.onmessage = function (e) { send(e.data); };
+    w.onerror = function (e) { e.preventDefault(); send({ type: 'crash', message: e.message || 'The ' + language + ' runtime failed' }); };
+  }
+  return workers[language];
+}
+addEventListener('message', function (e) {
+  var job = e.data && e.data.weaverRun;
+  if (e.source !== parent || !job || job.token !== token) return;
+  worker(job.language, job.reset).postMessage(job);
+});
+send({ type: 'ready' });
+})();`;
+
+interface ActiveRun {
+    request: RunRequest;
+    callbacks: RunCallbacks;
+    outputs: RunOutput[];
+    started: number;
+    resolve: (result: RunResult) => void;
+}
+
+/**
+ * One sandboxed runtime (a hidden frame with its workers). Runs are queued per language, and state
+ * carries over between runs unless a run asks for `reset`; notebooks rely on this.
+ */
+export class CodeRuntime {
+    private frame: HTMLIFrameElement | null = null;
+    private ready: Promise<void> | null = null;
+    private token = '';
+    private runs = new Map<string, ActiveRun>();
+    private onReady: () => void = () => {};
+    private listener = (e: MessageEvent) => this.receive(e);
+
+    async run(request: RunRequest, callbacks: RunCallbacks = {}): Promise<RunResult> {
+        await this.start();
+        const id = `run-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+        return new Promise(resolve => {
+            this.runs.set(id, { request, callbacks, outputs: [], started: Date.now(), resolve });
+            this.frame?.contentWindow?.postMessage({
+                weaverRun: { token: this.token, id, language: request.language, files: request.files, file: request.file, code: cleanCode(request.code), reset: request.reset }
+            }, '*');
+        });
+    }
+
+    /**
+     * End all runs (including endless loops) and drop the runtime's state. The next run starts a new one.
+     */
+    stop() {
+        window.removeEventListener('message', this.listener);
+        this.frame?.remove();
+        this.frame = null;
+        this.ready = null;
+        this.runs.forEach(run => run.resolve({ status: 'stopped', outputs: run.outputs, duration: Date.now() - run.started }));
+        this.runs.clear();
+    }
+
+    get isRunning() {
+        return this.runs.size > 0;
+    }
+
+    private start() {
+        if (this.ready) return this.ready;
+        this.token = Math.random().toString(36).slice(2);
+        const frame = document.createElement('iframe');
+        frame.setAttribute('sandbox', PREVIEW_SANDBOX);
+        frame.setAttribute('aria-hidden', 'true');
+        frame.style.display = 'none';
+        frame.srcdoc = `<!DOCTYPE html><html><head><meta charset="utf-8"><script>${hostScript(this.token)}</script></head><body></body></html>`;
+        this.frame = frame;
+        this.ready = new Promise<void>(resolve => { this.onReady = resolve; });
+        window.addEventListener('message', this.listener);
+        document.body.appendChild(frame);
+        return this.ready;
+    }
+
+    private receive(e: MessageEvent) {
+        const payload = e.data?.weaverRun;
+        if (!this.frame || e.source !== this.frame.contentWindow || payload?.token !== this.token) return;
+        const message = payload.message;
+        if (message.type === 'ready') return this.onReady();
+        if (message.type === 'crash') {
+            // Uncaught in the worker itself: fail whatever is running
+            this.runs.forEach((run, id) => this.finish(id, run, false, { type: 'error', message: message.message }));
+            return;
+        }
+
+        const run = this.runs.get(message.id);
+        if (!run) return;
+        if (message.type === 'status') run.callbacks.onStatus?.(message.text);
+        else if (message.type === 'output') {
+            const output = this.toOutput(message.output, run.request);
+            run.outputs = appendOutput(run.outputs, output);
+            run.callbacks.onOutput?.(output);
+        } else if (message.type === 'done') this.finish(message.id, run, message.ok);
+    }
+
+    private finish(id: string, run: ActiveRun, ok: boolean, error?: RunOutput) {
+        if (error) {
+            run.outputs = appendOutput(run.outputs, error);
+            run.callbacks.onOutput?.(error);
+        }
+        this.runs.delete(id);
+        run.callbacks.onStatus?.('');
+        run.resolve({ status: ok ? 'ok' : 'error', outputs: run.outputs, duration: Date.now() - run.started });
+    }
+
+    // Error positions from Python arrive as file + line; keep them only if they point into the node
+    private toOutput(raw: any, request: RunRequest): RunOutput {
+        if (raw.type !== 'error') return raw as RunOutput;
+        const file = raw.source?.file ?? raw.file;
+        const line = raw.source?.line ?? raw.line;
+        const known = file && line && (file === request.file || request.files[file]);
+        return { type: 'error', message: String(raw.message), source: known ? { file, line, column: raw.source?.column } : undefined };
+    }
+}
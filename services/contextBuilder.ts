@@ -0,0 +1,252 @@
+
+import { CanvasNode, CanvasEdge, CanvasFile } from '../types';
+import { renderNotebook } from './notebook';
+
+/**
+ * Context Builder
+ * Assembles the canvas context sent alongside a prompt. Starting from the active node it walks
+ * the edge graph (both directions) up to `depth` hops and packs node contents into a per-model
+ * token budget, truncating or summarising what doesn't fit.
+ */
+
+export type ContextMode = 'full' | 'truncated' | 'summary' | 'omitted';
+
+export interface ContextEntry {
+    nodeId: string;
+    depth: number;
+    mode: ContextMode;
+    tokens: number;
+}
+
+export interface NodeContext {
+    text: string;
+    tokens: number;
+    budget: number;
+    entries: ContextEntry[];
+    includedNodes: CanvasNode[]; // Everything the agent actually sees (mode !== 'omitted')
+}
+
+export interface ContextOptions {
+    model: string;
+    depth?: number;
+    budgetTokens?: number;
+}
+
+interface ModelProfile {
+    match: RegExp;
+    contextWindow: number;
+    charsPerToken: number;
+}
+
+// Rough per-family figures; only used for budgeting, never for billing
+const MODEL_PROFILES: ModelProfile[] = [
+    { match: /^veo/, contextWindow: 1024, charsPerToken: 4 },
+    { match: /image/, contextWindow: 32768, charsPerToken: 4 },
+    { match: /native-audio|live/, contextWindow: 32768, charsPerToken: 4 },
+    { match: /^gemini/, contextWindow: 1048576, charsPerToken: 4 },
+];
+const DEFAULT_PROFILE: ModelProfile = { match: /.*/, contextWindow: 32768, charsPerToken: 4 };
+
+// Canvas context never takes more than a quarter of the window, and is capped for the large models
+const CONTEXT_WINDOW_SHARE = 0.25;
+const MAX_CONTEXT_TOKENS = 24000;
+const ACTIVE_NODE_SHARE = 0.6;
+const MIN_SLICE_TOKENS = 120;
+
+export const DEFAULT_CONTEXT_DEPTH = 2;
+
+const getProfile = (model: string) => MODEL_PROFILES.find(p => p.match.test(model)) || DEFAULT_PROFILE;
+
+export const estimateTokens = (text: string, model: string): number => {
+    if (!text) return 0;
+    return Math.ceil(text.length / getProfile(model).charsPerToken);
+};
+
+export const getContextBudget = (model: string): number => {
+    return Math.min(MAX_CONTEXT_TOKENS, Math.floor(getProfile(model).contextWindow * CONTEXT_WINDOW_SHARE));
+};
+
+/**
+ * Keep the head and tail of a long text (where imports/definitions and the latest edits usually are).
+ */
+const truncateToTokens = (text: string, maxTokens: number, model: string): string => {
+    const maxChars = maxTokens * getProfile(model).charsPerToken;
+    if (text.length <= maxChars) return text;
+    const head = Math.floor(maxChars * 0.7);
+    const tail = Math.floor(maxChars * 0.3);
+    const dropped = estimateTokens(text.substring(head, text.length - tail), model);
+    return `${text.substring(0, head)}\n[... ~${dropped} tokens truncated ...]\n${text.substring(text.length - tail)}`;
+};
+
+const renderBody = (node: CanvasNode): string => {
+    // Don't put massive base64 strings in context, the router will just see it's an image.
+    if (node.type === 'image') return `[Image Data Available]`;
+    if (node.type === 'video') return `[Video Data Available]`;
+
+    if (node.type === 'notebook') return `Kernel: ${node.language || 'python'}\n${renderNotebook(node.cells || [])}`;
+
+    let body = node.content || '';
+    if (node.type === 'code' && node.files) {
+        Object.values(node.files).forEach((f: CanvasFile) => {
+            body += `${body ? '\n' : ''}File '${f.name}' (${f.language}):\n${f.content}`;
+        });
+    }
+    return body;
+};
+
+const renderSummary = (node: CanvasNode, fullTokens: number): string => {
+    if (node.type === 'notebook') {
+        const cells = node.cells || [];
+        return `[Summary: ${cells.length} cell(s), ${cells.filter(c => c.type === 'code').length} code; ~${fullTokens} tokens not shown]`;
+    }
+    if (node.type === 'code' && node.files) {
+        const names = Object.keys(node.files);
+        return `[Summary: ${names.length} file(s): ${names.join(', ')}; ~${fullTokens} tokens not shown]`;
+    }
+    const firstLine = (node.content || '').split('\n').find(l => l.trim()) || '';
+    return `[Summary: "${firstLine.substring(0, 120).trim()}${firstLine.length > 120 ? '...' : ''}"; ~${fullTokens} tokens not shown]`;
+};
+
+interface Visit {
+    node: CanvasNode;
+    depth: number;
+    relation?: string; // e.g. 'linked from "Spec"'
+}
+
+/**
+ * Breadth-first walk over edges in both directions. Nearer nodes come first.
+ */
+const collectNodes = (nodes: CanvasNode[], edges: CanvasEdge[], rootId: string, maxDepth: number): Visit[] => {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const root = byId.get(rootId);
+    if (!root) return [];
+
+    const visits: Visit[] = [{ node: root, depth: 0 }];
+    const seen = new Set([rootId]);
+    let frontier = [root];
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+        const next: CanvasNode[] = [];
+        frontier.forEach(parent => {
+            edges.forEach(e => {
+                const isSource = e.fromNode === parent.id;
+                if (!isSource && e.toNode !== parent.id) return;
+                const other = byId.get(isSource ? e.toNode : e.fromNode);
+                if (!other || seen.has(other.id)) return;
+                seen.add(other.id);
+                visits.push({ node: other, depth, relation: `${isSource ? 'linked from' : 'links to'} "${parent.title}"` });
+                next.push(other);
+            });
+        });
+        frontier = next;
+    }
+
+    return visits;
+};
+
+/**
+ * Split the budget between nodes (index 0 is the active node).
+ * The active node is reserved a large share; neighbours are water-filled so small nodes get
+ * their full size and large ones share what's left. Whatever remains flows back to the active node.
+ */
+const allocateBudget = (costs: number[], budget: number): number[] => {
+    const allowances = new Array(costs.length).fill(0);
+    if (costs.length === 0) return allowances;
+
+    allowances[0] = Math.min(costs[0], costs.length > 1 ? Math.floor(budget * ACTIVE_NODE_SHARE) : budget);
+    let remaining = budget - allowances[0];
+
+    const order = costs.map((cost, index) => ({ cost, index })).slice(1).sort((a, b) => a.cost - b.cost);
+    order.forEach(({ cost, index }, position) => {
+        const share = Math.floor(remaining / (order.length - position));
+        allowances[index] = Math.min(cost, share);
+        remaining -= allowances[index];
+    });
+
+    allowances[0] = Math.min(costs[0], allowances[0] + remaining);
+    return allowances;
+};
+
+export const buildNodeContext = (
+    nodes: CanvasNode[],
+    edges: CanvasEdge[],
+    activeNodeId: string | null,
+    options: ContextOptions
+): NodeContext => {
+    const { model, depth = DEFAULT_CONTEXT_DEPTH } = options;
+    const budget = options.budgetTokens ?? getContextBudget(model);
+    const empty: NodeContext = { text: '', tokens: 0, budget, entries: [], includedNodes: [] };
+    if (!activeNodeId) return empty;
+
+    const visits = collectNodes(nodes, edges, activeNodeId, Math.max(0, depth));
+    if (visits.length === 0) return empty;
+
+    const candidates = visits.map((visit, index) => {
+        const { node } = visit;
+        const header = index === 0
+            ? `ID: ${node.id}\nTitle: ${node.title}\nType: ${node.type}\nContent:\n`
+            : `### "${node.title}" (ID: ${node.id}, Type: ${node.type}, ${visit.relation})\n`;
+        const body = renderBody(node);
+        const headerTokens = estimateTokens(header, model);
+        return { visit, header, body, headerTokens, cost: headerTokens + estimateTokens(body, model) };
+    });
+    const allowances = allocateBudget(candidates.map(c => c.cost), budget);
+
+    let remaining = budget;
+    const entries: ContextEntry[] = [];
+    const sections: string[] = [];
+
+    candidates.forEach(({ visit, header, body, headerTokens, cost }, index) => {
+        const { node } = visit;
+        const allowance = Math.min(allowances[index], remaining) - headerTokens;
+
+        let mode: ContextMode;
+        let text: string;
+        if (cost - headerTokens <= allowance) {
+            mode = 'full';
+            text = body;
+        } else if (allowance >= MIN_SLICE_TOKENS) {
+            mode = 'truncated';
+            text = truncateToTokens(body, allowance, model);
+        } else {
+            const summary = renderSummary(node, cost - headerTokens);
+            if (headerTokens + estimateTokens(summary, model) <= remaining) {
+                mode = 'summary';
+                text = summary;
+            } else {
+                entries.push({ nodeId: node.id, depth: visit.depth, mode: 'omitted', tokens: 0 });
+                return;
+            }
+        }
+
+        const section = header + text;
+        const tokens = estimateTokens(section, model);
+        remaining = Math.max(0, remaining - tokens);
+        entries.push({ nodeId: node.id, depth: visit.depth, mode, tokens });
+        sections.push(section);
+    });
+
+    // Budget too small to even describe the active node
+    if (entries[0]?.mode === 'omitted') return { ...empty, entries };
+
+    let context = `\n\n--- ACTIVE NODE CONTEXT (User is referencing this) ---\n`;
+    context += sections[0] + '\n';
+    if (sections.length > 1) {
+        context += `\n--- CONNECTED NODES (You can reference these using [[node:ID|Title]]) ---\n`;
+        context += sections.slice(1).join('\n\n') + '\n';
+    }
+    const omitted = entries.filter(e => e.mode === 'omitted').length;
+    if (omitted > 0) {
+        context += `(${omitted} more connected node(s) omitted to fit the context budget)\n`;
+    }
+    context += `--- END CONTEXT ---\n`;
+
+    const included = new Set(entries.filter(e => e.mode !== 'omitted').map(e => e.nodeId));
+    return {
+        text: context,
+        tokens: estimateTokens(context, model),
+        budget,
+        entries,
+        includedNodes: visits.map(v => v.node).filter(n => included.has(n.id))
+    };
+};
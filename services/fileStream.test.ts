@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { FileStreamParser, FileStreamEvent } from './fileStream';
+
+// Chunk boundaries change how text is split across events, not what it says: merge adjacent text
+const normalize = (events: FileStreamEvent[]) => events.reduce<FileStreamEvent[]>((out, event) => {
+    const last = out[out.length - 1];
+    if (event.type === 'chunk' && last?.type === 'chunk' && last.path === event.path) {
+        out[out.length - 1] = { ...last, text: last.text + event.text };
+    } else if (event.type === 'prose' && last?.type === 'prose') {
+        out[out.length - 1] = { ...last, text: last.text + event.text };
+    } else {
+        out.push(event);
+    }
+    return out;
+}, []);
+
+const parse = (chunks: string[], initialFile?: string) => {
+    const parser = new FileStreamParser(initialFile);
+    const events = chunks.flatMap(chunk => parser.push(chunk));
+    return normalize([...events, ...parser.end()]);
+};
+
+const MULTI_FILE = [
+    'Here is the app.\n',
+    '### FILE: index.html\n',
+    '<h1># not a marker</h1>\n',
+    '### DELETE: old.js\n',
+    '### RENAME: a.ts -> lib/b.ts\n',
+    '### FILE: src/components/App.tsx\n',
+    'export const App = () => null;\n',
+].join('');
+
+describe('FileStreamParser', () => {
+    it('reports files, deletes, renames and leading prose', () => {
+        expect(parse([MULTI_FILE])).toEqual([
+            { type: 'prose', text: 'Here is the app.\n' },
+            { type: 'file-start', path: 'index.html' },
+            { type: 'chunk', path: 'index.html', text: '<h1># not a marker</h1>\n' },
+            { type: 'file-end', path: 'index.html' },
+            { type: 'file-delete', path: 'old.js' },
+            { type: 'file-rename', from: 'a.ts', to: 'lib/b.ts' },
+            { type: 'file-start', path: 'src/components/App.tsx' },
+            { type: 'chunk', path: 'src/components/App.tsx', text: 'export const App = () => null;\n' },
+            { type: 'file-end', path: 'src/components/App.tsx' },
+        ]);
+    });
+
+    it('gives the same result wherever the stream is split', () => {
+        const whole = parse([MULTI_FILE]);
+        for (let i = 1; i < MULTI_FILE.length; i++) {
+            expect(parse([MULTI_FILE.substring(0, i), MULTI_FILE.substring(i)])).toEqual(whole);
+        }
+        expect(parse(MULTI_FILE.split(''))).toEqual(whole);
+    });
+
+    it('cleans up nested paths', () => {
+        const events = parse(['### FILE: `./src\\utils\\math.ts`\nexport {};\n### DELETE: "/assets/img/logo.png"\n']);
+        expect(events).toEqual([
+            { type: 'file-start', path: 'src/utils/math.ts' },
+            { type: 'chunk', path: 'src/utils/math.ts', text: 'export {};\n' },
+            { type: 'file-end', path: 'src/utils/math.ts' },
+            { type: 'file-delete', path: 'assets/img/logo.png' },
+        ]);
+    });
+
+    it('only treats markers at the start of a line as markers', () => {
+        expect(parse(['### FILE: a.txt\nsee ### FILE: b.txt\n'])).toEqual([
+            { type: 'file-start', path: 'a.txt' },
+            { type: 'chunk', path: 'a.txt', text: 'see ### FILE: b.txt\n' },
+            { type: 'file-end', path: 'a.txt' },
+        ]);
+    });
+
+    it('flushes a final line without a newline', () => {
+        expect(parse(['### FILE: a.md\n# Title'])).toEqual([
+            { type: 'file-start', path: 'a.md' },
+            { type: 'chunk', path: 'a.md', text: '# Title' },
+            { type: 'file-end', path: 'a.md' },
+        ]);
+    });
+
+    it('ignores a rename without a target', () => {
+        expect(parse(['### RENAME: a.ts\n'])).toEqual([]);
+    });
+
+    describe('initialFile', () => {
+        it('continues the open file until the first marker', () => {
+            expect(parse(['\n\nconst x = 1;\n', '### FILE: b.ts\nb\n'], 'a.ts')).toEqual([
+                { type: 'file-start', path: 'a.ts' },
+                { type: 'chunk', path: 'a.ts', text: 'const x = 1;\n' },
+                { type: 'file-end', path: 'a.ts' },
+                { type: 'file-start', path: 'b.ts' },
+                { type: 'chunk', path: 'b.ts', text: 'b\n' },
+                { type: 'file-end', path: 'b.ts' },
+            ]);
+        });
+
+        it('is not opened when the output starts with a marker', () => {
+            expect(parse(['\n### FILE: b.ts\nb\n'], 'a.ts')).toEqual([
+                { type: 'file-start', path: 'b.ts' },
+                { type: 'chunk', path: 'b.ts', text: 'b\n' },
+                { type: 'file-end', path: 'b.ts' },
+            ]);
+        });
+
+        it('does not capture text between files as the initial file', () => {
+            expect(parse(['### DELETE: x.ts\nDone.\n'], 'a.ts')).toEqual([
+                { type: 'file-delete', path: 'x.ts' },
+                { type: 'prose', text: 'Done.\n' },
+            ]);
+        });
+    });
+});
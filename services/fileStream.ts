@@ -0,0 +1,115 @@
+
+/**
+ * File Stream Parser
+ * Incremental parser for multi-file agent output. Files are introduced by marker lines:
+ *
+ *   ### FILE: src/app.ts          following lines are the file's full content
+ *   ### DELETE: src/old.ts        remove a file
+ *   ### RENAME: a.ts -> b.ts      move a file (content, if changed, follows as a FILE section)
+ *
+ * Markers only count at the start of a line, so chunk boundaries anywhere (even inside a marker)
+ * are safe. Text outside any file is reported as prose rather than dropped.
+ */
+
+export type FileStreamEvent =
+    | { type: 'file-start'; path: string }
+    | { type: 'chunk'; path: string; text: string }
+    | { type: 'file-end'; path: string }
+    | { type: 'file-delete'; path: string }
+    | { type: 'file-rename'; from: string; to: string }
+    | { type: 'prose'; text: string };
+
+const MARKER = /^###\s*(FILE|DELETE|RENAME):\s*(.+?)\s*$/;
+const RENAME_ARROW = /\s*->\s*/;
+
+// Paths are relative and use forward slashes; quotes/backticks some models add are stripped
+const cleanPath = (path: string) => path.replace(/^[`'"]+|[`'"]+$/g, '').replace(/\\/g, '/').replace(/^\.?\//, '');
+
+export class FileStreamParser {
+    private pending = '';   // Held partial line that may still turn into a marker
+    private atLineStart = true;
+    private current: string | null = null;
+    private seenMarker = false;
+
+    /**
+     * `initialFile`: where text before the first marker goes (an update continuing the file that's
+     * open in the editor). Without it, that text is prose.
+     */
+    constructor(private initialFile?: string) {}
+
+    push(chunk: string): FileStreamEvent[] {
+        const events: FileStreamEvent[] = [];
+        this.pending += chunk;
+
+        let newline: number;
+        while ((newline = this.pending.indexOf('\n')) !== -1) {
+            const line = this.pending.substring(0, newline + 1);
+            this.pending = this.pending.substring(newline + 1);
+            this.line(line, events);
+        }
+
+        // Pass a partial line through right away unless it could still be a marker
+        if (this.pending && !(this.atLineStart && this.pending.startsWith('#'))) {
+            this.text(this.pending, events);
+            this.atLineStart = false;
+            this.pending = '';
+        }
+        return events;
+    }
+
+    /**
+     * Flush what's left at the end of the stream and close the open file.
+     */
+    end(): FileStreamEvent[] {
+        const events: FileStreamEvent[] = [];
+        if (this.pending) {
+            this.line(this.pending, events);
+            this.pending = '';
+        }
+        this.closeFile(events);
+        return events;
+    }
+
+    private line(line: string, events: FileStreamEvent[]) {
+        const marker = this.atLineStart ? line.replace(/\r?\n$/, '').match(MARKER) : null;
+        this.atLineStart = line.endsWith('\n');
+        if (!marker) {
+            this.text(line, events);
+            return;
+        }
+
+        const [, kind, arg] = marker;
+        this.closeFile(events);
+        this.seenMarker = true;
+        if (kind === 'FILE') {
+            this.current = cleanPath(arg);
+            events.push({ type: 'file-start', path: this.current });
+        } else if (kind === 'DELETE') {
+            events.push({ type: 'file-delete', path: cleanPath(arg) });
+        } else {
+            const [from, to] = arg.split(RENAME_ARROW).map(cleanPath);
+            if (from && to) events.push({ type: 'file-rename', from, to });
+        }
+    }
+
+    private text(text: string, events: FileStreamEvent[]) {
+        if (!this.current && !this.seenMarker && this.initialFile) {
+            // Leading blank lines must not wipe the file being continued
+            if (!text.trim()) return;
+            this.current = this.initialFile;
+            this.seenMarker = true;
+            events.push({ type: 'file-start', path: this.current });
+        }
+        if (this.current) {
+            events.push({ type: 'chunk', path: this.current, text });
+        } else {
+            events.push({ type: 'prose', text });
+        }
+    }
+
+    private closeFile(events: FileStreamEvent[]) {
+        if (!this.current) return;
+        events.push({ type: 'file-end', path: this.current });
+        this.current = null;
+    }
+}
@@ -0,0 +1,180 @@
+
+import { CanvasFile } from '../types';
+import { ZipEntry, createZip, readZip } from './zip';
+
+/**
+ * Code Node File Tree
+ * A code node's files stay a flat map keyed by path ('src/app.js'); folders are implied by the
+ * paths, plus `CanvasNode.folders` for ones that are still empty. These helpers build the tree,
+ * move/rename files and folders, resolve relative references and convert to and from zip.
+ */
+
+export interface TreeFolder {
+    type: 'folder';
+    name: string;
+    path: string; // '' for the root
+    children: TreeEntry[];
+}
+
+export interface TreeFile {
+    type: 'file';
+    name: string;
+    path: string;
+}
+
+export type TreeEntry = TreeFolder | TreeFile;
+
+/**
+ * Clean a user- or agent-supplied path: forward slashes, no leading './' or '/', '.' and '..' resolved.
+ */
+export const normalizePath = (path: string) => {
+    const parts: string[] = [];
+    path.replace(/\\/g, '/').split('/').forEach(part => {
+        if (!part || part === '.') return;
+        if (part === '..') parts.pop();
+        else parts.push(part);
+    });
+    return parts.join('/');
+};
+
+export const dirname = (path: string) => path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+export const basename = (path: string) => path.substring(path.lastIndexOf('/') + 1);
+export const joinPath = (dir: string, name: string) => normalizePath(dir ? `${dir}/${name}` : name);
+export const languageOf = (path: string) => basename(path).split('.').pop() || 'txt';
+
+const MIME_TYPES: Record<string, string> = {
+    png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp', avif: 'image/avif',
+    svg: 'image/svg+xml', ico: 'image/x-icon', bmp: 'image/bmp',
+    mp3: 'audio/mpeg', wav: 'audio/wav', ogg: 'audio/ogg', mp4: 'video/mp4', webm: 'video/webm',
+    woff: 'font/woff', woff2: 'font/woff2', ttf: 'font/ttf', otf: 'font/otf'
+};
+
+/**
+ * MIME type of a media or font file, by extension. Such files are stored as data URLs when binary.
+ */
+export const mimeTypeOf = (path: string): string | undefined => MIME_TYPES[(basename(path).split('.').pop() || '').toLowerCase()];
+
+/**
+ * Resolve a reference made from `fromFile` (e.g. an HTML `src`) to a path in the file map.
+ * Absolute and remote URLs other than '/'-rooted ones resolve to null.
+ */
+export const resolvePath = (fromFile: string, ref: string): string | null => {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(ref) || ref.startsWith('//')) return null;
+    const clean = ref.split(/[?#]/)[0];
+    return normalizePath(clean.startsWith('/') ? clean : `${dirname(fromFile)}/${clean}`);
+};
+
+const isInside = (path: string, folder: string) => path.startsWith(`${folder}/`);
+
+/**
+ * Every folder path, including the parents of each file and each explicit folder.
+ */
+export const allFolders = (paths: string[], folders: string[] = []) => {
+    const result = new Set<string>();
+    [...paths.map(dirname), ...folders].forEach(dir => {
+        for (let d = dir; d; d = dirname(d)) result.add(d);
+    });
+    return Array.from(result);
+};
+
+/**
+ * Nested tree for display: folders first, then files, each alphabetical.
+ */
+export const buildFileTree = (paths: string[], folders: string[] = []): TreeFolder => {
+    const root: TreeFolder = { type: 'folder', name: '', path: '', children: [] };
+    const byPath = new Map<string, TreeFolder>([['', root]]);
+
+    const folderFor = (path: string): TreeFolder => {
+        const existing = byPath.get(path);
+        if (existing) return existing;
+        const folder: TreeFolder = { type: 'folder', name: basename(path), path, children: [] };
+        byPath.set(path, folder);
+        folderFor(dirname(path)).children.push(folder);
+        return folder;
+    };
+
+    allFolders(paths, folders).forEach(folderFor);
+    paths.forEach(path => folderFor(dirname(path)).children.push({ type: 'file', name: basename(path), path }));
+
+    const sort = (folder: TreeFolder) => {
+        folder.children.sort((a, b) => a.type !== b.type ? (a.type === 'folder' ? -1 : 1) : a.name.localeCompare(b.name));
+        folder.children.forEach(c => c.type === 'folder' && sort(c));
+    };
+    sort(root);
+    return root;
+};
+
+/**
+ * Move or rename a file or folder. Returns null if the target already exists or is inside the source.
+ */
+export const movePath = (files: Record<string, CanvasFile>, folders: string[], from: string, to: string) => {
+    to = normalizePath(to);
+    if (!to || to === from || isInside(to, from)) return null;
+    const existingFolders = allFolders(Object.keys(files), folders);
+    if (files[to] || existingFolders.includes(to)) return null;
+
+    const rename = (path: string) => path === from ? to : isInside(path, from) ? to + path.substring(from.length) : path;
+    const newFiles: Record<string, CanvasFile> = {};
+    Object.entries(files).forEach(([path, file]) => {
+        const newPath = rename(path);
+        newFiles[newPath] = newPath === path ? file : { ...file, name: newPath, language: path === from ? languageOf(newPath) : file.language };
+    });
+    return { files: newFiles, folders: folders.map(rename), rename };
+};
+
+/**
+ * Remove a folder and everything in it.
+ */
+export const removeFolder = (files: Record<string, CanvasFile>, folders: string[], folder: string) => ({
+    files: Object.fromEntries(Object.entries(files).filter(([path]) => !isInside(path, folder))),
+    folders: folders.filter(f => f !== folder && !isInside(f, folder))
+});
+
+// --- Zip ---
+
+const BASE64_DATA_URL = /^data:[^,]*;base64,/;
+
+const toBase64 = (data: Uint8Array) => {
+    let binary = '';
+    for (let i = 0; i < data.length; i += 0x8000) binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+    return btoa(binary);
+};
+
+const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+export const filesToZip = (files: Record<string, CanvasFile>): Blob => {
+    const encoder = new TextEncoder();
+    return createZip(Object.values(files).map(f => ({
+        path: f.name,
+        data: BASE64_DATA_URL.test(f.content) ? fromBase64(f.content.substring(f.content.indexOf(',') + 1)) : encoder.encode(f.content)
+    })));
+};
+
+/**
+ * Files from a zip archive. Binary media files (images, audio, fonts) are kept as data URLs, other
+ * binary entries are skipped, and a single top-level folder wrapping everything (as most downloaded
+ * archives have) is dropped.
+ */
+export const filesFromZip = async (buffer: ArrayBuffer): Promise<{ files: Record<string, CanvasFile>; skipped: string[] }> => {
+    const entries: ZipEntry[] = (await readZip(buffer)).filter(e => !e.path.startsWith('__MACOSX/') && !basename(e.path).startsWith('.DS_Store'));
+    const roots = new Set(entries.map(e => normalizePath(e.path).split('/')[0]));
+    const wrapper = roots.size === 1 && entries.every(e => normalizePath(e.path).includes('/')) ? `${[...roots][0]}/` : '';
+
+    const decoder = new TextDecoder('utf-8', { fatal: true });
+    const files: Record<string, CanvasFile> = {};
+    const skipped: string[] = [];
+    entries.forEach(entry => {
+        const path = normalizePath(entry.path).substring(wrapper.length);
+        if (!path) return;
+        try {
+            const content = decoder.decode(entry.data);
+            if (content.includes('\0')) throw new Error('binary');
+            files[path] = { name: path, content, language: languageOf(path) };
+        } catch {
+            const mime = mimeTypeOf(path);
+            if (mime) files[path] = { name: path, content: `data:${mime};base64,${toBase64(entry.data)}`, language: languageOf(path) };
+            else skipped.push(path);
+        }
+    });
+    return { files, skipped };
+};
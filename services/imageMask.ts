@@ -0,0 +1,148 @@
+
+import { ImageEdit, ImageOptions } from './ai/types';
+
+/**
+ * Image Mask Helpers
+ * Turn what the user painted (or the sides they chose to extend) into the reference image, mask
+ * and region of an ImageEdit. Masks are drawn at the image's natural size.
+ */
+
+export type OutpaintSide = 'top' | 'right' | 'bottom' | 'left';
+
+// Ready to send: `image` is the reference (padded for outpainting), `edit` carries the mask
+export interface MaskedEdit {
+    image: string;
+    edit: ImageEdit;
+    aspectRatio: NonNullable<ImageOptions['aspectRatio']>;
+    width: number;  // Natural size of `image`
+    height: number;
+}
+
+// Each extended side grows the image by this fraction of its size
+export const OUTPAINT_AMOUNT = 0.25;
+
+const ASPECT_RATIOS: Array<[NonNullable<ImageOptions['aspectRatio']>, number]> = [
+    ['1:1', 1], ['3:4', 3 / 4], ['4:3', 4 / 3], ['9:16', 9 / 16], ['16:9', 16 / 9],
+];
+
+export const nearestAspectRatio = (width: number, height: number) => {
+    const ratio = width / height;
+    return ASPECT_RATIOS.reduce((best, r) => Math.abs(r[1] - ratio) < Math.abs(best[1] - ratio) ? r : best)[0];
+};
+
+export const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    // Remote images must allow CORS or the padded canvas can't be exported
+    if (!url.startsWith('data:') && !url.startsWith('blob:')) img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load the image for editing'));
+    img.src = url;
+});
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+};
+
+/**
+ * Bounding box of the painted (non-transparent) pixels, 0-1 of the canvas, or null if nothing is painted.
+ */
+export const paintedRegion = (paint: HTMLCanvasElement): ImageEdit['region'] | null => {
+    const { width, height } = paint;
+    const data = paint.getContext('2d')!.getImageData(0, 0, width, height).data;
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[(y * width + x) * 4 + 3] === 0) continue;
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+        }
+    }
+    if (maxX < 0) return null;
+    return { x: minX / width, y: minY / height, width: (maxX - minX + 1) / width, height: (maxY - minY + 1) / height };
+};
+
+/**
+ * Inpainting: white wherever `paint` has strokes, black elsewhere. `paint` must match the image's natural size.
+ */
+export const buildInpaintEdit = (imageUrl: string, paint: HTMLCanvasElement): MaskedEdit | null => {
+    const region = paintedRegion(paint);
+    if (!region) return null;
+
+    const mask = createCanvas(paint.width, paint.height);
+    const ctx = mask.getContext('2d')!;
+    ctx.drawImage(paint, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+
+    return {
+        image: imageUrl,
+        edit: { mode: 'inpaint', mask: mask.toDataURL('image/png'), region },
+        aspectRatio: nearestAspectRatio(paint.width, paint.height),
+        width: paint.width,
+        height: paint.height
+    };
+};
+
+/**
+ * Outpainting: pad the image on the chosen sides; the mask is white over the new space.
+ */
+export const buildOutpaintEdit = async (imageUrl: string, sides: OutpaintSide[]): Promise<MaskedEdit | null> => {
+    if (sides.length === 0) return null;
+    const img = await loadImage(imageUrl);
+    const w = img.naturalWidth;
+    const h = img.naturalHeight;
+    const pad = {
+        top: sides.includes('top') ? Math.round(h * OUTPAINT_AMOUNT) : 0,
+        right: sides.includes('right') ? Math.round(w * OUTPAINT_AMOUNT) : 0,
+        bottom: sides.includes('bottom') ? Math.round(h * OUTPAINT_AMOUNT) : 0,
+        left: sides.includes('left') ? Math.round(w * OUTPAINT_AMOUNT) : 0,
+    };
+    const width = w + pad.left + pad.right;
+    const height = h + pad.top + pad.bottom;
+
+    // New space is neutral grey so the model doesn't read it as part of the scene
+    const padded = createCanvas(width, height);
+    const pctx = padded.getContext('2d')!;
+    pctx.fillStyle = '#808080';
+    pctx.fillRect(0, 0, width, height);
+    pctx.drawImage(img, pad.left, pad.top);
+
+    const mask = createCanvas(width, height);
+    const mctx = mask.getContext('2d')!;
+    mctx.fillStyle = '#fff';
+    mctx.fillRect(0, 0, width, height);
+    mctx.fillStyle = '#000';
+    mctx.fillRect(pad.left, pad.top, w, h);
+
+    let image: string;
+    try {
+        image = padded.toDataURL('image/png');
+    } catch {
+        throw new Error('This image is hosted without CORS access and cannot be extended');
+    }
+
+    // Region: bounding box of the new space (a top or bottom strip spans the full width, and so on)
+    const vertical = pad.top > 0 || pad.bottom > 0;
+    const horizontal = pad.left > 0 || pad.right > 0;
+    const x = pad.left > 0 || vertical ? 0 : (pad.left + w) / width;
+    const right = pad.right > 0 || vertical ? 1 : pad.left / width;
+    const y = pad.top > 0 || horizontal ? 0 : (pad.top + h) / height;
+    const bottom = pad.bottom > 0 || horizontal ? 1 : pad.top / height;
+
+    return {
+        image,
+        edit: { mode: 'outpaint', mask: mask.toDataURL('image/png'), region: { x, y, width: right - x, height: bottom - y } },
+        aspectRatio: nearestAspectRatio(width, height),
+        width,
+        height
+    };
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { Jobs } from './jobManager';
+import { globalLimiter } from './ai/utils/rateLimiter';
+
+const deferred = () => {
+    let finish!: () => void;
+    const done = new Promise<void>(resolve => { finish = resolve; });
+    return { done, finish };
+};
+
+const statusOf = (id: string) => Jobs.getJobs().find(j => j.id === id)?.status;
+
+describe('Jobs', () => {
+    it('queues tasks beyond the limiter capacity', async () => {
+        const blockers = Array.from({ length: globalLimiter.capacity }, deferred);
+        const ids: string[] = [];
+        const running = blockers.map(b => Jobs.run('busy', async job => { ids.push(job.id); await b.done; }));
+        let extraId = '';
+        const extra = Jobs.run('extra', async job => { extraId = job.id; });
+
+        await Promise.resolve();
+        expect(extraId).toBe('');
+        expect(Jobs.getJobs().filter(j => j.status === 'queued')).toHaveLength(1);
+
+        blockers[0].finish();
+        expect((await extra).status).toBe('completed');
+        blockers.forEach(b => b.finish());
+        await Promise.all(running);
+    });
+
+    it('lets other tasks start while released tasks are only polling', async () => {
+        const renders = Array.from({ length: globalLimiter.capacity }, deferred);
+        const polling = renders.map(r => Jobs.run('render', async job => { job.release(); await r.done; }));
+
+        const chat = await Jobs.run('chat', async () => {});
+        expect(chat.status).toBe('completed');
+
+        renders.forEach(r => r.finish());
+        const finished = await Promise.all(polling);
+        expect(finished.map(j => statusOf(j.id))).toEqual(finished.map(() => 'completed'));
+    });
+
+    it('releases a slot only once', async () => {
+        await Jobs.run('twice', async job => { job.release(); job.release(); });
+        const blockers = Array.from({ length: globalLimiter.capacity }, deferred);
+        const running = blockers.map(b => Jobs.run('busy', () => b.done));
+        let started = false;
+        const extra = Jobs.run('extra', async () => { started = true; });
+        await Promise.resolve();
+        expect(started).toBe(false);
+
+        blockers.forEach(b => b.finish());
+        await Promise.all([...running, extra]);
+        expect(started).toBe(true);
+    });
+});
@@ -0,0 +1,202 @@
+
+import { Job, JobStatus } from '../types';
+import { globalLimiter } from './ai/utils/rateLimiter';
+import { isAbortError } from './ai/utils/abort';
+
+/**
+ * Handle given to a running task so it can report progress and observe cancellation.
+ */
+export interface JobContext {
+    id: string;
+    signal: AbortSignal;
+    update: (patch: Partial<Omit<Job, 'id' | 'createdAt'>>) => void;
+    // Give up the task slot for the rest of the run (e.g. minutes of render polling); the task keeps running
+    release: () => void;
+}
+
+type JobExecutor = (ctx: JobContext) => Promise<void>;
+type JobListener = (jobs: Job[]) => void;
+
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'routing', 'running'];
+const MAX_FINISHED = 8;
+
+export const isJobActive = (job: Job) => ACTIVE_STATUSES.includes(job.status);
+
+/**
+ * Job Manager
+ * Every routed request becomes a tracked task with its own status, progress and abort handle.
+ * Tasks run in parallel up to the global limiter's capacity; extra tasks wait in 'queued'. A task that
+ * is only waiting on a provider (video polling) releases its slot so it doesn't hold up chat.
+ */
+class JobManager {
+    private jobs: Job[] = [];
+    private controllers = new Map<string, AbortController>();
+    private waiting: Array<{ id: string; start: () => void }> = [];
+    private running = 0;
+    private listeners = new Set<JobListener>();
+
+    constructor() {
+        // Requests of running tasks can wait in the limiter (priority lanes, quota buckets)
+        globalLimiter.subscribe(() => this.refreshWaits());
+    }
+
+    subscribe(listener: JobListener) {
+        this.listeners.add(listener);
+        listener(this.jobs);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    getJobs() {
+        return this.jobs;
+    }
+
+    /**
+     * Register and start a task. Resolves once the task has finished, failed or been cancelled.
+     */
+    async run(prompt: string, executor: JobExecutor): Promise<Job> {
+        const id = `job-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+        const controller = new AbortController();
+        this.controllers.set(id, controller);
+
+        this.jobs = [...this.jobs, { id, prompt, status: 'queued', message: 'Queued...', createdAt: Date.now() }];
+        this.emit();
+
+        let holding = false;
+        const ctx: JobContext = {
+            id,
+            signal: controller.signal,
+            update: (patch) => {
+                // Ignore late updates once a task has settled
+                const current = this.find(id);
+                if (!current || !isJobActive(current)) return;
+                this.patch(id, patch);
+            },
+            release: () => {
+                if (!holding) return;
+                holding = false;
+                this.releaseSlot();
+            }
+        };
+
+        try {
+            await this.acquireSlot(id, controller.signal);
+            holding = true;
+            this.patch(id, { status: 'running', message: 'Starting...', queuedBehind: undefined, startedAt: Date.now() });
+            await executor(ctx);
+            this.patch(id, { status: 'completed', message: 'Done', progress: 1, waitMs: undefined, queuedBehind: undefined, finishedAt: Date.now() });
+        } catch (e: any) {
+            if (isAbortError(e) || controller.signal.aborted) {
+                this.patch(id, { status: 'cancelled', message: 'Cancelled', waitMs: undefined, queuedBehind: undefined, finishedAt: Date.now() });
+            } else {
+                this.patch(id, { status: 'failed', message: 'Failed', error: e?.message || String(e), waitMs: undefined, queuedBehind: undefined, finishedAt: Date.now() });
+            }
+        } finally {
+            this.controllers.delete(id);
+            ctx.release();
+            this.prune();
+        }
+
+        return this.find(id)!;
+    }
+
+    cancel(id: string) {
+        this.controllers.get(id)?.abort();
+    }
+
+    cancelAll() {
+        this.controllers.forEach(c => c.abort());
+    }
+
+    /**
+     * Remove finished tasks from the list (the "recently finished" section).
+     */
+    clearFinished() {
+        this.jobs = this.jobs.filter(isJobActive);
+        this.emit();
+    }
+
+    // --- Private Helpers ---
+
+    private find(id: string) {
+        return this.jobs.find(j => j.id === id);
+    }
+
+    private patch(id: string, patch: Partial<Job>) {
+        this.jobs = this.jobs.map(j => j.id === id ? { ...j, ...patch } : j);
+        this.emit();
+    }
+
+    private emit() {
+        this.listeners.forEach(l => l(this.jobs));
+    }
+
+    private acquireSlot(id: string, signal: AbortSignal): Promise<void> {
+        // Provider calls are throttled by globalLimiter; match its capacity so tasks don't pile up behind it
+        if (this.running < globalLimiter.capacity) {
+            this.running++;
+            return Promise.resolve();
+        }
+        return new Promise((resolve, reject) => {
+            const start = () => {
+                signal.removeEventListener('abort', onAbort);
+                this.running++;
+                resolve();
+            };
+            const onAbort = () => {
+                this.waiting = this.waiting.filter(w => w.start !== start);
+                this.refreshWaits();
+                reject(signal.reason);
+            };
+            signal.addEventListener('abort', onAbort, { once: true });
+            this.waiting.push({ id, start });
+            this.refreshWaits();
+        });
+    }
+
+    private releaseSlot() {
+        this.running--;
+        const next = this.waiting.shift();
+        if (next) next.start();
+        this.refreshWaits();
+    }
+
+    /**
+     * Recompute queue positions: tasks waiting for a slot, and running tasks whose requests
+     * are held in the limiter. Wait estimates are rounded to seconds to avoid churn.
+     */
+    private refreshWaits() {
+        let changed = false;
+        this.jobs = this.jobs.map(job => {
+            if (!isJobActive(job)) return job;
+
+            let patch: Partial<Job>;
+            const waitingIndex = this.waiting.findIndex(w => w.id === job.id);
+            if (waitingIndex !== -1) {
+                const ahead = this.running + waitingIndex;
+                patch = { queuedBehind: ahead, message: `Queued behind ${ahead} task${ahead === 1 ? '' : 's'}` };
+            } else {
+                const controller = this.controllers.get(job.id);
+                const estimate = controller ? globalLimiter.estimate(controller.signal) : null;
+                patch = {
+                    queuedBehind: estimate && estimate.ahead > 0 ? estimate.ahead : undefined,
+                    waitMs: estimate && estimate.waitMs >= 1000 ? Math.round(estimate.waitMs / 1000) * 1000 : undefined
+                };
+            }
+
+            if ((Object.keys(patch) as Array<keyof Job>).every(key => job[key] === patch[key])) return job;
+            changed = true;
+            return { ...job, ...patch };
+        });
+        if (changed) this.emit();
+    }
+
+    private prune() {
+        const finished = this.jobs.filter(j => !isJobActive(j));
+        if (finished.length <= MAX_FINISHED) return;
+        const drop = new Set(finished.slice(0, finished.length - MAX_FINISHED).map(j => j.id));
+        this.jobs = this.jobs.filter(j => !drop.has(j.id));
+        this.emit();
+    }
+}
+
+export const Jobs = new JobManager();
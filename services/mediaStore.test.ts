@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { unreferencedMedia } from './mediaStore';
+
+const NOW = 1_700_000_000_000;
+const OLD = NOW - 60 * 60 * 1000;
+
+describe('unreferencedMedia', () => {
+    it('returns old items that nothing refers to', () => {
+        const ids = [`${OLD}-video1`, `${OLD}-rev2`, `${OLD}-gone3`];
+        const inUse = JSON.stringify({
+            nodes: [{ content: `idb://${OLD}-video1`, revisions: [{ content: `idb://${OLD}-rev2` }] }],
+            messages: [{ attachments: [{ url: 'data:image/png;base64,AAAA' }] }]
+        });
+        expect(unreferencedMedia(ids, inUse, NOW)).toEqual([`${OLD}-gone3`]);
+    });
+
+    it('keeps items stored in the last few minutes', () => {
+        expect(unreferencedMedia([`${NOW - 1000}-fresh`, `${OLD}-stale`], '[]', NOW)).toEqual([`${OLD}-stale`]);
+    });
+
+    it('does not treat a reference as a prefix of a longer id', () => {
+        expect(unreferencedMedia([`${OLD}-ab`], `"idb://${OLD}-abc"`, NOW)).toEqual([`${OLD}-ab`]);
+    });
+});
@@ -0,0 +1,141 @@
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Media Store
+ * Generated media kept in IndexedDB and referenced from node content as `idb://<id>`.
+ * Object URLs die with the page; these references survive reloads and resolve to a fresh
+ * object URL on demand.
+ */
+
+const DB_NAME = 'nest-studio-media';
+const STORE = 'media';
+export const MEDIA_SCHEME = 'idb://';
+
+export const isStoredMedia = (url?: string) => !!url && url.startsWith(MEDIA_SCHEME);
+
+// Items this young may not be on a node yet (stored, state update still pending)
+const SWEEP_GRACE_MS = 5 * 60 * 1000;
+const REFERENCE = /idb:\/\/[\w-]+/g;
+
+/**
+ * Stored IDs that nothing in `inUse` (serialized app state) refers to and that are old enough to drop.
+ * IDs start with their creation time.
+ */
+export const unreferencedMedia = (ids: string[], inUse: string, now = Date.now()) => {
+    const referenced = new Set(inUse.match(REFERENCE) || []);
+    return ids.filter(id => !referenced.has(`${MEDIA_SCHEME}${id}`) && Number(id.split('-')[0]) < now - SWEEP_GRACE_MS);
+};
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+class MediaStore {
+    private db: Promise<IDBDatabase> | null = null;
+    // Object URLs handed out this session, one per stored item
+    private urls = new Map<string, string>();
+
+    private open() {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const req = indexedDB.open(DB_NAME, 1);
+                req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+                req.onsuccess = () => resolve(req.result);
+                req.onerror = () => reject(req.error);
+            });
+            // Let a later call retry if opening failed (e.g. private mode)
+            this.db.catch(() => { this.db = null; });
+        }
+        return this.db;
+    }
+
+    private async tx(mode: IDBTransactionMode) {
+        return (await this.open()).transaction(STORE, mode).objectStore(STORE);
+    }
+
+    /**
+     * Persist a blob and return its `idb://` reference.
+     */
+    async put(blob: Blob): Promise<string> {
+        const id = `${Date.now()}-${Math.random().toString(36).substr(2, 8)}`;
+        await request((await this.tx('readwrite')).put(blob, id));
+        return `${MEDIA_SCHEME}${id}`;
+    }
+
+    async getBlob(ref: string): Promise<Blob | null> {
+        if (!isStoredMedia(ref)) return null;
+        const blob = await request((await this.tx('readonly')).get(ref.slice(MEDIA_SCHEME.length)));
+        return blob instanceof Blob ? blob : null;
+    }
+
+    /**
+     * Object URL for a stored reference, or null if it no longer exists.
+     */
+    async resolve(ref: string): Promise<string | null> {
+        const cached = this.urls.get(ref);
+        if (cached) return cached;
+        const blob = await this.getBlob(ref);
+        if (!blob) return null;
+        const url = URL.createObjectURL(blob);
+        this.urls.set(ref, url);
+        return url;
+    }
+
+    /**
+     * A stored item as a data URL, for places that need the bytes inline (image node content).
+     */
+    async dataUrl(ref: string): Promise<string | null> {
+        const blob = await this.getBlob(ref);
+        if (!blob) return null;
+        return new Promise((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsDataURL(blob);
+        });
+    }
+
+    async remove(ref: string) {
+        if (!isStoredMedia(ref)) return;
+        const url = this.urls.get(ref);
+        if (url) URL.revokeObjectURL(url);
+        this.urls.delete(ref);
+        await request((await this.tx('readwrite')).delete(ref.slice(MEDIA_SCHEME.length)));
+    }
+
+    /**
+     * Delete stored items no longer referenced anywhere in `inUse`: trimmed revisions, replaced or
+     * deleted media. Returns how many were removed.
+     */
+    async sweep(inUse: string): Promise<number> {
+        const ids = (await request((await this.tx('readonly')).getAllKeys())).map(String);
+        const stale = unreferencedMedia(ids, inUse);
+        await Promise.all(stale.map(id => this.remove(`${MEDIA_SCHEME}${id}`)));
+        return stale.length;
+    }
+}
+
+export const Media = new MediaStore();
+
+/**
+ * Playable URL for node or attachment content: `idb://` references resolve asynchronously
+ * (null while loading or when missing), anything else passes through.
+ */
+export const useMediaUrl = (content?: string) => {
+    const stored = isStoredMedia(content);
+    const [resolved, setResolved] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!stored) return;
+        let cancelled = false;
+        setResolved(null);
+        Media.resolve(content!)
+            .then(url => { if (!cancelled) setResolved(url); })
+            .catch(e => console.warn('Failed to load stored media:', e));
+        return () => { cancelled = true; };
+    }, [content, stored]);
+
+    return stored ? resolved : (content || null);
+};
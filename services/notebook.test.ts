@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { NotebookCell } from '../types';
+import { notebookFromIpynb, notebookToIpynb } from './notebook';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+const SVG = '<svg xmlns="http://www.w3.org/2000/svg"><rect width="1" height="1"/></svg>';
+
+const CELLS: NotebookCell[] = [
+    { id: 'intro', type: 'markdown', source: '# Squares\n\nA short *notebook*.' },
+    {
+        id: 'calc',
+        type: 'code',
+        source: 'squares = [n * n for n in range(4)]\nprint(squares)\nsquares',
+        outputs: [
+            { type: 'stream', name: 'stdout', text: '[0, 1, 4, 9]\n' },
+            { type: 'result', text: '[0, 1, 4, 9]' },
+        ],
+        execution: { status: 'ok', count: 1 },
+    },
+    {
+        id: 'plot',
+        type: 'code',
+        source: 'show()',
+        outputs: [{ type: 'image', url: PNG }, { type: 'image', url: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(SVG)}` }],
+        execution: { status: 'ok', count: 2 },
+    },
+    {
+        id: 'fail',
+        type: 'code',
+        source: 'int("x")',
+        outputs: [{ type: 'error', message: 'Traceback (most recent call last):\n  File "<cell>", line 1\nValueError: invalid literal' }],
+        execution: { status: 'error', count: 3 },
+    },
+    { id: 'todo', type: 'code', source: '' },
+];
+
+describe('notebook .ipynb conversion', () => {
+    it('round-trips cells, outputs and execution counts', () => {
+        const ipynb = notebookToIpynb({ cells: CELLS, language: 'python' });
+        expect(notebookFromIpynb(ipynb)).toEqual({ cells: CELLS, language: 'python' });
+    });
+
+    it('writes nbformat 4 with multiline sources as lines', () => {
+        const notebook = JSON.parse(notebookToIpynb({ cells: CELLS, language: 'python' }));
+        expect(notebook.nbformat).toBe(4);
+        expect(notebook.metadata.kernelspec.name).toBe('python3');
+        expect(notebook.cells[1].source).toEqual(['squares = [n * n for n in range(4)]\n', 'print(squares)\n', 'squares']);
+        expect(notebook.cells[2].outputs[1].data['image/svg+xml'].join('')).toBe(SVG);
+        expect(notebook.cells[3].outputs[0]).toMatchObject({ output_type: 'error', ename: 'ValueError', evalue: 'invalid literal' });
+    });
+
+    it('keeps the kernel language', () => {
+        const ipynb = notebookToIpynb({ cells: [], language: 'javascript' });
+        expect(notebookFromIpynb(ipynb).language).toBe('javascript');
+    });
+
+    it('replaces missing and duplicate cell ids', () => {
+        const { cells } = notebookFromIpynb(JSON.stringify({
+            nbformat: 4,
+            cells: [
+                { cell_type: 'code', id: 'a', source: '1' },
+                { cell_type: 'code', id: 'a', source: '2' },
+                { cell_type: 'raw', source: ['raw'] },
+            ],
+        }));
+        expect(cells[0].id).toBe('a');
+        expect(new Set(cells.map(c => c.id)).size).toBe(3);
+        expect(cells[2]).toMatchObject({ type: 'markdown', source: 'raw' });
+    });
+
+    it('rejects files that are not nbformat 4 notebooks', () => {
+        expect(() => notebookFromIpynb('not json')).toThrow('not valid JSON');
+        expect(() => notebookFromIpynb('{"worksheets": []}')).toThrow('Only nbformat 4');
+    });
+});
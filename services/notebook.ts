@@ -0,0 +1,268 @@
+
+import { CanvasNode, NotebookCell, RunOutput } from '../types';
+import { RunLanguage, outputText, runLanguageOf } from './codeRunner';
+import { cleanCode } from './previewRuntime';
+
+/**
+ * Notebooks
+ * A notebook node holds ordered markdown and code cells; code cells run one at a time in a shared
+ * kernel (a CodeRuntime) and keep their last outputs. Agents see the cells with their ids and change
+ * them with `### CELL:` sections, applied here. Notebooks convert to and from Jupyter's `.ipynb`
+ * (nbformat 4).
+ */
+
+// Output text per cell shown to agents; long outputs are mostly noise to them
+const MAX_CONTEXT_OUTPUT = 1500;
+
+export const createCell = (type: NotebookCell['type'], source = ''): NotebookCell =>
+    ({ id: `c${Math.random().toString(36).slice(2, 8)}`, type, source });
+
+/**
+ * The kernel for a notebook's code cells, or null if the notebook's language can't run here.
+ */
+export const notebookLanguage = (node: Pick<CanvasNode, 'language'>): RunLanguage | null =>
+    runLanguageOf({ name: '', content: '', language: node.language || 'python' });
+
+/**
+ * Next execution counter: one more than the highest in the notebook.
+ */
+export const nextExecutionCount = (cells: NotebookCell[]) =>
+    cells.reduce((max, c) => Math.max(max, c.execution?.count || 0), 0) + 1;
+
+// --- Agents ---
+
+/**
+ * Cells as agents see them in the node context, in the same marker format they write edits in.
+ */
+export const renderNotebook = (cells: NotebookCell[]) => cells.map(cell => {
+    const state = cell.execution?.count ? `, [${cell.execution.count}] ${cell.execution.status}` : '';
+    const header = `### CELL: ${cell.id} ${cell.type}${state}`;
+    const output = (cell.outputs || []).map(o => o.type === 'image' ? '[image]' : outputText(o)).join('\n').trim();
+    const shown = output.length > MAX_CONTEXT_OUTPUT ? `${output.substring(0, MAX_CONTEXT_OUTPUT)}\n[... output truncated ...]` : output;
+    return [header, cell.source, ...(shown ? ['--- Output ---', shown] : [])].join('\n');
+}).join('\n\n');
+
+export type NotebookEdit =
+    | { kind: 'set'; target: string; cellType?: NotebookCell['type']; after?: string; source: string } // target 'new' adds a cell
+    | { kind: 'delete'; id: string };
+
+const CELL_MARKER = /^###\s*CELL:\s*(\S+)(?:\s+(code|markdown))?(?:\s+after\s+(\S+)|\s+(first))?\s*$/i;
+const DELETE_MARKER = /^###\s*DELETE\s+CELL:\s*(\S+)\s*$/i;
+
+/**
+ * `### CELL:` sections of an agent's answer, in order. Text before the first marker is returned as prose.
+ */
+export const parseNotebookEdits = (text: string): { edits: NotebookEdit[]; prose: string } => {
+    const edits: NotebookEdit[] = [];
+    const prose: string[] = [];
+    let open: { edit: Extract<NotebookEdit, { kind: 'set' }>; lines: string[] } | null = null;
+
+    const close = () => {
+        if (!open) return;
+        open.edit.source = cleanCode(open.lines.join('\n').replace(/^\s*\n/, '').trimEnd());
+        edits.push(open.edit);
+        open = null;
+    };
+
+    text.split('\n').forEach(line => {
+        const cell = CELL_MARKER.exec(line.trim());
+        const remove = DELETE_MARKER.exec(line.trim());
+        if (cell) {
+            close();
+            const target = cell[1].toLowerCase() === 'new' ? 'new' : cell[1];
+            open = { edit: { kind: 'set', target, cellType: cell[2]?.toLowerCase() as NotebookCell['type'] | undefined, after: cell[4] ? 'first' : cell[3], source: '' }, lines: [] };
+        } else if (remove) {
+            close();
+            edits.push({ kind: 'delete', id: remove[1] });
+        } else if (open) {
+            open.lines.push(line);
+        } else {
+            prose.push(line);
+        }
+    });
+    close();
+    return { edits, prose: prose.join('\n').trim() };
+};
+
+/**
+ * Apply edits to a notebook's cells. Changed code cells lose their outputs; edits naming a cell that
+ * doesn't exist are reported and skipped.
+ */
+export const applyNotebookEdits = (cells: NotebookCell[], edits: NotebookEdit[]) => {
+    const next = [...cells];
+    const failures: string[] = [];
+    let changed = 0;
+    let last: string | undefined;
+
+    edits.forEach(edit => {
+        if (edit.kind === 'delete') {
+            const index = next.findIndex(c => c.id === edit.id);
+            if (index < 0) failures.push(`no cell ${edit.id} to delete`);
+            else { next.splice(index, 1); changed++; }
+            return;
+        }
+        if (edit.target === 'new') {
+            const cell = createCell(edit.cellType || 'code', edit.source);
+            const anchor = edit.after && edit.after !== 'first' ? next.findIndex(c => c.id === edit.after) : -1;
+            if (edit.after && edit.after !== 'first' && anchor < 0) failures.push(`no cell ${edit.after} to insert after; added at the end`);
+            const previous = last ? next.findIndex(c => c.id === last) : -1;
+            const at = edit.after === 'first' ? 0 : anchor >= 0 ? anchor + 1 : !edit.after && previous >= 0 ? previous + 1 : next.length;
+            next.splice(at, 0, cell);
+            last = cell.id;
+            changed++;
+            return;
+        }
+        const index = next.findIndex(c => c.id === edit.target);
+        if (index < 0) {
+            failures.push(`no cell ${edit.target}`);
+            return;
+        }
+        const cell = next[index];
+        const type = edit.cellType || cell.type;
+        if (cell.source !== edit.source || cell.type !== type) {
+            next[index] = { ...cell, type, source: edit.source, outputs: undefined, execution: undefined };
+            changed++;
+        }
+        last = cell.id;
+    });
+    return { cells: next, changed, failures };
+};
+
+// --- Jupyter (.ipynb) ---
+
+// nbformat stores multiline strings as arrays of lines that keep their newlines
+const toLines = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+const joinLines = (source: unknown) => Array.isArray(source) ? source.join('') : typeof source === 'string' ? source : '';
+
+const ANSI = /\u001b\[[0-9;]*[A-Za-z]/g;
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const tableHtml = (table: Extract<RunOutput, { type: 'table' }>) => [
+    '<table>',
+    `<thead><tr>${table.columns.map(c => `<th>${escapeHtml(c)}</th>`).join('')}</tr></thead>`,
+    `<tbody>${table.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody>`,
+    '</table>'
+].join('\n');
+
+// The first table of an HTML output (pandas writes DataFrames this way)
+const parseHtmlTable = (html: string): RunOutput | null => {
+    if (typeof DOMParser === 'undefined' || !/<table/i.test(html)) return null;
+    const table = new DOMParser().parseFromString(html, 'text/html').querySelector('table');
+    if (!table) return null;
+    const rows = Array.from(table.querySelectorAll('tr')).map(tr => Array.from(tr.children).map(cell => cell.textContent?.trim() || ''));
+    const headerRows = table.querySelectorAll('thead tr').length || 1;
+    return { type: 'table', columns: rows[headerRows - 1] || [], rows: rows.slice(headerRows) };
+};
+
+const toIpynbOutput = (output: RunOutput, count: number | null) => {
+    switch (output.type) {
+        case 'stream':
+            return { output_type: 'stream', name: output.name, text: toLines(output.text) };
+        case 'result':
+            return { output_type: 'execute_result', execution_count: count, data: { 'text/plain': toLines(output.text) }, metadata: {} };
+        case 'table':
+            return { output_type: 'display_data', data: { 'text/html': toLines(tableHtml(output)), 'text/plain': toLines(outputText(output)) }, metadata: {} };
+        case 'image': {
+            // Parameters (`;charset=utf-8`) may come before `;base64`
+            const match = /^data:([^;,]+)((?:;[^;,]*)*),(.*)$/s.exec(output.url);
+            if (!match) return { output_type: 'display_data', data: { 'text/plain': [output.url] }, metadata: {} };
+            const [, mime, params, data] = match;
+            const base64 = params.split(';').includes('base64');
+            // SVG is stored as text, other images as base64
+            const value = mime === 'image/svg+xml' ? toLines(base64 ? atob(data) : decodeURIComponent(data)) : base64 ? data : btoa(decodeURIComponent(data));
+            return { output_type: 'display_data', data: { [mime]: value }, metadata: {} };
+        }
+        case 'error': {
+            const lines = output.message.split('\n');
+            const last = /^([\w.]+):\s?(.*)$/.exec(lines[lines.length - 1]);
+            return { output_type: 'error', ename: last?.[1] || 'Error', evalue: last?.[2] ?? lines[lines.length - 1], traceback: lines };
+        }
+    }
+};
+
+const fromIpynbOutput = (output: any): RunOutput | null => {
+    switch (output?.output_type) {
+        case 'stream':
+            return { type: 'stream', name: output.name === 'stderr' ? 'stderr' : 'stdout', text: joinLines(output.text) };
+        case 'error': {
+            const traceback = Array.isArray(output.traceback) && output.traceback.length ? output.traceback.join('\n') : `${output.ename}: ${output.evalue}`;
+            return { type: 'error', message: traceback.replace(ANSI, '') };
+        }
+        case 'execute_result':
+        case 'display_data': {
+            const data = output.data || {};
+            const image = IMAGE_TYPES.find(mime => data[mime]);
+            if (image) return { type: 'image', url: `data:${image};base64,${joinLines(data[image]).replace(/\s/g, '')}` };
+            if (data['image/svg+xml']) return { type: 'image', url: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(joinLines(data['image/svg+xml']))}` };
+            const table = data['text/html'] ? parseHtmlTable(joinLines(data['text/html'])) : null;
+            if (table) return table;
+            if (data['text/plain'] !== undefined) return { type: 'result', text: joinLines(data['text/plain']) };
+            return null;
+        }
+    }
+    return null;
+};
+
+/**
+ * A notebook node as `.ipynb` JSON (nbformat 4.5), outputs included.
+ */
+export const notebookToIpynb = (node: Pick<CanvasNode, 'cells' | 'language'>) => {
+    const language = notebookLanguage(node) || node.language || 'python';
+    const notebook = {
+        nbformat: 4,
+        nbformat_minor: 5,
+        metadata: {
+            kernelspec: language === 'python'
+                ? { name: 'python3', display_name: 'Python 3 (Pyodide)', language: 'python' }
+                : { name: language, display_name: language === 'javascript' ? 'JavaScript' : language, language },
+            language_info: { name: language }
+        },
+        cells: (node.cells || []).map(cell => cell.type === 'markdown'
+            ? { cell_type: 'markdown', id: cell.id, metadata: {}, source: toLines(cell.source) }
+            : {
+                cell_type: 'code',
+                id: cell.id,
+                metadata: {},
+                execution_count: cell.execution?.count ?? null,
+                source: toLines(cell.source),
+                outputs: (cell.outputs || []).map(o => toIpynbOutput(o, cell.execution?.count ?? null))
+            })
+    };
+    return JSON.stringify(notebook, null, 1) + '\n';
+};
+
+/**
+ * Cells and kernel language of an `.ipynb` file. Raw cells become markdown cells.
+ */
+export const notebookFromIpynb = (json: string): { cells: NotebookCell[]; language: string } => {
+    let notebook: any;
+    try {
+        notebook = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (!Array.isArray(notebook?.cells)) {
+        throw new Error(notebook?.worksheets ? 'Only nbformat 4 notebooks are supported.' : 'The file is not a Jupyter notebook.');
+    }
+
+    const language = String(notebook.metadata?.kernelspec?.language || notebook.metadata?.language_info?.name || 'python').toLowerCase();
+    const seen = new Set<string>();
+    const cells = notebook.cells.map((raw: any): NotebookCell => {
+        const id = typeof raw.id === 'string' && /^[\w-]{1,64}$/.test(raw.id) && !seen.has(raw.id) ? raw.id : createCell('code').id;
+        seen.add(id);
+        const source = joinLines(raw.source);
+        if (raw.cell_type !== 'code') return { id, type: 'markdown', source };
+        const outputs = (Array.isArray(raw.outputs) ? raw.outputs : []).map(fromIpynbOutput).filter(Boolean) as RunOutput[];
+        const count = typeof raw.execution_count === 'number' ? raw.execution_count : undefined;
+        return {
+            id,
+            type: 'code',
+            source,
+            outputs: outputs.length ? outputs : undefined,
+            execution: count ? { status: outputs.some(o => o.type === 'error') ? 'error' : 'ok', count } : undefined
+        };
+    });
+    return { cells, language };
+};
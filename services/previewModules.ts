@@ -0,0 +1,336 @@
+
+import { CanvasFile } from '../types';
+import { basename, mimeTypeOf, resolvePath } from './fileTree';
+
+/**
+ * Preview Modules
+ * ES module support for code node previews. Starting from the entry scripts, imports are resolved
+ * across the node's files (with the usual extension and index fallbacks), TS/JSX is transpiled with
+ * Sucrase (bundled with the app and loaded on first use; it keeps line numbers, so errors still point at
+ * the right line), CSS/JSON/asset imports become small modules, and bare imports go to the CDN through an import
+ * map. The modules ship inside the preview document and a loader there turns them into blob URLs.
+ */
+
+export const PREVIEW_CDN = (process.env.PREVIEW_CDN || 'https://esm.sh').replace(/\/$/, '');
+
+// Specifier prefix of the node's own modules inside the preview (keys of the import map)
+export const MODULE_PREFIX = '@node/';
+
+// A node file that declares extra import map entries
+export const IMPORT_MAP_FILE = 'importmap.json';
+
+export type PreviewModule =
+    | { code: string }
+    | { asset: { mime: string; data: string; base64: boolean } }; // Default export is the asset's blob URL
+
+export interface ImportMap {
+    imports: Record<string, string>;
+    scopes?: Record<string, Record<string, string>>;
+}
+
+export interface ModuleDiagnostic {
+    message: string;
+    file: string;
+    line?: number;
+    column?: number;
+}
+
+const RESOLVE_SUFFIXES = ['', '.tsx', '.ts', '.jsx', '.js', '.mjs', '.json', '/index.tsx', '/index.ts', '/index.jsx', '/index.js'];
+const SCRIPT = /\.(m?[jt]sx?|cts|cjs)$/i;
+const NEEDS_TYPESCRIPT = /\.(m?tsx?|cts)$/i;
+
+const extensionOf = (path: string) => (basename(path).split('.').pop() || '').toLowerCase();
+
+export const isBareSpecifier = (spec: string) => !/^(\.{0,2}\/|[a-z][a-z0-9+.-]*:)/i.test(spec);
+
+/**
+ * Whether a file is served as an asset: known media/font types, or content stored as a data URL.
+ */
+export const isAsset = (file: CanvasFile) => file.content.startsWith('data:') || !!mimeTypeOf(file.name);
+
+const parseDataUrl = (url: string) => {
+    const comma = url.indexOf(',');
+    const header = url.substring(5, comma);
+    return { mime: header.split(';')[0] || 'application/octet-stream', base64: /;base64$/i.test(header), data: url.substring(comma + 1) };
+};
+
+const assetOf = (file: CanvasFile) => {
+    if (file.content.startsWith('data:')) {
+        const { mime, base64, data } = parseDataUrl(file.content);
+        return { mime, base64, data: base64 ? data : decodeURIComponent(data) };
+    }
+    return { mime: mimeTypeOf(file.name) || 'application/octet-stream', base64: false, data: file.content };
+};
+
+/**
+ * An asset as a data URL, for references in HTML and CSS (which load before any script could create blob URLs).
+ */
+export const assetDataUrl = (file: CanvasFile) => {
+    if (file.content.startsWith('data:')) return file.content;
+    return `data:${mimeTypeOf(file.name) || 'text/plain'};charset=utf-8,${encodeURIComponent(file.content)}`;
+};
+
+/**
+ * The node file a local specifier refers to, trying extensions and index files like a bundler would.
+ */
+export const resolveModule = (files: Record<string, CanvasFile>, from: string, spec: string): string | null => {
+    const base = resolvePath(from, spec);
+    if (base === null) return null;
+    for (const suffix of RESOLVE_SUFFIXES) {
+        const path = suffix.startsWith('/') ? (base ? base + suffix : suffix.substring(1)) : base + suffix;
+        if (files[path]) return path;
+    }
+    return null;
+};
+
+// Static imports and re-exports (`import x from 'a'`, `import 'a'`, `export * from 'a'`) and dynamic `import('a')`
+const SPECIFIER = /(\bimport\s*(?:[\w*{}\s,$]+?\s*from\s*)?|\bexport\s*(?:\*(?:\s*as\s+[\w$]+)?|\{[^}]*\})\s*from\s*|\bimport\s*\(\s*)(['"])([^'"\n]+)\2/g;
+
+/**
+ * Replace every module specifier in `code`; `rewrite` returns the new specifier, or null to keep it.
+ */
+export const rewriteSpecifiers = (code: string, rewrite: (spec: string) => string | null) =>
+    code.replace(SPECIFIER, (match, lead, quote, spec) => {
+        const next = rewrite(spec);
+        return next === null ? match : `${lead}${quote}${next}${quote}`;
+    });
+
+/**
+ * `url(...)` references in CSS to node files, inlined as data URLs.
+ */
+export const inlineCssUrls = (css: string, from: string, files: Record<string, CanvasFile>) =>
+    css.replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g, (match, quote, ref) => {
+        const path = resolvePath(from, ref.trim());
+        return path !== null && files[path] ? `url(${quote}${assetDataUrl(files[path])}${quote})` : match;
+    });
+
+// --- Transpiler ---
+
+type Transpiler = typeof import('sucrase');
+
+let transpiler: Promise<Transpiler> | null = null;
+
+// Runs in the studio's own window, so it comes from the app bundle (a separate chunk), never a CDN
+const loadTranspiler = () => {
+    if (!transpiler) {
+        transpiler = import('sucrase').catch(e => {
+            transpiler = null; // Try again on the next bundle
+            throw e;
+        });
+    }
+    return transpiler;
+};
+
+// JSX-looking tags in a .js file (CRA-style components)
+const looksLikeJsx = (code: string) => /<\/?[A-Za-z][\w.]*(\s[^<>]*)?\/?>/.test(code) && /return\s*\(?\s*</.test(code);
+
+const needsTranspile = (path: string, code: string) => NEEDS_TYPESCRIPT.test(path) || /\.jsx$/i.test(path) || (SCRIPT.test(path) && looksLikeJsx(code));
+
+const transpile = (sucrase: Transpiler, path: string, code: string) => sucrase.transform(code, {
+    transforms: /\.tsx$/i.test(path) ? ['typescript', 'jsx'] : NEEDS_TYPESCRIPT.test(path) ? ['typescript'] : ['jsx'],
+    jsxRuntime: 'automatic',
+    production: true,
+    filePath: path
+}).code;
+
+// --- Import map ---
+
+const packageName = (spec: string) => spec.split('/').slice(0, spec.startsWith('@') ? 2 : 1).join('/');
+
+/**
+ * Bare imports mapped to the CDN, with versions from the node's package.json when it has one, then
+ * the node's own import map (an `importmap.json` file or an inline one in the HTML) on top.
+ */
+export const buildImportMap = (bare: Iterable<string>, files: Record<string, CanvasFile>, authored: ImportMap[] = []): ImportMap => {
+    let versions: Record<string, string> = {};
+    try {
+        const pkg = files['package.json'] && JSON.parse(files['package.json'].content);
+        versions = { ...pkg?.devDependencies, ...pkg?.dependencies };
+    } catch {
+        // An invalid package.json just means unpinned versions
+    }
+
+    const imports: Record<string, string> = {};
+    for (const spec of bare) {
+        const name = packageName(spec);
+        // Plain versions and ranges only (not 'file:', 'workspace:' or git URLs)
+        const version = /^[\w^~.*<>=-]+$/.test(versions[name] || '') ? `@${versions[name]}` : '';
+        imports[spec] = `${PREVIEW_CDN}/${name}${version}${spec.substring(name.length)}`;
+    }
+
+    const fileMap = files[IMPORT_MAP_FILE] ? [files[IMPORT_MAP_FILE].content] : [];
+    const scopes: Record<string, Record<string, string>> = {};
+    [...fileMap.map(parseImportMap), ...authored].forEach(map => {
+        if (!map) return;
+        Object.assign(imports, map.imports);
+        Object.entries(map.scopes || {}).forEach(([scope, entries]) => { scopes[scope] = { ...scopes[scope], ...entries }; });
+    });
+    return Object.keys(scopes).length ? { imports, scopes } : { imports };
+};
+
+export const parseImportMap = (json: string): ImportMap | null => {
+    try {
+        const map = JSON.parse(json);
+        return map && typeof map === 'object' ? { imports: map.imports || {}, scopes: map.scopes } : null;
+    } catch {
+        return null;
+    }
+};
+
+// --- Graph ---
+
+const lineContaining = (text: string, needle: string) => {
+    const i = text.indexOf(needle);
+    return i < 0 ? undefined : text.substring(0, i).split('\n').length;
+};
+
+// Sucrase syntax errors carry a 1-based line and 0-based column
+const errorLocation = (e: any) => e?.loc ? { line: e.loc.line, column: e.loc.column + 1 } : {};
+
+/**
+ * Collect every module reachable from `entries` and from `inline` module code in the HTML. Local
+ * specifiers are rewritten to `@node/<path>`; the rewritten inline code is returned alongside.
+ */
+export const collectModules = async (files: Record<string, CanvasFile>, entries: string[], inline: { code: string; from: string }[] = []) => {
+    const modules: Record<string, PreviewModule> = {};
+    const diagnostics: ModuleDiagnostic[] = [];
+    const bare = new Set<string>();
+    const queue = [...entries];
+
+    const rewriteFrom = (from: string) => (spec: string) => {
+        if (isBareSpecifier(spec)) {
+            if (!spec.startsWith(MODULE_PREFIX)) bare.add(spec);
+            return null;
+        }
+        if (/^[a-z][a-z0-9+.-]*:/i.test(spec)) return null;
+        const path = resolveModule(files, from, spec);
+        if (!path) {
+            diagnostics.push({ message: `Cannot resolve '${spec}' from ${from || 'the page'}`, file: from, line: files[from] ? lineContaining(files[from].content, spec) : undefined });
+            return null;
+        }
+        if (!(path in modules) && !queue.includes(path)) queue.push(path);
+        return MODULE_PREFIX + path;
+    };
+
+    const rewrittenInline = inline.map(({ code, from }) => rewriteSpecifiers(code, rewriteFrom(from)));
+
+    let sucrase: Transpiler | null = null;
+    let transpilerError: string | null = null;
+    // Loaded for the first file that needs it; a failure is reported once, against that file
+    const getTranspiler = async (path: string) => {
+        if (sucrase || transpilerError) return sucrase;
+        try {
+            sucrase = await loadTranspiler();
+        } catch (e: any) {
+            transpilerError = `Could not load the TypeScript/JSX transpiler: ${e?.message || e}`;
+            diagnostics.push({ message: transpilerError, file: path });
+        }
+        return sucrase;
+    };
+
+    while (queue.length) {
+        const path = queue.shift()!;
+        if (path in modules) continue;
+        const file = files[path];
+        const ext = extensionOf(path);
+
+        if (isAsset(file)) {
+            modules[path] = { asset: assetOf(file) };
+        } else if (ext === 'css') {
+            const css = inlineCssUrls(file.content, path, files);
+            modules[path] = { code: `const style = document.createElement('style');\nstyle.dataset.file = ${JSON.stringify(path)};\nstyle.textContent = ${JSON.stringify(css)};\ndocument.head.appendChild(style);\nexport default ${JSON.stringify(css)};\n` };
+        } else if (ext === 'json') {
+            try {
+                modules[path] = { code: `export default ${JSON.stringify(JSON.parse(file.content))};\n` };
+            } catch (e: any) {
+                diagnostics.push({ message: `Invalid JSON in ${path}: ${e?.message || e}`, file: path });
+                modules[path] = { code: `throw new SyntaxError(${JSON.stringify(`Invalid JSON in ${path}`)});\n` };
+            }
+        } else if (SCRIPT.test(path)) {
+            let code = file.content;
+            if (needsTranspile(path, code)) {
+                const t = await getTranspiler(path);
+                if (!t) {
+                    modules[path] = { code: `throw new Error(${JSON.stringify(transpilerError)});\n` };
+                    continue;
+                }
+                try {
+                    code = transpile(t, path, code);
+                } catch (e: any) {
+                    const message = String(e?.message || e).replace(/^Error transforming [^:]+:\s*/, '');
+                    diagnostics.push({ message: `SyntaxError: ${message}`, file: path, ...errorLocation(e) });
+                    modules[path] = { code: `throw new SyntaxError(${JSON.stringify(`${message} in ${path}`)});\n` };
+                    continue;
+                }
+            }
+            modules[path] = { code: rewriteSpecifiers(code, rewriteFrom(path)) };
+        } else {
+            modules[path] = { code: `export default ${JSON.stringify(file.content)};\n` };
+        }
+    }
+
+    return { modules, diagnostics, bare, inline: rewrittenInline };
+};
+
+/**
+ * The script that entry files are loaded with once the import map is in place.
+ */
+export const moduleEntry = (path: string) => `import ${JSON.stringify(MODULE_PREFIX + path)};`;
+
+/**
+ * Entry for a node without HTML: a main/index script, or a lone App component that gets mounted
+ * into #root. Null if there is nothing to run.
+ */
+export const findScriptEntry = (files: Record<string, CanvasFile>): { path: string; mount: boolean } | null => {
+    const scripts = Object.keys(files).filter(p => SCRIPT.test(p) && !/\.d\.ts$/.test(p));
+    const byDepth = (a: string, b: string) => a.split('/').length - b.split('/').length;
+    const main = scripts.filter(p => /^(main|index)\.[jt]sx?$/i.test(basename(p))).sort(byDepth)[0];
+    if (main) return { path: main, mount: false };
+    const app = scripts.filter(p => /^App\.[jt]sx$/.test(basename(p))).sort(byDepth)[0];
+    return app ? { path: app, mount: true } : null;
+};
+
+// Mounts a default-exported component (React) when the node has no entry of its own
+export const mountScript = (path: string) => [
+    `import React from "react";`,
+    `import { createRoot } from "react-dom/client";`,
+    `import App from ${JSON.stringify(MODULE_PREFIX + path)};`,
+    `createRoot(document.getElementById("root")).render(React.createElement(App));`
+].join('\n');
+
+/**
+ * Runs in the preview after the bridge: creates blob URLs for the modules and assets and installs
+ * the import map, before any module script is reached. Module URLs are registered with the bridge
+ * so errors inside them map back to their files.
+ */
+export const loaderScript = (modules: Record<string, PreviewModule>, importMap: ImportMap) => {
+    // `<` escaped so file contents can't close the script element
+    const payload = JSON.stringify({ prefix: MODULE_PREFIX, modules, importMap }).replace(/</g, '\\u003c');
+    return `(function () {
+var payload = ${payload};
+var sources = window.__weaverSources || {};
+var imports = {};
+Object.keys(payload.importMap.imports).forEach(function (k) { imports[k] = payload.importMap.imports[k]; });
+function url(data, type) { return URL.createObjectURL(new Blob([data], { type: type })); }
+Object.keys(payload.modules).forEach(function (path) {
+  var m = payload.modules[path];
+  if (m.asset) {
+    var data = m.asset.data;
+    if (m.asset.base64) {
+      var binary = atob(data);
+      data = new Uint8Array(binary.length);
+      for (var i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+    }
+    imports[payload.prefix + path] = url('export default ' + JSON.stringify(url(data, m.asset.mime)) + ';', 'text/javascript');
+  } else {
+    var moduleUrl = url(m.code, 'text/javascript');
+    sources[moduleUrl] = path;
+    imports[payload.prefix + path] = moduleUrl;
+  }
+});
+var map = document.createElement('script');
+map.type = 'importmap';
+map.textContent = JSON.stringify({ imports: imports, scopes: payload.importMap.scopes || {} });
+document.currentScript.after(map);
+})();`;
+};
@@ -0,0 +1,308 @@
+
+import { CanvasFile } from '../types';
+import { basename, resolvePath } from './fileTree';
+import { ImportMap, assetDataUrl, collectModules, buildImportMap, findScriptEntry, inlineCssUrls, isAsset, loaderScript, moduleEntry, mountScript, parseImportMap } from './previewModules';
+
+/**
+ * Preview Runtime
+ * Code node previews run in an iframe sandboxed without `allow-same-origin`, so generated scripts
+ * get an opaque origin: no access to the studio's DOM, cookies or localStorage. A small bridge
+ * script injected at the top of the document reports `console.*` calls, uncaught errors and
+ * unhandled rejections back over postMessage. Lines in the bundled document are mapped back to the
+ * file (and line) in `CanvasNode.files` they came from.
+ */
+
+export const PREVIEW_SANDBOX = 'allow-scripts allow-modals allow-forms allow-popups';
+
+export type PreviewLogLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface SourceLocation {
+    file: string;
+    line: number;
+    column?: number;
+}
+
+export interface PreviewLogEntry {
+    kind: 'console' | 'error' | 'rejection';
+    level: PreviewLogLevel;
+    message: string;
+    source?: SourceLocation;
+    time: number;
+}
+
+export interface PreviewBundle {
+    html: string;
+    token: string; // Identifies this bundle's bridge messages
+    lines: (SourceLocation | null)[]; // Origin of each line in `html` (index 0 is line 1)
+    diagnostics: PreviewLogEntry[]; // Problems found while bundling (unresolved imports, syntax errors)
+}
+
+/**
+ * Strip a Markdown code fence some models wrap file content in.
+ */
+export const cleanCode = (content: string) => {
+    const c = content.trim();
+    if (c.startsWith('```')) {
+        const lines = c.split('\n');
+        if (lines.length > 1) {
+            lines.shift();
+            if (lines[lines.length - 1].trim() === '```') lines.pop();
+            return lines.join('\n');
+        }
+    }
+    return content;
+};
+
+// Runs inside the sandbox before any user script. Kept dependency-free and ES5-ish on purpose.
+const bridgeScript = (token: string) => `(function () {
+var token = ${JSON.stringify(token)};
+var here = location.href;
+// Blob URLs of the node's modules, filled in by the module loader
+var sources = window.__weaverSources = {};
+function send(data) { data.token = token; try { parent.postMessage({ weaverPreview: data }, '*'); } catch (e) {} }
+function text(value) {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return (value.name || 'Error') + ': ' + value.message;
+  if (typeof value === 'function') return 'function ' + (value.name || '(anonymous)') + '()';
+  if (value === undefined) return 'undefined';
+  if (typeof Node !== 'undefined' && value instanceof Node) return '<' + (value.nodeName || 'node').toLowerCase() + '>';
+  var seen = [];
+  try {
+    return JSON.stringify(value, function (key, v) {
+      if (typeof v === 'bigint') return v.toString() + 'n';
+      if (v && typeof v === 'object') { if (seen.indexOf(v) >= 0) return '[Circular]'; seen.push(v); }
+      return v;
+    });
+  } catch (e) { return String(value); }
+}
+// A position in this document, or in one of the node's modules
+function frame(url, line, column) {
+  if (url === here) return { line: line, column: column };
+  if (sources[url]) return { file: sources[url], line: line, column: column };
+  return null;
+}
+// Candidate positions, innermost first; the studio skips the bridge's own lines
+function frames(stack) {
+  var found = [];
+  String(stack || '').split('\\n').forEach(function (line) {
+    var m = /(blob:[^\\s()@]+?):(\\d+):(\\d+)/.exec(line);
+    var f = m && frame(m[1], +m[2], +m[3]);
+    if (f && found.length < 10) found.push(f);
+  });
+  return found;
+}
+['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+  var original = console[level];
+  console[level] = function () {
+    var args = Array.prototype.slice.call(arguments);
+    var err = args.filter(function (a) { return a instanceof Error; })[0];
+    send({ kind: 'console', level: level, message: args.map(text).join(' ').slice(0, 4000), frames: frames((err || new Error()).stack) });
+    if (original) original.apply(console, args);
+  };
+});
+addEventListener('error', function (e) {
+  if (!e.message && e.target && e.target !== window) {
+    send({ kind: 'error', level: 'error', message: 'Failed to load ' + (e.target.src || e.target.href || e.target.nodeName), frames: [] });
+    return;
+  }
+  var at = frame(e.filename, e.lineno, e.colno);
+  var found = at ? [at] : frames(e.error && e.error.stack);
+  send({ kind: 'error', level: 'error', message: e.error ? text(e.error) : e.message, frames: found });
+}, true);
+addEventListener('unhandledrejection', function (e) {
+  send({ kind: 'rejection', level: 'error', message: 'Unhandled rejection: ' + text(e.reason), frames: frames(e.reason && e.reason.stack) });
+});
+try { localStorage.length; } catch (e) {
+  // Opaque origins have no storage; give scripts an in-memory stand-in so they keep running
+  var memory = function () {
+    var items = {};
+    return {
+      get length() { return Object.keys(items).length; },
+      key: function (i) { return Object.keys(items)[i] || null; },
+      getItem: function (k) { return Object.prototype.hasOwnProperty.call(items, k) ? items[k] : null; },
+      setItem: function (k, v) { items[k] = String(v); },
+      removeItem: function (k) { delete items[k]; },
+      clear: function () { items = {}; }
+    };
+  };
+  try {
+    Object.defineProperty(window, 'localStorage', { value: memory(), configurable: true });
+    Object.defineProperty(window, 'sessionStorage', { value: memory(), configurable: true });
+  } catch (err) {}
+}
+})();`;
+
+interface Chunk {
+    text: string;
+    file?: string; // Absent for text the bundler adds
+    line: number;  // Line in `file` the text starts on
+}
+
+const lineOf = (text: string, index: number) => text.substring(0, index).split('\n').length;
+
+const attribute = (attrs: string, name: string) => new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`, 'i').exec(attrs)?.[1];
+
+const entryHtml = (files: Record<string, CanvasFile>) => {
+    const paths = Object.keys(files);
+    return paths.find(k => k === 'index.html') || paths.find(k => basename(k) === 'index.html') || paths.find(k => k.endsWith('.html'));
+};
+
+/**
+ * Whether a node's files can be previewed: an HTML page, or a script entry to build one around.
+ */
+export const hasPreview = (files: Record<string, CanvasFile>) => !!entryHtml(files) || !!findScriptEntry(files);
+
+// Page for nodes without HTML: runs the script entry, or mounts a lone App component into #root
+const shellHtml = (entry: { path: string; mount: boolean }) =>
+    `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n</head>\n<body>\n<div id="root"></div>\n<script type="module">${entry.mount ? mountScript(entry.path) : moduleEntry(entry.path)}</script>\n</body>\n</html>\n`;
+
+/**
+ * Bundle a code node's files into one HTML document. Local stylesheets and classic scripts are
+ * inlined (resolved relative to the page), module scripts and everything they import go through
+ * the module loader, assets referenced from HTML and CSS become data URLs, and the bridge comes first.
+ */
+export const bundlePreview = async (files: Record<string, CanvasFile>): Promise<PreviewBundle> => {
+    const htmlEntry = entryHtml(files);
+    const scriptEntry = htmlEntry ? null : findScriptEntry(files);
+    // Without either, the first file is shown as a page (single-file SVG/XML nodes)
+    const entry = htmlEntry || (scriptEntry ? '' : Object.keys(files)[0]);
+    const html = scriptEntry ? shellHtml(scriptEntry) : cleanCode(files[entry]?.content || '');
+    const token = Math.random().toString(36).slice(2);
+
+    // References are relative to the HTML file's folder
+    const fileAt = (ref: string) => {
+        const path = resolvePath(entry, ref);
+        return path === null || !files[path] ? undefined : path;
+    };
+
+    // Spans of the entry file to replace, in order
+    const replacements: { start: number; end: number; chunks: Chunk[] }[] = [];
+
+    // The bridge goes after <head> (or the doctype, which must stay first to avoid quirks mode)
+    const anchor = /<head[^>]*>/i.exec(html) || /<!doctype[^>]*>/i.exec(html);
+    const bridgeAt = anchor ? anchor.index + anchor[0].length : 0;
+    const head: Chunk[] = [{ text: `\n<script>${bridgeScript(token)}</script>\n`, line: 0 }];
+    replacements.push({ start: bridgeAt, end: bridgeAt, chunks: head });
+
+    const moduleEntries = scriptEntry ? [scriptEntry.path] : [];
+    const inlineModules: { chunk: Chunk; code: string }[] = [];
+    const authoredMaps: ImportMap[] = [];
+
+    const tags = /<link\b[^>]*>|<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+    let match: RegExpExecArray | null;
+    while ((match = tags.exec(html))) {
+        const [tag, attrs, body] = match;
+        const span = { start: match.index, end: match.index + tag.length };
+
+        if (attrs === undefined) {
+            const href = attribute(tag, 'href');
+            const path = href && /\.css$/i.test(href.split(/[?#]/)[0]) ? fileAt(href) : undefined;
+            if (!path) continue;
+            replacements.push({ ...span, chunks: [
+                { text: '<style>\n', line: 0 },
+                { text: inlineCssUrls(cleanCode(files[path].content), path, files), file: path, line: 1 },
+                { text: '\n</style>', line: 0 }
+            ] });
+            continue;
+        }
+
+        const type = attribute(attrs, 'type')?.toLowerCase();
+        const src = attribute(attrs, 'src');
+        if (type === 'importmap') {
+            // Merged into the generated import map (a page can only have one)
+            const map = parseImportMap(body);
+            if (map) authoredMaps.push(map);
+            replacements.push({ ...span, chunks: [] });
+        } else if (src) {
+            const path = fileAt(src);
+            if (!path) continue;
+            if (type === 'module' || /\.(m?tsx?|jsx|cts)$/i.test(path)) {
+                moduleEntries.push(path);
+                replacements.push({ ...span, chunks: [{ text: `<script type="module">${moduleEntry(path)}</script>`, line: 0 }] });
+            } else if (/\.js$/i.test(path)) {
+                replacements.push({ ...span, chunks: [
+                    { text: '<script>\n', line: 0 },
+                    { text: cleanCode(files[path].content), file: path, line: 1 },
+                    { text: '\n</script>', line: 0 }
+                ] });
+            }
+        } else if (type === 'module') {
+            // Inline module code stays in place, with its imports rewritten below
+            const bodyStart = match.index + tag.indexOf('>') + 1;
+            const chunk: Chunk = { text: body, file: entry, line: lineOf(html, bodyStart) };
+            inlineModules.push({ chunk, code: body });
+            replacements.push({ ...span, chunks: [{ text: tag.substring(0, tag.indexOf('>') + 1), line: 0 }, chunk, { text: '</script>', line: 0 }] });
+        }
+    }
+    replacements.sort((a, b) => a.start - b.start);
+
+    const diagnostics: PreviewLogEntry[] = [];
+    if (moduleEntries.length || inlineModules.length) {
+        const graph = await collectModules(files, moduleEntries, inlineModules.map(m => ({ code: m.code, from: entry })));
+        graph.inline.forEach((code, i) => { inlineModules[i].chunk.text = code; });
+        head.push({ text: `<script>${loaderScript(graph.modules, buildImportMap(graph.bare, files, authoredMaps))}</script>\n`, line: 0 });
+        graph.diagnostics.forEach(d => diagnostics.push({
+            kind: 'error',
+            level: 'error',
+            message: d.message,
+            source: d.file && files[d.file] ? { file: d.file, line: d.line || 1, column: d.column } : undefined,
+            time: Date.now()
+        }));
+    }
+
+    // Assets referenced from the page itself (images, icons, inline styles)
+    const withAssets = (text: string) => inlineCssUrls(text, entry, files).replace(/\b(src|href|poster)=(["'])([^"']+)\2/g, (match, name, quote, ref) => {
+        const path = fileAt(ref);
+        return path && isAsset(files[path]) ? `${name}=${quote}${assetDataUrl(files[path])}${quote}` : match;
+    });
+
+    const chunks: Chunk[] = [];
+    let pos = 0;
+    replacements.forEach(r => {
+        chunks.push({ text: withAssets(html.substring(pos, r.start)), file: entry, line: lineOf(html, pos) }, ...r.chunks);
+        pos = r.end;
+    });
+    chunks.push({ text: withAssets(html.substring(pos)), file: entry, line: lineOf(html, pos) });
+
+    // Concatenate, recording where each output line came from
+    let out = '';
+    const lines: (SourceLocation | null)[] = [null];
+    chunks.forEach(chunk => {
+        if (!chunk.text) return;
+        if (out === '' || out.endsWith('\n')) lines[lines.length - 1] = chunk.file ? { file: chunk.file, line: chunk.line } : null;
+        chunk.text.split('\n').slice(1).forEach((_, i) => lines.push(chunk.file ? { file: chunk.file, line: chunk.line + i + 1 } : null));
+        out += chunk.text;
+    });
+
+    return { html: out, token, lines, diagnostics };
+};
+
+/**
+ * Map positions in the bundled document back to a file: the first one that came from a file
+ * (rather than from the bridge or the bundler's own tags) wins.
+ */
+export const locate = (bundle: PreviewBundle, frames: { file?: string; line?: number; column?: number }[]): SourceLocation | undefined => {
+    for (const { file, line, column } of frames) {
+        // Frames inside a module already name their file (transpiling keeps line numbers)
+        if (file && line) return { file, line, column: column || undefined };
+        const origin = line ? bundle.lines[line - 1] : null;
+        if (origin) return { ...origin, column: column || undefined };
+    }
+    return undefined;
+};
+
+/**
+ * A log entry from a bridge message, or null if the message isn't from this bundle's preview.
+ */
+export const readPreviewMessage = (data: any, bundle: PreviewBundle): PreviewLogEntry | null => {
+    const msg = data?.weaverPreview;
+    if (!msg || msg.token !== bundle.token) return null;
+    const level: PreviewLogLevel = ['log', 'info', 'warn', 'error', 'debug'].includes(msg.level) ? msg.level : 'log';
+    return {
+        kind: msg.kind === 'error' || msg.kind === 'rejection' ? msg.kind : 'console',
+        level,
+        message: String(msg.message ?? ''),
+        source: locate(bundle, Array.isArray(msg.frames) ? msg.frames.map((f: any) => ({ file: typeof f?.file === 'string' ? f.file : undefined, line: Number(f?.line), column: Number(f?.column) })) : []),
+        time: Date.now()
+    };
+};
@@ -0,0 +1,190 @@
+
+import { CanvasNode, NodeRevision, NotebookCell } from '../types';
+
+/**
+ * Node Revisions
+ * Each change to a node's content, files or notebook cells records the state it replaced, who made the change
+ * (the user or an agent) and the prompt behind it, oldest first. Restoring is a change too, so it
+ * can be reverted the same way. Unlike canvas undo, the log lives on the node and is saved with it.
+ */
+
+export const MAX_REVISIONS = 30;
+// Image and video snapshots are whole files; keep fewer of them
+export const MAX_MEDIA_REVISIONS = 10;
+
+// Manual edits within this window of the previous manual edit fold into one revision
+const USER_EDIT_WINDOW_MS = 60000;
+
+export type RevisionAuthor = NodeRevision['author'];
+
+// Cell sources and types; outputs and execution state are results, not content
+const cellText = (cells?: NotebookCell[]) => JSON.stringify((cells || []).map(c => [c.id, c.type, c.source]));
+
+/**
+ * True if applying `updates` would change what the node holds (content, files or cell sources).
+ */
+export const changesContent = (node: CanvasNode, updates: Partial<CanvasNode>) =>
+    (updates.content !== undefined && updates.content !== node.content) ||
+    (updates.files !== undefined && JSON.stringify(updates.files) !== JSON.stringify(node.files)) ||
+    (updates.cells !== undefined && cellText(updates.cells) !== cellText(node.cells));
+
+/**
+ * Snapshot the node's current state before `author` changes it.
+ */
+export const recordRevision = (node: CanvasNode, author: RevisionAuthor, prompt?: string, now = Date.now()): CanvasNode => {
+    const last = node.revisions?.[node.revisions.length - 1];
+    if (author === 'user' && !prompt && last?.author === 'user' && !last.prompt && now - last.timestamp < USER_EDIT_WINDOW_MS) {
+        // Still the same editing session: keep the snapshot from before it started
+        return { ...node, revisions: [...node.revisions!.slice(0, -1), { ...last, timestamp: now }] };
+    }
+    const revision: NodeRevision = {
+        id: `rev-${now}-${Math.random().toString(36).substr(2, 5)}`,
+        timestamp: now,
+        author,
+        prompt,
+        content: node.content,
+        files: node.files,
+        cells: node.cells
+    };
+    const limit = node.type === 'image' || node.type === 'video' ? MAX_MEDIA_REVISIONS : MAX_REVISIONS;
+    return { ...node, revisions: [...(node.revisions || []), revision].slice(-limit) };
+};
+
+/**
+ * Bring back the state a revision captured. The current state is recorded first.
+ */
+export const restoreRevision = (node: CanvasNode, revisionId: string, now = Date.now()): CanvasNode => {
+    const revision = node.revisions?.find(r => r.id === revisionId);
+    if (!revision) return node;
+    const recorded = recordRevision(node, 'user', `Restored version from ${new Date(revision.timestamp).toLocaleString()}`, now);
+    const activeFile = revision.files && node.activeFile && revision.files[node.activeFile]
+        ? node.activeFile
+        : revision.files ? Object.keys(revision.files)[0] : node.activeFile;
+    return { ...recorded, content: revision.content, files: revision.files, cells: revision.cells, activeFile };
+};
+
+/**
+ * The node's state right after the change recorded at `index`: the next snapshot, or the node as it is now.
+ */
+export const stateAfter = (node: CanvasNode, index: number): Pick<NodeRevision, 'content' | 'files' | 'cells'> =>
+    node.revisions?.[index + 1] || node;
+
+/**
+ * File name -> text for a node state. Single-content nodes use the empty name; notebook cells are
+ * keyed by id, so inserting a cell doesn't shift the others.
+ */
+export const stateFiles = (state: Pick<NodeRevision, 'content' | 'files' | 'cells'>): Record<string, string> => {
+    if (state.cells) {
+        return Object.fromEntries(state.cells.map(c => [`cell ${c.id}`, c.source]));
+    }
+    if (state.files && Object.keys(state.files).length > 0) {
+        return Object.fromEntries(Object.entries(state.files).map(([name, f]) => [name, f.content]));
+    }
+    return { '': state.content || '' };
+};
+
+export interface FileChange {
+    name: string;
+    before?: string; // Undefined for a new file
+    after?: string;  // Undefined for a deleted file
+    changed: boolean;
+}
+
+/**
+ * Compare two states file by file, changed files first.
+ */
+export const fileChanges = (before: Record<string, string>, after: Record<string, string>): FileChange[] =>
+    Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+        .map(name => ({ name, before: before[name], after: after[name], changed: before[name] !== after[name] }))
+        .sort((a, b) => Number(b.changed) - Number(a.changed));
+
+// --- Line Diff ---
+
+export interface DiffLine {
+    num: number;
+    text: string;
+}
+
+// One row of a side-by-side view; `changed` pairs a removed line with the line that replaced it
+export interface DiffRow {
+    kind: 'same' | 'removed' | 'added' | 'changed';
+    left?: DiffLine;
+    right?: DiffLine;
+}
+
+// Above this many LCS cells the changed middle is shown as a plain replacement
+const MAX_DIFF_CELLS = 4000000;
+
+/**
+ * Line-by-line diff (longest common subsequence after trimming the shared head and tail).
+ */
+export const diffLines = (before: string, after: string): DiffRow[] => {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    let head = 0;
+    while (head < a.length && head < b.length && a[head] === b[head]) head++;
+    let tail = 0;
+    while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+    const midA = a.slice(head, a.length - tail);
+    const midB = b.slice(head, b.length - tail);
+    const ops: Array<{ op: 'same' | 'removed' | 'added'; ai?: number; bi?: number }> = [];
+
+    for (let i = 0; i < head; i++) ops.push({ op: 'same', ai: i, bi: i });
+
+    const n = midA.length;
+    const m = midB.length;
+    if (n * m > MAX_DIFF_CELLS) {
+        midA.forEach((_, i) => ops.push({ op: 'removed', ai: head + i }));
+        midB.forEach((_, j) => ops.push({ op: 'added', bi: head + j }));
+    } else {
+        // lcs[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+        const lcs = new Uint32Array((n + 1) * (m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lcs[i * (m + 1) + j] = midA[i] === midB[j]
+                    ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+            }
+        }
+        let i = 0, j = 0;
+        while (i < n || j < m) {
+            if (i < n && j < m && midA[i] === midB[j]) {
+                ops.push({ op: 'same', ai: head + i++, bi: head + j++ });
+            } else if (j < m && (i === n || lcs[i * (m + 1) + j + 1] >= lcs[(i + 1) * (m + 1) + j])) {
+                ops.push({ op: 'added', bi: head + j++ });
+            } else {
+                ops.push({ op: 'removed', ai: head + i++ });
+            }
+        }
+    }
+
+    for (let k = 0; k < tail; k++) ops.push({ op: 'same', ai: a.length - tail + k, bi: b.length - tail + k });
+
+    // Pair each run of removed lines with the added run next to it
+    const rows: DiffRow[] = [];
+    const lineA = (ai: number): DiffLine => ({ num: ai + 1, text: a[ai] });
+    const lineB = (bi: number): DiffLine => ({ num: bi + 1, text: b[bi] });
+    let k = 0;
+    while (k < ops.length) {
+        if (ops[k].op === 'same') {
+            rows.push({ kind: 'same', left: lineA(ops[k].ai!), right: lineB(ops[k].bi!) });
+            k++;
+            continue;
+        }
+        const removed: number[] = [];
+        const added: number[] = [];
+        while (k < ops.length && ops[k].op !== 'same') {
+            if (ops[k].op === 'removed') removed.push(ops[k].ai!);
+            else added.push(ops[k].bi!);
+            k++;
+        }
+        for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+            const left = r < removed.length ? lineA(removed[r]) : undefined;
+            const right = r < added.length ? lineB(added[r]) : undefined;
+            rows.push({ kind: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+        }
+    }
+    return rows;
+};
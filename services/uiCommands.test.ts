@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { AgentId, CanvasNode } from '../types';
+import { UICommand } from './ai/types';
+import { applyUICommands, validateUICommand, CanvasSnapshot, UI_COMMAND_VERSION } from './uiCommands';
+
+const node = (id: string, x = 0, y = 0, extra: Partial<CanvasNode> = {}): CanvasNode =>
+    ({ id, type: 'text', x, y, width: 200, height: 100, title: id, content: '', zIndex: 1, ...extra });
+
+const snapshot = (nodes: CanvasNode[] = []): CanvasSnapshot => ({ nodes, edges: [], activeNodeId: null });
+
+const context = { origin: { x: 0, y: 0 }, workspaceIds: ['default', 'other'] };
+
+const apply = (state: CanvasSnapshot, commands: any[]) => applyUICommands(state, commands as UICommand[], context);
+
+describe('validateUICommand', () => {
+    it('accepts well-formed commands and ignores unknown args', () => {
+        expect(validateUICommand({ command: 'create_node', args: { type: 'notebook', title: 'NB', extra: 1 } })).toBeNull();
+        expect(validateUICommand({ command: 'clear', version: UI_COMMAND_VERSION })).toBeNull();
+    });
+
+    it('explains what is wrong', () => {
+        expect(validateUICommand(null)).toBe('command must be an object');
+        expect(validateUICommand({ args: {} })).toBe('missing "command" name');
+        expect(validateUICommand({ command: 'explode' })).toBe('unknown command "explode"');
+        expect(validateUICommand({ command: 'clear', version: UI_COMMAND_VERSION + 1 })).toMatch(/unsupported protocol version/);
+        expect(validateUICommand({ command: 'move', args: [] })).toBe('"args" must be an object');
+        expect(validateUICommand({ command: 'delete_node', args: {} })).toBe('"id" is required');
+        expect(validateUICommand({ command: 'move', args: { id: 'a', x: 'left' } })).toBe('"x" must be number');
+        expect(validateUICommand({ command: 'create_node', args: { type: 'table' } })).toMatch(/^"type" must be one of/);
+        expect(validateUICommand({ command: 'create_node', args: { connect_to: [1] } })).toBe('"connect_to" must be string or array');
+        expect(validateUICommand({ command: 'create_node', args: { files: { 'a.js': 1 } } })).toMatch(/^file "a.js"/);
+        expect(validateUICommand({ command: 'disconnect', args: { from: 'a' } })).toMatch(/needs "id"/);
+    });
+});
+
+describe('applyUICommands', () => {
+    it('resolves $ref aliases to nodes created earlier in the batch', () => {
+        const { state, results } = apply(snapshot([node('a')]), [
+            { command: 'create_node', args: { title: 'Notes', ref: 'notes' } },
+            { command: 'connect', args: { from: 'a', to: '$notes' } },
+            { command: 'focus_node', args: { id: '$notes' } },
+        ]);
+        const created = results[0].nodeId!;
+        expect(results[0]).toMatchObject({ ok: true, ref: 'notes' });
+        expect(state.nodes.find(n => n.id === created)?.title).toBe('Notes');
+        expect(state.edges).toHaveLength(1);
+        expect(state.edges[0]).toMatchObject({ fromNode: 'a', toNode: created });
+        expect(results[2]).toMatchObject({ ok: true, nodeId: created });
+        expect(state.activeNodeId).toBe(created);
+    });
+
+    it('reports an unknown reference without stopping the batch', () => {
+        const { state, results } = apply(snapshot([node('a')]), [
+            { command: 'move', args: { id: '$missing', x: 10 } },
+            { command: 'move', args: { id: 'a', dx: 5, dy: -5 } },
+        ]);
+        expect(results[0]).toMatchObject({ ok: false, error: 'unknown reference "$missing"' });
+        expect(results[1].ok).toBe(true);
+        expect(state.nodes[0]).toMatchObject({ x: 5, y: -5 });
+    });
+
+    it('does not create a node whose connect_to target is missing', () => {
+        const start = snapshot([node('a')]);
+        const { state, results, changed } = apply(start, [
+            { command: 'create_node', args: { title: 'Orphan', connect_to: ['a', 'ghost'] } },
+        ]);
+        expect(results[0]).toMatchObject({ ok: false, error: 'node "ghost" not found' });
+        expect(state.nodes).toEqual(start.nodes);
+        expect(state.edges).toEqual([]);
+        expect(changed).toBe(false);
+    });
+
+    it('connects a new node to every connect_to target', () => {
+        const { state, results } = apply(snapshot([node('a'), node('b', 600)]), [
+            { command: 'create_node', args: { x: 300, y: 0, connect_to: ['a', 'b'] } },
+        ]);
+        expect(results[0].edgeIds).toHaveLength(2);
+        expect(state.edges.map(e => [e.fromNode, e.fromSide, e.toSide])).toEqual([['a', 'right', 'left'], ['b', 'left', 'right']]);
+    });
+
+    it('gives every command its own result, echoing correlation ids', () => {
+        const { results } = apply(snapshot([node('a')]), [
+            { command: 'delete_node', args: { id: 'nope' }, id: 'c1' },
+            { command: 'explode', id: 'c2' },
+            { command: 'connect', args: { from: 'a', to: 'a' } },
+            { command: 'disconnect', args: { from: 'a', to: 'b' } },
+            { command: 'set_workspace', args: { id: 'elsewhere' } },
+            { command: 'select', args: { id: 'a' }, id: 'c6' },
+        ]);
+        expect(results.map(r => [r.index, r.ok, r.error])).toEqual([
+            [0, false, 'node "nope" not found'],
+            [1, false, 'unknown command "explode"'],
+            [2, false, 'cannot connect a node to itself'],
+            [3, false, 'no matching edge'],
+            [4, false, 'workspace "elsewhere" not found'],
+            [5, true, undefined],
+        ]);
+        expect(results[0].commandId).toBe('c1');
+        expect(results[1].commandId).toBe('c2');
+        expect(results[5].commandId).toBe('c6');
+    });
+
+    it('removes attached edges with a deleted node', () => {
+        const first = apply(snapshot([node('a'), node('b', 400)]), [{ command: 'connect', args: { from: 'a', to: 'b' } }]);
+        const { state, results } = apply(first.state, [{ command: 'delete_node', args: { id: 'b' } }]);
+        expect(state.nodes.map(n => n.id)).toEqual(['a']);
+        expect(state.edges).toEqual([]);
+        expect(results[0].edgeIds).toEqual(first.results[0].edgeIds);
+    });
+
+    it('records a revision when an update changes content', () => {
+        const { state } = applyUICommands(snapshot([node('a', 0, 0, { content: 'old' })]),
+            [{ command: 'update_node', args: { id: 'a', content: 'new' } }],
+            { ...context, author: AgentId.CODE });
+        expect(state.nodes[0].content).toBe('new');
+        expect(state.nodes[0].revisions).toHaveLength(1);
+        expect(state.nodes[0].revisions![0]).toMatchObject({ content: 'old', author: AgentId.CODE });
+    });
+
+    it('creates empty notebooks with a python kernel', () => {
+        const { state } = apply(snapshot(), [{ command: 'create_node', args: { type: 'notebook' } }]);
+        expect(state.nodes[0]).toMatchObject({ type: 'notebook', cells: [], language: 'python' });
+    });
+
+    it('returns effects for focus and workspace commands', () => {
+        const { effects, changed } = apply(snapshot([node('a')]), [
+            { command: 'focus_node', args: { id: 'a', zoom: 2 } },
+            { command: 'set_workspace', args: { id: 'other' } },
+            { command: 'rename_workspace', args: { name: '  ' } },
+        ]);
+        expect(effects).toEqual({ focus: { nodeId: 'a', zoom: 2 }, switchWorkspaceId: 'other', renameWorkspace: { id: undefined, name: 'Untitled' } });
+        expect(changed).toBe(false);
+    });
+});
@@ -0,0 +1,400 @@
+
+import { AgentId, CanvasNode, CanvasEdge, CanvasFile, HandleSide, NodeType } from '../types';
+import { UICommand, UICommandResult } from './ai/types';
+import { changesContent, recordRevision } from './revisions';
+
+/**
+ * UI Command Protocol
+ * Agents manipulate the canvas by emitting `{ command, args, version? }` objects.
+ * Commands are validated against a small schema and reduced into a new canvas state
+ * without touching React, so a whole batch can be committed as one history step.
+ *
+ * A `create_node` may carry `ref: "name"`; later commands in the same batch can then use
+ * `"$name"` wherever a node ID is expected. Every command yields a result that is reported
+ * back to the agent so follow-up plans know which IDs were produced.
+ */
+
+export const UI_COMMAND_VERSION = 1;
+
+export type UICommandName =
+    | 'create_node' | 'update_node' | 'delete_node' | 'clear'
+    | 'connect' | 'disconnect'
+    | 'move' | 'arrange' | 'focus_node' | 'select'
+    | 'set_workspace' | 'rename_workspace';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'string_or_array';
+
+interface FieldSpec {
+    type: FieldType;
+    required?: boolean;
+    oneOf?: readonly string[];
+}
+
+const NODE_TYPES: readonly NodeType[] = ['text', 'code', 'image', 'video', 'website', 'notebook'];
+const SIDES: readonly HandleSide[] = ['top', 'right', 'bottom', 'left'];
+const LAYOUTS = ['grid', 'row', 'column'] as const;
+
+const GEOMETRY: Record<string, FieldSpec> = {
+    x: { type: 'number' },
+    y: { type: 'number' },
+    width: { type: 'number' },
+    height: { type: 'number' },
+};
+
+const NODE_FIELDS: Record<string, FieldSpec> = {
+    ...GEOMETRY,
+    title: { type: 'string' },
+    content: { type: 'string' },
+    language: { type: 'string' },
+    files: { type: 'object' },
+    activeFile: { type: 'string' },
+};
+
+const SCHEMAS: Record<UICommandName, Record<string, FieldSpec>> = {
+    create_node: { ...NODE_FIELDS, type: { type: 'string', oneOf: NODE_TYPES }, connect_to: { type: 'string_or_array' }, ref: { type: 'string' } },
+    update_node: { ...NODE_FIELDS, id: { type: 'string', required: true } },
+    delete_node: { id: { type: 'string', required: true } },
+    clear: {},
+    connect: {
+        from: { type: 'string', required: true },
+        to: { type: 'string', required: true },
+        from_side: { type: 'string', oneOf: SIDES },
+        to_side: { type: 'string', oneOf: SIDES },
+    },
+    disconnect: { id: { type: 'string' }, from: { type: 'string' }, to: { type: 'string' } },
+    move: { id: { type: 'string', required: true }, x: { type: 'number' }, y: { type: 'number' }, dx: { type: 'number' }, dy: { type: 'number' } },
+    arrange: { layout: { type: 'string', oneOf: LAYOUTS }, ids: { type: 'array' }, spacing: { type: 'number' } },
+    focus_node: { id: { type: 'string', required: true }, zoom: { type: 'number' } },
+    select: { id: { type: 'string' } },
+    set_workspace: { id: { type: 'string', required: true } },
+    rename_workspace: { id: { type: 'string' }, name: { type: 'string', required: true } },
+};
+
+const matchesType = (value: any, type: FieldType) => {
+    switch (type) {
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+        case 'array': return Array.isArray(value);
+        case 'string_or_array': return typeof value === 'string' || (Array.isArray(value) && value.every(v => typeof v === 'string'));
+        default: return typeof value === type;
+    }
+};
+
+/**
+ * Returns a human-readable reason if the command is malformed, otherwise null.
+ * Unknown argument keys are ignored so newer agents can send optional extras.
+ */
+export const validateUICommand = (cmd: any): string | null => {
+    if (typeof cmd !== 'object' || cmd === null) return 'command must be an object';
+    if (typeof cmd.command !== 'string') return 'missing "command" name';
+    if (cmd.version !== undefined && (typeof cmd.version !== 'number' || cmd.version > UI_COMMAND_VERSION)) {
+        return `unsupported protocol version ${cmd.version} (client speaks v${UI_COMMAND_VERSION})`;
+    }
+
+    const schema = SCHEMAS[cmd.command as UICommandName];
+    if (!schema) return `unknown command "${cmd.command}"`;
+
+    const args = cmd.args ?? {};
+    if (!matchesType(args, 'object')) return '"args" must be an object';
+
+    for (const [key, spec] of Object.entries(schema)) {
+        const value = args[key];
+        if (value === undefined || value === null) {
+            if (spec.required) return `"${key}" is required`;
+            continue;
+        }
+        if (!matchesType(value, spec.type)) return `"${key}" must be ${spec.type.replace(/_/g, ' ')}`;
+        if (spec.oneOf && !spec.oneOf.includes(value)) return `"${key}" must be one of ${spec.oneOf.join(', ')}`;
+    }
+
+    if (args.files) {
+        const bad = Object.entries(args.files).find(([, f]: [string, any]) =>
+            typeof f !== 'string' && !(matchesType(f, 'object') && typeof f.content === 'string')
+        );
+        if (bad) return `file "${bad[0]}" must be a string or { content, language? }`;
+    }
+    if (cmd.command === 'disconnect' && !args.id && !(args.from && args.to)) {
+        return 'disconnect needs "id" or both "from" and "to"';
+    }
+    return null;
+};
+
+// --- Reducer ---
+
+export interface CanvasSnapshot {
+    nodes: CanvasNode[];
+    edges: CanvasEdge[];
+    activeNodeId: string | null;
+}
+
+export interface UICommandEffects {
+    focus?: { nodeId: string; zoom?: number };
+    switchWorkspaceId?: string;
+    renameWorkspace?: { id?: string; name: string };
+}
+
+export interface ApplyUICommandsResult {
+    state: CanvasSnapshot;
+    effects: UICommandEffects;
+    results: UICommandResult[];
+    changed: boolean; // nodes or edges differ from the input (worth a history entry)
+}
+
+interface ApplyContext {
+    origin: { x: number; y: number }; // Default placement for nodes without coordinates
+    workspaceIds: string[];
+    author?: AgentId; // Agent the revisions of updated nodes are attributed to
+}
+
+const DEFAULT_SIZE = { width: 500, height: 400 };
+const DEFAULT_SPACING = 40;
+
+const newNodeId = () => Date.now().toString() + Math.random().toString(36).substr(2, 5);
+
+const toFiles = (files: Record<string, any>, existing: Record<string, CanvasFile> = {}): Record<string, CanvasFile> => {
+    const result = { ...existing };
+    Object.entries(files).forEach(([name, f]) => {
+        const content = typeof f === 'string' ? f : f.content;
+        const language = (typeof f === 'object' && f.language) || existing[name]?.language || name.split('.').pop() || 'txt';
+        result[name] = { name, content, language };
+    });
+    return result;
+};
+
+// Pick facing handles from the relative position of two nodes
+const inferSides = (from: CanvasNode, to: CanvasNode): [HandleSide, HandleSide] => {
+    const dx = (to.x + to.width / 2) - (from.x + from.width / 2);
+    const dy = (to.y + to.height / 2) - (from.y + from.height / 2);
+    if (Math.abs(dx) >= Math.abs(dy)) return dx >= 0 ? ['right', 'left'] : ['left', 'right'];
+    return dy >= 0 ? ['bottom', 'top'] : ['top', 'bottom'];
+};
+
+const pickGeometry = (args: any) => {
+    const geometry: Partial<CanvasNode> = {};
+    (['x', 'y', 'width', 'height'] as const).forEach(k => {
+        if (typeof args[k] === 'number') geometry[k] = k === 'width' || k === 'height' ? Math.max(80, args[k]) : args[k];
+    });
+    return geometry;
+};
+
+/**
+ * Validate and apply a batch. Invalid or failing commands are skipped and reported;
+ * the rest of the batch still applies.
+ */
+export const applyUICommands = (snapshot: CanvasSnapshot, commands: UICommand[], context: ApplyContext): ApplyUICommandsResult => {
+    let { nodes, edges, activeNodeId } = snapshot;
+    const effects: UICommandEffects = {};
+    const results: UICommandResult[] = [];
+    const refs = new Map<string, string>();
+
+    const findNode = (id: string) => nodes.find(n => n.id === id);
+
+    // "$name" -> ID of the node created with `ref: "name"` earlier in this batch
+    const resolve = (id: string) => {
+        if (!id.startsWith('$')) return id;
+        const resolved = refs.get(id.substring(1));
+        if (!resolved) throw new Error(`unknown reference "${id}"`);
+        return resolved;
+    };
+
+    const addEdge = (fromId: string, toId: string, fromSide?: HandleSide, toSide?: HandleSide): string => {
+        const from = findNode(fromId);
+        const to = findNode(toId);
+        if (!from) throw new Error(`node "${fromId}" not found`);
+        if (!to) throw new Error(`node "${toId}" not found`);
+        if (fromId === toId) throw new Error('cannot connect a node to itself');
+        const existing = edges.find(e => e.fromNode === fromId && e.toNode === toId);
+        if (existing) return existing.id;
+
+        const [inferredFrom, inferredTo] = inferSides(from, to);
+        const sides = { from: fromSide || inferredFrom, to: toSide || inferredTo };
+        const edge: CanvasEdge = {
+            id: `${fromId}-${sides.from}-${toId}-${sides.to}-${Date.now()}`,
+            fromNode: fromId,
+            fromSide: sides.from,
+            toNode: toId,
+            toSide: sides.to
+        };
+        edges = [...edges, edge];
+        return edge.id;
+    };
+
+    commands.forEach((cmd, index) => {
+        const commandName = String((cmd as any)?.command ?? '?');
+        const commandId = typeof (cmd as any)?.id === 'string' ? (cmd as any).id : undefined;
+        const invalid = validateUICommand(cmd);
+        if (invalid) {
+            results.push({ index, command: commandName, commandId, ok: false, error: invalid });
+            return;
+        }
+
+        const result: UICommandResult = { index, command: commandName, commandId, ok: true };
+        // Resolve references up front so every case works with real IDs
+        const args: any = { ...(cmd.args ?? {}) };
+        try {
+            (['id', 'from', 'to'] as const).forEach(k => {
+                if (typeof args[k] === 'string') args[k] = resolve(args[k]);
+            });
+            if (args.connect_to) args.connect_to = (typeof args.connect_to === 'string' ? [args.connect_to] : args.connect_to).map(resolve);
+            if (Array.isArray(args.ids)) args.ids = args.ids.map((id: any) => resolve(String(id)));
+
+            switch (cmd.command as UICommandName) {
+                case 'create_node': {
+                    // Check connections first so a failed command doesn't leave the node behind
+                    const targets: string[] = args.connect_to || [];
+                    const missing = targets.find(target => !findNode(target));
+                    if (missing) throw new Error(`node "${missing}" not found`);
+
+                    const shift = (nodes.length % 5) * 20;
+                    const maxZ = nodes.length > 0 ? Math.max(...nodes.map(n => n.zIndex)) : 0;
+                    const type: NodeType = args.type || (args.files ? 'code' : 'text');
+                    const files = args.files ? toFiles(args.files) : (type === 'code' ? {} : undefined);
+                    const size = { ...DEFAULT_SIZE, ...pickGeometry({ width: args.width, height: args.height }) };
+
+                    const node: CanvasNode = {
+                        id: newNodeId(),
+                        type,
+                        x: typeof args.x === 'number' ? args.x : context.origin.x - size.width / 2 + shift,
+                        y: typeof args.y === 'number' ? args.y : context.origin.y - size.height / 2 + shift,
+                        width: size.width,
+                        height: size.height,
+                        title: args.title || 'New Node',
+                        content: args.content || '',
+                        files,
+                        activeFile: args.activeFile || (files ? Object.keys(files)[0] : undefined),
+                        // Notebooks start empty; agents add cells with `### CELL:` sections
+                        cells: type === 'notebook' ? [] : undefined,
+                        language: type === 'notebook' ? args.language || 'python' : args.language,
+                        zIndex: maxZ + 1
+                    };
+                    nodes = [...nodes, node];
+                    activeNodeId = node.id;
+                    result.nodeId = node.id;
+                    if (args.ref) {
+                        refs.set(args.ref, node.id);
+                        result.ref = args.ref;
+                    }
+
+                    if (targets.length > 0) result.edgeIds = targets.map(target => addEdge(target, node.id));
+                    break;
+                }
+
+                case 'update_node': {
+                    const existing = findNode(args.id);
+                    if (!existing) throw new Error(`node "${args.id}" not found`);
+                    const updates: Partial<CanvasNode> = { ...pickGeometry(args) };
+                    (['title', 'content', 'language', 'activeFile'] as const).forEach(k => {
+                        if (typeof args[k] === 'string') updates[k] = args[k];
+                    });
+                    if (args.files) updates.files = toFiles(args.files, existing.files);
+                    const revised = changesContent(existing, updates) ? recordRevision(existing, context.author || AgentId.NEST) : existing;
+                    nodes = nodes.map(n => n.id === args.id ? { ...revised, ...updates } : n);
+                    result.nodeId = args.id;
+                    break;
+                }
+
+                case 'delete_node': {
+                    if (!findNode(args.id)) throw new Error(`node "${args.id}" not found`);
+                    const attached = edges.filter(e => e.fromNode === args.id || e.toNode === args.id);
+                    nodes = nodes.filter(n => n.id !== args.id);
+                    edges = edges.filter(e => !attached.includes(e));
+                    if (activeNodeId === args.id) activeNodeId = null;
+                    result.nodeId = args.id;
+                    if (attached.length > 0) result.edgeIds = attached.map(e => e.id);
+                    break;
+                }
+
+                case 'clear':
+                    nodes = [];
+                    edges = [];
+                    activeNodeId = null;
+                    break;
+
+                case 'connect':
+                    result.edgeIds = [addEdge(args.from, args.to, args.from_side, args.to_side)];
+                    break;
+
+                case 'disconnect': {
+                    const removed = args.id
+                        ? edges.filter(e => e.id === args.id)
+                        : edges.filter(e => (e.fromNode === args.from && e.toNode === args.to) || (e.fromNode === args.to && e.toNode === args.from));
+                    if (removed.length === 0) throw new Error('no matching edge');
+                    edges = edges.filter(e => !removed.includes(e));
+                    result.edgeIds = removed.map(e => e.id);
+                    break;
+                }
+
+                case 'move': {
+                    const node = findNode(args.id);
+                    if (!node) throw new Error(`node "${args.id}" not found`);
+                    const x = typeof args.x === 'number' ? args.x : node.x + (args.dx || 0);
+                    const y = typeof args.y === 'number' ? args.y : node.y + (args.dy || 0);
+                    nodes = nodes.map(n => n.id === args.id ? { ...n, x, y } : n);
+                    result.nodeId = args.id;
+                    break;
+                }
+
+                case 'arrange': {
+                    const ids: string[] = args.ids || nodes.map(n => n.id);
+                    const targets = ids.map(findNode).filter((n): n is CanvasNode => !!n);
+                    if (targets.length === 0) throw new Error('no nodes to arrange');
+                    const spacing = args.spacing ?? DEFAULT_SPACING;
+                    const layout = args.layout || 'grid';
+                    const columns = layout === 'row' ? targets.length : layout === 'column' ? 1 : Math.ceil(Math.sqrt(targets.length));
+
+                    // Lay out from the current top-left corner of the group
+                    let cursorX = Math.min(...targets.map(n => n.x));
+                    let cursorY = Math.min(...targets.map(n => n.y));
+                    const startX = cursorX;
+                    let rowHeight = 0;
+                    const positions = new Map<string, { x: number; y: number }>();
+                    targets.forEach((n, i) => {
+                        if (i > 0 && i % columns === 0) {
+                            cursorX = startX;
+                            cursorY += rowHeight + spacing;
+                            rowHeight = 0;
+                        }
+                        positions.set(n.id, { x: cursorX, y: cursorY });
+                        cursorX += n.width + spacing;
+                        rowHeight = Math.max(rowHeight, n.height);
+                    });
+                    nodes = nodes.map(n => positions.has(n.id) ? { ...n, ...positions.get(n.id)! } : n);
+                    break;
+                }
+
+                case 'focus_node':
+                    if (!findNode(args.id)) throw new Error(`node "${args.id}" not found`);
+                    effects.focus = { nodeId: args.id, zoom: args.zoom };
+                    activeNodeId = args.id;
+                    result.nodeId = args.id;
+                    break;
+
+                case 'select':
+                    if (args.id && !findNode(args.id)) throw new Error(`node "${args.id}" not found`);
+                    activeNodeId = args.id || null;
+                    result.nodeId = args.id;
+                    break;
+
+                case 'set_workspace':
+                    if (!context.workspaceIds.includes(args.id)) throw new Error(`workspace "${args.id}" not found`);
+                    effects.switchWorkspaceId = args.id;
+                    break;
+
+                case 'rename_workspace':
+                    if (args.id && !context.workspaceIds.includes(args.id)) throw new Error(`workspace "${args.id}" not found`);
+                    effects.renameWorkspace = { id: args.id, name: args.name.trim() || 'Untitled' };
+                    break;
+            }
+            results.push(result);
+        } catch (e: any) {
+            results.push({ index, command: commandName, commandId, ok: false, error: e.message });
+        }
+    });
+
+    return {
+        state: { nodes, edges, activeNodeId },
+        effects,
+        results,
+        changed: nodes !== snapshot.nodes || edges !== snapshot.edges
+    };
+};
@@ -41,18 +41,43 @@ export interface Message {
   thoughtProcess?: string;
 }
 
+// Background Agent Tasks
+export type JobStatus = 'queued' | 'routing' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  prompt: string;
+  status: JobStatus;
+  message: string; // Human-readable progress line ("Writing index.html...")
+  agentId?: AgentId;
+  progress?: number; // 0..1 when known
+  targetNodeId?: string;
+  logMessageId?: string; // Chat message that tracks this task
+  error?: string;
+  queuedBehind?: number; // Tasks/requests ahead of this one while it waits
+  waitMs?: number; // Estimated time until its next request starts (quota or queue)
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
 export interface ImageConfig {
   size: '1K' | '2K' | '4K';
   aspectRatio: '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+  count?: number; // Variants to generate; more than one opens the pick-one gallery
 }
 
 export interface VideoConfig {
   aspectRatio: '16:9' | '9:16';
   resolution: '720p' | '1080p';
+  durationSeconds?: 4 | 6 | 8;
+  negativePrompt?: string;
+  startFrameNodeId?: string; // Image node used as the first frame
+  endFrameNodeId?: string; // Image node the clip should end on
 }
 
 // Infinite Canvas Types
-export type NodeType = 'text' | 'code' | 'image' | 'video' | 'website';
+export type NodeType = 'text' | 'code' | 'image' | 'video' | 'website' | 'notebook';
 
 export interface CanvasFile {
   name: string;
@@ -71,12 +96,107 @@ export interface CanvasNode {
     content: string; // Fallback or main content
     files?: Record<string, CanvasFile>; // Multi-file support
     activeFile?: string; // Currently selected file in editor
+    folders?: string[]; // Empty folders in the file tree (others are implied by file paths)
     language?: string; // Fallback language
     isSelected?: boolean;
     zIndex: number;
     // Cloud Sync
     cloudId?: number; // ID of the file entry in the cloud
     cloudUrl?: string; // Shareable link if generated
+    // Set when an agent generation targeting this node was stopped before finishing
+    generationStatus?: 'cancelled';
+    // Image variants waiting for the user to pick one (gallery state); `content` keeps the previous image
+    candidates?: string[];
+    generationHistory?: GenerationRecord[];
+    // Video render still running on the provider; persisted so polling resumes after a reload
+    videoOperation?: VideoOperation;
+    // Earlier versions replaced by edits, oldest first
+    revisions?: NodeRevision[];
+    // Code changes an agent proposed as edits, waiting for the user to accept or reject them
+    pendingEdit?: PendingEdit;
+    // Opt-in loop that sends preview runtime errors back to CodeNest (code nodes)
+    autoFix?: AutoFixState;
+    // Notebook nodes: ordered cells; `language` is the kernel ('python' or 'javascript')
+    cells?: NotebookCell[];
+}
+
+/**
+ * Output of a script run or notebook cell. Errors point at a line when the runtime could tell.
+ */
+export type RunOutput =
+    | { type: 'stream'; name: 'stdout' | 'stderr'; text: string }
+    | { type: 'result'; text: string } // A displayed value without a richer form (Python: the last expression)
+    | { type: 'table'; columns: string[]; rows: string[][]; truncated?: boolean }
+    | { type: 'image'; url: string } // Data URL
+    | { type: 'error'; message: string; source?: { file: string; line: number; column?: number } };
+
+export interface NotebookCell {
+    id: string;
+    type: 'markdown' | 'code';
+    source: string;
+    outputs?: RunOutput[]; // Code cells: outputs of the last run, saved with the workspace
+    execution?: {
+        status: 'running' | 'ok' | 'error' | 'stopped';
+        count?: number; // Execution counter shown as [n]
+        duration?: number;
+    };
+}
+
+/**
+ * A node's state before a change, and who made that change (the user or an agent) and why.
+ */
+export interface NodeRevision {
+    id: string;
+    timestamp: number;
+    author: 'user' | AgentId;
+    prompt?: string;
+    content: string;
+    files?: Record<string, CanvasFile>;
+    cells?: NotebookCell[];
+}
+
+/**
+ * Auto-fix settings and progress. `attempts` counts fix requests since the last clean preview run.
+ */
+export interface AutoFixState {
+    enabled: boolean;
+    maxAttempts: number;
+    attempts: number;
+    status?: 'fixing' | 'fixed' | 'gave-up';
+}
+
+/**
+ * The full file set an agent's edits would produce; the node's files are untouched until accepted.
+ */
+export interface PendingEdit {
+    files: Record<string, CanvasFile>;
+    base?: Record<string, CanvasFile>; // The node's files the proposal was made against
+    changed: string[];
+    author: AgentId;
+    prompt: string;
+    timestamp: number;
+}
+
+/**
+ * One step in a media node's generation history: a batch of variants, then what the user did with it.
+ */
+export interface GenerationRecord {
+    timestamp: number;
+    action: 'generate' | 'promote' | 'spawn' | 'discard' | 'edit';
+    prompt?: string;
+    candidates?: number; // Batch size
+    chosen?: number; // Index of the promoted candidate
+    spawnedNodeIds?: string[];
+}
+
+/**
+ * A long-running video render, identified by the provider's operation name.
+ */
+export interface VideoOperation {
+    provider: string; // Provider id that started it
+    name: string;
+    startedAt: number;
+    meta?: Record<string, any>; // Whatever the provider needs to poll and record usage (model, duration, ...)
 }
 
 export interface CanvasState {
@@ -112,6 +232,32 @@ export interface CanvasEdge {
     toSide: HandleSide;
 }
 
+export interface UsageTotals {
+    calls: number;
+    promptTokens: number;
+    outputTokens: number;
+    thinkingTokens: number;
+    images: number;
+    videos: number;
+    cost: number; // Estimated USD
+}
+
+/**
+ * Accumulated AI usage of a workspace (see services/ai/usage.ts).
+ */
+export interface WorkspaceUsage {
+    totals: UsageTotals;
+    byAgent: Record<string, UsageTotals>;
+    byModel: Record<string, UsageTotals>;
+    byDay: Record<string, UsageTotals>; // Local date, YYYY-MM-DD
+    fallbacks: number; // Calls served by a cheaper fallback model (e.g. Pro -> Flash)
+}
+
+export interface WorkspaceBudget {
+    limit?: number; // Soft limit in USD; exceeding it asks for confirmation
+    warnExpensive: boolean; // Confirm before Veo / 4K image calls
+}
+
 export interface Workspace {
     id: string;
     name: string;
@@ -120,4 +266,7 @@ export interface Workspace {
     messages: Message[];
     lastModified: number;
     cloudId?: number; // Folder ID in cloud storage
+    sessionEpoch?: number; // Bumped when the chat is cleared so the agent starts a fresh conversation
+    usage?: WorkspaceUsage;
+    budget?: WorkspaceBudget;
 }
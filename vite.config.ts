@@ -13,7 +13,17 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.WEAVER_API_URL': JSON.stringify(env.WEAVER_API_URL),
+        // AI_PROVIDER=mock runs fully offline (services/ai/providers/mock.ts); weaver | google-genai pick the default
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.MOCK_AI_DELAY': JSON.stringify(env.MOCK_AI_DELAY),
+        'process.env.MOCK_AI_TIMEOUT': JSON.stringify(env.MOCK_AI_TIMEOUT),
+        'process.env.MOCK_AI_FAIL_EVERY': JSON.stringify(env.MOCK_AI_FAIL_EVERY),
+        // CDN for bare imports in code previews (services/previewModules.ts); defaults to esm.sh
+        'process.env.PREVIEW_CDN': JSON.stringify(env.PREVIEW_CDN),
+        // Pyodide build for Python runs (services/codeRunner.ts); defaults to jsDelivr
+        'process.env.PYODIDE_URL': JSON.stringify(env.PYODIDE_URL)
       },
       resolve: {
         alias: {